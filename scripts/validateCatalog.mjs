@@ -1,32 +1,19 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { runnerImport } from 'vite';
 
 const ROOT = process.cwd();
 const CATALOG_DIR = path.join(ROOT, 'src', 'catalog');
 
-const ALLOWED_CATEGORIES = new Set(['Benchmark', 'Lift', 'Monostructural', 'Skill', 'Custom']);
-const ALLOWED_SUBCATEGORIES = new Set([
-  'Girls',
-  'Heroes',
-  'Open',
-  'Games',
-  'Notable',
-  'Movement',
-  'Equipment',
-  'Test',
-  'Other',
-]);
-const ALLOWED_SCORE_TYPES = new Set([
-  'Time',
-  'Load',
-  'Reps',
-  'Rounds+Reps',
-  'Distance',
-  'Calories',
-  'RepsInTime',
-  'TimeForReps',
-]);
-const ALLOWED_METRICS = new Set(['distance', 'calories', 'distance+calories']);
+/**
+ * The rules live in a typed module shared with the app (catalog packs,
+ * custom items, imports); Vite loads it here without a build step.
+ */
+const { module: rules } = await runnerImport(path.join(ROOT, 'src', 'utils', 'catalogValidation.ts'), {
+  root: ROOT,
+  configFile: false,
+  logLevel: 'silent',
+});
 
 /**
  * We keep the list explicit to avoid accidentally bundling legacy files.
@@ -42,94 +29,81 @@ const FILES = [
   'skills.json',
 ];
 
+const REDIRECTS_FILE = 'redirects.json';
+const MOVEMENTS_FILE = 'movements.json';
+const DIVISIONS_FILE = 'divisionStandards.json';
+const TRANSLATION_FILES = ['i18n/es.json', 'i18n/de.json'];
+
 const readJson = async (fileName) => {
-  const fullPath = path.join(CATALOG_DIR, fileName);
-  const raw = await fs.readFile(fullPath, 'utf8');
+  const raw = await fs.readFile(path.join(CATALOG_DIR, fileName), 'utf8');
   try {
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) {
-      throw new Error('Expected a JSON array');
-    }
-    return parsed;
+    return JSON.parse(raw);
   } catch (e) {
     throw new Error(`${fileName}: ${e instanceof Error ? e.message : String(e)}`);
   }
 };
 
+const readJsonArray = async (fileName) => {
+  const parsed = await readJson(fileName);
+  if (!Array.isArray(parsed)) throw new Error(`${fileName}: Expected a JSON array`);
+  return parsed;
+};
+
+/**
+ * Read a file for a check that reports its own problems; an unreadable file
+ * is one more problem rather than a crash.
+ */
+const readOrReport = async (fileName, errors) => {
+  try {
+    return await readJson(fileName);
+  } catch (e) {
+    errors.push(`${e instanceof Error ? e.message : String(e)} [unreadable-file]`);
+    return undefined;
+  }
+};
+
+const report = (errors, issues, prefix) => {
+  for (const issue of issues) errors.push(`${rules.formatCatalogIssue(issue, prefix)} [${issue.code}]`);
+};
+
 const main = async () => {
   const errors = [];
   const idToSource = new Map();
+  const itemsById = new Map();
   let total = 0;
 
+  const movements = await readJsonArray(MOVEMENTS_FILE);
+  const movementIds = new Set(movements.map((movement) => movement?.id).filter((id) => typeof id === 'string'));
+
   for (const fileName of FILES) {
-    const items = await readJson(fileName);
+    const items = await readJsonArray(fileName);
     total += items.length;
+    report(errors, rules.validateCatalogItems(items, { source: 'catalog', movementIds }), fileName);
 
+    // Ids must also be unique across files.
     for (const [idx, item] of items.entries()) {
-      const prefix = `${fileName}[${idx}]`;
-
-      if (!item || typeof item !== 'object') {
-        errors.push(`${prefix}: item must be an object`);
-        continue;
-      }
-
-      const { id, name, category, subCategory, scoreType, metrics, scoreTypeIds, timeCap, targetReps } = item;
-
-      if (!id || typeof id !== 'string') errors.push(`${prefix}: missing/invalid id`);
-      if (!name || typeof name !== 'string') errors.push(`${prefix}: missing/invalid name`);
-      if (!category || typeof category !== 'string' || !ALLOWED_CATEGORIES.has(category)) {
-        errors.push(`${prefix}: invalid category "${category}"`);
-      }
-      if (!scoreType || typeof scoreType !== 'string' || !ALLOWED_SCORE_TYPES.has(scoreType)) {
-        errors.push(`${prefix}: invalid scoreType "${scoreType}"`);
-      }
-
-      if (subCategory !== undefined) {
-        if (typeof subCategory !== 'string' || !ALLOWED_SUBCATEGORIES.has(subCategory)) {
-          errors.push(`${prefix}: invalid subCategory "${subCategory}"`);
-        }
+      if (typeof item?.id !== 'string') continue;
+      const existing = idToSource.get(item.id);
+      if (!existing) {
+        idToSource.set(item.id, `${fileName}[${idx}]`);
+        itemsById.set(item.id, item);
+      } else if (!existing.startsWith(`${fileName}[`)) {
+        errors.push(`${fileName}[${idx}].id: duplicate id "${item.id}" (already in ${existing}) [duplicate-id]`);
       }
+    }
+  }
 
-      if (scoreTypeIds !== undefined) {
-        if (!Array.isArray(scoreTypeIds) || scoreTypeIds.length === 0) {
-          errors.push(`${prefix}: scoreTypeIds must be a non-empty array`);
-        } else {
-          for (const st of scoreTypeIds) {
-            if (typeof st !== 'string' || !ALLOWED_SCORE_TYPES.has(st)) {
-              errors.push(`${prefix}: invalid scoreTypeIds entry "${st}"`);
-            }
-          }
-          if (typeof scoreType === 'string' && !scoreTypeIds.includes(scoreType)) {
-            errors.push(`${prefix}: scoreType "${scoreType}" must be included in scoreTypeIds`);
-          }
-        }
-      }
+  report(errors, rules.validateMovementLibrary(movements, itemsById), MOVEMENTS_FILE);
 
-      if (timeCap !== undefined && (typeof timeCap !== 'number' || timeCap <= 0)) {
-        errors.push(`${prefix}: timeCap must be a positive number (seconds)`);
-      }
-      if (targetReps !== undefined && (typeof targetReps !== 'number' || targetReps <= 0)) {
-        errors.push(`${prefix}: targetReps must be a positive number`);
-      }
+  const redirectMap = await readOrReport(REDIRECTS_FILE, errors);
+  if (redirectMap !== undefined) report(errors, rules.validateCatalogRedirects(redirectMap, itemsById), REDIRECTS_FILE);
 
-      if (metrics !== undefined) {
-        if (typeof metrics !== 'string' || !ALLOWED_METRICS.has(metrics)) {
-          errors.push(`${prefix}: invalid metrics "${metrics}"`);
-        }
-        if (category !== 'Monostructural') {
-          errors.push(`${prefix}: metrics is only valid for category "Monostructural"`);
-        }
-      }
+  const divisionGuide = await readOrReport(DIVISIONS_FILE, errors);
+  if (divisionGuide !== undefined) report(errors, rules.validateDivisionGuide(divisionGuide), DIVISIONS_FILE);
 
-      if (typeof id === 'string') {
-        const existing = idToSource.get(id);
-        if (existing) {
-          errors.push(`${prefix}: duplicate id "${id}" (already in ${existing})`);
-        } else {
-          idToSource.set(id, prefix);
-        }
-      }
-    }
+  for (const fileName of TRANSLATION_FILES) {
+    const translations = await readOrReport(fileName, errors);
+    if (translations !== undefined) report(errors, rules.validateCatalogTranslations(translations, itemsById), fileName);
   }
 
   if (errors.length > 0) {
@@ -138,8 +112,8 @@ const main = async () => {
     process.exit(1);
   }
 
-  console.log(`Catalog validation passed. Files=${FILES.length}, Items=${total}, UniqueIds=${idToSource.size}`);
+  const redirectCount = Array.isArray(redirectMap?.redirects) ? redirectMap.redirects.length : 0;
+  console.log(`Catalog validation passed. Files=${FILES.length}, Items=${total}, UniqueIds=${idToSource.size}, Movements=${movements.length}, Redirects=${redirectCount}`);
 };
 
 await main();
-
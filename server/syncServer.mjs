@@ -0,0 +1,249 @@
+import http from 'node:http';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Reference sync server (protocol: docs/SYNC_PROTOCOL.md).
+ *
+ * Plain Node, no dependencies. Each athlete's data is one JSON document in
+ * DATA_DIR; every accepted change bumps the document's sequence number, and
+ * pulls return what changed after the caller's cursor.
+ *
+ *   PORT=8787 DATA_DIR=./sync-data SYNC_TOKEN=secret node server/syncServer.mjs
+ */
+
+const PORT = Number(process.env.PORT ?? 8787);
+const HOST = process.env.HOST ?? '0.0.0.0';
+const DATA_DIR = path.resolve(process.env.DATA_DIR ?? 'sync-data');
+const TOKEN = process.env.SYNC_TOKEN || null;
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const TABLES = ['favorites', 'customItems', 'prLogs', 'goals', 'dailyCheckIns'];
+const ATHLETE_ID = /^[A-Za-z0-9_-]{1,64}$/;
+const CHANGES_ROUTE = /^\/v1\/athletes\/([^/]+)\/changes$/;
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STORAGE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * { version, athleteId, seq, tables: { [table]: { [id]: entry } } }
+ * where entry is { seq, updatedAt, record } or { seq, updatedAt, deleted: true }.
+ */
+const emptyDocument = (athleteId) => ({
+  version: 1,
+  athleteId,
+  seq: 0,
+  tables: Object.fromEntries(TABLES.map((table) => [table, {}])),
+});
+
+const documentPath = (athleteId) => path.join(DATA_DIR, `${athleteId}.json`);
+
+const readDocument = async (athleteId) => {
+  try {
+    const document = JSON.parse(await fs.readFile(documentPath(athleteId), 'utf8'));
+    for (const table of TABLES) document.tables[table] ??= {};
+    return document;
+  } catch (error) {
+    if (error.code === 'ENOENT') return emptyDocument(athleteId);
+    throw error;
+  }
+};
+
+/** Write to a temp file and rename, so a crash never leaves half a document */
+const writeDocument = async (document) => {
+  const target = documentPath(document.athleteId);
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(document));
+  await fs.rename(temp, target);
+};
+
+/** Pushes for one athlete run one at a time */
+const queues = new Map();
+
+const withDocumentLock = (athleteId, task) => {
+  const previous = queues.get(athleteId) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(task);
+  queues.set(athleteId, next);
+  next.finally(() => {
+    if (queues.get(athleteId) === next) queues.delete(athleteId);
+  }).catch(() => {});
+  return next;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHANGE FEED
+// ═══════════════════════════════════════════════════════════════════════════
+
+const changesSince = (document, since) => {
+  const changes = {};
+  for (const table of TABLES) {
+    const entries = Object.entries(document.tables[table])
+      .filter(([, entry]) => entry.seq > since)
+      .sort(([, a], [, b]) => a.seq - b.seq);
+    changes[table] = {
+      records: entries.filter(([, entry]) => !entry.deleted).map(([, entry]) => entry.record),
+      tombstones: entries
+        .filter(([, entry]) => entry.deleted)
+        .map(([id, entry]) => ({ id, deletedAt: entry.updatedAt })),
+    };
+  }
+  return changes;
+};
+
+const isStamp = (value) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isId = (value) => typeof value === 'string' && value.length > 0;
+
+const validatePush = (body) => {
+  if (!body || typeof body !== 'object' || !body.changes || typeof body.changes !== 'object') {
+    throw new HttpError(400, 'Body must be { deviceId, changes }');
+  }
+  for (const [table, changes] of Object.entries(body.changes)) {
+    if (!TABLES.includes(table)) throw new HttpError(400, `Unknown table "${table}"`);
+    const { records = [], tombstones = [] } = changes ?? {};
+    if (!Array.isArray(records) || !Array.isArray(tombstones)) {
+      throw new HttpError(400, `${table}: records and tombstones must be arrays`);
+    }
+    for (const record of records) {
+      if (!record || !isId(record.id) || !isStamp(record.updatedAt)) {
+        throw new HttpError(400, `${table}: every record needs an id and a numeric updatedAt`);
+      }
+    }
+    for (const tombstone of tombstones) {
+      if (!tombstone || !isId(tombstone.id) || !isStamp(tombstone.deletedAt)) {
+        throw new HttpError(400, `${table}: every tombstone needs an id and a numeric deletedAt`);
+      }
+    }
+  }
+};
+
+/**
+ * Last-writer-wins: an incoming version replaces the stored one only when
+ * strictly newer, so replays and echoes of our own pulls change nothing.
+ */
+const applyPush = (document, changes) => {
+  let applied = 0;
+  let ignored = 0;
+
+  const accept = (table, id, entry) => {
+    const stored = document.tables[table][id];
+    if (stored && stored.updatedAt >= entry.updatedAt) {
+      ignored++;
+      return;
+    }
+    document.seq += 1;
+    document.tables[table][id] = { ...entry, seq: document.seq };
+    applied++;
+  };
+
+  for (const table of TABLES) {
+    const { records = [], tombstones = [] } = changes[table] ?? {};
+    for (const record of records) {
+      accept(table, record.id, { updatedAt: record.updatedAt, record });
+    }
+    for (const tombstone of tombstones) {
+      accept(table, tombstone.id, { updatedAt: tombstone.deletedAt, deleted: true });
+    }
+  }
+  return { applied, ignored };
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HTTP
+// ═══════════════════════════════════════════════════════════════════════════
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Max-Age': '86400',
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = async (req) => {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Body is not valid JSON');
+  }
+};
+
+const handle = async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url, 'http://localhost');
+  if (url.pathname === '/v1/health' && req.method === 'GET') {
+    send(res, 200, { ok: true });
+    return;
+  }
+
+  const match = url.pathname.match(CHANGES_ROUTE);
+  if (!match) throw new HttpError(404, 'Not found');
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    throw new HttpError(401, 'Missing or wrong token');
+  }
+
+  const athleteId = decodeURIComponent(match[1]);
+  if (!ATHLETE_ID.test(athleteId)) throw new HttpError(400, 'Invalid athlete id');
+
+  if (req.method === 'GET') {
+    const since = Number(url.searchParams.get('since') ?? 0);
+    if (!Number.isInteger(since) || since < 0) throw new HttpError(400, '"since" must be a non-negative integer');
+    const document = await readDocument(athleteId);
+    send(res, 200, { cursor: document.seq, changes: changesSince(document, since) });
+    return;
+  }
+
+  if (req.method === 'POST') {
+    const body = await readBody(req);
+    validatePush(body);
+    const result = await withDocumentLock(athleteId, async () => {
+      const document = await readDocument(athleteId);
+      const counts = applyPush(document, body.changes);
+      if (counts.applied > 0) await writeDocument(document);
+      return { cursor: document.seq, ...counts };
+    });
+    console.log(`[Sync] ${athleteId} ← ${body.deviceId ?? 'unknown device'}: ${result.applied} applied, ${result.ignored} ignored`);
+    send(res, 200, result);
+    return;
+  }
+
+  throw new HttpError(405, 'Method not allowed');
+};
+
+await fs.mkdir(DATA_DIR, { recursive: true });
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    if (!(error instanceof HttpError)) console.error('[Sync] Request failed:', error);
+    const status = error instanceof HttpError ? error.status : 500;
+    send(res, status, { error: status === 500 ? 'Internal server error' : error.message });
+  });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`[Sync] Listening on http://${HOST}:${PORT} · data in ${DATA_DIR}${TOKEN ? ' · token required' : ''}`);
+});
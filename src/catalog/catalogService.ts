@@ -1,68 +1,248 @@
-import type { CatalogItem } from '../types/catalog';
+import type { CatalogItem, CatalogRedirect, CatalogRedirectMap, Category, SubCategory } from '../types/catalog';
+import type { CatalogItemData } from '../types/catalogPack';
+import type { Movement } from '../types/movement';
+import type { DivisionGuide } from '../types/workout';
+import type { CatalogTranslations, Locale } from '../types/i18n';
+import { searchCatalog } from '../utils/search';
 import girls from './benchmarks_girls.json';
 import heroes from './benchmarks_heroes.json';
 import notable from './benchmarks_notable.json';
-import open from './benchmarks_open.json';
-import games from './benchmarks_games.json';
 import lifts from './lifts.json';
 import monostructural from './monostructural.json';
 import skills from './skills.json';
+import redirectMap from './redirects.json';
+import movements from './movements.json';
+import divisionStandards from './divisionStandards.json';
 
 /**
  * Catalog Service - Abstraction layer for catalog data access
  * 
- * Currently loads from static JSON file.
+ * Currently loads from static JSON files, indexed once: items by id, by
+ * category, subCategory and tag, and by name and alias. Lookups are
+ * constant-time. The large, rarely browsed Open and Games files are split
+ * out of the main bundle and loaded by `loadBuiltinCatalog()` once something
+ * needs them (browsing the catalog, an id nothing else has, data on them);
+ * until then the index holds the other files.
+ * Names and descriptions can be shown in another language with
+ * `setCatalogLocale()`; ids, aliases and the English name stay searchable.
  * When backend is added, replace with API calls.
  */
 
-// Type for the raw JSON data (without runtime fields)
-type CatalogItemData = Omit<CatalogItem, 'isBuiltin' | 'isFavorite' | 'createdAt'>;
+interface CatalogSource {
+  /** Position in catalog order, which the index keeps regardless of load order */
+  items?: CatalogItemData[];
+  load?: () => Promise<CatalogItemData[]>;
+}
+
+const SOURCES: CatalogSource[] = [
+  { items: girls as CatalogItemData[] },
+  { items: heroes as CatalogItemData[] },
+  { items: notable as CatalogItemData[] },
+  { load: () => import('./benchmarks_open.json').then((file) => file.default as CatalogItemData[]) },
+  { load: () => import('./benchmarks_games.json').then((file) => file.default as CatalogItemData[]) },
+  { items: lifts as CatalogItemData[] },
+  { items: monostructural as CatalogItemData[] },
+  { items: skills as CatalogItemData[] },
+];
+
+/** Translation files by locale, loaded on first use; English is the catalog itself */
+const TRANSLATIONS: Record<Exclude<Locale, 'en'>, () => Promise<CatalogTranslations>> = {
+  es: () => import('./i18n/es.json').then((file) => file.default as CatalogTranslations),
+  de: () => import('./i18n/de.json').then((file) => file.default as CatalogTranslations),
+};
+
+let translations: CatalogTranslations = {};
 
 /**
- * Get all builtin catalog items
- * Future: fetch('/api/catalog')
+ * An item with its translated name and description. The English name
+ * becomes an alias so lookups and search still find it.
+ */
+const localize = (item: CatalogItem): CatalogItem => {
+  const translation = translations[item.id];
+  if (!translation) return item;
+  const name = translation.name ?? item.name;
+  return {
+    ...item,
+    name,
+    description: translation.description ?? item.description,
+    aliases: name === item.name ? item.aliases : [...(item.aliases ?? []), item.name],
+  };
+};
+
+interface CatalogIndex {
+  items: readonly CatalogItem[];
+  byId: ReadonlyMap<string, CatalogItem>;
+  byCategory: ReadonlyMap<Category, readonly CatalogItem[]>;
+  bySubCategory: ReadonlyMap<SubCategory, readonly CatalogItem[]>;
+  /** Lowercased tag → items */
+  byTag: ReadonlyMap<string, readonly CatalogItem[]>;
+  /** Normalized name or alias → item (names win over aliases, then first wins) */
+  byName: ReadonlyMap<string, CatalogItem>;
+}
+
+/**
+ * Normalize a display name for exact-match lookups: case-, whitespace- and
+ * punctuation-insensitive ("Clean & Jerk" ≡ "clean  &jerk").
  */
-export const getBuiltinCatalog = (): CatalogItem[] => {
-  const merged = [
-    ...(girls as CatalogItemData[]),
-    ...(heroes as CatalogItemData[]),
-    ...(notable as CatalogItemData[]),
-    ...(open as CatalogItemData[]),
-    ...(games as CatalogItemData[]),
-    ...(lifts as CatalogItemData[]),
-    ...(monostructural as CatalogItemData[]),
-    ...(skills as CatalogItemData[]),
-  ];
-
-  // Deduplicate by ID (first wins) to prevent accidental duplicates across files.
-  const byId = new Map<string, CatalogItemData>();
-  for (const item of merged) {
-    if (!byId.has(item.id)) byId.set(item.id, item);
+export const normalizeName = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9&+]+/g, '');
+
+const addTo = <K, V>(map: Map<K, V[]>, key: K, value: V) => {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+};
+
+const buildIndex = (): CatalogIndex => {
+  const byId = new Map<string, CatalogItem>();
+  const byCategory = new Map<Category, CatalogItem[]>();
+  const bySubCategory = new Map<SubCategory, CatalogItem[]>();
+  const byTag = new Map<string, CatalogItem[]>();
+  const byName = new Map<string, CatalogItem>();
+  const aliases: [string, CatalogItem][] = [];
+
+  for (const source of SOURCES) {
+    for (const data of source.items ?? []) {
+      // Deduplicate by ID (first wins) to prevent accidental duplicates across files.
+      if (byId.has(data.id)) continue;
+      const item = localize({
+        ...data,
+        isBuiltin: true,
+        isFavorite: false,
+        createdAt: 0, // Builtin items don't have a creation date
+      });
+      byId.set(item.id, item);
+      addTo(byCategory, item.category, item);
+      if (item.subCategory) addTo(bySubCategory, item.subCategory, item);
+      for (const tag of item.tags ?? []) addTo(byTag, tag.toLowerCase(), item);
+      const key = normalizeName(item.name);
+      if (key && !byName.has(key)) byName.set(key, item);
+      for (const alias of item.aliases ?? []) aliases.push([normalizeName(alias), item]);
+    }
+  }
+  for (const [key, item] of aliases) {
+    if (key && !byName.has(key)) byName.set(key, item);
   }
 
-  return [...byId.values()].map((item) => ({
-    ...item,
-    isBuiltin: true,
-    isFavorite: false,
-    createdAt: 0, // Builtin items don't have a creation date
-  }));
+  return { items: [...byId.values()], byId, byCategory, bySubCategory, byTag, byName };
+};
+
+let index = buildIndex();
+let loading: Promise<void> | null = null;
+
+/**
+ * Load the split-out catalog files and re-index. Safe to call repeatedly;
+ * every caller gets the same load.
+ */
+export const loadBuiltinCatalog = (): Promise<void> => {
+  loading ??= Promise.all(
+    SOURCES.map(async (source) => {
+      if (!source.items && source.load) source.items = await source.load();
+    })
+  ).then(
+    () => {
+      index = buildIndex();
+    },
+    (error) => {
+      // Let a later call retry (e.g. a chunk that failed to download offline)
+      loading = null;
+      throw error;
+    }
+  );
+  return loading;
+};
+
+let localeLoad: Promise<void> = Promise.resolve();
+
+/**
+ * Show builtin names and descriptions in `locale` (where translated) and
+ * re-index. Calls are applied in order, so the last one wins.
+ */
+export const setCatalogLocale = (locale: Locale): Promise<void> => {
+  localeLoad = localeLoad
+    .catch(() => undefined)
+    .then(() => (locale === 'en' ? {} : TRANSLATIONS[locale]()))
+    .then((loaded) => {
+      translations = loaded;
+      index = buildIndex();
+    });
+  return localeLoad;
+};
+
+/** Whether every builtin file is in the index */
+export const isBuiltinCatalogLoaded = (): boolean => SOURCES.every((source) => source.items !== undefined);
+
+/**
+ * Version of the builtin catalog. Renaming or merging a builtin id bumps it
+ * and adds a redirect (see src/catalog/SOURCES.md).
+ */
+export const CATALOG_VERSION: number = (redirectMap as CatalogRedirectMap).version;
+
+/**
+ * Redirects for builtin ids retired after `sinceVersion` (all of them by default)
+ */
+export const getCatalogRedirects = (sinceVersion: number = 0): CatalogRedirect[] => {
+  return (redirectMap as CatalogRedirectMap).redirects.filter((redirect) => redirect.since > sinceVersion);
 };
 
+/**
+ * Get all builtin catalog items, in catalog order. Shared — don't mutate.
+ * Future: fetch('/api/catalog')
+ */
+export const getBuiltinCatalog = (): readonly CatalogItem[] => index.items;
+
 /**
  * Get a builtin catalog item by ID
  * Future: fetch(`/api/catalog/${id}`)
  */
-export const getBuiltinCatalogItemById = (id: string): CatalogItem | undefined => {
-  return getBuiltinCatalog().find((item) => item.id === id);
-};
+export const getBuiltinCatalogItemById = (id: string): CatalogItem | undefined => index.byId.get(id);
+
+/**
+ * Builtin items in a category
+ */
+export const getBuiltinItemsByCategory = (category: Category): readonly CatalogItem[] =>
+  index.byCategory.get(category) ?? [];
+
+/**
+ * Builtin items in a subCategory
+ */
+export const getBuiltinItemsBySubCategory = (subCategory: SubCategory): readonly CatalogItem[] =>
+  index.bySubCategory.get(subCategory) ?? [];
+
+/**
+ * Builtin items with a tag (case-insensitive)
+ */
+export const getBuiltinItemsByTag = (tag: string): readonly CatalogItem[] =>
+  index.byTag.get(tag.toLowerCase()) ?? [];
+
+/**
+ * Builtin item by exact name or alias (see `normalizeName`), e.g. "C&J"
+ */
+export const findBuiltinItemByName = (name: string): CatalogItem | undefined =>
+  index.byName.get(normalizeName(name));
 
 /**
- * Search builtin catalog items by name
+ * Search builtin catalog items, best match first (see utils/search)
  * Future: fetch(`/api/catalog/search?q=${query}`)
  */
 export const searchBuiltinCatalog = (query: string): CatalogItem[] => {
-  const lowerQuery = query.toLowerCase();
-  return getBuiltinCatalog().filter((item) =>
-    item.name.toLowerCase().includes(lowerQuery)
-  );
+  return searchCatalog(getBuiltinCatalog(), query).map((result) => result.item);
 };
+
+/**
+ * Get the movement library
+ * Future: fetch('/api/movements')
+ */
+export const getMovements = (): Movement[] => movements as Movement[];
+
+const movementsById = new Map(getMovements().map((movement) => [movement.id, movement]));
+
+/**
+ * Get a movement by ID
+ */
+export const getMovementById = (id: string): Movement | undefined => movementsById.get(id);
+
+/**
+ * Get the division guide (age groups and how their loads derive from the open Rx)
+ */
+export const getDivisionGuide = (): DivisionGuide => divisionStandards as DivisionGuide;
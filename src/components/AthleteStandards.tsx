@@ -0,0 +1,72 @@
+import { UserRound } from 'lucide-react';
+import { formatAthleteLoad, formatDivision, getAthleteStandards } from '../utils/standards';
+import type { UnitPreferences } from '../types/catalog';
+import type { AthleteDivision, WorkoutDefinition } from '../types/workout';
+
+interface AthleteStandardsProps {
+  workout: WorkoutDefinition;
+  /** The athlete's division; null prompts them to set one */
+  athlete: AthleteDivision | null;
+  units: UnitPreferences;
+  /** Go to where the division is set; without it the prompt is plain text */
+  onSetDivision?: () => void;
+}
+
+/**
+ * AthleteStandards — "your Rx": the Rx and Scaled load of each loaded
+ * movement for the athlete's division, in their weight unit. Loads
+ * estimated from the open Rx are marked ≈.
+ */
+export const AthleteStandards = ({ workout, athlete, units, onSetDivision }: AthleteStandardsProps) => {
+  if (!workout.movements.some((movement) => movement.load)) return null;
+
+  if (!athlete) {
+    if (!onSetDivision) {
+      return (
+        <p className="flex items-center gap-2 text-xs text-[var(--color-text-muted)]">
+          <UserRound className="w-3.5 h-3.5 shrink-0" />
+          Set your division in Settings to see your Rx and scaled loads
+        </p>
+      );
+    }
+    return (
+      <button
+        onClick={onSetDivision}
+        className="flex items-center gap-2 text-xs text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors"
+      >
+        <UserRound className="w-3.5 h-3.5 shrink-0" />
+        <span className="underline decoration-dotted underline-offset-2">Set your division to see your Rx and scaled loads</span>
+      </button>
+    );
+  }
+
+  const standards = getAthleteStandards(workout, athlete);
+  const hasDerived = standards.some(({ rx, scaled }) => rx.derived || scaled.derived);
+
+  return (
+    <div className="border-l-2 border-[var(--color-primary)] pl-3 py-1">
+      <div className="label-eyebrow mb-1.5">Your standards · {formatDivision(athlete)}</div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-[var(--color-text-dim)]">
+            <th className="text-left font-normal pb-1" />
+            <th className="text-right font-normal pb-1 pl-3">RX</th>
+            <th className="text-right font-normal pb-1 pl-3">SCALED</th>
+          </tr>
+        </thead>
+        <tbody>
+          {standards.map(({ movement, rx, scaled }, idx) => (
+            <tr key={idx}>
+              <td className="text-[var(--color-text-muted)] py-0.5">{movement.name}</td>
+              <td className="text-right text-[var(--color-text)] py-0.5 pl-3 whitespace-nowrap">{formatAthleteLoad(rx, units)}</td>
+              <td className="text-right text-[var(--color-text-muted)] py-0.5 pl-3 whitespace-nowrap">{formatAthleteLoad(scaled, units)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {hasDerived && (
+        <p className="mt-1.5 text-[11px] text-[var(--color-text-dim)]">≈ estimated from the open Rx for your division</p>
+      )}
+    </div>
+  );
+};
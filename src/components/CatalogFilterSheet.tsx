@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { BottomSheet } from './BottomSheet';
+import { getScoreTypeName } from '../config/scoreTypes';
+import { countActiveFilters, toggleFilterValue } from '../utils/catalogFilters';
+import { EQUIPMENT_LABELS } from '../utils/movements';
+import type { CatalogFilters, FacetCounts, FacetOption, LogStatus } from '../types/filters';
+
+interface CatalogFilterSheetProps {
+  filters: CatalogFilters;
+  facets: FacetCounts;
+  /** Items the current filters show */
+  resultCount: number;
+  onChange: (updates: Partial<CatalogFilters>) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+/** Tags shown before "Show all" */
+const TAG_PREVIEW = 12;
+
+const LOG_STATUS_LABELS: Record<LogStatus, string> = {
+  logged: 'LOGGED',
+  never: 'NEVER ATTEMPTED',
+};
+
+const labelClass = 'block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-2';
+
+interface FacetChipsProps<T> {
+  label: string;
+  options: FacetOption<T>[];
+  isSelected: (value: T) => boolean;
+  format: (value: T) => string;
+  onToggle: (value: T) => void;
+}
+
+const FacetChips = <T,>({ label, options, isSelected, format, onToggle }: FacetChipsProps<T>) => {
+  if (options.length === 0) return null;
+  return (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <div className="flex flex-wrap gap-2">
+        {options.map(({ value, count }) => {
+          const selected = isSelected(value);
+          return (
+            <button
+              key={String(value)}
+              type="button"
+              onClick={() => onToggle(value)}
+              disabled={!selected && count === 0}
+              className={`px-3 py-1.5 font-display text-xs tracking-widest border transition-colors disabled:opacity-40 ${
+                selected
+                  ? 'border-[var(--color-primary)] text-[var(--color-primary)]'
+                  : 'border-[var(--color-border-strong)] text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+              }`}
+              aria-pressed={selected}
+            >
+              {format(value)} <span className="text-[var(--color-text-dim)]">{count}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * CatalogFilterSheet — the catalog's facets as chip groups. Each count is
+ * how many items that value would show alongside the other active filters.
+ */
+export const CatalogFilterSheet = ({ filters, facets, resultCount, onChange, onClear, onClose }: CatalogFilterSheetProps) => {
+  const [showAllTags, setShowAllTags] = useState(false);
+  const tags = showAllTags ? facets.tags : facets.tags.filter((option, idx) => idx < TAG_PREVIEW || filters.tags.includes(option.value));
+
+  return (
+    <BottomSheet title="Filters" onClose={onClose}>
+      <div className="space-y-5">
+        <FacetChips
+          label="FAVORITES"
+          options={facets.favoritesOnly}
+          isSelected={() => filters.favoritesOnly}
+          format={() => 'FAVORITES ONLY'}
+          onToggle={() => onChange({ favoritesOnly: !filters.favoritesOnly })}
+        />
+
+        <FacetChips
+          label="LOGS"
+          options={facets.logStatus}
+          isSelected={(value) => filters.logStatus === value}
+          format={(value) => LOG_STATUS_LABELS[value]}
+          onToggle={(value) => onChange({ logStatus: filters.logStatus === value ? null : value })}
+        />
+
+        <FacetChips
+          label="TYPE"
+          options={facets.subCategories}
+          isSelected={(value) => filters.subCategories.includes(value)}
+          format={(value) => value.toUpperCase()}
+          onToggle={(value) => onChange({ subCategories: toggleFilterValue(filters.subCategories, value) })}
+        />
+
+        <FacetChips
+          label="OPEN YEAR"
+          options={facets.openYears}
+          isSelected={(value) => filters.openYears.includes(value)}
+          format={String}
+          onToggle={(value) => onChange({ openYears: toggleFilterValue(filters.openYears, value) })}
+        />
+
+        <FacetChips
+          label="SCORED BY"
+          options={facets.scoreTypes}
+          isSelected={(value) => filters.scoreTypes.includes(value)}
+          format={(value) => getScoreTypeName(value).toLocaleUpperCase()}
+          onToggle={(value) => onChange({ scoreTypes: toggleFilterValue(filters.scoreTypes, value) })}
+        />
+
+        <FacetChips
+          label="EQUIPMENT"
+          options={facets.equipment}
+          isSelected={(value) => filters.equipment.includes(value)}
+          format={(value) => EQUIPMENT_LABELS[value].toUpperCase()}
+          onToggle={(value) => onChange({ equipment: toggleFilterValue(filters.equipment, value) })}
+        />
+
+        <div>
+          <FacetChips
+            label="TAGS"
+            options={tags}
+            isSelected={(value) => filters.tags.includes(value)}
+            format={(value) => value.toUpperCase()}
+            onToggle={(value) => onChange({ tags: toggleFilterValue(filters.tags, value) })}
+          />
+          {facets.tags.length > TAG_PREVIEW && (
+            <button
+              type="button"
+              onClick={() => setShowAllTags(!showAllTags)}
+              className="mt-2 text-xs text-[var(--color-text-muted)] hover:text-[var(--color-text)] underline underline-offset-2"
+            >
+              {showAllTags ? 'Show fewer' : `Show all ${facets.tags.length}`}
+            </button>
+          )}
+        </div>
+
+        <div className="flex gap-2 pt-2">
+          <button
+            type="button"
+            onClick={onClear}
+            disabled={countActiveFilters(filters) === 0}
+            className="flex-1 py-3 font-display text-sm tracking-widest border border-[var(--color-border-strong)] text-[var(--color-text-muted)] hover:text-[var(--color-text)] disabled:opacity-40 transition-colors"
+          >
+            CLEAR
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 py-3 font-display text-sm tracking-widest bg-[var(--color-primary)] text-[var(--color-text)]"
+          >
+            SHOW {resultCount}
+          </button>
+        </div>
+      </div>
+    </BottomSheet>
+  );
+};
@@ -1,5 +1,6 @@
 import { useState, useMemo, useRef, useEffect } from 'react';
 import { ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
+import { formatDate } from '../utils/i18n';
 
 interface DatePickerProps {
   value: Date;
@@ -8,11 +9,10 @@ interface DatePickerProps {
   maxDate?: Date;
 }
 
-const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
-const MONTHS = [
-  'January', 'February', 'March', 'April', 'May', 'June',
-  'July', 'August', 'September', 'October', 'November', 'December'
-];
+/** Sunday-first two-letter weekday names in the active language ("Su", "Mo", …) */
+const weekdayNames = (): string[] =>
+  // 4 Jan 2026 is a Sunday
+  Array.from({ length: 7 }, (_, i) => formatDate(new Date(2026, 0, 4 + i), { weekday: 'short' }).slice(0, 2));
 
 export const DatePicker = ({ value, onChange, minDate, maxDate }: DatePickerProps) => {
   const [isOpen, setIsOpen] = useState(false);
@@ -108,7 +108,7 @@ export const DatePicker = ({ value, onChange, minDate, maxDate }: DatePickerProp
   };
 
   const formatDisplayDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', {
+    return formatDate(date, {
       month: 'short',
       day: 'numeric',
       year: 'numeric',
@@ -152,7 +152,7 @@ export const DatePicker = ({ value, onChange, minDate, maxDate }: DatePickerProp
                 <ChevronLeft className="w-5 h-5 text-[var(--color-text-muted)]" />
               </button>
               <span className="font-display text-sm tracking-wider text-[var(--color-text)]">
-                {MONTHS[viewDate.getMonth()].toUpperCase()} {viewDate.getFullYear()}
+                {formatDate(viewDate, { month: 'long', year: 'numeric' }).toLocaleUpperCase()}
               </span>
               <button
                 type="button"
@@ -165,9 +165,9 @@ export const DatePicker = ({ value, onChange, minDate, maxDate }: DatePickerProp
 
             {/* Weekday headers */}
             <div className="grid grid-cols-7 px-2 py-2">
-              {WEEKDAYS.map((day) => (
+              {weekdayNames().map((day, index) => (
                 <div
-                  key={day}
+                  key={index}
                   className="text-center font-display text-[10px] tracking-widest text-[var(--color-text-muted)] py-1"
                 >
                   {day}
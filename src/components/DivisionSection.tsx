@@ -0,0 +1,62 @@
+import { useCatalogStore } from '../stores/catalogStore';
+import { DIVISION_LABELS, getAgeGroups } from '../utils/standards';
+import type { AgeGroup, Division } from '../types/workout';
+
+const DIVISIONS = Object.keys(DIVISION_LABELS) as Division[];
+
+/**
+ * DivisionSection — Settings block for the athlete's division and age
+ * group, which benchmarks use to show their own Rx and Scaled loads.
+ */
+export const DivisionSection = () => {
+  const settings = useCatalogStore((state) => state.settings);
+  const updateSettings = useCatalogStore((state) => state.updateSettings);
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center gap-2 pb-1 border-b border-[var(--color-border)] mb-0">
+        <span className="font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)]">DIVISION</span>
+      </div>
+
+      <div className="py-2 border-b border-[var(--color-border)]">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm text-[var(--color-text)]">Division</span>
+        </div>
+        <div className="flex border-b border-[var(--color-border)] -mb-px">
+          {DIVISIONS.map((division) => (
+            <button
+              key={division}
+              onClick={() => updateSettings({ division })}
+              className={`px-5 py-2 font-display text-sm tracking-widest transition-colors border-b-2 -mb-px ${
+                settings.division === division
+                  ? 'border-[var(--color-primary)] text-[var(--color-primary)]'
+                  : 'border-transparent text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+              }`}
+              aria-pressed={settings.division === division}
+            >
+              {DIVISION_LABELS[division].toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between py-3 border-b border-[var(--color-border)]">
+        <span className="text-sm text-[var(--color-text)]">Age group</span>
+        <select
+          value={settings.ageGroup ?? 'open'}
+          onChange={(e) => updateSettings({ ageGroup: e.target.value as AgeGroup })}
+          className="field px-3 py-2 text-sm"
+          aria-label="Age group"
+        >
+          {getAgeGroups().map((group) => (
+            <option key={group.id} value={group.id}>{group.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-[var(--color-text-muted)]">
+        Benchmarks show your Rx and scaled loads for this division, in your weight unit.
+      </p>
+    </section>
+  );
+};
@@ -0,0 +1,41 @@
+import { useCatalogStore } from '../stores/catalogStore';
+import { useI18n } from '../hooks/useI18n';
+import { LOCALE_NAMES, detectLocale, isLocale } from '../utils/i18n';
+import type { Locale } from '../types/i18n';
+
+const LOCALES = Object.keys(LOCALE_NAMES) as Locale[];
+
+/**
+ * LanguageSection — Settings block for the app language. Unset follows the
+ * device, so the first option names the language that resolves to.
+ */
+export const LanguageSection = () => {
+  const settings = useCatalogStore((state) => state.settings);
+  const updateSettings = useCatalogStore((state) => state.updateSettings);
+  const { t } = useI18n();
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center gap-2 pb-1 border-b border-[var(--color-border)] mb-0">
+        <span className="font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)]">{t('settings.language.title')}</span>
+      </div>
+
+      <div className="flex items-center justify-between py-3 border-b border-[var(--color-border)]">
+        <span className="text-sm text-[var(--color-text)]">{t('settings.language.label')}</span>
+        <select
+          value={settings.language ?? ''}
+          onChange={(e) => updateSettings({ language: isLocale(e.target.value) ? e.target.value : undefined })}
+          className="field px-3 py-2 text-sm"
+          aria-label={t('settings.language.label')}
+        >
+          <option value="">{t('settings.language.device', { language: LOCALE_NAMES[detectLocale()] })}</option>
+          {LOCALES.map((locale) => (
+            <option key={locale} value={locale}>{LOCALE_NAMES[locale]}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-[var(--color-text-muted)]">{t('settings.language.hint')}</p>
+    </section>
+  );
+};
@@ -1,9 +1,13 @@
 import { Outlet, useNavigate, useLocation } from 'react-router-dom';
 import { Settings, Home, ClipboardList, Timer, LineChart } from 'lucide-react';
+import { useAutoBackup } from '../hooks/useAutoBackup';
+import { useI18n } from '../hooks/useI18n';
 
 export const Layout = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  useAutoBackup();
+  const { t } = useI18n();
 
   const handleSettingsClick = () => navigate('/settings');
   const handleHomeClick = () => navigate('/');
@@ -28,7 +32,7 @@ export const Layout = () => {
             onClick={handleHomeClick}
             role="button"
             tabIndex={0}
-            aria-label="Go to home"
+            aria-label={t('nav.goHome')}
             onKeyDown={(e) => e.key === 'Enter' && handleHomeClick()}
           >
             <span className="text-[var(--color-primary)]">CF</span> Toolkit
@@ -36,7 +40,7 @@ export const Layout = () => {
           <button
             onClick={handleSettingsClick}
             className="w-9 h-9 rounded-full bg-[var(--color-surface-elevated)] flex items-center justify-center transition-transform active:scale-95"
-            aria-label="Open settings"
+            aria-label={t('nav.openSettings')}
           >
             <Settings className="w-[18px] h-[18px] text-[var(--color-text)]" />
           </button>
@@ -51,21 +55,21 @@ export const Layout = () => {
       {/* Bottom navigation — Blackout tab bar (yellow active). Always visible across viewports. */}
       <nav className="sticky bottom-0 z-40 bg-[var(--color-bg)]/95 backdrop-blur border-t border-[var(--color-border-strong)] px-2 pb-safe">
         <div className="flex items-center justify-around max-w-lg mx-auto">
-          <button onClick={handleHomeClick} className={navBtn(isActive('/'))} aria-label="Home" aria-current={isActive('/') ? 'page' : undefined}>
+          <button onClick={handleHomeClick} className={navBtn(isActive('/'))} aria-label={t('nav.home')} aria-current={isActive('/') ? 'page' : undefined}>
             <Home className="w-6 h-6" />
-            <span className="text-[10px] font-semibold">Home</span>
+            <span className="text-[10px] font-semibold">{t('nav.home')}</span>
           </button>
-          <button onClick={handleSearchClick} className={navBtn(isActive('/search'))} aria-label="Log a result" aria-current={isActive('/search') ? 'page' : undefined}>
+          <button onClick={handleSearchClick} className={navBtn(isActive('/search'))} aria-label={t('nav.logResult')} aria-current={isActive('/search') ? 'page' : undefined}>
             <ClipboardList className="w-6 h-6" />
-            <span className="text-[10px] font-semibold">Log</span>
+            <span className="text-[10px] font-semibold">{t('nav.log')}</span>
           </button>
-          <button onClick={handleClockClick} className={navBtn(isActive('/clock'))} aria-label="Timer" aria-current={isActive('/clock') ? 'page' : undefined}>
+          <button onClick={handleClockClick} className={navBtn(isActive('/clock'))} aria-label={t('nav.timer')} aria-current={isActive('/clock') ? 'page' : undefined}>
             <Timer className="w-6 h-6" />
-            <span className="text-[10px] font-semibold">Timer</span>
+            <span className="text-[10px] font-semibold">{t('nav.timer')}</span>
           </button>
-          <button onClick={handleProgressClick} className={navBtn(isActive('/progress'))} aria-label="Progress" aria-current={isActive('/progress') ? 'page' : undefined}>
+          <button onClick={handleProgressClick} className={navBtn(isActive('/progress'))} aria-label={t('nav.progress')} aria-current={isActive('/progress') ? 'page' : undefined}>
             <LineChart className="w-6 h-6" />
-            <span className="text-[10px] font-semibold">Progress</span>
+            <span className="text-[10px] font-semibold">{t('nav.progress')}</span>
           </button>
         </div>
       </nav>
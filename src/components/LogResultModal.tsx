@@ -1,17 +1,22 @@
 import { useState } from 'react';
 import { X } from 'lucide-react';
-import type { CatalogItem, Variant, ScoreType } from '../types/catalog';
+import type { CatalogItem, PRLog, Variant, ScoreType } from '../types/catalog';
 import { useCatalogStore } from '../stores/catalogStore';
-import { parseResultToValue, validateResult, getResultPlaceholder, getResultLabel, formatCompoundResult, formatSecondsToTime, parseTimeToSeconds } from '../utils/resultParser';
-import { getScoreModes, SCORE_TYPES } from '../config/scoreTypes';
+import { parseResultToValue, validateResult, getResultPlaceholder, getResultLabel, formatLogResult, formatSecondsToTime, parseTimeToSeconds, extractRawResult } from '../utils/resultParser';
+import { getScoreModes, getLogScoreType, getScoreTypeName } from '../config/scoreTypes';
 import { isDualMetricItem, isDistanceOnlyItem } from '../utils/itemMetrics';
+import { localizeLog, preferredUnit } from '../utils/units';
+import { describeVariant, getAthleteDivision } from '../utils/standards';
 import { DatePicker } from './DatePicker';
 import { TimeInput } from './TimeInput';
 import { PlateStepper } from './PlateStepper';
 import { LoadedBarButton } from './LoadedBarButton';
+import { useI18n } from '../hooks/useI18n';
 
 interface LogResultModalProps {
   item: CatalogItem;
+  /** Existing log to edit; omitted → log a new result */
+  log?: PRLog;
   onClose: () => void;
   onSuccess: () => void;
 }
@@ -22,26 +27,35 @@ const VARIANTS: { value: Variant; label: string }[] = [
   { value: 'Rx+', label: 'Rx+' },
 ];
 
-export const LogResultModal = ({ item, onClose, onSuccess }: LogResultModalProps) => {
+export const LogResultModal = ({ item, log, onClose, onSuccess }: LogResultModalProps) => {
   const addPRLog = useCatalogStore((state) => state.addPRLog);
+  const updatePRLog = useCatalogStore((state) => state.updatePRLog);
   const settings = useCatalogStore((state) => state.settings);
+  const { t } = useI18n();
 
   // Allowed score modes for this item; when >1 the user picks one per log.
   const modes = getScoreModes(item);
   const isMultiMode = modes.length > 1;
 
-  const [scoreType, setScoreType] = useState<ScoreType>(item.scoreType);
-  const [result, setResult] = useState('');
-  const [reps, setReps] = useState<string>('1');
-  const [distance, setDistance] = useState<string>('');
+  // Edit mode prefills every field from the log (distances in meters).
+  const initialScoreType = log ? getLogScoreType(log, item) : item.scoreType;
+  const initialTimeCap = log?.timeCap ?? item.timeCap;
+  const initialTargetReps = log?.targetReps ?? item.targetReps;
+  // Loads and distances are edited in the current units.
+  const initialResult = log ? extractRawResult(localizeLog(log, initialScoreType, settings).result, initialScoreType) : '';
+
+  const [scoreType, setScoreType] = useState<ScoreType>(initialScoreType);
+  const [result, setResult] = useState(initialResult);
+  const [reps, setReps] = useState<string>(log?.reps ? String(log.reps) : '1');
+  const [distance, setDistance] = useState<string>(log?.distance ? String(log.distance) : '');
   const [distanceUnit, setDistanceUnit] = useState<'m' | 'km' | 'mi'>('m');
-  const [calories, setCalories] = useState<string>('');
-  const [timeCap, setTimeCap] = useState<string>(item.timeCap ? formatSecondsToTime(item.timeCap) : '');
-  const [targetReps, setTargetReps] = useState<string>(item.targetReps ? String(item.targetReps) : '');
-  const [metricType, setMetricType] = useState<'distance' | 'calories'>('distance');
-  const [variant, setVariant] = useState<Variant>(item.category === 'Benchmark' ? 'Rx' : null);
-  const [date, setDate] = useState(new Date());
-  const [notes, setNotes] = useState('');
+  const [calories, setCalories] = useState<string>(log?.calories ? String(log.calories) : '');
+  const [timeCap, setTimeCap] = useState<string>(initialTimeCap ? formatSecondsToTime(initialTimeCap) : '');
+  const [targetReps, setTargetReps] = useState<string>(initialTargetReps ? String(initialTargetReps) : '');
+  const [metricType, setMetricType] = useState<'distance' | 'calories'>(log?.calories ? 'calories' : 'distance');
+  const [variant, setVariant] = useState<Variant>(log ? log.variant : item.category === 'Benchmark' ? 'Rx' : null);
+  const [date, setDate] = useState(log ? new Date(log.date) : new Date());
+  const [notes, setNotes] = useState(log?.notes ?? '');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -54,6 +68,7 @@ export const LogResultModal = ({ item, onClose, onSuccess }: LogResultModalProps
   const showDistance = isDistanceOnly || (isDual && metricType === 'distance');
   const showCalories = isDual && metricType === 'calories';
   const showVariant = item.category === 'Benchmark';
+  const variantDescription = describeVariant(variant, item, getAthleteDivision(settings), settings);
 
   // Switching mode: clear the result (its format differs per mode) and re-prefill
   // this mode's constraint default from the item.
@@ -107,7 +122,12 @@ export const LogResultModal = ({ item, onClose, onSuccess }: LogResultModalProps
     setIsSubmitting(true);
 
     try {
-      const resultValue = parseResultToValue(result, scoreType);
+      // A converted value the athlete didn't touch keeps the unit it was logged
+      // in, so opening and saving an old log never rounds it.
+      const keepsLoggedUnit = !!log?.unit && scoreType === initialScoreType && result === initialResult;
+      const unit = keepsLoggedUnit ? log?.unit : preferredUnit(scoreType, settings);
+      const rawResult = keepsLoggedUnit && log ? extractRawResult(log.result, scoreType) : result;
+      const resultValue = parseResultToValue(rawResult, scoreType);
       const repsValue = showReps ? parseInt(reps) : undefined;
       const timeCapValue = isRepsInTime ? parseTimeToSeconds(timeCap) : undefined;
       const targetRepsValue = isTimeForReps ? parseInt(targetReps) : undefined;
@@ -127,34 +147,22 @@ export const LogResultModal = ({ item, onClose, onSuccess }: LogResultModalProps
         }
       }
 
-      let displayResult: string;
-      let caloriesValue: number | undefined;
-
-      if (showDistance && distanceInMeters) {
-        const distanceDisplay = distanceUnit === 'm'
-          ? `${distance}m`
-          : `${distance}${distanceUnit}`;
-        displayResult = `${distanceDisplay} in ${result}`;
-      } else if (showCalories) {
-        caloriesValue = parseFloat(calories);
-        displayResult = `${calories} cal in ${result}`;
-      } else if (isRepsInTime && timeCapValue) {
-        displayResult = `${result} reps in ${formatSecondsToTime(timeCapValue)}`;
-      } else if (isTimeForReps) {
-        displayResult = `${targetReps} reps in ${result}`;
-      } else {
-        displayResult = formatCompoundResult(result, scoreType, {
-          reps: repsValue,
-          weightUnit: settings.weightUnit,
-          distanceUnit: settings.distanceUnit,
-        });
-      }
+      const caloriesValue = showCalories ? parseFloat(calories) : undefined;
+      const displayResult = formatLogResult(rawResult, scoreType, {
+        reps: repsValue,
+        distanceLabel: showDistance && distanceInMeters ? `${distance}${distanceUnit}` : undefined,
+        calories: caloriesValue,
+        timeCap: timeCapValue,
+        targetReps: targetRepsValue,
+        // `unit` is set only for Load/Distance, the only formats that print these
+        weightUnit: unit ?? settings.weightUnit,
+        distanceUnit: unit ?? settings.distanceUnit,
+      });
 
-      await addPRLog({
-        catalogItemId: item.id,
+      const fields = {
         result: displayResult,
-        resultValue,
         scoreTypeId: scoreType,
+        unit,
         variant,
         date: date.getTime(),
         notes: notes.trim() || undefined,
@@ -163,7 +171,13 @@ export const LogResultModal = ({ item, onClose, onSuccess }: LogResultModalProps
         calories: caloriesValue,
         timeCap: timeCapValue,
         targetReps: targetRepsValue,
-      });
+      };
+
+      if (log) {
+        await updatePRLog(log.id, fields, item);
+      } else {
+        await addPRLog({ ...fields, catalogItemId: item.id, resultValue });
+      }
 
       onSuccess();
       onClose();
@@ -205,7 +219,7 @@ export const LogResultModal = ({ item, onClose, onSuccess }: LogResultModalProps
         {/* Header */}
         <div className="flex items-center justify-between px-4 py-2 border-b border-[var(--color-border)]">
           <div>
-            <h2 className="font-display text-xl text-[var(--color-text)]">Log · {item.name}</h2>
+            <h2 className="font-display text-xl text-[var(--color-text)]">{log ? 'Edit' : 'Log'} · {item.name}</h2>
           </div>
           <button
             onClick={onClose}
@@ -237,7 +251,7 @@ export const LogResultModal = ({ item, onClose, onSuccess }: LogResultModalProps
                       }`}
                       aria-pressed={active}
                     >
-                      {SCORE_TYPES[mode].name.toUpperCase()}
+                      {getScoreTypeName(mode).toLocaleUpperCase()}
                     </button>
                   );
                 })}
@@ -340,7 +354,7 @@ export const LogResultModal = ({ item, onClose, onSuccess }: LogResultModalProps
           {/* Time cap for RepsInTime items (how long you had to rack up reps) */}
           {isRepsInTime && (
             <div>
-              <label className="block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-2">TIME CAP</label>
+              <label className="block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-2">{t('scoreType.constraint.timeCap')}</label>
               <TimeInput value={timeCap} onChange={setTimeCap} />
             </div>
           )}
@@ -348,7 +362,7 @@ export const LogResultModal = ({ item, onClose, onSuccess }: LogResultModalProps
           {/* Target reps for TimeForReps items (rep count you raced to complete) */}
           {isTimeForReps && (
             <div>
-              <label className="block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-2">TARGET REPS</label>
+              <label className="block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-2">{t('scoreType.constraint.targetReps')}</label>
               <input
                 type="number"
                 min="1"
@@ -393,7 +407,7 @@ export const LogResultModal = ({ item, onClose, onSuccess }: LogResultModalProps
             )}
           </div>
 
-          {/* Variant selector — RxTag-style toggles */}
+          {/* Variant selector — RxTag-style toggles, with what the variant means for this athlete */}
           {showVariant && (
             <div>
               <label className="block label-eyebrow mb-2">Effort</label>
@@ -421,6 +435,9 @@ export const LogResultModal = ({ item, onClose, onSuccess }: LogResultModalProps
                   );
                 })}
               </div>
+              {variantDescription && (
+                <p className="mt-2 text-xs text-[var(--color-text-muted)]">{variantDescription}</p>
+              )}
             </div>
           )}
 
@@ -457,7 +474,7 @@ export const LogResultModal = ({ item, onClose, onSuccess }: LogResultModalProps
 
           {/* Submit button */}
           <LoadedBarButton type="submit" disabled={isSubmitting || !result.trim()}>
-            {isSubmitting ? 'Saving…' : `Save · ${item.name}`}
+            {isSubmitting ? 'Saving…' : log ? 'Save changes' : `Save · ${item.name}`}
           </LoadedBarButton>
         </form>
       </div>
@@ -1,6 +1,8 @@
 import { useState, useMemo } from 'react';
 import { ChevronDown, ChevronUp, Calculator } from 'lucide-react';
 import type { PRLog } from '../types/catalog';
+import { extractRawResult } from '../utils/resultParser';
+import { formatDate as formatLocaleDate } from '../utils/i18n';
 
 interface PercentageCalculatorProps {
   logs: PRLog[];
@@ -48,7 +50,7 @@ export const PercentageCalculator = ({ logs, weightUnit }: PercentageCalculatorP
 
   // Format date for display
   const formatDate = (timestamp: number): string => {
-    return new Date(timestamp).toLocaleDateString('en-US', {
+    return formatLocaleDate(timestamp, {
       month: 'short',
       day: 'numeric',
     });
@@ -58,7 +60,8 @@ export const PercentageCalculator = ({ logs, weightUnit }: PercentageCalculatorP
   const calculatorOptions = useMemo((): CalculatorOption[] => {
     return logs.map((log) => {
       const reps = log.reps ?? 1;
-      const originalWeight = log.resultValue;
+      // The logged weight as displayed (converted loads are rounded to plates)
+      const originalWeight = parseFloat(extractRawResult(log.result, 'Load')) || log.resultValue;
       const estimated1RM = roundToHalf(estimateOneRepMax(originalWeight, reps));
       const isActual1RM = reps <= 1;
 
@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { Undo2 } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  /** Auto-dismiss delay in ms */
+  duration?: number;
+}
+
+/**
+ * UndoToast — short-lived bar shown right after a delete. Deleted records sit
+ * in the trash, so undo is just a restore.
+ */
+export const UndoToast = ({ message, onUndo, onDismiss, duration = 6000 }: UndoToastProps) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [onDismiss, duration]);
+
+  return (
+    <div
+      role="status"
+      className="fixed left-1/2 -translate-x-1/2 bottom-[calc(8.5rem+env(safe-area-inset-bottom,0px))] z-50 w-[calc(100%-2rem)] max-w-sm flex items-center justify-between gap-3 px-4 py-3 bg-[var(--color-surface-elevated)] border border-[var(--color-border-strong)] animate-slide-up"
+    >
+      <span className="text-sm text-[var(--color-text)]">{message}</span>
+      <button
+        onClick={onUndo}
+        className="flex items-center gap-1.5 font-display text-sm tracking-widest text-[var(--color-primary)] hover:opacity-80 transition-opacity"
+      >
+        <Undo2 className="w-4 h-4" />
+        UNDO
+      </button>
+    </div>
+  );
+};
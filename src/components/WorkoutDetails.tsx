@@ -0,0 +1,31 @@
+import { WorkoutPrescription } from './WorkoutPrescription';
+import { AthleteStandards } from './AthleteStandards';
+import { getAthleteDivision } from '../utils/standards';
+import type { UserSettings } from '../types/catalog';
+import type { WorkoutDefinition } from '../types/workout';
+
+interface WorkoutDetailsProps {
+  workout: WorkoutDefinition;
+  settings: UserSettings;
+  /** Open the movement browser for a movement */
+  onSelectMovement?: (movementId: string) => void;
+  /** Go to the division setting */
+  onSetDivision?: () => void;
+}
+
+/**
+ * WorkoutDetails — a benchmark's workout the way ItemDetail shows it: the
+ * prescription, then the athlete's own Rx and Scaled loads. Also previews
+ * custom workouts while they're being built.
+ */
+export const WorkoutDetails = ({ workout, settings, onSelectMovement, onSetDivision }: WorkoutDetailsProps) => (
+  <div className="space-y-3">
+    <WorkoutPrescription workout={workout} units={settings} onSelectMovement={onSelectMovement} />
+    <AthleteStandards
+      workout={workout}
+      athlete={getAthleteDivision(settings)}
+      units={settings}
+      onSetDivision={onSetDivision}
+    />
+  </div>
+);
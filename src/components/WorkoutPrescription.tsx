@@ -0,0 +1,62 @@
+import { ChevronRight, Dumbbell } from 'lucide-react';
+import { formatWorkoutMovement, formatWorkoutStructure, getTotalReps } from '../utils/workout';
+import type { UnitPreferences } from '../types/catalog';
+import type { WorkoutDefinition } from '../types/workout';
+
+interface WorkoutPrescriptionProps {
+  workout: WorkoutDefinition;
+  units: UnitPreferences;
+  /** Open the movement browser for a movement (movement names become links) */
+  onSelectMovement?: (movementId: string) => void;
+}
+
+/**
+ * WorkoutPrescription — a benchmark's structured workout: how it's run
+ * (rounds, rep scheme, time cap), each movement with its Rx load in the
+ * athlete's units, and the scoring. Movements link to the movement browser.
+ */
+export const WorkoutPrescription = ({ workout, units, onSelectMovement }: WorkoutPrescriptionProps) => {
+  const structure = formatWorkoutStructure(workout);
+  const totalReps = getTotalReps(workout);
+
+  return (
+    <div className="border-l-2 border-[var(--color-border-strong)] pl-3 py-1">
+      <div className="flex items-center gap-2 mb-1.5">
+        <Dumbbell className="w-3.5 h-3.5 text-[var(--color-text-muted)] shrink-0" />
+        <span className="font-display text-sm text-[var(--color-text)] tracking-wider">{structure.join(' · ')}</span>
+      </div>
+      <ul className="space-y-1 pl-5">
+        {workout.movements.map((movement, idx) => {
+          const { label, details } = formatWorkoutMovement(movement, units);
+          return (
+            <li key={idx} className="text-xs text-[var(--color-text-muted)] flex items-start gap-2">
+              <ChevronRight className="w-3 h-3 text-[var(--color-primary)] shrink-0 mt-0.5" />
+              <span>
+                {onSelectMovement ? (
+                  <button
+                    onClick={() => onSelectMovement(movement.movementId)}
+                    className="text-[var(--color-text)] hover:text-[var(--color-primary)] underline decoration-dotted underline-offset-2 transition-colors"
+                  >
+                    {label}
+                  </button>
+                ) : (
+                  <span className="text-[var(--color-text)]">{label}</span>
+                )}
+                {details.length > 0 && <span className="text-[var(--color-text-dim)]"> · {details.join(' · ')}</span>}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      {(workout.notes || workout.scoring.notes || totalReps) && (
+        <div className="mt-1.5 pl-5 space-y-0.5">
+          {workout.notes && <p className="text-xs text-[var(--color-text-muted)]">{workout.notes}</p>}
+          {workout.scoring.notes && (
+            <p className="text-xs text-[var(--color-text-muted)]">Score: {workout.scoring.notes}</p>
+          )}
+          {totalReps && <p className="text-xs text-[var(--color-text-dim)]">{totalReps} reps total</p>}
+        </div>
+      )}
+    </div>
+  );
+};
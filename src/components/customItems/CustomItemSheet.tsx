@@ -0,0 +1,388 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, GitMerge, Trash2 } from 'lucide-react';
+import { BottomSheet } from '../BottomSheet';
+import { TimeInput } from '../TimeInput';
+import { WorkoutDetails } from '../WorkoutDetails';
+import { WorkoutBuilder } from './WorkoutBuilder';
+import { useCatalogStore } from '../../stores/catalogStore';
+import { SCORE_TYPES, getScoreModes, getScoreTypeName } from '../../config/scoreTypes';
+import { formatSecondsToTime, parseTimeToSeconds, remapLogScoreType } from '../../utils/resultParser';
+import { buildWorkout, createWorkoutDraft, draftFromWorkout, type WorkoutDraft } from '../../utils/workoutBuilder';
+import { formatCatalogIssue, validateCatalogItem } from '../../utils/catalogValidation';
+import { getMovements } from '../../catalog/catalogService';
+import * as db from '../../db';
+import type { CatalogItem, Category, CustomItemInput, MetricType, PRLog, ScoreType } from '../../types/catalog';
+
+interface CustomItemSheetProps {
+  /** Item to edit; omit to create a new one */
+  item?: CatalogItem;
+  onClose: () => void;
+  onSaved: (id: string) => void;
+  /** Edit mode only: hand off to the delete flow */
+  onDelete?: () => void;
+  /** Edit mode only: hand off to the merge-into-builtin flow */
+  onMerge?: () => void;
+}
+
+const CATEGORIES: Category[] = ['Custom', 'Benchmark', 'Lift', 'Monostructural', 'Skill'];
+
+const METRIC_LABELS: Record<MetricType, string> = {
+  distance: 'DISTANCE',
+  calories: 'CALORIES',
+  'distance+calories': 'BOTH',
+};
+
+/** How the workout is described: free-text lines or a structured workout */
+type WorkoutMode = 'list' | 'builder';
+
+const labelClass = 'block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-2';
+const inputClass = 'field w-full px-3 py-2.5 text-sm';
+
+const tabClass = (active: boolean) =>
+  `flex-1 whitespace-nowrap py-2 px-2 font-display text-xs tracking-widest transition-colors border-b-2 -mb-px ${
+    active
+      ? 'border-[var(--color-primary)] text-[var(--color-primary)]'
+      : 'border-transparent text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+  }`;
+
+/**
+ * CustomItemSheet — create or edit a user-defined catalog item: name,
+ * category, score types, default constraints, metrics, and either free-text
+ * movements or a workout composed in the builder (previewed as ItemDetail
+ * shows it). When editing changes the score types, it previews which
+ * existing logs will be converted and which will be flagged.
+ */
+export const CustomItemSheet = ({ item, onClose, onSaved, onDelete, onMerge }: CustomItemSheetProps) => {
+  const catalogItems = useCatalogStore((state) => state.catalogItems);
+  const settings = useCatalogStore((state) => state.settings);
+  const addCustomItem = useCatalogStore((state) => state.addCustomItem);
+  const updateCustomItem = useCatalogStore((state) => state.updateCustomItem);
+
+  const [name, setName] = useState(item?.name ?? '');
+  const [category, setCategory] = useState<Category>(item?.category ?? 'Custom');
+  const [scoreTypes, setScoreTypes] = useState<ScoreType[]>(item ? getScoreModes(item) : ['Reps']);
+  const [primary, setPrimary] = useState<ScoreType>(item?.scoreType ?? 'Reps');
+  const [timeCap, setTimeCap] = useState(item?.timeCap ? formatSecondsToTime(item.timeCap) : '');
+  const [targetReps, setTargetReps] = useState(item?.targetReps ? String(item.targetReps) : '');
+  const [metrics, setMetrics] = useState<MetricType>(item?.metrics ?? 'distance');
+  const [movements, setMovements] = useState(item?.movements?.join('\n') ?? '');
+  const [workoutMode, setWorkoutMode] = useState<WorkoutMode>(item?.workout ? 'builder' : 'list');
+  const [workoutDraft, setWorkoutDraft] = useState<WorkoutDraft>(() =>
+    item?.workout ? draftFromWorkout(item.workout, settings.weightUnit) : createWorkoutDraft()
+  );
+  const [description, setDescription] = useState(item?.description ?? '');
+  const [logs, setLogs] = useState<PRLog[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!item) return;
+    let cancelled = false;
+    db.getPRLogsForItem(item.id)
+      .then((itemLogs) => {
+        if (!cancelled) setLogs(itemLogs);
+      })
+      .catch((err) => console.error('[CustomItemSheet] Load error:', err));
+    return () => { cancelled = true; };
+  }, [item]);
+
+  const toggleScoreType = (type: ScoreType) => {
+    if (scoreTypes.includes(type)) {
+      if (scoreTypes.length === 1) return;
+      const next = scoreTypes.filter((t) => t !== type);
+      setScoreTypes(next);
+      if (primary === type) setPrimary(next[0]);
+    } else {
+      setScoreTypes([...scoreTypes, type]);
+    }
+  };
+
+  // The built workout and what the catalog rules say about it
+  const workoutPreview = useMemo(() => {
+    if (workoutMode !== 'builder') return null;
+    const workout = buildWorkout(workoutDraft, primary);
+    const movementIds = new Set(getMovements().map((movement) => movement.id));
+    const draftItem = { id: 'draft', name: 'Draft', category, scoreType: primary, scoreTypeIds: scoreTypes, workout };
+    const issues = validateCatalogItem(draftItem, { source: 'custom', movementIds })
+      .filter((issue) => issue.path.startsWith('workout'));
+    return { workout, issues };
+  }, [workoutMode, workoutDraft, primary, scoreTypes, category]);
+
+  const buildInput = (): CustomItemInput => {
+    const movementList = movements.split('\n').map((line) => line.trim()).filter(Boolean);
+    return {
+      name: name.trim(),
+      category,
+      scoreType: primary,
+      scoreTypeIds: scoreTypes.length > 1 ? [primary, ...scoreTypes.filter((t) => t !== primary)] : undefined,
+      timeCap: scoreTypes.includes('RepsInTime') && timeCap ? parseTimeToSeconds(timeCap) || undefined : undefined,
+      targetReps: scoreTypes.includes('TimeForReps') && targetReps ? parseInt(targetReps, 10) || undefined : undefined,
+      metrics: category === 'Monostructural' ? metrics : undefined,
+      movements: workoutMode === 'list' && movementList.length > 0 ? movementList : undefined,
+      workout: workoutPreview?.workout,
+      description: description.trim() || undefined,
+    };
+  };
+
+  // Which existing logs the new score types would convert or flag
+  const migration = useMemo(() => {
+    if (!item || logs.length === 0) return null;
+    const draft: CatalogItem = {
+      ...item,
+      scoreType: primary,
+      scoreTypeIds: scoreTypes.length > 1 ? scoreTypes : undefined,
+    };
+    let migrated = 0;
+    let flagged = 0;
+    for (const log of logs) {
+      const { outcome } = remapLogScoreType(log, item, draft);
+      if (outcome === 'migrated') migrated++;
+      if (outcome === 'flagged' && !log.scoreTypeMismatch) flagged++;
+    }
+    return migrated + flagged > 0 ? { migrated, flagged } : null;
+  }, [item, logs, primary, scoreTypes]);
+
+  const handleSave = async () => {
+    const input = buildInput();
+    if (!input.name) {
+      setError('Name is required');
+      return;
+    }
+    const clash = catalogItems.find(
+      (other) => other.id !== item?.id && other.name.toLowerCase() === input.name.toLowerCase()
+    );
+    if (clash) {
+      setError(`An item named "${clash.name}" already exists`);
+      return;
+    }
+    if (workoutPreview && workoutPreview.issues.length > 0) {
+      setError('Finish the workout first');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (item) {
+        await updateCustomItem(item.id, input);
+        onSaved(item.id);
+      } else {
+        onSaved(await addCustomItem(input));
+      }
+    } catch (err) {
+      console.error('[CustomItemSheet] Save error:', err);
+      setError(err instanceof Error ? err.message : 'Save failed');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <BottomSheet title={item ? `Edit · ${item.name}` : 'New custom item'} onClose={onClose}>
+      <div className="space-y-5">
+        <div>
+          <label className={labelClass}>NAME</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Gym Hero WOD"
+            className={`${inputClass} font-display tracking-wider`}
+            autoFocus={!item}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>CATEGORY</label>
+          <div className="flex border-b border-[var(--color-border)] overflow-x-auto">
+            {CATEGORIES.map((option) => (
+              <button key={option} type="button" onClick={() => setCategory(option)} className={tabClass(category === option)} aria-pressed={category === option}>
+                {option.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Score types — any number; one is the default */}
+        <div>
+          <label className={labelClass}>SCORED BY</label>
+          <div className="flex flex-wrap gap-2">
+            {Object.values(SCORE_TYPES).map((def) => {
+              const selected = scoreTypes.includes(def.id);
+              return (
+                <button
+                  key={def.id}
+                  type="button"
+                  onClick={() => toggleScoreType(def.id)}
+                  className={`px-3 py-1.5 font-display text-xs tracking-widest border transition-colors ${
+                    selected
+                      ? 'border-[var(--color-primary)] text-[var(--color-primary)]'
+                      : 'border-[var(--color-border-strong)] text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+                  }`}
+                  aria-pressed={selected}
+                >
+                  {def.name.toUpperCase()}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {scoreTypes.length > 1 && (
+          <div>
+            <label className={labelClass}>DEFAULT</label>
+            <div className="flex border-b border-[var(--color-border)] overflow-x-auto">
+              {scoreTypes.map((type) => (
+                <button key={type} type="button" onClick={() => setPrimary(type)} className={tabClass(primary === type)} aria-pressed={primary === type}>
+                  {getScoreTypeName(type).toLocaleUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {scoreTypes.includes('RepsInTime') && (
+          <div>
+            <label className={labelClass}>DEFAULT TIME CAP</label>
+            <TimeInput value={timeCap} onChange={setTimeCap} />
+          </div>
+        )}
+
+        {scoreTypes.includes('TimeForReps') && (
+          <div>
+            <label className={labelClass}>DEFAULT TARGET REPS</label>
+            <input
+              type="number"
+              min="1"
+              value={targetReps}
+              onChange={(e) => setTargetReps(e.target.value)}
+              placeholder="e.g., 10"
+              className={`${inputClass} font-display tracking-wider`}
+            />
+          </div>
+        )}
+
+        {category === 'Monostructural' && (
+          <div>
+            <label className={labelClass}>MEASURE BY</label>
+            <div className="flex border-b border-[var(--color-border)]">
+              {(Object.keys(METRIC_LABELS) as MetricType[]).map((option) => (
+                <button key={option} type="button" onClick={() => setMetrics(option)} className={tabClass(metrics === option)} aria-pressed={metrics === option}>
+                  {METRIC_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label className={labelClass}>WORKOUT</label>
+          <div className="flex border-b border-[var(--color-border)]">
+            <button type="button" onClick={() => setWorkoutMode('list')} className={tabClass(workoutMode === 'list')} aria-pressed={workoutMode === 'list'}>
+              MOVEMENT LIST
+            </button>
+            <button type="button" onClick={() => setWorkoutMode('builder')} className={tabClass(workoutMode === 'builder')} aria-pressed={workoutMode === 'builder'}>
+              BUILDER
+            </button>
+          </div>
+        </div>
+
+        {workoutMode === 'list' ? (
+          <div>
+            <label className={labelClass}>MOVEMENTS <span className="normal-case tracking-normal">(one per line)</span></label>
+            <textarea
+              value={movements}
+              onChange={(e) => setMovements(e.target.value)}
+              rows={3}
+              placeholder={'21-15-9\nThrusters\nPull-ups'}
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+        ) : (
+          <WorkoutBuilder draft={workoutDraft} onChange={setWorkoutDraft} weightUnit={settings.weightUnit} />
+        )}
+
+        {workoutPreview && (
+          <div>
+            <label className={labelClass}>PREVIEW</label>
+            {workoutPreview.workout.movements.length > 0 ? (
+              <WorkoutDetails workout={workoutPreview.workout} settings={settings} />
+            ) : (
+              <p className="text-xs text-[var(--color-text-muted)]">Add movements to see the workout.</p>
+            )}
+            {workoutPreview.issues.length > 0 && (
+              <ul className="mt-2 space-y-1 border-l-2 border-[var(--color-warning)] pl-3 py-1">
+                {workoutPreview.issues.map((issue, idx) => (
+                  <li key={idx} className="text-xs text-[var(--color-text-muted)] break-words">{formatCatalogIssue(issue)}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div>
+          <label className={labelClass}>DESCRIPTION</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className={`${inputClass} resize-none`}
+          />
+        </div>
+
+        {migration && (
+          <div className="border-l-2 border-[var(--color-warning)] pl-3 py-1 space-y-1">
+            <p className="font-display text-xs tracking-widest text-[var(--color-warning)]">EXISTING LOGS</p>
+            {migration.migrated > 0 && (
+              <p className="text-xs text-[var(--color-text-muted)]">
+                {migration.migrated} {migration.migrated === 1 ? 'log' : 'logs'} will be converted to {SCORE_TYPES[primary].name}.
+              </p>
+            )}
+            {migration.flagged > 0 && (
+              <p className="text-xs text-[var(--color-text-muted)]">
+                {migration.flagged} {migration.flagged === 1 ? 'log keeps a score type' : 'logs keep score types'} this item no longer offers and will be flagged for review.
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 px-1 py-2 border-l-2 border-[var(--color-danger)]">
+            <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+            <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{error}</p>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving}
+          className="w-full py-3.5 px-4 bg-[var(--color-primary)] hover:opacity-90 text-[var(--color-text)] font-display tracking-widest text-sm transition-all active:scale-[0.98] disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'SAVING…' : item ? 'SAVE CHANGES' : 'CREATE ITEM'}
+        </button>
+
+        {item && onMerge && (
+          <button
+            type="button"
+            onClick={onMerge}
+            className="w-full py-3 flex items-center justify-center gap-2 font-display text-sm tracking-widest text-[var(--color-text-muted)] hover:text-[var(--color-text)] hover:bg-[var(--color-surface)] transition-colors"
+          >
+            <GitMerge className="w-4 h-4" />
+            MERGE INTO CATALOG ITEM
+          </button>
+        )}
+
+        {item && onDelete && (
+          <button
+            type="button"
+            onClick={onDelete}
+            className="w-full py-3 flex items-center justify-center gap-2 font-display text-sm tracking-widest text-[var(--color-danger)] hover:bg-[var(--color-danger)]/5 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            DELETE ITEM
+          </button>
+        )}
+      </div>
+    </BottomSheet>
+  );
+};
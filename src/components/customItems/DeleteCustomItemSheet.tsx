@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { BottomSheet } from '../BottomSheet';
+import { useCatalogStore } from '../../stores/catalogStore';
+import { useFullCatalog } from '../../hooks/useFullCatalog';
+import { remapLogScoreType } from '../../utils/resultParser';
+import * as db from '../../db';
+import type { CatalogItem, PRLog } from '../../types/catalog';
+import type { Goal } from '../../types/goal';
+
+interface DeleteCustomItemSheetProps {
+  item: CatalogItem;
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+type Mode = 'cascade' | 'reassign';
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * DeleteCustomItemSheet — deletes a custom item after asking what happens to
+ * its logs and goals: delete them too, or move them onto another item (with
+ * a preview of logs whose score type the target doesn't offer).
+ */
+export const DeleteCustomItemSheet = ({ item, onClose, onDeleted }: DeleteCustomItemSheetProps) => {
+  const catalogItems = useCatalogStore((state) => state.catalogItems);
+  useFullCatalog();
+  const deleteCustomItem = useCatalogStore((state) => state.deleteCustomItem);
+
+  const [usage, setUsage] = useState<{ logs: PRLog[]; goals: Goal[] } | null>(null);
+  const [mode, setMode] = useState<Mode>('reassign');
+  const [targetId, setTargetId] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([db.getPRLogsForItem(item.id), db.getGoalsForItem(item.id)])
+      .then(([logs, goals]) => {
+        if (!cancelled) setUsage({ logs, goals });
+      })
+      .catch((err) => {
+        console.error('[DeleteCustomItemSheet] Load error:', err);
+        if (!cancelled) setError('Could not read logs for this item');
+      });
+    return () => { cancelled = true; };
+  }, [item.id]);
+
+  const targets = useMemo(
+    () => catalogItems.filter((other) => other.id !== item.id).sort((a, b) => a.name.localeCompare(b.name)),
+    [catalogItems, item.id]
+  );
+  const target = targets.find((other) => other.id === targetId);
+
+  // Logs the target can't take under their current score type
+  const preview = useMemo(() => {
+    if (!usage || !target) return null;
+    let migrated = 0;
+    let flagged = 0;
+    for (const log of usage.logs) {
+      const { outcome } = remapLogScoreType(log, item, target);
+      if (outcome === 'migrated') migrated++;
+      if (outcome === 'flagged') flagged++;
+    }
+    return { migrated, flagged };
+  }, [usage, item, target]);
+
+  const hasRecords = !!usage && usage.logs.length + usage.goals.length > 0;
+  const effectiveMode: Mode = hasRecords ? mode : 'cascade';
+
+  const handleDelete = async () => {
+    if (effectiveMode === 'reassign' && !target) {
+      setError('Choose an item to move the logs to');
+      return;
+    }
+    setIsDeleting(true);
+    setError(null);
+    try {
+      await deleteCustomItem(
+        item.id,
+        effectiveMode === 'reassign' && target ? { mode: 'reassign', targetItemId: target.id } : { mode: 'cascade' }
+      );
+      onDeleted();
+    } catch (err) {
+      console.error('[DeleteCustomItemSheet] Delete error:', err);
+      setError(err instanceof Error ? err.message : 'Delete failed');
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <BottomSheet title={`Delete · ${item.name}`} onClose={onClose}>
+      <div className="space-y-5">
+        {!usage ? (
+          !error && (
+            <div className="flex items-center justify-center h-24">
+              <Loader2 className="w-5 h-5 text-[var(--color-text-muted)] animate-spin" />
+            </div>
+          )
+        ) : !hasRecords ? (
+          <p className="text-sm text-[var(--color-text-muted)]">This item has no logs or goals.</p>
+        ) : (
+          <>
+            <p className="text-sm text-[var(--color-text-muted)]">
+              This item has {plural(usage.logs.length, 'log')} and {plural(usage.goals.length, 'goal')}.
+            </p>
+
+            <div className="space-y-2">
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="radio"
+                  name="disposal"
+                  checked={mode === 'reassign'}
+                  onChange={() => setMode('reassign')}
+                  className="mt-1 accent-[var(--color-primary)]"
+                />
+                <span className="text-sm text-[var(--color-text)]">Move them to another item</span>
+              </label>
+              {mode === 'reassign' && (
+                <div className="pl-7 space-y-2">
+                  <select
+                    value={targetId}
+                    onChange={(e) => setTargetId(e.target.value)}
+                    className="field w-full px-2 py-1.5 text-xs"
+                    aria-label="Move logs to"
+                  >
+                    <option value="">Choose an item…</option>
+                    {targets.map((other) => (
+                      <option key={other.id} value={other.id}>{other.name}</option>
+                    ))}
+                  </select>
+                  {preview && (preview.migrated > 0 || preview.flagged > 0) && (
+                    <p className="text-xs text-[var(--color-warning)]">
+                      {preview.migrated > 0 && `${plural(preview.migrated, 'log')} will be converted to ${target?.name}'s score type. `}
+                      {preview.flagged > 0 && `${plural(preview.flagged, 'log')} will be flagged: ${target?.name} doesn't offer their score type.`}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="radio"
+                  name="disposal"
+                  checked={mode === 'cascade'}
+                  onChange={() => setMode('cascade')}
+                  className="mt-1 accent-[var(--color-primary)]"
+                />
+                <span className="text-sm text-[var(--color-text)]">
+                  Delete them permanently
+                  <span className="block text-xs text-[var(--color-text-muted)]">Trashed logs and goals for this item go too.</span>
+                </span>
+              </label>
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 px-1 py-2 border-l-2 border-[var(--color-danger)]">
+            <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+            <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{error}</p>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleDelete}
+          disabled={isDeleting || !usage}
+          className="w-full py-3.5 px-4 bg-[var(--color-danger)] hover:opacity-90 text-[var(--color-text)] font-display tracking-widest text-sm transition-all active:scale-[0.98] disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isDeleting ? 'DELETING…' : effectiveMode === 'reassign' ? 'MOVE & DELETE ITEM' : 'DELETE ITEM'}
+        </button>
+      </div>
+    </BottomSheet>
+  );
+};
@@ -0,0 +1,203 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { BottomSheet } from '../BottomSheet';
+import { useCatalogStore } from '../../stores/catalogStore';
+import { useFullCatalog } from '../../hooks/useFullCatalog';
+import { SCORE_TYPES, getScoreModes } from '../../config/scoreTypes';
+import { rankCatalogMatches } from '../../utils/catalogLookup';
+import { mergeGoalIntoItem, mergeLogIntoItem, suggestMergeReps } from '../../utils/itemMerge';
+import * as db from '../../db';
+import type { CatalogItem, PRLog } from '../../types/catalog';
+import type { Goal } from '../../types/goal';
+
+interface MergeCustomItemSheetProps {
+  item: CatalogItem;
+  onClose: () => void;
+  onMerged: (targetId: string) => void;
+}
+
+const labelClass = 'block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-2';
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * MergeCustomItemSheet — folds a custom item into a builtin catalog item.
+ * Suggests likely targets by name, previews how logs and goals map (score
+ * type conversions, flags, filled-in constraints), then merges.
+ */
+export const MergeCustomItemSheet = ({ item, onClose, onMerged }: MergeCustomItemSheetProps) => {
+  const catalogItems = useCatalogStore((state) => state.catalogItems);
+  useFullCatalog();
+  const mergeCustomItem = useCatalogStore((state) => state.mergeCustomItem);
+
+  const [usage, setUsage] = useState<{ logs: PRLog[]; goals: Goal[] } | null>(null);
+  const [targetId, setTargetId] = useState('');
+  const [defaultReps, setDefaultReps] = useState(() => String(suggestMergeReps(item.name) ?? ''));
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([db.getPRLogsForItem(item.id), db.getGoalsForItem(item.id)])
+      .then(([logs, goals]) => {
+        if (!cancelled) setUsage({ logs, goals });
+      })
+      .catch((err) => {
+        console.error('[MergeCustomItemSheet] Load error:', err);
+        if (!cancelled) setError('Could not read logs for this item');
+      });
+    return () => { cancelled = true; };
+  }, [item.id]);
+
+  const builtins = useMemo(
+    () => catalogItems.filter((other) => other.isBuiltin).sort((a, b) => a.name.localeCompare(b.name)),
+    [catalogItems]
+  );
+  const suggestions = useMemo(() => rankCatalogMatches(item.name, builtins, { limit: 3, minScore: 0.4 }), [item.name, builtins]);
+  const target = builtins.find((other) => other.id === (targetId || suggestions[0]?.item.id));
+
+  const acceptsLoad = !!target && getScoreModes(target).includes('Load');
+  const options = useMemo(
+    () => ({ defaultReps: acceptsLoad ? parseInt(defaultReps, 10) || undefined : undefined }),
+    [acceptsLoad, defaultReps]
+  );
+
+  const preview = useMemo(() => {
+    if (!usage || !target) return null;
+    const counts = { migrated: 0, flagged: 0, constraintsFilled: 0 };
+    for (const log of usage.logs) {
+      const merged = mergeLogIntoItem(log, item, target, options);
+      if (merged.outcome === 'migrated') counts.migrated++;
+      if (merged.outcome === 'flagged') counts.flagged++;
+      if (merged.constraintFilled) counts.constraintsFilled++;
+    }
+    const goalTypes = usage.goals.map((goal) => mergeGoalIntoItem(goal, item, target, options).scoreTypeId);
+    return { ...counts, goalTypes };
+  }, [usage, item, target, options]);
+
+  const handleMerge = async () => {
+    if (!target) return;
+    setIsMerging(true);
+    setError(null);
+    try {
+      await mergeCustomItem(item.id, target.id, options);
+      onMerged(target.id);
+    } catch (err) {
+      console.error('[MergeCustomItemSheet] Merge error:', err);
+      setError(err instanceof Error ? err.message : 'Merge failed');
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <BottomSheet title={`Merge · ${item.name}`} onClose={onClose}>
+      <div className="space-y-5">
+        <p className="text-sm text-[var(--color-text-muted)]">
+          Move this item's history onto a catalog item, then remove it.
+        </p>
+
+        <div>
+          <label className={labelClass}>MERGE INTO</label>
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-2">
+              {suggestions.map(({ item: suggestion }) => (
+                <button
+                  key={suggestion.id}
+                  type="button"
+                  onClick={() => setTargetId(suggestion.id)}
+                  className={`px-3 py-1.5 font-display text-xs tracking-widest border transition-colors ${
+                    target?.id === suggestion.id
+                      ? 'border-[var(--color-primary)] text-[var(--color-primary)]'
+                      : 'border-[var(--color-border-strong)] text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+                  }`}
+                  aria-pressed={target?.id === suggestion.id}
+                >
+                  {suggestion.name.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          )}
+          <select
+            value={target?.id ?? ''}
+            onChange={(e) => setTargetId(e.target.value)}
+            className="field w-full px-2 py-1.5 text-xs"
+            aria-label="Merge into"
+          >
+            {!target && <option value="">Choose a catalog item…</option>}
+            {builtins.map((other) => (
+              <option key={other.id} value={other.id}>{other.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {acceptsLoad && (
+          <div>
+            <label className={labelClass}>REPS FOR LOADS WITHOUT REPS</label>
+            <input
+              type="number"
+              min="1"
+              value={defaultReps}
+              onChange={(e) => setDefaultReps(e.target.value)}
+              placeholder="Leave empty to keep as logged"
+              className="field w-full px-3 py-2.5 text-sm font-display tracking-wider"
+            />
+          </div>
+        )}
+
+        {/* Preview */}
+        {!usage ? (
+          !error && (
+            <div className="flex items-center justify-center h-16">
+              <Loader2 className="w-5 h-5 text-[var(--color-text-muted)] animate-spin" />
+            </div>
+          )
+        ) : target && preview && (
+          <div className="border-l-2 border-[var(--color-border-strong)] pl-3 py-1 space-y-1">
+            <p className="font-display text-xs tracking-widest text-[var(--color-text-muted)]">PREVIEW</p>
+            <p className="text-xs text-[var(--color-text)]">
+              {plural(usage.logs.length, 'log')} and {plural(usage.goals.length, 'goal')} move to {target.name}
+              {item.isFavorite && ', which becomes a favorite'}.
+            </p>
+            {preview.migrated > 0 && (
+              <p className="text-xs text-[var(--color-text-muted)]">
+                {plural(preview.migrated, 'log')} converted to {SCORE_TYPES[target.scoreType].name}.
+              </p>
+            )}
+            {preview.constraintsFilled > 0 && (
+              <p className="text-xs text-[var(--color-text-muted)]">
+                {plural(preview.constraintsFilled, 'log')} get a missing time cap, rep target or rep count filled in.
+              </p>
+            )}
+            {preview.goalTypes.length > 0 && (
+              <p className="text-xs text-[var(--color-text-muted)]">
+                Goals track: {[...new Set(preview.goalTypes)].map((type) => type && SCORE_TYPES[type].name).join(', ')}.
+              </p>
+            )}
+            {preview.flagged > 0 && (
+              <p className="text-xs text-[var(--color-warning)]">
+                {plural(preview.flagged, 'log')} will be flagged: {target.name} doesn't offer their score type.
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 px-1 py-2 border-l-2 border-[var(--color-danger)]">
+            <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+            <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{error}</p>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleMerge}
+          disabled={isMerging || !usage || !target}
+          className="w-full py-3.5 px-4 bg-[var(--color-primary)] hover:opacity-90 text-[var(--color-text)] font-display tracking-widest text-sm transition-all active:scale-[0.98] disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isMerging ? 'MERGING…' : target ? `MERGE INTO ${target.name.toUpperCase()}` : 'CHOOSE AN ITEM'}
+        </button>
+        <p className="-mt-3 text-xs text-center text-[var(--color-text-muted)]">A restore point is saved first.</p>
+      </div>
+    </BottomSheet>
+  );
+};
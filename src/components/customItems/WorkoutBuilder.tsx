@@ -0,0 +1,326 @@
+import { useState } from 'react';
+import { ArrowUp, Plus, Search, X } from 'lucide-react';
+import { TimeInput } from '../TimeInput';
+import { searchMovements } from '../../utils/movements';
+import {
+  REP_STRUCTURE_LABELS,
+  createMovementDraft,
+  usesDuration,
+  usesInterval,
+  usesTimeCap,
+  type MovementAmount,
+  type RepStructure,
+  type WorkoutDraft,
+  type WorkoutMovementDraft,
+} from '../../utils/workoutBuilder';
+import type { WeightUnit } from '../../types/catalog';
+import type { WorkoutFormat } from '../../types/workout';
+
+interface WorkoutBuilderProps {
+  draft: WorkoutDraft;
+  onChange: (draft: WorkoutDraft) => void;
+  /** Unit new movements' loads are entered in */
+  weightUnit: WeightUnit;
+}
+
+const FORMAT_LABELS: Record<WorkoutFormat, string> = {
+  ForTime: 'FOR TIME',
+  AMRAP: 'AMRAP',
+  EMOM: 'EMOM',
+  Intervals: 'INTERVALS',
+  MaxReps: 'MAX REPS',
+  MaxLoad: 'MAX LOAD',
+};
+
+const AMOUNT_LABELS: Record<MovementAmount, string> = {
+  reps: 'Reps',
+  calories: 'Cal',
+  max: 'Max',
+};
+
+const MAX_SUGGESTIONS = 8;
+
+const labelClass = 'block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-2';
+const inputClass = 'field w-full px-3 py-2.5 text-sm';
+const smallInputClass = 'field w-full px-2 py-1.5 text-xs';
+
+const tabClass = (active: boolean) =>
+  `flex-1 whitespace-nowrap py-2 px-2 font-display text-xs tracking-widest transition-colors border-b-2 -mb-px ${
+    active
+      ? 'border-[var(--color-primary)] text-[var(--color-primary)]'
+      : 'border-transparent text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+  }`;
+
+/**
+ * WorkoutBuilder — compose a custom benchmark's workout from library
+ * movements: format, rep structure (chipper, rounds, rep scheme, ladder),
+ * timing, and each movement's reps with Rx and Scaled loads.
+ */
+export const WorkoutBuilder = ({ draft, onChange, weightUnit }: WorkoutBuilderProps) => {
+  const [movementQuery, setMovementQuery] = useState('');
+  const suggestions = movementQuery.trim() ? searchMovements(movementQuery).slice(0, MAX_SUGGESTIONS) : [];
+  const repsFromScheme = draft.structure === 'scheme';
+
+  const update = (changes: Partial<WorkoutDraft>) => onChange({ ...draft, ...changes });
+
+  const updateMovement = (index: number, changes: Partial<WorkoutMovementDraft>) =>
+    update({ movements: draft.movements.map((movement, idx) => (idx === index ? { ...movement, ...changes } : movement)) });
+
+  const moveUp = (index: number) => {
+    const movements = [...draft.movements];
+    [movements[index - 1], movements[index]] = [movements[index], movements[index - 1]];
+    update({ movements });
+  };
+
+  const addMovement = (movementId: string) => {
+    update({ movements: [...draft.movements, createMovementDraft(movementId, weightUnit)] });
+    setMovementQuery('');
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <label className={labelClass}>FORMAT</label>
+        <div className="flex border-b border-[var(--color-border)] overflow-x-auto">
+          {(Object.keys(FORMAT_LABELS) as WorkoutFormat[]).map((format) => (
+            <button key={format} type="button" onClick={() => update({ format })} className={tabClass(draft.format === format)} aria-pressed={draft.format === format}>
+              {FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>REPS</label>
+        <div className="flex border-b border-[var(--color-border)] overflow-x-auto">
+          {(Object.keys(REP_STRUCTURE_LABELS) as RepStructure[]).map((structure) => (
+            <button key={structure} type="button" onClick={() => update({ structure })} className={tabClass(draft.structure === structure)} aria-pressed={draft.structure === structure}>
+              {REP_STRUCTURE_LABELS[structure].toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {draft.structure === 'scheme' && (
+          <div>
+            <label className={labelClass}>REP SCHEME</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={draft.repScheme}
+              onChange={(e) => update({ repScheme: e.target.value })}
+              placeholder="21-15-9"
+              className={`${inputClass} font-display tracking-wider`}
+            />
+          </div>
+        )}
+        {draft.structure === 'ladder' && (
+          <div>
+            <label className={labelClass}>ADD EACH ROUND</label>
+            <input
+              type="number"
+              min="1"
+              value={draft.repIncrement}
+              onChange={(e) => update({ repIncrement: e.target.value })}
+              placeholder="e.g., 3"
+              className={`${inputClass} font-display tracking-wider`}
+            />
+          </div>
+        )}
+        {draft.structure !== 'chipper' && (
+          <div>
+            <label className={labelClass}>ROUNDS{draft.structure !== 'rounds' && <span className="normal-case tracking-normal"> (optional)</span>}</label>
+            <input
+              type="number"
+              min="1"
+              value={draft.rounds}
+              onChange={(e) => update({ rounds: e.target.value })}
+              placeholder="e.g., 5"
+              className={`${inputClass} font-display tracking-wider`}
+            />
+          </div>
+        )}
+      </div>
+
+      {usesTimeCap(draft.format) && (
+        <div>
+          <label className={labelClass}>TIME CAP <span className="normal-case tracking-normal">(optional)</span></label>
+          <TimeInput value={draft.timeCap} onChange={(timeCap) => update({ timeCap })} />
+        </div>
+      )}
+      {usesDuration(draft.format) && (
+        <div>
+          <label className={labelClass}>DURATION</label>
+          <TimeInput value={draft.duration} onChange={(duration) => update({ duration })} />
+        </div>
+      )}
+      {usesInterval(draft.format) && (
+        <div>
+          <label className={labelClass}>EVERY <span className="normal-case tracking-normal">(EMOM: 1:00 when empty)</span></label>
+          <TimeInput value={draft.interval} onChange={(interval) => update({ interval })} />
+        </div>
+      )}
+
+      <div>
+        <label className={labelClass}>MOVEMENTS</label>
+        <div className="space-y-2">
+          {draft.movements.map((movement, idx) => (
+            <div key={idx} className="border border-[var(--color-border)] p-2 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={movement.name}
+                  onChange={(e) => updateMovement(idx, { name: e.target.value })}
+                  className={`${smallInputClass} font-display tracking-wider`}
+                  aria-label="Movement name"
+                />
+                <button
+                  type="button"
+                  onClick={() => moveUp(idx)}
+                  disabled={idx === 0}
+                  className="shrink-0 p-1.5 text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors disabled:opacity-30"
+                  aria-label={`Move ${movement.name} up`}
+                >
+                  <ArrowUp className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => update({ movements: draft.movements.filter((_, other) => other !== idx) })}
+                  className="shrink-0 p-1.5 text-[var(--color-text-muted)] hover:text-[var(--color-danger)] transition-colors"
+                  aria-label={`Remove ${movement.name}`}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <div className="flex border border-[var(--color-border-strong)] shrink-0">
+                  {(Object.keys(AMOUNT_LABELS) as MovementAmount[]).map((amount) => (
+                    <button
+                      key={amount}
+                      type="button"
+                      onClick={() => updateMovement(idx, { amount })}
+                      className={`px-2 py-1 font-display text-[11px] tracking-widest transition-colors ${
+                        movement.amount === amount
+                          ? 'bg-[var(--color-primary)]/15 text-[var(--color-primary)]'
+                          : 'text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+                      }`}
+                      aria-pressed={movement.amount === amount}
+                    >
+                      {AMOUNT_LABELS[amount].toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+                {movement.amount === 'reps' && repsFromScheme ? (
+                  <span className="text-xs text-[var(--color-text-dim)]">From the rep scheme</span>
+                ) : movement.amount !== 'max' && (
+                  <input
+                    type="number"
+                    min="1"
+                    value={movement.count}
+                    onChange={(e) => updateMovement(idx, { count: e.target.value })}
+                    placeholder={draft.structure === 'ladder' ? 'Start' : movement.amount === 'calories' ? 'Cal' : 'Reps'}
+                    className={`${smallInputClass} font-display tracking-wider`}
+                    aria-label={`${movement.name} ${movement.amount}`}
+                  />
+                )}
+              </div>
+
+              <div className="grid grid-cols-[auto_1fr_1fr_auto] items-center gap-x-2 gap-y-1.5">
+                {(['rx', 'scaled'] as const).map((level) => (
+                  <div key={level} className="contents">
+                    <span className="font-display text-[11px] tracking-widest text-[var(--color-text-muted)] w-12">
+                      {level === 'rx' ? 'RX' : 'SCALED'}
+                    </span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={movement[level].men}
+                      onChange={(e) => updateMovement(idx, { [level]: { ...movement[level], men: e.target.value } })}
+                      placeholder="Men"
+                      className={smallInputClass}
+                      aria-label={`${movement.name} ${level} load, men`}
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={movement[level].women}
+                      onChange={(e) => updateMovement(idx, { [level]: { ...movement[level], women: e.target.value } })}
+                      placeholder="Women"
+                      className={smallInputClass}
+                      aria-label={`${movement.name} ${level} load, women`}
+                    />
+                    {level === 'rx' ? (
+                      <button
+                        type="button"
+                        onClick={() => updateMovement(idx, { unit: movement.unit === 'kg' ? 'lb' : 'kg' })}
+                        className="px-2 py-1 font-display text-[11px] tracking-widest text-[var(--color-text-muted)] border border-[var(--color-border-strong)] hover:text-[var(--color-text)] transition-colors"
+                        aria-label={`${movement.name} load unit`}
+                      >
+                        {movement.unit.toUpperCase()}
+                      </button>
+                    ) : (
+                      <span />
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <input
+                type="text"
+                value={movement.notes}
+                onChange={(e) => updateMovement(idx, { notes: e.target.value })}
+                placeholder="Notes, e.g. each arm"
+                className={smallInputClass}
+                aria-label={`${movement.name} notes`}
+              />
+            </div>
+          ))}
+
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--color-text-muted)]" />
+            <input
+              type="text"
+              value={movementQuery}
+              onChange={(e) => setMovementQuery(e.target.value)}
+              placeholder="Add a movement…"
+              className={`${inputClass} pl-9`}
+              aria-label="Add a movement"
+            />
+          </div>
+          {suggestions.length > 0 && (
+            <div className="border border-[var(--color-border)]">
+              {suggestions.map((movement) => (
+                <button
+                  key={movement.id}
+                  type="button"
+                  onClick={() => addMovement(movement.id)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-[var(--color-text)] hover:bg-[var(--color-surface)] transition-colors"
+                >
+                  <Plus className="w-3.5 h-3.5 text-[var(--color-primary)] shrink-0" />
+                  {movement.name}
+                </button>
+              ))}
+            </div>
+          )}
+          {movementQuery.trim() && suggestions.length === 0 && (
+            <p className="text-xs text-[var(--color-text-muted)]">No movement matches "{movementQuery}"</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>WORKOUT NOTES</label>
+        <textarea
+          value={draft.notes}
+          onChange={(e) => update({ notes: e.target.value })}
+          rows={2}
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,3 @@
+export { CustomItemSheet } from './CustomItemSheet';
+export { DeleteCustomItemSheet } from './DeleteCustomItemSheet';
+export { MergeCustomItemSheet } from './MergeCustomItemSheet';
@@ -0,0 +1,255 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Download, History, Loader2, Minus, Plus, RotateCcw } from 'lucide-react';
+import { ConfirmDialog } from '../ConfirmDialog';
+import { useCatalogStore } from '../../stores/catalogStore';
+import {
+  BACKUP_INTERVAL_OPTIONS,
+  DEFAULT_BACKUP_INTERVAL_HOURS,
+  DEFAULT_BACKUP_RETENTION,
+  applyBackupRetention,
+  createBackup,
+  getBackup,
+  listBackups,
+} from '../../services/backupService';
+import { downloadFile } from '../../utils/download';
+import type { BackupReason, BackupSummary } from '../../types/backup';
+
+const REASON_LABELS: Record<BackupReason, string> = {
+  scheduled: 'SCHEDULED',
+  manual: 'MANUAL',
+  'before-import': 'BEFORE IMPORT',
+  'before-clear': 'BEFORE CLEAR',
+  'before-restore': 'BEFORE RESTORE',
+  'before-merge': 'BEFORE MERGE',
+};
+
+const INTERVAL_LABELS: Record<(typeof BACKUP_INTERVAL_OPTIONS)[number], string> = {
+  0: 'OFF',
+  24: 'DAILY',
+  168: 'WEEKLY',
+};
+
+const MIN_RETENTION = 3;
+const MAX_RETENTION = 30;
+
+const formatTimestamp = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatCounts = ({ counts }: BackupSummary): string =>
+  [
+    `${counts.prLogs} PRs`,
+    `${counts.goals} goals`,
+    `${counts.dailyCheckIns} check-ins`,
+    `${counts.favorites} favorites`,
+    `${counts.customItems} custom`,
+  ].join(' · ');
+
+/**
+ * BackupSection — Settings block for automatic restore points: schedule,
+ * retention, and the list of snapshots with restore/download actions.
+ */
+export const BackupSection = () => {
+  const settings = useCatalogStore((state) => state.settings);
+  const updateSettings = useCatalogStore((state) => state.updateSettings);
+  const restoreBackup = useCatalogStore((state) => state.restoreBackup);
+  // Changes whenever data is reloaded (imports take a snapshot first)
+  const catalogItems = useCatalogStore((state) => state.catalogItems);
+
+  const [snapshots, setSnapshots] = useState<BackupSummary[] | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<BackupSummary | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const intervalHours = settings.backupIntervalHours ?? DEFAULT_BACKUP_INTERVAL_HOURS;
+  const retention = settings.backupRetention ?? DEFAULT_BACKUP_RETENTION;
+
+  const refresh = useCallback(() => {
+    listBackups()
+      .then(setSnapshots)
+      .catch((error) => console.error('[BackupSection] Load error:', error));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, catalogItems]);
+
+  const flashStatus = (message: string) => {
+    setStatus(message);
+    setTimeout(() => setStatus(null), 3000);
+  };
+
+  const handleRetentionChange = async (delta: number) => {
+    const next = Math.max(MIN_RETENTION, Math.min(MAX_RETENTION, retention + delta));
+    await updateSettings({ backupRetention: next });
+    await applyBackupRetention(next);
+    refresh();
+  };
+
+  const handleBackupNow = async () => {
+    setBusyId('new');
+    try {
+      await createBackup('manual');
+      refresh();
+    } catch (error) {
+      console.error('[BackupSection] Backup error:', error);
+      flashStatus('Backup failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDownload = async (snapshot: BackupSummary) => {
+    const full = await getBackup(snapshot.id);
+    if (!full) return;
+    const stamp = new Date(snapshot.createdAt).toISOString().slice(0, 16).replace(/[T:]/g, '-');
+    downloadFile(full.data, `crossfit-toolkit-backup-${stamp}.json`, 'application/json');
+  };
+
+  const handleRestore = async () => {
+    if (!pendingRestore) return;
+    const snapshot = pendingRestore;
+    setPendingRestore(null);
+    setBusyId(snapshot.id);
+    try {
+      await restoreBackup(snapshot.id);
+      flashStatus('Restored');
+    } catch (error) {
+      console.error('[BackupSection] Restore error:', error);
+      flashStatus(error instanceof Error ? error.message : 'Restore failed');
+    } finally {
+      setBusyId(null);
+      refresh();
+    }
+  };
+
+  return (
+    <section className="space-y-1">
+      <div className="flex items-center gap-2 pb-1 border-b border-[var(--color-border)]">
+        <span className="font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)]">BACKUPS</span>
+      </div>
+
+      {/* Schedule */}
+      <div className="flex items-center justify-between py-3 border-b border-[var(--color-border)]">
+        <span className="text-sm text-[var(--color-text)]">Automatic</span>
+        <div className="flex border-b border-[var(--color-border)] -mb-px">
+          {BACKUP_INTERVAL_OPTIONS.map((hours) => (
+            <button
+              key={hours}
+              onClick={() => updateSettings({ backupIntervalHours: hours })}
+              className={`px-4 py-2 font-display text-sm tracking-widest transition-colors border-b-2 -mb-px ${
+                intervalHours === hours
+                  ? 'border-[var(--color-primary)] text-[var(--color-primary)]'
+                  : 'border-transparent text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+              }`}
+            >
+              {INTERVAL_LABELS[hours]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Retention */}
+      <div className="flex items-center justify-between py-3 border-b border-[var(--color-border)]">
+        <span className="text-sm text-[var(--color-text)]">Restore points kept</span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => handleRetentionChange(-1)}
+            disabled={retention <= MIN_RETENTION}
+            className="w-9 h-9 flex items-center justify-center bg-transparent border border-[var(--color-border-strong)] text-[var(--color-text-muted)] hover:text-[var(--color-text)] hover:border-[var(--color-primary)] disabled:opacity-40 disabled:cursor-not-allowed active:scale-90 transition-all rounded-none"
+            aria-label="Keep fewer restore points"
+          >
+            <Minus className="w-3.5 h-3.5" />
+          </button>
+          <span className="font-display text-xl text-[var(--color-primary)] min-w-[48px] text-center">{retention}</span>
+          <button
+            onClick={() => handleRetentionChange(1)}
+            disabled={retention >= MAX_RETENTION}
+            className="w-9 h-9 flex items-center justify-center bg-transparent border border-[var(--color-border-strong)] text-[var(--color-text-muted)] hover:text-[var(--color-text)] hover:border-[var(--color-primary)] disabled:opacity-40 disabled:cursor-not-allowed active:scale-90 transition-all rounded-none"
+            aria-label="Keep more restore points"
+          >
+            <Plus className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <button
+        onClick={handleBackupNow}
+        disabled={busyId !== null}
+        className="w-full py-3 flex items-center justify-between border-b border-[var(--color-border)] hover:bg-[var(--color-surface)] transition-colors text-left disabled:opacity-50 px-1"
+      >
+        <div className="flex items-center gap-3">
+          <History className="w-4 h-4 text-[var(--color-text-muted)]" />
+          <div>
+            <span className="font-display text-sm tracking-wider text-[var(--color-text)]">BACK UP NOW</span>
+            <p className="text-xs text-[var(--color-text-muted)]">
+              Also taken automatically before imports and clearing data
+            </p>
+          </div>
+        </div>
+        {busyId === 'new' && <Loader2 className="w-4 h-4 text-[var(--color-text-muted)] animate-spin" />}
+      </button>
+
+      {status && (
+        <p className="px-1 py-2 text-xs font-display tracking-wider text-[var(--color-text-muted)]">{status.toUpperCase()}</p>
+      )}
+
+      {/* Restore points */}
+      {snapshots && snapshots.length === 0 && (
+        <p className="px-1 py-3 text-xs text-[var(--color-text-muted)]">No restore points yet.</p>
+      )}
+      {snapshots?.map((snapshot) => (
+        <div key={snapshot.id} className="flex items-center justify-between gap-3 py-2.5 px-1 border-b border-[var(--color-border)]/50">
+          <div className="min-w-0">
+            <div className="flex items-baseline gap-2">
+              <span className="font-display text-sm text-[var(--color-text)]">{formatTimestamp(snapshot.createdAt)}</span>
+              <span className="font-display text-[10px] tracking-widest text-[var(--color-text-muted)]">
+                {REASON_LABELS[snapshot.reason]}
+              </span>
+            </div>
+            <p className="text-xs text-[var(--color-text-muted)] truncate">{formatCounts(snapshot)}</p>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            {busyId === snapshot.id ? (
+              <Loader2 className="w-4 h-4 text-[var(--color-text-muted)] animate-spin" />
+            ) : (
+              <>
+                <button
+                  onClick={() => handleDownload(snapshot)}
+                  className="p-2 text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors"
+                  aria-label="Download restore point"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setPendingRestore(snapshot)}
+                  disabled={busyId !== null}
+                  className="p-2 text-[var(--color-text-muted)] hover:text-[var(--color-primary)] transition-colors disabled:opacity-40"
+                  aria-label="Restore this point"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {pendingRestore && (
+        <ConfirmDialog
+          title="Restore backup"
+          message={`Replace all current data with the restore point from ${formatTimestamp(pendingRestore.createdAt)}? Your current data is saved as a new restore point first.`}
+          confirmLabel="Restore"
+          onConfirm={handleRestore}
+          onCancel={() => setPendingRestore(null)}
+          isDestructive
+        />
+      )}
+    </section>
+  );
+};
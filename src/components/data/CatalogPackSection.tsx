@@ -0,0 +1,247 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Loader2, Package, Trash2 } from 'lucide-react';
+import { BottomSheet } from '../BottomSheet';
+import { ConfirmDialog } from '../ConfirmDialog';
+import { useCatalogStore } from '../../stores/catalogStore';
+import { useGoalsStore } from '../../stores/goalsStore';
+import { getInstalledCatalogPacks, planCatalogPackInstall } from '../../db/catalogPacks';
+import { CatalogPackError } from '../../utils/catalogPack';
+import { formatCatalogIssue } from '../../utils/catalogValidation';
+import type { CatalogPackChangeSummary, CatalogPackInstallPlan, InstalledCatalogPack } from '../../types/catalogPack';
+import type { CatalogIssue } from '../../types/catalogValidation';
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/** "Installed Ironworks v2. 1 item kept as a custom item." */
+const describeChange = (verb: string, name: string, summary: CatalogPackChangeSummary): string => {
+  const parts = [`${verb} ${name}.`];
+  if (summary.keptAsCustom > 0) {
+    parts.push(`${plural(summary.keptAsCustom, 'item')} with history kept as custom ${summary.keptAsCustom === 1 ? 'item' : 'items'}.`);
+  }
+  if (summary.migrated + summary.flagged > 0) {
+    parts.push(`${plural(summary.migrated, 'log')} moved to a new score type, ${summary.flagged} flagged.`);
+  }
+  return parts.join(' ');
+};
+
+/**
+ * CatalogPackSection — Settings block for catalog packs: install or upgrade
+ * one from a JSON file after reviewing what changes, and uninstall packs.
+ */
+export const CatalogPackSection = () => {
+  const settings = useCatalogStore((state) => state.settings);
+  const installCatalogPack = useCatalogStore((state) => state.installCatalogPack);
+  const uninstallCatalogPack = useCatalogStore((state) => state.uninstallCatalogPack);
+  const goalsIsInitialized = useGoalsStore((state) => state.isInitialized);
+  const refreshGoals = useGoalsStore((state) => state.refreshGoals);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [packs, setPacks] = useState<InstalledCatalogPack[]>([]);
+  const [plan, setPlan] = useState<CatalogPackInstallPlan | null>(null);
+  const [pendingUninstall, setPendingUninstall] = useState<InstalledCatalogPack | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<CatalogIssue[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    getInstalledCatalogPacks().then(setPacks).catch((err) => console.error('[CatalogPackSection] Load error:', err));
+  }, []);
+
+  const afterChange = async (message: string) => {
+    if (goalsIsInitialized) {
+      await refreshGoals(useCatalogStore.getState().catalogItems, settings);
+    }
+    setPacks(await getInstalledCatalogPacks());
+    setStatus(message);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    setError(null);
+    setIssues([]);
+    setStatus(null);
+    try {
+      // Nothing is written yet — the sheet shows what the install would change.
+      setPlan(await planCatalogPackInstall(await file.text()));
+    } catch (err) {
+      console.error('[CatalogPackSection] Plan error:', err);
+      if (err instanceof CatalogPackError) setIssues(err.issues);
+      setError(err instanceof Error ? err.message : 'Could not read the pack');
+    }
+  };
+
+  const handleInstall = async () => {
+    if (!plan) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const summary = await installCatalogPack(plan);
+      setPlan(null);
+      await afterChange(describeChange(plan.installedVersion ? 'Upgraded' : 'Installed', `${plan.pack.name} v${plan.pack.version}`, summary));
+    } catch (err) {
+      console.error('[CatalogPackSection] Install error:', err);
+      setError(err instanceof Error ? err.message : 'Install failed');
+      setPlan(null);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleUninstall = async () => {
+    if (!pendingUninstall) return;
+    const pack = pendingUninstall;
+    setPendingUninstall(null);
+    setIsWorking(true);
+    setError(null);
+    try {
+      const summary = await uninstallCatalogPack(pack.id);
+      await afterChange(describeChange('Removed', pack.name, summary));
+    } catch (err) {
+      console.error('[CatalogPackSection] Uninstall error:', err);
+      setError(err instanceof Error ? err.message : 'Uninstall failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const installedItems = packs.find((pack) => pack.id === plan?.pack.id)?.items ?? [];
+  const itemName = (id: string) =>
+    [...(plan?.pack.items ?? []), ...installedItems].find((item) => item.id === id)?.name ?? id;
+  const planRows = plan
+    ? [
+        { label: 'New', ids: plan.added },
+        { label: 'Updated', ids: plan.updated },
+        { label: 'Back from custom items', ids: plan.reclaimed },
+        { label: 'Removed', ids: plan.removed },
+      ].filter((row) => row.ids.length > 0)
+    : [];
+
+  return (
+    <section className="space-y-1">
+      <div className="flex items-center gap-2 pb-1 border-b border-[var(--color-border)]">
+        <span className="font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)]">CATALOG PACKS</span>
+        <span className="text-xs text-[var(--color-text-dim)]">({packs.length})</span>
+      </div>
+
+      {error && (
+        <div className="px-1 py-2 border-l-2 border-[var(--color-danger)] space-y-1">
+          <div className="flex items-start gap-2">
+            <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+            <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{error}</p>
+          </div>
+          {issues.length > 0 && (
+            <ul className="space-y-1 max-h-60 overflow-y-auto">
+              {issues.map((issue, idx) => (
+                <li key={idx} className="text-xs text-[var(--color-text-muted)] break-words">{formatCatalogIssue(issue)}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {status && (
+        <div className="flex items-start gap-2 px-1 py-2">
+          <CheckCircle2 className="w-4 h-4 text-[var(--color-success)] shrink-0" />
+          <p className="text-xs text-[var(--color-text-muted)]">{status}</p>
+        </div>
+      )}
+
+      {packs.map((pack) => (
+        <div key={pack.id} className="flex items-center justify-between gap-3 py-2.5 px-1 border-b border-[var(--color-border)]/50">
+          <div className="min-w-0">
+            <div className="text-sm text-[var(--color-text)] truncate">{pack.name}</div>
+            <p className="text-xs text-[var(--color-text-muted)] truncate">
+              v{pack.version} · {plural(pack.items.length, 'item')}
+              {pack.author && ` · ${pack.author}`}
+            </p>
+          </div>
+          <button
+            onClick={() => setPendingUninstall(pack)}
+            disabled={isWorking}
+            className="shrink-0 p-2 text-[var(--color-text-muted)] hover:text-[var(--color-danger)] transition-colors disabled:opacity-40"
+            aria-label={`Uninstall ${pack.name}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isWorking}
+        className="w-full flex items-center justify-center gap-2 py-3 font-display text-sm tracking-widest text-[var(--color-primary)] hover:bg-[var(--color-primary)]/5 transition-colors disabled:opacity-40"
+      >
+        {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Package className="w-4 h-4" />}
+        INSTALL PACK
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFile}
+        className="hidden"
+      />
+      <p className="text-xs text-[var(--color-text-muted)]">
+        Packs add benchmarks from a JSON file. Installing a newer version upgrades the pack; your logs stay with its items.
+      </p>
+
+      {plan && (
+        <BottomSheet
+          title={plan.installedVersion
+            ? `Upgrade · ${plan.pack.name} v${plan.installedVersion} → v${plan.pack.version}`
+            : `Install · ${plan.pack.name} v${plan.pack.version}`}
+          onClose={() => setPlan(null)}
+        >
+          {plan.pack.description && (
+            <p className="pb-3 text-xs text-[var(--color-text-muted)]">{plan.pack.description}</p>
+          )}
+          <div className="max-h-[50vh] overflow-y-auto">
+            {planRows.map((row) => (
+              <div key={row.label} className="py-2 px-1 border-b border-[var(--color-border)]/50">
+                <div className="label-eyebrow mb-1">{row.label} ({row.ids.length})</div>
+                <p className="text-xs text-[var(--color-text)]">
+                  {row.ids.map(itemName).join(', ')}
+                </p>
+              </div>
+            ))}
+          </div>
+          {plan.removed.length > 0 && (
+            <p className="pt-3 text-xs text-[var(--color-text-muted)]">
+              Removed items with logs, goals or a favorite stay as custom items.
+            </p>
+          )}
+          <div className="flex gap-2 pt-4">
+            <button
+              onClick={() => setPlan(null)}
+              className="flex-1 py-3 font-display text-sm tracking-widest text-[var(--color-text-muted)] border border-[var(--color-border-strong)] hover:text-[var(--color-text)] transition-colors"
+            >
+              CANCEL
+            </button>
+            <button
+              onClick={handleInstall}
+              disabled={isWorking}
+              className="flex-1 py-3 bg-[var(--color-primary)] hover:opacity-90 text-[var(--color-text)] font-display tracking-widest text-sm transition-all active:scale-[0.98] disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {plan.installedVersion ? 'UPGRADE' : 'INSTALL'}
+            </button>
+          </div>
+        </BottomSheet>
+      )}
+
+      {pendingUninstall && (
+        <ConfirmDialog
+          title="Uninstall pack"
+          message={`Remove ${pendingUninstall.name} and its ${plural(pendingUninstall.items.length, 'item')}? Items you've logged, set goals on or favorited stay as custom items.`}
+          confirmLabel="Uninstall"
+          onConfirm={handleUninstall}
+          onCancel={() => setPendingUninstall(null)}
+          isDestructive
+        />
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { BottomSheet } from '../BottomSheet';
+import { useCatalogStore } from '../../stores/catalogStore';
+import { useFullCatalog } from '../../hooks/useFullCatalog';
+import { parsePRLogsCsv } from '../../services/csvService';
+import * as db from '../../db';
+import type { LogImportPreview } from '../../types/dataTransfer';
+
+interface CsvImportSheetProps {
+  csv: string;
+  fileName: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const SKIPPED_LIMIT = 50;
+
+/**
+ * CsvImportSheet — previews PR logs parsed from a CSV file. Valid rows are
+ * added alongside existing logs; rows that can't be read are listed by line.
+ */
+export const CsvImportSheet = ({ csv, fileName, onClose, onImported }: CsvImportSheetProps) => {
+  const catalogItems = useCatalogStore((state) => state.catalogItems);
+  useFullCatalog();
+  const settings = useCatalogStore((state) => state.settings);
+  const importPRLogs = useCatalogStore((state) => state.importPRLogs);
+
+  const [preview, setPreview] = useState<LogImportPreview | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    db.getAllPRLogs()
+      .then((existing) => {
+        if (!cancelled) setPreview(parsePRLogsCsv(csv, catalogItems, settings, existing));
+      })
+      .catch((err) => {
+        console.error('[CsvImportSheet] Preview error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not read CSV file');
+      });
+    return () => { cancelled = true; };
+  }, [csv, catalogItems, settings]);
+
+  const handleApply = async () => {
+    if (!preview) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await importPRLogs(preview.logs);
+      onImported();
+    } catch (err) {
+      console.error('[CsvImportSheet] Import error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import logs');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const count = preview?.logs.length ?? 0;
+  const skipped = preview?.skipped ?? [];
+
+  return (
+    <BottomSheet title="Import PR logs" onClose={onClose}>
+      <div className="space-y-5">
+        <p className="font-display text-xs tracking-widest text-[var(--color-text-muted)] truncate">{fileName.toUpperCase()}</p>
+
+        {!preview ? (
+          !error && (
+            <div className="flex items-center justify-center h-24">
+              <Loader2 className="w-5 h-5 text-[var(--color-text-muted)] animate-spin" />
+            </div>
+          )
+        ) : (
+          <>
+            <div className="flex items-baseline justify-between border-b border-[var(--color-border)] pb-2">
+              <span className="font-display text-xs tracking-widest text-[var(--color-text-muted)]">READY TO IMPORT</span>
+              <span className="font-display text-lg text-[var(--color-text)]">{count}</span>
+            </div>
+
+            {skipped.length > 0 && (
+              <div className="border-l-2 border-[var(--color-warning)] pl-3 py-1 space-y-2">
+                <p className="font-display text-xs tracking-widest text-[var(--color-warning)]">
+                  {skipped.length} {skipped.length === 1 ? 'ROW' : 'ROWS'} SKIPPED
+                </p>
+                <ul className="space-y-1 max-h-60 overflow-y-auto">
+                  {skipped.slice(0, SKIPPED_LIMIT).map((row) => (
+                    <li key={row.line} className="text-xs text-[var(--color-text-muted)] break-words">
+                      Line {row.line}: {row.reason}
+                    </li>
+                  ))}
+                </ul>
+                {skipped.length > SKIPPED_LIMIT && (
+                  <p className="text-xs text-[var(--color-text-muted)]">…and {skipped.length - SKIPPED_LIMIT} more</p>
+                )}
+              </div>
+            )}
+
+            <p className="text-xs text-[var(--color-text-muted)]">
+              Logs are added to your history; nothing existing is changed.
+            </p>
+          </>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 px-1 py-2 border-l-2 border-[var(--color-danger)]">
+            <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+            <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{error}</p>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={isApplying || count === 0}
+          className="w-full py-3.5 px-4 bg-[var(--color-primary)] hover:opacity-90 text-[var(--color-text)] font-display tracking-widest text-sm transition-all active:scale-[0.98] disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isApplying
+            ? 'IMPORTING…'
+            : count === 0
+              ? 'NOTHING TO IMPORT'
+              : `IMPORT ${count} ${count === 1 ? 'LOG' : 'LOGS'}`}
+        </button>
+      </div>
+    </BottomSheet>
+  );
+};
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { BottomSheet } from '../BottomSheet';
+import { useCatalogStore } from '../../stores/catalogStore';
+import { encryptExport } from '../../utils/exportCrypto';
+import { downloadFile, fileDateStamp } from '../../utils/download';
+
+interface EncryptedExportSheetProps {
+  onClose: () => void;
+  onExported: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const labelClass = 'block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-2';
+
+/**
+ * EncryptedExportSheet — exports all data as a passphrase-encrypted file,
+ * for backups that get sent over chat apps or email.
+ */
+export const EncryptedExportSheet = ({ onClose, onExported }: EncryptedExportSheetProps) => {
+  const exportData = useCatalogStore((state) => state.exportData);
+
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setIsExporting(true);
+    setError(null);
+    try {
+      const encrypted = await encryptExport(await exportData(), passphrase);
+      downloadFile(encrypted, `crossfit-toolkit-backup-encrypted-${fileDateStamp()}.json`, 'application/json');
+      onExported();
+    } catch (err) {
+      console.error('[EncryptedExportSheet] Export error:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <BottomSheet title="Encrypted export" onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <p className="text-xs text-[var(--color-text-muted)]">
+          The file can only be imported with this passphrase. There is no way to recover it if you forget it.
+        </p>
+
+        <div>
+          <label className={labelClass}>PASSPHRASE</label>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="new-password"
+            className="field w-full px-3 py-2.5 text-sm"
+            autoFocus
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>CONFIRM PASSPHRASE</label>
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoComplete="new-password"
+            className="field w-full px-3 py-2.5 text-sm"
+          />
+        </div>
+
+        {error && (
+          <div className="flex items-start gap-2 px-1 py-2 border-l-2 border-[var(--color-danger)]">
+            <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+            <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{error}</p>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={isExporting || !passphrase || !confirmation}
+          className="w-full py-3.5 px-4 bg-[var(--color-primary)] hover:opacity-90 text-[var(--color-text)] font-display tracking-widest text-sm transition-all active:scale-[0.98] disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isExporting ? 'ENCRYPTING…' : 'ENCRYPT & DOWNLOAD'}
+        </button>
+      </form>
+    </BottomSheet>
+  );
+};
@@ -0,0 +1,264 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { BottomSheet } from '../BottomSheet';
+import { useCatalogStore } from '../../stores/catalogStore';
+import { useFullCatalog } from '../../hooks/useFullCatalog';
+import { SCORE_TYPES } from '../../config/scoreTypes';
+import { LOG_IMPORT_ADAPTERS } from '../../services/importers';
+import {
+  groupSourceRows,
+  previewExternalImport,
+  readExternalLogFile,
+} from '../../services/logImportService';
+import * as db from '../../db';
+import type { PRLog, ScoreType } from '../../types/catalog';
+import type { NameMapping } from '../../types/dataTransfer';
+
+interface ExternalImportSheetProps {
+  text: string;
+  fileName: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const SKIPPED_LIMIT = 50;
+
+const fieldClass = 'field w-full px-2 py-1.5 text-xs';
+
+/** `<select>` value ↔ mapping */
+const encodeMapping = (mapping: NameMapping): string =>
+  mapping.kind === 'item' ? `item:${mapping.itemId}` : mapping.kind;
+
+/**
+ * ExternalImportSheet — imports another app's CSV export. Each distinct
+ * workout name is matched to the catalog (or a new custom item) and the user
+ * confirms the mapping before any log is written.
+ */
+export const ExternalImportSheet = ({ text, fileName, onClose, onImported }: ExternalImportSheetProps) => {
+  const catalogItems = useCatalogStore((state) => state.catalogItems);
+  useFullCatalog();
+  const settings = useCatalogStore((state) => state.settings);
+  const importExternalLogs = useCatalogStore((state) => state.importExternalLogs);
+
+  const [adapterId, setAdapterId] = useState<string | undefined>(undefined);
+  const [weightUnit, setWeightUnit] = useState(settings.weightUnit);
+  const [mappings, setMappings] = useState<Record<string, NameMapping>>({});
+  const [existingLogs, setExistingLogs] = useState<PRLog[] | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    db.getAllPRLogs()
+      .then((logs) => {
+        if (!cancelled) setExistingLogs(logs);
+      })
+      .catch((err) => {
+        console.error('[ExternalImportSheet] Load error:', err);
+        if (!cancelled) setError('Could not read existing logs');
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const file = useMemo(() => {
+    try {
+      return { ...readExternalLogFile(text, adapterId), error: null };
+    } catch (err) {
+      return { adapter: null, rows: [], error: err instanceof Error ? err.message : 'Could not read file' };
+    }
+  }, [text, adapterId]);
+
+  const groups = useMemo(() => groupSourceRows(file.rows, catalogItems), [file.rows, catalogItems]);
+
+  const preview = useMemo(
+    () => existingLogs
+      ? previewExternalImport(file.rows, groups, mappings, catalogItems, settings, existingLogs, weightUnit)
+      : null,
+    [file.rows, groups, mappings, catalogItems, settings, existingLogs, weightUnit]
+  );
+
+  const setMapping = (name: string, mapping: NameMapping) => {
+    setMappings((prev) => ({ ...prev, [name]: mapping }));
+  };
+
+  const handleMappingChange = (name: string, value: string, fallbackScoreType: ScoreType) => {
+    if (value === 'skip') setMapping(name, { kind: 'skip' });
+    else if (value === 'create') setMapping(name, { kind: 'create', scoreType: fallbackScoreType });
+    else setMapping(name, { kind: 'item', itemId: value.slice('item:'.length) });
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await importExternalLogs(preview.newItems, preview.logs);
+      onImported();
+    } catch (err) {
+      console.error('[ExternalImportSheet] Import error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import logs');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const count = preview?.logs.length ?? 0;
+  const newItemCount = preview?.newItems.length ?? 0;
+  const skipped = preview?.skipped ?? [];
+
+  return (
+    <BottomSheet title="Import from another app" onClose={onClose}>
+      <div className="space-y-5">
+        <p className="font-display text-xs tracking-widest text-[var(--color-text-muted)] truncate">{fileName.toUpperCase()}</p>
+
+        {/* Source format */}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-1.5">FORMAT</label>
+            <select
+              value={adapterId ?? file.adapter?.id ?? ''}
+              onChange={(e) => setAdapterId(e.target.value)}
+              className={fieldClass}
+            >
+              {!file.adapter && !adapterId && <option value="">Unrecognized</option>}
+              {LOG_IMPORT_ADAPTERS.map((adapter) => (
+                <option key={adapter.id} value={adapter.id}>{adapter.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-1.5">LOADS IN FILE</label>
+            <div className="flex border-b border-[var(--color-border)]">
+              {(['kg', 'lb'] as const).map((unit) => (
+                <button
+                  key={unit}
+                  type="button"
+                  onClick={() => setWeightUnit(unit)}
+                  className={`flex-1 py-1.5 font-display text-xs tracking-widest transition-colors border-b-2 -mb-px ${
+                    weightUnit === unit
+                      ? 'border-[var(--color-primary)] text-[var(--color-primary)]'
+                      : 'border-transparent text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+                  }`}
+                  aria-pressed={weightUnit === unit}
+                >
+                  {unit.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+        {file.adapter && (
+          <p className="-mt-3 text-xs text-[var(--color-text-muted)]">{file.adapter.description}</p>
+        )}
+
+        {file.error ? (
+          <div className="flex items-start gap-2 px-1 py-2 border-l-2 border-[var(--color-danger)]">
+            <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+            <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{file.error}</p>
+          </div>
+        ) : !preview ? (
+          !error && (
+            <div className="flex items-center justify-center h-24">
+              <Loader2 className="w-5 h-5 text-[var(--color-text-muted)] animate-spin" />
+            </div>
+          )
+        ) : (
+          <>
+            {/* Name mapping */}
+            <div>
+              <label className="block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-2">
+                MATCH {groups.length} {groups.length === 1 ? 'NAME' : 'NAMES'}
+              </label>
+              <ul className="space-y-3 max-h-80 overflow-y-auto">
+                {groups.map((group) => {
+                  const mapping = mappings[group.name] ?? group.suggested;
+                  const createScoreType = mapping.kind === 'create'
+                    ? mapping.scoreType
+                    : group.suggested.kind === 'create' ? group.suggested.scoreType : 'Reps';
+                  return (
+                    <li key={group.name} className="space-y-1.5 border-b border-[var(--color-border)]/50 pb-3">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <span className="text-sm text-[var(--color-text)] truncate">{group.name}</span>
+                        <span className="font-display text-xs text-[var(--color-text-muted)] shrink-0">×{group.rows.length}</span>
+                      </div>
+                      <select
+                        value={encodeMapping(mapping)}
+                        onChange={(e) => handleMappingChange(group.name, e.target.value, createScoreType)}
+                        className={fieldClass}
+                      >
+                        {group.matches.map((match) => (
+                          <option key={match.item.id} value={`item:${match.item.id}`}>
+                            {match.item.name} ({Math.round(match.score * 100)}%)
+                          </option>
+                        ))}
+                        <option value="create">Create custom item</option>
+                        <option value="skip">Skip</option>
+                      </select>
+                      {mapping.kind === 'create' && (
+                        <select
+                          value={mapping.scoreType}
+                          onChange={(e) => setMapping(group.name, { kind: 'create', scoreType: e.target.value as ScoreType })}
+                          className={fieldClass}
+                          aria-label="Score type"
+                        >
+                          {Object.values(SCORE_TYPES).map((def) => (
+                            <option key={def.id} value={def.id}>Scored by {def.name}</option>
+                          ))}
+                        </select>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+
+            <div className="flex items-baseline justify-between border-b border-[var(--color-border)] pb-2">
+              <span className="font-display text-xs tracking-widest text-[var(--color-text-muted)]">
+                READY TO IMPORT{newItemCount > 0 && ` · ${newItemCount} NEW ${newItemCount === 1 ? 'ITEM' : 'ITEMS'}`}
+              </span>
+              <span className="font-display text-lg text-[var(--color-text)]">{count}</span>
+            </div>
+
+            {skipped.length > 0 && (
+              <div className="border-l-2 border-[var(--color-warning)] pl-3 py-1 space-y-2">
+                <p className="font-display text-xs tracking-widest text-[var(--color-warning)]">
+                  {skipped.length} {skipped.length === 1 ? 'ROW' : 'ROWS'} SKIPPED
+                </p>
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {skipped.slice(0, SKIPPED_LIMIT).map((row) => (
+                    <li key={row.line} className="text-xs text-[var(--color-text-muted)] break-words">
+                      Line {row.line}: {row.reason}
+                    </li>
+                  ))}
+                </ul>
+                {skipped.length > SKIPPED_LIMIT && (
+                  <p className="text-xs text-[var(--color-text-muted)]">…and {skipped.length - SKIPPED_LIMIT} more</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 px-1 py-2 border-l-2 border-[var(--color-danger)]">
+            <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+            <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{error}</p>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={isApplying || count === 0}
+          className="w-full py-3.5 px-4 bg-[var(--color-primary)] hover:opacity-90 text-[var(--color-text)] font-display tracking-widest text-sm transition-all active:scale-[0.98] disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isApplying
+            ? 'IMPORTING…'
+            : count === 0
+              ? 'NOTHING TO IMPORT'
+              : `IMPORT ${count} ${count === 1 ? 'LOG' : 'LOGS'}`}
+        </button>
+      </div>
+    </BottomSheet>
+  );
+};
@@ -0,0 +1,38 @@
+import { AlertCircle } from 'lucide-react';
+import { formatImportIssue } from '../../utils/importValidator';
+import type { ImportIssue } from '../../types/dataTransfer';
+
+interface ImportIssueListProps {
+  issues: ImportIssue[];
+  /** Max rows rendered before collapsing into an "and N more" line */
+  limit?: number;
+}
+
+/**
+ * ImportIssueList — row-level validation errors for a rejected import file.
+ */
+export const ImportIssueList = ({ issues, limit = 50 }: ImportIssueListProps) => {
+  const shown = issues.slice(0, limit);
+  const hidden = issues.length - shown.length;
+
+  return (
+    <div className="border-l-2 border-[var(--color-danger)] pl-3 py-1 space-y-2">
+      <div className="flex items-center gap-2">
+        <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+        <p className="font-display text-xs tracking-widest text-[var(--color-danger)]">
+          {issues.length} {issues.length === 1 ? 'PROBLEM' : 'PROBLEMS'} FOUND · NOTHING WAS IMPORTED
+        </p>
+      </div>
+      <ul className="space-y-1 max-h-60 overflow-y-auto">
+        {shown.map((issue, idx) => (
+          <li key={idx} className="text-xs text-[var(--color-text-muted)] break-words">
+            {formatImportIssue(issue)}
+          </li>
+        ))}
+      </ul>
+      {hidden > 0 && (
+        <p className="text-xs text-[var(--color-text-muted)]">…and {hidden} more</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,281 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Loader2, Lock } from 'lucide-react';
+import { BottomSheet } from '../BottomSheet';
+import { ImportIssueList } from './ImportIssueList';
+import { ImportValidationError } from '../../utils/importValidator';
+import { decryptExport, isEncryptedExport } from '../../utils/exportCrypto';
+import { useCatalogStore } from '../../stores/catalogStore';
+import * as db from '../../db';
+import type { ImportIssue, ImportTable, MergePlan, MergeStrategy } from '../../types/dataTransfer';
+
+interface ImportSheetProps {
+  json: string;
+  fileName: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type ImportMode = 'merge' | 'replace';
+
+const TABLE_LABELS: Record<ImportTable, string> = {
+  favorites: 'Favorites',
+  customItems: 'Custom items',
+  prLogs: 'PR logs',
+  goals: 'Goals',
+  dailyCheckIns: 'Check-ins',
+};
+
+const STRATEGIES: { value: MergeStrategy; label: string; hint: string }[] = [
+  { value: 'keep-local', label: 'KEEP LOCAL', hint: 'Conflicting records on this device are kept' },
+  { value: 'keep-incoming', label: 'KEEP INCOMING', hint: 'Conflicting records from the file replace local ones' },
+  { value: 'newest-wins', label: 'NEWEST WINS', hint: 'The most recently created record is kept' },
+];
+
+/**
+ * ImportSheet — previews a backup file before anything is written.
+ * Encrypted files ask for their passphrase first. Merge shows a per-table
+ * dry-run report and lets the user pick a conflict strategy; Replace keeps
+ * the original wipe-and-restore behavior.
+ */
+export const ImportSheet = ({ json, fileName, onClose, onImported }: ImportSheetProps) => {
+  const importData = useCatalogStore((state) => state.importData);
+  const mergeImport = useCatalogStore((state) => state.mergeImport);
+
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [strategy, setStrategy] = useState<MergeStrategy>('newest-wins');
+  const [plan, setPlan] = useState<MergePlan | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ImportIssue[]>([]);
+  // Decrypted export JSON; null until an encrypted file is unlocked
+  const [plainJson, setPlainJson] = useState<string | null>(() => (isEncryptedExport(json) ? null : json));
+  const [passphrase, setPassphrase] = useState('');
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  useEffect(() => {
+    if (plainJson === null) return;
+    let cancelled = false;
+    db.previewMergeImport(plainJson)
+      .then((next) => {
+        if (!cancelled) setPlan(next);
+      })
+      .catch((err) => {
+        console.error('[ImportSheet] Preview error:', err);
+        if (cancelled) return;
+        if (err instanceof ImportValidationError) setIssues(err.issues);
+        else setError(err instanceof Error ? err.message : 'Could not read backup file');
+      });
+    return () => { cancelled = true; };
+  }, [plainJson]);
+
+  const summary = useMemo(() => (plan ? db.summarizeMergePlan(plan, strategy) : null), [plan, strategy]);
+  const totalChanges = summary
+    ? db.IMPORT_TABLES.reduce((sum, table) => sum + summary[table].added + summary[table].updated, 0)
+    : 0;
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsDecrypting(true);
+    setError(null);
+    try {
+      setPlainJson(await decryptExport(json, passphrase));
+    } catch (err) {
+      console.error('[ImportSheet] Decrypt error:', err);
+      setError(err instanceof Error ? err.message : 'Could not decrypt file');
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (plainJson === null) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      if (mode === 'merge' && plan) {
+        await mergeImport(plan, strategy);
+      } else {
+        await importData(plainJson);
+      }
+      onImported();
+    } catch (err) {
+      console.error('[ImportSheet] Import error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import data');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (plainJson === null) {
+    return (
+      <BottomSheet title="Import backup" onClose={onClose}>
+        <form onSubmit={handleUnlock} className="space-y-5">
+          <p className="font-display text-xs tracking-widest text-[var(--color-text-muted)] truncate">{fileName.toUpperCase()}</p>
+
+          <div className="flex items-start gap-2">
+            <Lock className="w-4 h-4 text-[var(--color-text-muted)] shrink-0 mt-0.5" />
+            <p className="text-xs text-[var(--color-text-muted)]">This backup is encrypted. Enter the passphrase it was exported with.</p>
+          </div>
+
+          <div>
+            <label className="block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-2">PASSPHRASE</label>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoComplete="current-password"
+              className="field w-full px-3 py-2.5 text-sm"
+              autoFocus
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 px-1 py-2 border-l-2 border-[var(--color-danger)]">
+              <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+              <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isDecrypting || !passphrase}
+            className="w-full py-3.5 px-4 bg-[var(--color-primary)] hover:opacity-90 text-[var(--color-text)] font-display tracking-widest text-sm transition-all active:scale-[0.98] disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isDecrypting ? 'DECRYPTING…' : 'UNLOCK'}
+          </button>
+        </form>
+      </BottomSheet>
+    );
+  }
+
+  return (
+    <BottomSheet title="Import backup" onClose={onClose}>
+      <div className="space-y-5">
+        <p className="font-display text-xs tracking-widest text-[var(--color-text-muted)] truncate">{fileName.toUpperCase()}</p>
+
+        {issues.length > 0 ? (
+          <ImportIssueList issues={issues} />
+        ) : (
+          <>
+            {/* Mode toggle */}
+            <div className="flex border-b border-[var(--color-border)]">
+              {(['merge', 'replace'] as const).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setMode(m)}
+                  className={`flex-1 py-2 font-display text-sm tracking-widest transition-colors border-b-2 -mb-px ${
+                    mode === m
+                      ? 'border-[var(--color-primary)] text-[var(--color-primary)]'
+                      : 'border-transparent text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+                  }`}
+                  aria-pressed={mode === m}
+                >
+                  {m.toUpperCase()}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'merge' ? (
+              !summary ? (
+                !error && (
+                  <div className="flex items-center justify-center h-24">
+                    <Loader2 className="w-5 h-5 text-[var(--color-text-muted)] animate-spin" />
+                  </div>
+                )
+              ) : (
+                <>
+                  {/* Dry-run report */}
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="font-display tracking-widest text-[var(--color-text-muted)] border-b border-[var(--color-border)]">
+                        <th className="text-left py-1.5 font-normal">TABLE</th>
+                        <th className="text-right py-1.5 font-normal">ADD</th>
+                        <th className="text-right py-1.5 font-normal">UPDATE</th>
+                        <th className="text-right py-1.5 font-normal">SKIP</th>
+                        <th className="text-right py-1.5 font-normal">CONFLICT</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {db.IMPORT_TABLES.map((table) => {
+                        const row = summary[table];
+                        return (
+                          <tr key={table} className="border-b border-[var(--color-border)]/50">
+                            <td className="py-2 text-[var(--color-text)]">{TABLE_LABELS[table]}</td>
+                            <td className="py-2 text-right font-display text-[var(--color-text)]">{row.added}</td>
+                            <td className="py-2 text-right font-display text-[var(--color-text)]">{row.updated}</td>
+                            <td className="py-2 text-right font-display text-[var(--color-text-muted)]">{row.skipped}</td>
+                            <td className={`py-2 text-right font-display ${row.conflicting > 0 ? 'text-[var(--color-warning)]' : 'text-[var(--color-text-muted)]'}`}>
+                              {row.conflicting}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+
+                  {/* Conflict strategy */}
+                  <div>
+                    <label className="block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-2">ON CONFLICT</label>
+                    <div className="flex border-b border-[var(--color-border)]">
+                      {STRATEGIES.map((s) => (
+                        <button
+                          key={s.value}
+                          type="button"
+                          onClick={() => setStrategy(s.value)}
+                          className={`flex-1 py-2 font-display text-[11px] tracking-widest transition-colors border-b-2 -mb-px ${
+                            strategy === s.value
+                              ? 'border-[var(--color-primary)] text-[var(--color-primary)]'
+                              : 'border-transparent text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+                          }`}
+                          aria-pressed={strategy === s.value}
+                        >
+                          {s.label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="mt-1.5 text-xs text-[var(--color-text-muted)]">
+                      {STRATEGIES.find((s) => s.value === strategy)?.hint}. Settings on this device are not changed.
+                    </p>
+                  </div>
+                </>
+              )
+            ) : (
+              <div className="px-1 py-2 border-l-2 border-[var(--color-danger)]">
+                <p className="text-xs text-[var(--color-text-muted)]">
+                  Replaces all PRs, favorites, custom items, goals, check-ins and settings on this device with the contents of the file.
+                </p>
+              </div>
+            )}
+          </>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 px-1 py-2 border-l-2 border-[var(--color-danger)]">
+            <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+            <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{error}</p>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={isApplying || issues.length > 0 || (mode === 'merge' && (!plan || totalChanges === 0))}
+          className={`w-full py-3.5 px-4 font-display tracking-widest text-sm transition-all active:scale-[0.98] disabled:opacity-40 disabled:cursor-not-allowed ${
+            mode === 'replace'
+              ? 'bg-[var(--color-danger)] hover:opacity-90 text-white'
+              : 'bg-[var(--color-primary)] hover:opacity-90 text-[var(--color-text)]'
+          }`}
+        >
+          {isApplying
+            ? 'IMPORTING…'
+            : mode === 'replace'
+              ? 'REPLACE ALL DATA'
+              : totalChanges === 0
+                ? 'NOTHING TO MERGE'
+                : `MERGE ${totalChanges} ${totalChanges === 1 ? 'RECORD' : 'RECORDS'}`}
+        </button>
+      </div>
+    </BottomSheet>
+  );
+};
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { AlertCircle, CheckCircle2, Loader2, Stethoscope } from 'lucide-react';
+import { BottomSheet } from '../BottomSheet';
+import { useCatalogStore } from '../../stores/catalogStore';
+import { useGoalsStore } from '../../stores/goalsStore';
+import { useCheckInStore } from '../../stores/checkInStore';
+import { INTEGRITY_PROBLEM_KINDS, planIntegrityRepair, scanIntegrity } from '../../db/integrity';
+import type { IntegrityProblemKind, IntegrityReport, RepairPlan } from '../../types/integrity';
+
+const KIND_LABELS: Record<IntegrityProblemKind, { title: string; detail: string }> = {
+  'orphan-log': { title: 'Logs without an item', detail: 'Recreates the missing items' },
+  'orphan-goal': { title: 'Goals without an item', detail: 'Moves the goals to the trash' },
+  'duplicate-check-in': { title: 'Duplicate check-ins', detail: 'Keeps the latest check-in per day' },
+  'result-mismatch': { title: 'Results with a wrong value', detail: 'Re-reads the value from the result' },
+  'id-collision': { title: 'Overwritten records', detail: 'Restores them under a new id' },
+};
+
+/**
+ * IntegritySection — Settings block that scans the database for orphaned,
+ * duplicate and inconsistent records, and applies a repair per problem kind
+ * after the user has reviewed its steps.
+ */
+export const IntegritySection = () => {
+  const catalogItems = useCatalogStore((state) => state.catalogItems);
+  const settings = useCatalogStore((state) => state.settings);
+  const applyIntegrityRepair = useCatalogStore((state) => state.applyIntegrityRepair);
+  const goalsIsInitialized = useGoalsStore((state) => state.isInitialized);
+  const refreshGoals = useGoalsStore((state) => state.refreshGoals);
+  const checkInIsInitialized = useCheckInStore((state) => state.isInitialized);
+  const refreshCheckIns = useCheckInStore((state) => state.refresh);
+
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [plan, setPlan] = useState<RepairPlan | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalIssues = report
+    ? INTEGRITY_PROBLEM_KINDS.reduce((sum, kind) => sum + report.issues[kind].length, 0)
+    : 0;
+
+  const handleScan = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      setReport(await scanIntegrity());
+    } catch (err) {
+      console.error('[IntegritySection] Scan error:', err);
+      setError(err instanceof Error ? err.message : 'Scan failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleReview = async (kind: IntegrityProblemKind) => {
+    setError(null);
+    try {
+      setPlan(await planIntegrityRepair(kind));
+    } catch (err) {
+      console.error('[IntegritySection] Plan error:', err);
+      setError(err instanceof Error ? err.message : 'Could not prepare the repair');
+    }
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      await applyIntegrityRepair(plan);
+      if (goalsIsInitialized) {
+        await refreshGoals(useCatalogStore.getState().catalogItems, settings);
+      }
+      if (checkInIsInitialized) {
+        await refreshCheckIns();
+      }
+      setPlan(null);
+      setReport(await scanIntegrity());
+    } catch (err) {
+      console.error('[IntegritySection] Repair error:', err);
+      setError(err instanceof Error ? err.message : 'Repair failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <section className="space-y-1">
+      <div className="flex items-center gap-2 pb-1 border-b border-[var(--color-border)]">
+        <span className="font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)]">DIAGNOSTICS</span>
+        {report && <span className="text-xs text-[var(--color-text-dim)]">({totalIssues})</span>}
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 px-1 py-2 border-l-2 border-[var(--color-danger)]">
+          <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+          <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{error}</p>
+        </div>
+      )}
+
+      {report && (
+        totalIssues === 0 ? (
+          <div className="flex items-center gap-2 px-1 py-3">
+            <CheckCircle2 className="w-4 h-4 text-[var(--color-success)] shrink-0" />
+            <p className="text-xs text-[var(--color-text-muted)]">
+              No problems found in {catalogItems.length} items and their logs, goals and check-ins.
+            </p>
+          </div>
+        ) : (
+          INTEGRITY_PROBLEM_KINDS.map((kind) => {
+            const count = report.issues[kind].length;
+            return (
+              <div key={kind} className="flex items-center justify-between gap-3 py-2.5 px-1 border-b border-[var(--color-border)]/50">
+                <div className="min-w-0">
+                  <div className="flex items-baseline gap-2">
+                    <span className="text-sm text-[var(--color-text)] truncate">{KIND_LABELS[kind].title}</span>
+                    <span className={`text-xs ${count > 0 ? 'text-[var(--color-danger)]' : 'text-[var(--color-text-dim)]'}`}>
+                      {count}
+                    </span>
+                  </div>
+                  {count > 0 && (
+                    <p className="text-xs text-[var(--color-text-muted)] truncate">{report.issues[kind][0].message}</p>
+                  )}
+                </div>
+                {count > 0 && (
+                  <button
+                    onClick={() => handleReview(kind)}
+                    disabled={isWorking}
+                    className="shrink-0 px-3 py-1.5 font-display text-xs tracking-widest text-[var(--color-primary)] hover:opacity-80 transition-opacity disabled:opacity-40"
+                  >
+                    REVIEW
+                  </button>
+                )}
+              </div>
+            );
+          })
+        )
+      )}
+
+      <button
+        onClick={handleScan}
+        disabled={isWorking}
+        className="w-full flex items-center justify-center gap-2 py-3 font-display text-sm tracking-widest text-[var(--color-primary)] hover:bg-[var(--color-primary)]/5 transition-colors disabled:opacity-40"
+      >
+        {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Stethoscope className="w-4 h-4" />}
+        {report ? 'SCAN AGAIN' : 'CHECK DATA'}
+      </button>
+
+      {plan && (
+        <BottomSheet title={`Repair · ${KIND_LABELS[plan.kind].title}`} onClose={() => setPlan(null)}>
+          <p className="pb-3 text-xs text-[var(--color-text-muted)]">
+            {KIND_LABELS[plan.kind].detail}. Review the changes below; nothing is written until you apply them.
+          </p>
+          {plan.steps.length === 0 ? (
+            <p className="py-6 text-sm text-center text-[var(--color-text-muted)]">Nothing left to repair.</p>
+          ) : (
+            <div className="max-h-[50vh] overflow-y-auto">
+              {plan.steps.map((step, index) => (
+                <p key={index} className="py-2 px-1 text-xs text-[var(--color-text)] border-b border-[var(--color-border)]/50">
+                  {step.description}
+                </p>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2 pt-4">
+            <button
+              onClick={() => setPlan(null)}
+              className="flex-1 py-3 font-display text-sm tracking-widest text-[var(--color-text-muted)] border border-[var(--color-border-strong)] hover:text-[var(--color-text)] transition-colors"
+            >
+              CANCEL
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={isWorking || plan.steps.length === 0}
+              className="flex-1 py-3 bg-[var(--color-primary)] hover:opacity-90 text-[var(--color-text)] font-display tracking-widest text-sm transition-all active:scale-[0.98] disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              APPLY {plan.steps.length} {plan.steps.length === 1 ? 'CHANGE' : 'CHANGES'}
+            </button>
+          </div>
+        </BottomSheet>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+import { useCatalogStore } from '../../stores/catalogStore';
+import { useGoalsStore } from '../../stores/goalsStore';
+import { useCheckInStore } from '../../stores/checkInStore';
+import { normalizeSyncConfig } from '../../services/syncService';
+import * as syncDb from '../../db/sync';
+import type { SyncState } from '../../types/sync';
+
+const labelClass = 'block font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)] mb-2';
+
+const formatTimestamp = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * SyncSection — Settings block for optional sync with a self-hosted server:
+ * server address and athlete id, last sync status, and "sync now".
+ */
+export const SyncSection = () => {
+  const catalogItems = useCatalogStore((state) => state.catalogItems);
+  const settings = useCatalogStore((state) => state.settings);
+  const syncNow = useCatalogStore((state) => state.syncNow);
+  const goalsIsInitialized = useGoalsStore((state) => state.isInitialized);
+  const refreshGoals = useGoalsStore((state) => state.refreshGoals);
+  const checkInIsInitialized = useCheckInStore((state) => state.isInitialized);
+  const refreshCheckIns = useCheckInStore((state) => state.refresh);
+
+  const [syncState, setSyncState] = useState<SyncState | null | undefined>(undefined);
+  const [pending, setPending] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState({ serverUrl: '', athleteId: '', token: '' });
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    syncDb.getSyncState()
+      .then(async (state) => {
+        setSyncState(state ?? null);
+        setPending(state ? await syncDb.countPendingChanges(state) : 0);
+      })
+      .catch((err) => console.error('[SyncSection] Load error:', err));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, catalogItems]);
+
+  const startEditing = () => {
+    setForm({
+      serverUrl: syncState?.serverUrl ?? '',
+      athleteId: syncState?.athleteId ?? '',
+      token: syncState?.token ?? '',
+    });
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { config, error: invalid } = normalizeSyncConfig(form);
+    if (!config) {
+      setError(invalid ?? 'Invalid sync settings');
+      return;
+    }
+    try {
+      await syncDb.saveSyncConfig(config);
+      setIsEditing(false);
+      setError(null);
+      setStatus(null);
+      refresh();
+    } catch (err) {
+      console.error('[SyncSection] Save error:', err);
+      setError('Could not save sync settings');
+    }
+  };
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    setError(null);
+    setStatus(null);
+    try {
+      const result = await syncNow();
+      if (result.pulled > 0) {
+        if (goalsIsInitialized) await refreshGoals(useCatalogStore.getState().catalogItems, settings);
+        if (checkInIsInitialized) await refreshCheckIns();
+      }
+      setStatus(
+        [
+          `Received ${plural(result.pulled, 'change')}, sent ${result.pushed}.`,
+          result.replacedCheckIns > 0 && `${plural(result.replacedCheckIns, 'check-in')} replaced by a newer one for the same day.`,
+        ].filter(Boolean).join(' ')
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sync failed');
+    }
+    setIsSyncing(false);
+    refresh();
+  };
+
+  const handleTurnOff = async () => {
+    await syncDb.clearSyncState();
+    setStatus(null);
+    setError(null);
+    refresh();
+  };
+
+  if (syncState === undefined) return null;
+
+  const showForm = isEditing || !syncState;
+
+  return (
+    <section className="space-y-1">
+      <div className="flex items-center gap-2 pb-1 border-b border-[var(--color-border)]">
+        <span className="font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)]">SYNC</span>
+      </div>
+
+      {showForm ? (
+        <form onSubmit={handleSave} className="space-y-4 py-3">
+          <p className="text-xs text-[var(--color-text-muted)]">
+            Keep devices in step through your own sync server. Everyone using the same athlete id shares one set of data.
+          </p>
+          <div>
+            <label className={labelClass}>SERVER URL</label>
+            <input
+              type="url"
+              value={form.serverUrl}
+              onChange={(e) => setForm({ ...form, serverUrl: e.target.value })}
+              placeholder="http://192.168.1.20:8787"
+              className="field w-full px-3 py-2.5 text-sm"
+            />
+          </div>
+          <div>
+            <label className={labelClass}>ATHLETE ID</label>
+            <input
+              type="text"
+              value={form.athleteId}
+              onChange={(e) => setForm({ ...form, athleteId: e.target.value })}
+              placeholder="jane-doe"
+              autoCapitalize="off"
+              className="field w-full px-3 py-2.5 text-sm"
+            />
+          </div>
+          <div>
+            <label className={labelClass}>TOKEN (OPTIONAL)</label>
+            <input
+              type="password"
+              value={form.token}
+              onChange={(e) => setForm({ ...form, token: e.target.value })}
+              autoComplete="off"
+              className="field w-full px-3 py-2.5 text-sm"
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 px-1 py-2 border-l-2 border-[var(--color-danger)]">
+              <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+              <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            {syncState && (
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="flex-1 py-3 font-display text-sm tracking-widest text-[var(--color-text-muted)] border border-[var(--color-border-strong)] hover:text-[var(--color-text)] transition-colors"
+              >
+                CANCEL
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={!form.serverUrl || !form.athleteId}
+              className="flex-1 py-3 bg-[var(--color-primary)] hover:opacity-90 text-[var(--color-text)] font-display tracking-widest text-sm transition-all active:scale-[0.98] disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              SAVE
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-3 py-3 border-b border-[var(--color-border)]">
+            <div className="min-w-0">
+              <p className="text-sm text-[var(--color-text)] truncate">{syncState.athleteId}</p>
+              <p className="text-xs text-[var(--color-text-muted)] truncate">{syncState.serverUrl}</p>
+            </div>
+            <button
+              onClick={startEditing}
+              className="shrink-0 px-3 py-1.5 font-display text-xs tracking-widest text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors"
+            >
+              EDIT
+            </button>
+          </div>
+
+          <div className="py-3 space-y-1">
+            <p className="text-xs text-[var(--color-text-muted)]">
+              {syncState.lastSyncedAt ? `Last synced ${formatTimestamp(syncState.lastSyncedAt)}` : 'Not synced yet'}
+              {pending > 0 && ` · ${plural(pending, 'change')} waiting`}
+            </p>
+            {status && <p className="text-xs text-[var(--color-success)]">{status}</p>}
+          </div>
+
+          {(error ?? syncState.lastError) && (
+            <div className="flex items-start gap-2 px-1 py-2 border-l-2 border-[var(--color-danger)]">
+              <AlertCircle className="w-4 h-4 text-[var(--color-danger)] shrink-0" />
+              <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{error ?? syncState.lastError}</p>
+            </div>
+          )}
+
+          <button
+            onClick={handleSync}
+            disabled={isSyncing}
+            className="w-full flex items-center justify-center gap-2 py-3 font-display text-sm tracking-widest text-[var(--color-primary)] hover:bg-[var(--color-primary)]/5 transition-colors disabled:opacity-40"
+          >
+            {isSyncing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            {isSyncing ? 'SYNCING…' : 'SYNC NOW'}
+          </button>
+          <button
+            onClick={handleTurnOff}
+            disabled={isSyncing}
+            className="w-full py-3 font-display text-sm tracking-widest text-[var(--color-text-muted)] hover:text-[var(--color-danger)] transition-colors disabled:opacity-40"
+          >
+            TURN OFF SYNC
+          </button>
+        </>
+      )}
+    </section>
+  );
+};
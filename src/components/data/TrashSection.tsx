@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { ConfirmDialog } from '../ConfirmDialog';
+import { useCatalogStore } from '../../stores/catalogStore';
+import { useGoalsStore } from '../../stores/goalsStore';
+import { useCheckInStore } from '../../stores/checkInStore';
+import * as db from '../../db';
+import type { TrashedRecord } from '../../types/trash';
+
+const RETENTION_OPTIONS = [7, 30, 90] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TABLE_LABELS: Record<TrashedRecord['table'], string> = {
+  prLogs: 'LOG',
+  goals: 'GOAL',
+  dailyCheckIns: 'CHECK-IN',
+};
+
+/**
+ * TrashSection — Settings block listing soft-deleted logs, goals and
+ * check-ins, with restore, permanent delete and the auto-purge window.
+ */
+export const TrashSection = () => {
+  const catalogItems = useCatalogStore((state) => state.catalogItems);
+  const settings = useCatalogStore((state) => state.settings);
+  const updateSettings = useCatalogStore((state) => state.updateSettings);
+  const restoreFromTrash = useCatalogStore((state) => state.restoreFromTrash);
+  const purgeFromTrash = useCatalogStore((state) => state.purgeFromTrash);
+  const emptyTrash = useCatalogStore((state) => state.emptyTrash);
+  const goalsIsInitialized = useGoalsStore((state) => state.isInitialized);
+  const refreshGoals = useGoalsStore((state) => state.refreshGoals);
+  const checkInIsInitialized = useCheckInStore((state) => state.isInitialized);
+  const refreshCheckIns = useCheckInStore((state) => state.refresh);
+
+  const [trash, setTrash] = useState<TrashedRecord[]>([]);
+  const [loadedAt, setLoadedAt] = useState(0);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const retentionDays = settings.trashRetentionDays ?? db.DEFAULT_TRASH_RETENTION_DAYS;
+  const itemNames = useMemo(() => new Map(catalogItems.map((item) => [item.id, item.name])), [catalogItems]);
+
+  const refresh = useCallback(() => {
+    db.getTrash()
+      .then((records) => {
+        setTrash(records);
+        setLoadedAt(Date.now());
+      })
+      .catch((err) => console.error('[TrashSection] Load error:', err));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, catalogItems]);
+
+  const describe = (entry: TrashedRecord): { title: string; detail: string } => {
+    switch (entry.table) {
+      case 'prLogs':
+        return {
+          title: itemNames.get(entry.record.catalogItemId) ?? entry.record.catalogItemId,
+          detail: `${entry.record.result} · ${new Date(entry.record.date).toLocaleDateString()}`,
+        };
+      case 'goals':
+        return {
+          title: itemNames.get(entry.record.itemId) ?? entry.record.itemId,
+          detail: `Target by ${entry.record.targetDate}`,
+        };
+      case 'dailyCheckIns':
+        return {
+          title: entry.record.date,
+          detail: entry.record.type === 'rest' ? 'Rest day' : 'Training day',
+        };
+    }
+  };
+
+  const daysLeft = (entry: TrashedRecord): number =>
+    Math.max(0, Math.ceil((entry.record.deletedAt + retentionDays * DAY_MS - loadedAt) / DAY_MS));
+
+  const handleRetentionChange = async (days: number) => {
+    await updateSettings({ trashRetentionDays: days });
+    await db.purgeExpiredTrash(days);
+    refresh();
+  };
+
+  const handleRestore = async (entry: TrashedRecord) => {
+    setError(null);
+    try {
+      await restoreFromTrash(entry.table, entry.record.id);
+      if (entry.table === 'goals' && goalsIsInitialized) {
+        await refreshGoals(catalogItems, settings);
+      }
+      if (entry.table === 'dailyCheckIns' && checkInIsInitialized) {
+        await refreshCheckIns();
+      }
+    } catch (err) {
+      console.error('[TrashSection] Restore error:', err);
+      setError(err instanceof Error ? err.message : 'Restore failed');
+    }
+    refresh();
+  };
+
+  const handlePurge = async (entry: TrashedRecord) => {
+    await purgeFromTrash(entry.table, entry.record.id);
+    refresh();
+  };
+
+  const handleEmpty = async () => {
+    setConfirmEmpty(false);
+    await emptyTrash();
+    refresh();
+  };
+
+  return (
+    <section className="space-y-1">
+      <div className="flex items-center gap-2 pb-1 border-b border-[var(--color-border)]">
+        <span className="font-display text-xs tracking-[0.2em] text-[var(--color-text-muted)]">TRASH</span>
+        <span className="text-xs text-[var(--color-text-dim)]">({trash.length})</span>
+      </div>
+
+      {/* Auto-purge window */}
+      <div className="flex items-center justify-between py-3 border-b border-[var(--color-border)]">
+        <span className="text-sm text-[var(--color-text)]">Keep deleted items</span>
+        <div className="flex border-b border-[var(--color-border)] -mb-px">
+          {RETENTION_OPTIONS.map((days) => (
+            <button
+              key={days}
+              onClick={() => handleRetentionChange(days)}
+              className={`px-4 py-2 font-display text-sm tracking-widest transition-colors border-b-2 -mb-px ${
+                retentionDays === days
+                  ? 'border-[var(--color-primary)] text-[var(--color-primary)]'
+                  : 'border-transparent text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+              }`}
+            >
+              {days}D
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-1 py-2 border-l-2 border-[var(--color-danger)]">
+          <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{error}</p>
+        </div>
+      )}
+
+      {trash.length === 0 ? (
+        <p className="px-1 py-3 text-xs text-[var(--color-text-muted)]">Trash is empty.</p>
+      ) : (
+        <>
+          {trash.map((entry) => {
+            const { title, detail } = describe(entry);
+            return (
+              <div key={`${entry.table}-${entry.record.id}`} className="flex items-center justify-between gap-3 py-2.5 px-1 border-b border-[var(--color-border)]/50">
+                <div className="min-w-0">
+                  <div className="flex items-baseline gap-2">
+                    <span className="font-display text-[10px] tracking-widest text-[var(--color-text-muted)]">{TABLE_LABELS[entry.table]}</span>
+                    <span className="text-sm text-[var(--color-text)] truncate">{title}</span>
+                  </div>
+                  <p className="text-xs text-[var(--color-text-muted)] truncate">
+                    {detail} · purged in {daysLeft(entry)}d
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => handleRestore(entry)}
+                    className="p-2 text-[var(--color-text-muted)] hover:text-[var(--color-primary)] transition-colors"
+                    aria-label="Restore"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handlePurge(entry)}
+                    className="p-2 text-[var(--color-text-muted)] hover:text-[var(--color-danger)] transition-colors"
+                    aria-label="Delete permanently"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+          <button
+            onClick={() => setConfirmEmpty(true)}
+            className="w-full py-3 font-display text-sm tracking-widest text-[var(--color-danger)] hover:bg-[var(--color-danger)]/5 transition-colors"
+          >
+            EMPTY TRASH
+          </button>
+        </>
+      )}
+
+      {confirmEmpty && (
+        <ConfirmDialog
+          title="Empty trash"
+          message={`Permanently delete ${trash.length} ${trash.length === 1 ? 'item' : 'items'}? This cannot be undone.`}
+          confirmLabel="Delete"
+          onConfirm={handleEmpty}
+          onCancel={() => setConfirmEmpty(false)}
+          isDestructive
+        />
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,16 @@
+/**
+ * Data Components
+ *
+ * Barrel exports for backup, import, sync and data-management flows.
+ */
+
+export { ImportSheet } from './ImportSheet';
+export { ImportIssueList } from './ImportIssueList';
+export { CsvImportSheet } from './CsvImportSheet';
+export { ExternalImportSheet } from './ExternalImportSheet';
+export { BackupSection } from './BackupSection';
+export { TrashSection } from './TrashSection';
+export { IntegritySection } from './IntegritySection';
+export { CatalogPackSection } from './CatalogPackSection';
+export { SyncSection } from './SyncSection';
+export { EncryptedExportSheet } from './EncryptedExportSheet';
@@ -3,6 +3,7 @@ import { MoreVertical, Trophy, Calendar } from 'lucide-react';
 import type { GoalWithProgress } from '../../types/goal';
 import { TrendIndicator } from './TrendIndicator';
 import { Barbell } from '../Barbell';
+import { formatDate } from '../../utils/i18n';
 
 interface GoalCardProps {
   goal: GoalWithProgress;
@@ -201,7 +202,7 @@ export const GoalCard = ({
               <div className="mb-3">
                 <div className="font-display text-[10px] tracking-widest text-[var(--color-text-muted)] mb-0.5">PROJECTED ACHIEVEMENT</div>
                 <div className="font-display text-sm text-[var(--color-text)]">
-                  {new Date(goal.projectedDate).toLocaleDateString('en-US', {
+                  {formatDate(goal.projectedDate, {
                     month: 'short',
                     day: 'numeric',
                     year: 'numeric',
@@ -217,7 +218,7 @@ export const GoalCard = ({
               <div>
                 <div className="font-display text-[10px] tracking-widest text-[var(--color-text-muted)] mb-0.5">TARGET DATE</div>
                 <div className="font-display text-sm text-[var(--color-text)]">
-                  {new Date(goal.targetDate).toLocaleDateString('en-US', {
+                  {formatDate(goal.targetDate, {
                     month: 'short',
                     day: 'numeric',
                     year: 'numeric',
@@ -227,7 +228,7 @@ export const GoalCard = ({
               <div>
                 <div className="font-display text-[10px] tracking-widest text-[var(--color-text-muted)] mb-0.5">CREATED</div>
                 <div className="font-display text-sm text-[var(--color-text)]">
-                  {new Date(goal.createdAt).toLocaleDateString('en-US', {
+                  {formatDate(goal.createdAt, {
                     month: 'short',
                     day: 'numeric',
                     year: 'numeric',
@@ -1,12 +1,13 @@
 import { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
-import type { CatalogItem, Variant, ScoreType } from '../../types/catalog';
+import type { CatalogItem, Variant, ScoreType, WeightUnit, DistanceUnit } from '../../types/catalog';
 import type { Goal, CreateGoalInput, UpdateGoalInput } from '../../types/goal';
 import { ItemSelector } from './ItemSelector';
 import { DatePicker } from '../DatePicker';
 import { TimeInput } from '../TimeInput';
 import { parseResultToValue, getResultPlaceholder } from '../../utils/resultParser';
-import { getScoreModes, getScoreTypeDef } from '../../config/scoreTypes';
+import { getScoreModes, getScoreTypeName, getLogScoreType } from '../../config/scoreTypes';
+import { displayGoalTarget, displayLogResult, preferredUnit } from '../../utils/units';
 import * as db from '../../db';
 
 interface GoalModalProps {
@@ -14,7 +15,8 @@ interface GoalModalProps {
   editGoal?: Goal | null;
   preselectedItem?: CatalogItem | null;
   preselectedScoreType?: ScoreType | null;
-  weightUnit?: string;
+  weightUnit?: WeightUnit;
+  distanceUnit?: DistanceUnit;
   onSave: (input: CreateGoalInput | { id: string; updates: UpdateGoalInput }) => Promise<void>;
   onClose: () => void;
 }
@@ -33,6 +35,7 @@ export const GoalModal = ({
   preselectedItem,
   preselectedScoreType,
   weightUnit = 'kg',
+  distanceUnit = 'm',
   onSave,
   onClose,
 }: GoalModalProps) => {
@@ -40,6 +43,8 @@ export const GoalModal = ({
     preselectedItem || null
   );
   const [targetValue, setTargetValue] = useState('');
+  // The edited goal's target as first shown (converted to the current units)
+  const [initialTargetValue, setInitialTargetValue] = useState<string | null>(null);
   const [targetDate, setTargetDate] = useState<Date>(() => {
     // Default to 3 months from now
     const date = new Date();
@@ -88,7 +93,9 @@ export const GoalModal = ({
           const seconds = Math.floor(editGoal.targetValue % 60);
           setTargetValue(`${minutes}:${seconds.toString().padStart(2, '0')}`);
         } else {
-          setTargetValue(String(editGoal.targetValue));
+          const shown = String(displayGoalTarget(editGoal, goalScoreType, { weightUnit, distanceUnit }));
+          setTargetValue(shown);
+          setInitialTargetValue(shown);
         }
       }
 
@@ -97,7 +104,7 @@ export const GoalModal = ({
       setReps(editGoal.reps || 1);
       setShowAdvanced(!!(editGoal.variant || editGoal.reps));
     }
-  }, [editGoal, items]);
+  }, [editGoal, items, weightUnit, distanceUnit]);
 
   // When the selected item changes (creating a goal), default the pool to the
   // pre-scoped score type if provided, else the item's primary score type.
@@ -125,7 +132,7 @@ export const GoalModal = ({
           : undefined;
         const bestPR = await db.getBestPR(selectedItem.id, variant || undefined, opts);
         if (bestPR) {
-          setCurrentBest(bestPR.result);
+          setCurrentBest(displayLogResult(bestPR, getLogScoreType(bestPR, selectedItem), { weightUnit, distanceUnit }));
         } else {
           setCurrentBest(null);
         }
@@ -136,7 +143,7 @@ export const GoalModal = ({
     };
 
     fetchCurrentBest();
-  }, [selectedItem, variant, scoreType]);
+  }, [selectedItem, variant, scoreType, isMultiMode, effectiveScoreType, weightUnit, distanceUnit]);
 
   // Set default variant when item changes
   useEffect(() => {
@@ -199,9 +206,17 @@ export const GoalModal = ({
       const poolTargetReps =
         poolScoreType === 'TimeForReps' ? selectedItem.targetReps : undefined;
 
+      // An untouched converted target keeps the unit it was set in (no rounding).
+      const keepsGoalUnit = !!editGoal?.unit
+        && effectiveScoreType === (editGoal.scoreTypeId ?? selectedItem.scoreType)
+        && targetValue === initialTargetValue;
+      const target = keepsGoalUnit && editGoal
+        ? { targetValue: editGoal.targetValue, unit: editGoal.unit }
+        : { targetValue: parsedTargetValue, unit: preferredUnit(effectiveScoreType, { weightUnit, distanceUnit }) };
+
       if (isEditing && editGoal) {
         const updates: UpdateGoalInput = {
-          targetValue: parsedTargetValue,
+          ...target,
           targetDate: targetDateStr,
           variant: showVariantSelector ? variant : undefined,
           reps: showRepsSelector ? reps : undefined,
@@ -213,7 +228,7 @@ export const GoalModal = ({
       } else {
         const input: CreateGoalInput = {
           itemId: selectedItem.id,
-          targetValue: parsedTargetValue,
+          ...target,
           targetDate: targetDateStr,
           variant: showVariantSelector ? variant : undefined,
           reps: showRepsSelector ? reps : undefined,
@@ -248,7 +263,7 @@ export const GoalModal = ({
       case 'RepsInTime':
         return 'Target Reps';
       case 'Distance':
-        return 'Target Distance (m)';
+        return `Target Distance (${distanceUnit})`;
       case 'Calories':
         return 'Target Calories';
       case 'Rounds+Reps':
@@ -321,7 +336,7 @@ export const GoalModal = ({
                         : 'bg-[var(--color-input)] border-[var(--color-input-border)] text-[var(--color-text-muted)] hover:border-[var(--color-input-border-hover)]'
                     }`}
                   >
-                    {getScoreTypeDef(mode).name}
+                    {getScoreTypeName(mode)}
                   </button>
                 ))}
               </div>
@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
 import { Search, ChevronDown, X } from 'lucide-react';
+import { useFullCatalog } from '../../hooks/useFullCatalog';
 import type { CatalogItem } from '../../types/catalog';
 
 interface ItemSelectorProps {
@@ -23,6 +24,7 @@ export const ItemSelector = ({
   const [search, setSearch] = useState('');
   const containerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  useFullCatalog(isOpen);
 
   // Filter items based on search
   const filteredItems = search
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { BottomSheet } from '../BottomSheet';
+import { diffSnapshots, formatSnapshotValue } from '../../utils/journal';
+import * as db from '../../db';
+import type { CatalogItem } from '../../types/catalog';
+import type { ChangeAction, ChangeEntry, JournalTable } from '../../types/journal';
+
+interface ItemHistorySheetProps {
+  item: CatalogItem;
+  onClose: () => void;
+}
+
+const HISTORY_LIMIT = 200;
+
+const ACTION_LABELS: Record<ChangeAction, string> = {
+  initialize: 'SETUP',
+  'migrate-catalog': 'CATALOG UPDATE',
+  'toggle-favorite': 'FAVORITE',
+  'add-custom-item': 'CREATED ITEM',
+  'update-custom-item': 'EDITED ITEM',
+  'delete-custom-item': 'DELETED ITEM',
+  'merge-custom-item': 'MERGED ITEM',
+  'install-pack': 'PACK INSTALLED',
+  'uninstall-pack': 'PACK REMOVED',
+  'add-log': 'LOGGED',
+  'import-logs': 'IMPORTED LOGS',
+  'update-log': 'EDITED LOG',
+  'delete-log': 'TRASHED LOG',
+  'update-settings': 'SETTINGS',
+  'import-data': 'IMPORT',
+  'merge-import': 'MERGE IMPORT',
+  'add-goal': 'SET GOAL',
+  'update-goal': 'EDITED GOAL',
+  'achieve-goal': 'GOAL ACHIEVED',
+  'reopen-goal': 'GOAL REOPENED',
+  'cancel-goal': 'GOAL CANCELLED',
+  'delete-goal': 'TRASHED GOAL',
+  'save-check-in': 'CHECK-IN',
+  'delete-check-in': 'TRASHED CHECK-IN',
+  'restore-from-trash': 'RESTORED',
+  'purge-from-trash': 'PURGED',
+  'empty-trash': 'TRASH EMPTIED',
+  sync: 'SYNC',
+  'repair-integrity': 'REPAIRED',
+  other: 'CHANGE',
+};
+
+const TABLE_LABELS: Record<JournalTable, string> = {
+  favorites: 'Favorite',
+  customItems: 'Item',
+  prLogs: 'Log',
+  goals: 'Goal',
+  dailyCheckIns: 'Check-in',
+  settings: 'Settings',
+};
+
+const formatTimestamp = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/** One-line summary of a created or deleted record */
+const describeRecord = (table: JournalTable, record: unknown): string => {
+  const fields = (record ?? {}) as Record<string, unknown>;
+  switch (table) {
+    case 'prLogs':
+      return [fields.result, fields.variant, fields.date && new Date(fields.date as string).toLocaleDateString()]
+        .filter(Boolean)
+        .join(' · ');
+    case 'goals':
+      return `Target ${formatSnapshotValue(fields.targetValue)} by ${formatSnapshotValue(fields.targetDate)}`;
+    case 'customItems':
+      return formatSnapshotValue(fields.name);
+    default:
+      return '';
+  }
+};
+
+const describeEntry = (entry: ChangeEntry): string[] => {
+  if (entry.table === 'favorites') {
+    return [entry.op === 'delete' ? 'Removed from favorites' : 'Added to favorites'];
+  }
+  if (entry.op === 'create') return [`Created: ${describeRecord(entry.table, entry.after)}`];
+  if (entry.op === 'delete') return [`Deleted permanently: ${describeRecord(entry.table, entry.before)}`];
+  return diffSnapshots(entry).map(
+    ({ field, before, after }) => `${field}: ${formatSnapshotValue(before)} → ${formatSnapshotValue(after)}`
+  );
+};
+
+/**
+ * ItemHistorySheet — the change journal for one catalog item: every create,
+ * edit and delete of its logs, goals and favorite (and the item itself, for
+ * custom items), newest first.
+ */
+export const ItemHistorySheet = ({ item, onClose }: ItemHistorySheetProps) => {
+  const [entries, setEntries] = useState<ChangeEntry[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    db.getItemHistory(item.id, HISTORY_LIMIT)
+      .then((history) => {
+        if (!cancelled) setEntries(history);
+      })
+      .catch((err) => {
+        console.error('[ItemHistorySheet] Load error:', err);
+        if (!cancelled) setEntries([]);
+      });
+    return () => { cancelled = true; };
+  }, [item.id]);
+
+  return (
+    <BottomSheet title={`History · ${item.name}`} onClose={onClose}>
+      {!entries ? (
+        <div className="flex items-center justify-center h-24">
+          <Loader2 className="w-5 h-5 text-[var(--color-text-muted)] animate-spin" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="py-6 text-sm text-center text-[var(--color-text-muted)]">No changes recorded yet.</p>
+      ) : (
+        <div>
+          {entries.map((entry) => (
+            <div key={entry.id} className="py-2.5 px-1 border-b border-[var(--color-border)]/50">
+              <div className="flex items-baseline justify-between gap-3">
+                <div className="flex items-baseline gap-2 min-w-0">
+                  <span className="font-display text-[10px] tracking-widest text-[var(--color-primary)]">
+                    {ACTION_LABELS[entry.action]}
+                  </span>
+                  <span className="text-xs text-[var(--color-text-muted)]">{TABLE_LABELS[entry.table]}</span>
+                </div>
+                <span className="shrink-0 text-xs text-[var(--color-text-dim)]">{formatTimestamp(entry.timestamp)}</span>
+              </div>
+              {describeEntry(entry).map((line) => (
+                <p key={line} className="text-xs text-[var(--color-text)] truncate">{line}</p>
+              ))}
+            </div>
+          ))}
+          {entries.length === HISTORY_LIMIT && (
+            <p className="pt-3 text-xs text-center text-[var(--color-text-muted)]">Showing the latest {HISTORY_LIMIT} changes.</p>
+          )}
+        </div>
+      )}
+    </BottomSheet>
+  );
+};
@@ -0,0 +1,7 @@
+/**
+ * History Components
+ *
+ * Barrel exports for change journal views.
+ */
+
+export { ItemHistorySheet } from './ItemHistorySheet';
@@ -16,8 +16,10 @@ import {
   ENERGY_LABELS,
   SORENESS_LABELS,
   SLEEP_OPTIONS,
-  SLEEP_LABELS,
+  getSleepLabel,
 } from '../../config/recoveryScoring.config';
+import { useI18n } from '../../hooks/useI18n';
+import { formatDate, translateRecord } from '../../utils/i18n';
 import type { MetricValue, SleepHours } from '../../types/training';
 
 // ── Sleep selector ─────────────────────────────────────────────────────────
@@ -28,6 +30,7 @@ interface SleepSelectorProps {
 }
 
 const SleepSelector = ({ value, onChange, disabled = false }: SleepSelectorProps) => {
+  const { t } = useI18n();
   const handleKeyDown = (e: React.KeyboardEvent, hours: SleepHours) => {
     if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); onChange(hours); }
   };
@@ -41,7 +44,7 @@ const SleepSelector = ({ value, onChange, disabled = false }: SleepSelectorProps
             type="button"
             role="radio"
             aria-checked={isSelected}
-            aria-label={`${SLEEP_LABELS[hours]} of sleep`}
+            aria-label={t('recovery.sleepAria', { label: getSleepLabel(hours) })}
             tabIndex={0}
             disabled={disabled}
             onClick={() => onChange(hours)}
@@ -53,7 +56,7 @@ const SleepSelector = ({ value, onChange, disabled = false }: SleepSelectorProps
             } ${disabled ? 'opacity-50 cursor-not-allowed' : 'active:scale-95'} focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] focus:ring-offset-2 focus:ring-offset-[var(--color-bg)]`}
             style={isSelected ? { background: 'var(--color-primary)' } : undefined}
           >
-            {SLEEP_LABELS[hours]}
+            {getSleepLabel(hours)}
           </button>
         );
       })}
@@ -95,6 +98,7 @@ export const QuickCheckIn = ({ onSaved, hideDatePicker = false }: QuickCheckInPr
   const setSelectedDate = useCheckInStore((s) => s.setSelectedDate);
   const saveTrainingCheckIn = useCheckInStore((s) => s.saveTrainingCheckIn);
   const saveRestDay = useCheckInStore((s) => s.saveRestDay);
+  const { t } = useI18n();
 
   const [showCalendar, setShowCalendar] = useState(false);
 
@@ -153,7 +157,7 @@ export const QuickCheckIn = ({ onSaved, hideDatePicker = false }: QuickCheckInPr
   }, [energy, soreness, sleepHours, saveTrainingCheckIn, onSaved]);
 
   const isFormValid = energy !== undefined && soreness !== undefined && sleepHours !== undefined;
-  const formatOtherDate = (dateStr: string) => new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const formatOtherDate = (dateStr: string) => formatDate(dateStr + 'T00:00:00', { month: 'short', day: 'numeric' });
 
   // Segmented date control (shared)
   const dateSelector = (
@@ -220,9 +224,9 @@ export const QuickCheckIn = ({ onSaved, hideDatePicker = false }: QuickCheckInPr
         ) : (
           <div className="grid grid-cols-3 gap-3 text-center">
             {[
-              { v: selectedCheckIn.energy!, label: 'Energy', word: ENERGY_LABELS[selectedCheckIn.energy!], tone: 'var(--color-success)' },
-              { v: selectedCheckIn.soreness!, label: 'Soreness', word: SORENESS_LABELS[selectedCheckIn.soreness!], tone: 'var(--color-warning)' },
-              { v: 0, label: 'Sleep', word: SLEEP_LABELS[selectedCheckIn.sleepHours!], tone: 'var(--color-text)' },
+              { v: selectedCheckIn.energy!, label: t('recovery.energy'), word: t(ENERGY_LABELS[selectedCheckIn.energy!]), tone: 'var(--color-success)' },
+              { v: selectedCheckIn.soreness!, label: t('recovery.soreness'), word: t(SORENESS_LABELS[selectedCheckIn.soreness!]), tone: 'var(--color-warning)' },
+              { v: 0, label: t('recovery.sleep'), word: getSleepLabel(selectedCheckIn.sleepHours!), tone: 'var(--color-text)' },
             ].map((m) => (
               <div key={m.label} className="rounded-2xl p-3" style={{ background: 'var(--color-surface)', border: '1px solid var(--color-border)' }}>
                 <div className="font-display-black text-xl" style={{ color: m.tone }}>{m.word}</div>
@@ -284,12 +288,12 @@ export const QuickCheckIn = ({ onSaved, hideDatePicker = false }: QuickCheckInPr
 
         <div className="rounded-2xl p-4" style={{ background: 'var(--color-surface)', border: '1px solid var(--color-border)' }}>
           <div className="label-eyebrow mb-3">Energy level</div>
-          <EmojiSelector value={energy} onChange={setEnergy} emojis={{}} labels={ENERGY_LABELS} ariaLabel="Select energy level" disabled={isSaving} />
+          <EmojiSelector value={energy} onChange={setEnergy} emojis={{}} labels={translateRecord(ENERGY_LABELS)} ariaLabel={t('recovery.selectEnergy')} disabled={isSaving} />
         </div>
 
         <div className="rounded-2xl p-4" style={{ background: 'var(--color-surface)', border: '1px solid var(--color-border)' }}>
           <div className="label-eyebrow mb-3">Muscle soreness</div>
-          <EmojiSelector value={soreness} onChange={setSoreness} emojis={{}} labels={SORENESS_LABELS} ariaLabel="Select soreness level" disabled={isSaving} />
+          <EmojiSelector value={soreness} onChange={setSoreness} emojis={{}} labels={translateRecord(SORENESS_LABELS)} ariaLabel={t('recovery.selectSoreness')} disabled={isSaving} />
         </div>
 
         <div className="rounded-2xl p-4" style={{ background: 'var(--color-surface)', border: '1px solid var(--color-border)' }}>
@@ -8,6 +8,7 @@ import { useState, useCallback } from 'react';
 import { AlertTriangle, Info, AlertCircle, X, Moon } from 'lucide-react';
 import { useCheckInStore } from '../../stores/checkInStore';
 import { ALERT_TITLES, ALERT_DESCRIPTIONS, type AlertLevel } from '../../config/recoveryScoring.config';
+import { useI18n } from '../../hooks/useI18n';
 
 interface AlertStyle {
   leftBorder: string;
@@ -54,6 +55,7 @@ export const RecoveryAlert = () => {
   const todayCheckIn = useCheckInStore((s) => s.todayCheckIn);
   const saveRestDay = useCheckInStore((s) => s.saveRestDay);
   const isSaving = useCheckInStore((s) => s.isSaving);
+  const { t } = useI18n();
 
   const [isDismissed, setIsDismissed] = useState(false);
 
@@ -72,8 +74,8 @@ export const RecoveryAlert = () => {
 
   const showRestDayButton = !todayCheckIn || todayCheckIn.type !== 'rest';
   const style = getAlertStyle(recoveryScore.level);
-  const title = ALERT_TITLES[recoveryScore.level];
-  const description = ALERT_DESCRIPTIONS[recoveryScore.level];
+  const title = t(ALERT_TITLES[recoveryScore.level]);
+  const description = t(ALERT_DESCRIPTIONS[recoveryScore.level]);
 
   return (
     <div
@@ -85,7 +87,7 @@ export const RecoveryAlert = () => {
       <div className="flex items-start justify-between gap-3 mb-1.5">
         <div className="flex items-center gap-2">
           {style.icon}
-          <h3 className={`font-display text-sm tracking-[0.15em] ${style.titleColor}`}>{title.toUpperCase()}</h3>
+          <h3 className={`font-display text-sm tracking-[0.15em] ${style.titleColor}`}>{title.toLocaleUpperCase()}</h3>
         </div>
         <button
           onClick={handleDismiss}
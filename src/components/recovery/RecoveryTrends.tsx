@@ -12,7 +12,9 @@ import { useEffect, useState } from 'react';
 import { Loader2 } from 'lucide-react';
 import { getRecentCheckIns } from '../../services/checkInService';
 import { useCheckInStore } from '../../stores/checkInStore';
-import { ENERGY_LABELS, SORENESS_LABELS, SLEEP_LABELS } from '../../config/recoveryScoring.config';
+import { ENERGY_LABELS, SORENESS_LABELS, getSleepLabel } from '../../config/recoveryScoring.config';
+import { useI18n } from '../../hooks/useI18n';
+import { formatDate } from '../../utils/i18n';
 import type { DailyCheckIn } from '../../types/training';
 
 // How many recent training check-ins the trend spans.
@@ -71,6 +73,7 @@ const BarTrend = ({ title, points }: { title: string; points: MetricPoint[] }) =
 export const RecoveryTrends = () => {
   // Re-fetch when today's check-in changes so a fresh save shows up.
   const todayCheckIn = useCheckInStore((s) => s.todayCheckIn);
+  const { t } = useI18n();
   const [checkIns, setCheckIns] = useState<DailyCheckIn[] | null>(null);
 
   useEffect(() => {
@@ -112,24 +115,24 @@ export const RecoveryTrends = () => {
     );
   }
 
-  const fmtDate = (iso: string) => new Date(iso + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const fmtDate = (iso: string) => formatDate(iso + 'T00:00:00', { month: 'short', day: 'numeric' });
 
   const specs: TrendSpec[] = [
     {
       key: 'energy',
-      title: 'Energy',
-      points: training.map((c) => ({ date: fmtDate(c.date), value: c.energy!, frac: c.energy! / 5, label: ENERGY_LABELS[c.energy!] })),
+      title: t('recovery.energy'),
+      points: training.map((c) => ({ date: fmtDate(c.date), value: c.energy!, frac: c.energy! / 5, label: t(ENERGY_LABELS[c.energy!]) })),
     },
     {
       key: 'soreness',
-      title: 'Soreness',
-      points: training.map((c) => ({ date: fmtDate(c.date), value: c.soreness!, frac: c.soreness! / 5, label: SORENESS_LABELS[c.soreness!] })),
+      title: t('recovery.soreness'),
+      points: training.map((c) => ({ date: fmtDate(c.date), value: c.soreness!, frac: c.soreness! / 5, label: t(SORENESS_LABELS[c.soreness!]) })),
     },
     {
       key: 'sleep',
-      title: 'Sleep',
+      title: t('recovery.sleep'),
       // Sleep ranges 5–9h; anchor the baseline near 4h so differences read.
-      points: training.map((c) => ({ date: fmtDate(c.date), value: c.sleepHours!, frac: (c.sleepHours! - 4) / 5, label: SLEEP_LABELS[c.sleepHours!] })),
+      points: training.map((c) => ({ date: fmtDate(c.date), value: c.sleepHours!, frac: (c.sleepHours! - 4) / 5, label: getSleepLabel(c.sleepHours!) })),
     },
   ];
 
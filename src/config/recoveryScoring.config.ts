@@ -2,38 +2,42 @@
  * Recovery Scoring Configuration
  *
  * All thresholds, weights, and messages for the recovery scoring algorithm.
- * See docs/RECOVERY_SCORING.md for full specification.
+ * See docs/RECOVERY_SCORING.md for full specification. Labels and messages
+ * are message keys (src/i18n), translated when shown.
  */
 
+import type { MessageKey } from '../types/i18n';
+import { t } from '../utils/i18n';
+
 // ═══════════════════════════════════════════════════════════════════════════
 // METRIC LABELS
 // ═══════════════════════════════════════════════════════════════════════════
 
-export const ENERGY_LABELS = {
-  1: 'Exhausted',
-  2: 'Low',
-  3: 'OK',
-  4: 'Good',
-  5: 'Great',
-} as const;
-
-export const SORENESS_LABELS = {
-  1: 'None',
-  2: 'Light',
-  3: 'Moderate',
-  4: 'High',
-  5: 'Severe',
-} as const;
+export const ENERGY_LABELS: Record<number, MessageKey> = {
+  1: 'recovery.energy.1',
+  2: 'recovery.energy.2',
+  3: 'recovery.energy.3',
+  4: 'recovery.energy.4',
+  5: 'recovery.energy.5',
+};
+
+export const SORENESS_LABELS: Record<number, MessageKey> = {
+  1: 'recovery.soreness.1',
+  2: 'recovery.soreness.2',
+  3: 'recovery.soreness.3',
+  4: 'recovery.soreness.4',
+  5: 'recovery.soreness.5',
+};
 
 export const SLEEP_OPTIONS = [5, 6, 7, 8, 9] as const;
 
-export const SLEEP_LABELS: Record<number, string> = {
-  5: '5h',
-  6: '6h',
-  7: '7h',
-  8: '8h',
-  9: '9h+',
-};
+/**
+ * Label for a sleep option: "7h", or "9h+" for the top one
+ */
+export const getSleepLabel = (hours: number): string =>
+  hours >= SLEEP_OPTIONS[SLEEP_OPTIONS.length - 1]
+    ? t('recovery.sleepHoursOrMore', { hours })
+    : t('recovery.sleepHours', { hours });
 
 // ═══════════════════════════════════════════════════════════════════════════
 // EMOJI MAPPINGS
@@ -114,18 +118,16 @@ export const ALERT_THRESHOLDS: AlertThreshold[] = [
 // ALERT MESSAGES
 // ═══════════════════════════════════════════════════════════════════════════
 
-export const ALERT_TITLES: Record<AlertLevel, string> = {
-  none: '',
-  info: 'Monitor Your Recovery',
-  warning: 'Consider Lighter Intensity',
-  critical: 'Rest Day Recommended',
+export const ALERT_TITLES: Record<Exclude<AlertLevel, 'none'>, MessageKey> = {
+  info: 'recovery.alert.info.title',
+  warning: 'recovery.alert.warning.title',
+  critical: 'recovery.alert.critical.title',
 };
 
-export const ALERT_DESCRIPTIONS: Record<AlertLevel, string> = {
-  none: '',
-  info: "You're showing some signs of fatigue. Listen to your body.",
-  warning: 'Multiple recovery factors suggest taking it easy today.',
-  critical: 'Your body needs rest. Consider an active recovery or full rest day.',
+export const ALERT_DESCRIPTIONS: Record<Exclude<AlertLevel, 'none'>, MessageKey> = {
+  info: 'recovery.alert.info.description',
+  warning: 'recovery.alert.warning.description',
+  critical: 'recovery.alert.critical.description',
 };
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -139,8 +141,8 @@ export type ReasonMetric = 'consecutive' | 'energy' | 'soreness' | 'sleep';
  * Only shown when days >= 2 (contributes points).
  */
 export const getConsecutiveMessage = (days: number): string => {
-  if (days >= 5) return '4+ consecutive training days';
-  return `${days} consecutive training days`;
+  if (days >= 5) return t('recovery.reason.consecutiveMax', { count: 4 });
+  return t('recovery.reason.consecutive', { count: days });
 };
 
 /**
@@ -148,8 +150,8 @@ export const getConsecutiveMessage = (days: number): string => {
  * Only shown when energy <= 2.
  */
 export const getEnergyMessage = (value: number): string | null => {
-  if (value === 1) return 'Very low energy';
-  if (value === 2) return 'Low energy';
+  if (value === 1) return t('recovery.reason.energyVeryLow');
+  if (value === 2) return t('recovery.reason.energyLow');
   return null;
 };
 
@@ -158,8 +160,8 @@ export const getEnergyMessage = (value: number): string | null => {
  * Only shown when soreness >= 4.
  */
 export const getSorenessMessage = (value: number): string | null => {
-  if (value === 5) return 'High soreness';
-  if (value === 4) return 'Elevated soreness';
+  if (value === 5) return t('recovery.reason.sorenessHigh');
+  if (value === 4) return t('recovery.reason.sorenessElevated');
   return null;
 };
 
@@ -173,9 +175,9 @@ export const getSleepMessage = (
 ): string | null => {
   if (hours >= minSleepHours) return null;
   const deficit = minSleepHours - hours;
-  if (deficit >= 3) return 'Significant sleep deficit';
-  if (deficit === 2) return 'Insufficient sleep';
-  if (deficit === 1) return 'Slightly under-rested';
+  if (deficit >= 3) return t('recovery.reason.sleepDeficit');
+  if (deficit === 2) return t('recovery.reason.sleepInsufficient');
+  if (deficit === 1) return t('recovery.reason.sleepSlightlyShort');
   return null;
 };
 
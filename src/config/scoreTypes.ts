@@ -12,6 +12,7 @@
  */
 
 import type { ScoreType, CatalogItem, PRLog } from '../types/catalog';
+import { t } from '../utils/i18n';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // PRIMITIVE PARSERS (leaf helpers — no dependency on other modules)
@@ -222,6 +223,11 @@ export const SCORE_TYPES: Record<ScoreType, ScoreTypeDef> = {
  */
 export const getScoreTypeDef = (scoreType: ScoreType): ScoreTypeDef => SCORE_TYPES[scoreType];
 
+/**
+ * Display name of a score type in the active language (`name` is the English one).
+ */
+export const getScoreTypeName = (scoreType: ScoreType): string => t(`scoreType.${scoreType}`);
+
 /**
  * Whether a lower numeric result is better for this score type.
  */
@@ -255,3 +261,15 @@ export const getLogScoreType = (
   log: Pick<PRLog, 'scoreTypeId'>,
   item: Pick<CatalogItem, 'scoreType'>
 ): ScoreType => log.scoreTypeId ?? item.scoreType;
+
+/**
+ * Whether a result recorded under one score type reads the same under
+ * another — same input control, unit and direction (e.g. Time ↔ TimeForReps,
+ * Reps ↔ RepsInTime). Used when logs move to an item that no longer offers
+ * their score type.
+ */
+export const canConvertScore = (from: ScoreType, to: ScoreType): boolean => {
+  const a = SCORE_TYPES[from];
+  const b = SCORE_TYPES[to];
+  return a.resultInput === b.resultInput && a.unit === b.unit && a.lowerIsBetter === b.lowerIsBetter;
+};
@@ -0,0 +1,75 @@
+import Dexie, { type EntityTable } from 'dexie';
+import type { BackupSnapshot, BackupSummary } from '../types/backup';
+
+/**
+ * Restore-point database.
+ *
+ * Deliberately separate from CrossfitToolkitDB: replace-imports and
+ * "Clear all data" wipe the main database, and the snapshots taken right
+ * before those operations must survive them.
+ */
+class CrossfitToolkitBackupsDB extends Dexie {
+  snapshots!: EntityTable<BackupSnapshot, 'id'>;
+
+  constructor() {
+    super('CrossfitToolkitBackups');
+
+    this.version(1).stores({
+      snapshots: 'id, createdAt, reason',
+    });
+  }
+}
+
+export const backupsDb = new CrossfitToolkitBackupsDB();
+
+export const toBackupSummary = ({ id, createdAt, reason, counts }: BackupSnapshot): BackupSummary => ({
+  id,
+  createdAt,
+  reason,
+  counts,
+});
+
+/**
+ * Store a snapshot
+ */
+export const addBackup = async (snapshot: BackupSnapshot): Promise<void> => {
+  await backupsDb.snapshots.add(snapshot);
+};
+
+/**
+ * List snapshots, newest first (metadata only)
+ */
+export const listBackups = async (): Promise<BackupSummary[]> => {
+  const snapshots = await backupsDb.snapshots.orderBy('createdAt').reverse().toArray();
+  return snapshots.map(toBackupSummary);
+};
+
+/**
+ * Get a snapshot including its payload
+ */
+export const getBackup = async (id: string): Promise<BackupSnapshot | undefined> => {
+  return backupsDb.snapshots.get(id);
+};
+
+/**
+ * Get the most recent snapshot
+ */
+export const getLatestBackup = async (): Promise<BackupSnapshot | undefined> => {
+  return backupsDb.snapshots.orderBy('createdAt').last();
+};
+
+/**
+ * Delete a snapshot
+ */
+export const deleteBackup = async (id: string): Promise<void> => {
+  await backupsDb.snapshots.delete(id);
+};
+
+/**
+ * Delete all but the newest `keep` snapshots
+ */
+export const pruneBackups = async (keep: number): Promise<number> => {
+  const stale = await backupsDb.snapshots.orderBy('createdAt').reverse().offset(keep).primaryKeys();
+  await backupsDb.snapshots.bulkDelete(stale);
+  return stale.length;
+};
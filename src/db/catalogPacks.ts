@@ -0,0 +1,216 @@
+import { db, invalidatePackCatalogItems, journaled, moveItemRecords } from './index';
+import { getScoreModes } from '../config/scoreTypes';
+import { CatalogPackError, parseCatalogPack, toPackCatalogItems } from '../utils/catalogPack';
+import { loadBuiltinCatalog } from '../catalog/catalogService';
+import type { CatalogItem, CustomItem, ScoreType } from '../types/catalog';
+import type { CatalogIssue } from '../types/catalogValidation';
+import type {
+  CatalogItemData,
+  CatalogPackChangeSummary,
+  CatalogPackInstallPlan,
+  InstalledCatalogPack,
+} from '../types/catalogPack';
+
+/**
+ * Installing, upgrading and uninstalling catalog packs.
+ *
+ * Pack items are keyed by their own ids, so logs, goals and favorites on
+ * them survive an upgrade untouched (logs move to an item's new score types
+ * when those change). An item that leaves the catalog — dropped by an upgrade, or with
+ * its pack uninstalled — becomes a custom item if anything points at it, and
+ * the pack takes it back if it's installed again.
+ */
+
+/** Tables a pack change writes */
+const PACK_TABLES = () => [db.catalogPacks, db.customItems, db.prLogs, db.goals, db.favorites];
+
+const sameScoreModes = (a: ScoreType[], b: ScoreType[]): boolean =>
+  a.length === b.length && a.every((type) => b.includes(type));
+
+/**
+ * Whether anything (logs and goals, trashed ones included, or a favorite)
+ * points at an item
+ */
+const hasHistory = async (id: string): Promise<boolean> => {
+  const [logs, goals, favorite] = await Promise.all([
+    db.prLogs.where('catalogItemId').equals(id).count(),
+    db.goals.where('itemId').equals(id).count(),
+    db.favorites.get(id),
+  ]);
+  return logs > 0 || goals > 0 || !!favorite;
+};
+
+/**
+ * Keep pack items that have history as custom items; returns how many were kept
+ */
+const keepAsCustom = async (pack: InstalledCatalogPack, items: CatalogItemData[]): Promise<number> => {
+  let kept = 0;
+  for (const item of items) {
+    if (!(await hasHistory(item.id))) continue;
+    const custom: CustomItem = {
+      ...item,
+      source: item.source ?? pack.name,
+      originPackId: pack.id,
+      createdAt: pack.installedAt,
+    };
+    await db.customItems.put(custom);
+    kept++;
+  }
+  return kept;
+};
+
+/**
+ * Move logs and goals onto an item's new score types when they changed
+ */
+const migrateScoreTypes = async (
+  before: CatalogItem,
+  after: CatalogItem,
+  summary: CatalogPackChangeSummary
+): Promise<void> => {
+  if (before.scoreType === after.scoreType && sameScoreModes(getScoreModes(before), getScoreModes(after))) return;
+  const moved = await moveItemRecords(after.id, before, after);
+  summary.migrated += moved.migrated;
+  summary.flagged += moved.flagged;
+};
+
+/**
+ * Installed packs, by name
+ */
+export const getInstalledCatalogPacks = async (): Promise<InstalledCatalogPack[]> => {
+  const packs = await db.catalogPacks.toArray();
+  return packs.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Validate a pack file and work out what installing it would do. Throws
+ * `CatalogPackError` when the file is invalid or its item ids are taken by
+ * another pack or a custom item, and an Error when this version (or a newer
+ * one) is already installed.
+ */
+export const planCatalogPackInstall = async (json: string): Promise<CatalogPackInstallPlan> => {
+  // Pack items may not reuse builtin ids, the split-out files' included
+  await loadBuiltinCatalog();
+  const pack = parseCatalogPack(json);
+  const [installed, otherPacks, customItems] = await Promise.all([
+    db.catalogPacks.get(pack.id),
+    db.catalogPacks.filter((other) => other.id !== pack.id).toArray(),
+    db.customItems.toArray(),
+  ]);
+
+  if (installed && installed.version >= pack.version) {
+    throw new Error(`${installed.name} v${installed.version} is already installed`);
+  }
+
+  const packIdsByItem = new Map(otherPacks.flatMap((other) => other.items.map((item) => [item.id, other.name] as const)));
+  const customById = new Map(customItems.map((item) => [item.id, item]));
+  const installedIds = new Set(installed?.items.map((item) => item.id) ?? []);
+  const plan: CatalogPackInstallPlan = {
+    pack,
+    installedVersion: installed?.version,
+    added: [],
+    updated: [],
+    removed: [],
+    reclaimed: [],
+  };
+
+  const issues: CatalogIssue[] = [];
+  pack.items.forEach((item, idx) => {
+    const otherPack = packIdsByItem.get(item.id);
+    const custom = customById.get(item.id);
+    const path = `items[${idx}].id`;
+    if (otherPack) {
+      issues.push({ code: 'id-in-use', path, message: `"${item.id}" is already provided by the pack "${otherPack}"` });
+    } else if (custom && custom.originPackId !== pack.id) {
+      issues.push({ code: 'id-in-use', path, message: `"${item.id}" is already used by the custom item "${custom.name}"` });
+    } else if (custom) {
+      plan.reclaimed.push(item.id);
+    } else if (installedIds.has(item.id)) {
+      plan.updated.push(item.id);
+    } else {
+      plan.added.push(item.id);
+    }
+  });
+  if (issues.length > 0) throw new CatalogPackError(issues);
+
+  const nextIds = new Set(pack.items.map((item) => item.id));
+  plan.removed = [...installedIds].filter((id) => !nextIds.has(id));
+  return plan;
+};
+
+/**
+ * Install or upgrade a pack from a reviewed plan
+ */
+export const installCatalogPack = async (plan: CatalogPackInstallPlan): Promise<CatalogPackChangeSummary> => {
+  const changes = await journaled('install-pack', PACK_TABLES(), async () => {
+    const { id, name, version, author, description, url, items } = plan.pack;
+    const installed = await db.catalogPacks.get(id);
+    if (installed?.version !== plan.installedVersion) {
+      throw new Error(`${name} changed since the install was reviewed`);
+    }
+
+    const now = Date.now();
+    const next: InstalledCatalogPack = {
+      id,
+      name,
+      version,
+      author,
+      description,
+      url,
+      items,
+      installedAt: installed?.installedAt ?? now,
+      updatedAt: now,
+    };
+    const nextItems = new Map(toPackCatalogItems(next).map((item) => [item.id, item]));
+    const summary: CatalogPackChangeSummary = { keptAsCustom: 0, migrated: 0, flagged: 0 };
+
+    if (installed) {
+      for (const before of toPackCatalogItems(installed)) {
+        const after = nextItems.get(before.id);
+        if (after) await migrateScoreTypes(before, after, summary);
+      }
+      summary.keptAsCustom = await keepAsCustom(
+        installed,
+        installed.items.filter((item) => plan.removed.includes(item.id))
+      );
+    }
+
+    for (const itemId of plan.reclaimed) {
+      const custom = await db.customItems.get(itemId);
+      const after = nextItems.get(itemId);
+      if (!custom || !after) continue;
+      await migrateScoreTypes({ ...custom, isBuiltin: false, isFavorite: false }, after, summary);
+      await db.customItems.delete(itemId);
+    }
+
+    await db.catalogPacks.put(next);
+    console.log(
+      `[DB] Installed ${next.id} v${next.version}: ${plan.added.length} added, ${plan.updated.length} updated, ` +
+      `${plan.removed.length} removed (${summary.keptAsCustom} kept as custom)`
+    );
+    return summary;
+  });
+  invalidatePackCatalogItems();
+  return changes;
+};
+
+/**
+ * Uninstall a pack. Items with logs, goals or a favorite stay as custom items.
+ */
+export const uninstallCatalogPack = async (id: string): Promise<CatalogPackChangeSummary> => {
+  const changes = await journaled('uninstall-pack', PACK_TABLES(), async () => {
+    const installed = await db.catalogPacks.get(id);
+    if (!installed) throw new Error(`Catalog pack not found: ${id}`);
+
+    const summary: CatalogPackChangeSummary = {
+      keptAsCustom: await keepAsCustom(installed, installed.items),
+      migrated: 0,
+      flagged: 0,
+    };
+    await db.catalogPacks.delete(id);
+    console.log(`[DB] Uninstalled ${id} (${summary.keptAsCustom} items kept as custom)`);
+    return summary;
+  });
+  invalidatePackCatalogItems();
+  return changes;
+};
+
@@ -1,9 +1,234 @@
-import Dexie, { type EntityTable } from 'dexie';
-import type { CatalogItem, PRLog, UserSettings, Favorite, CustomItem, ScoreType } from '../types/catalog';
+import Dexie, { type EntityTable, type Transaction } from 'dexie';
+import type {
+  CatalogItem,
+  PRLog,
+  UpdatePRLogInput,
+  UnitPreferences,
+  UserSettings,
+  Favorite,
+  CustomItem,
+  CustomItemInput,
+  CustomItemDisposal,
+  CustomItemMergeOptions,
+  CustomItemMergeSummary,
+  ScoreType,
+  ScoreTypeMigrationSummary,
+} from '../types/catalog';
 import type { Goal, CreateGoalInput, UpdateGoalInput, GoalStatus } from '../types/goal';
 import type { DailyCheckIn } from '../types/training';
-import { getBuiltinCatalog, getBuiltinCatalogItemById } from '../catalog/catalogService';
-import { isLowerBetter as scoreTypeIsLowerBetter, getLogScoreType } from '../config/scoreTypes';
+import type { TrashedRecord, TrashTable } from '../types/trash';
+import type { SyncState } from '../types/sync';
+import type { ChangeAction, ChangeEntry, ChangeQuery, JournalTable } from '../types/journal';
+import type { InstalledCatalogPack } from '../types/catalogPack';
+import type {
+  ExportPayload,
+  ImportTable,
+  ImportRecord,
+  MergeConflict,
+  MergePlan,
+  MergeStrategy,
+  TableMergePlan,
+  TableMergeSummary,
+} from '../types/dataTransfer';
+import {
+  CATALOG_VERSION,
+  getBuiltinCatalog,
+  getBuiltinCatalogItemById,
+  getBuiltinItemsByCategory,
+  getCatalogRedirects,
+  getMovements,
+  isBuiltinCatalogLoaded,
+  loadBuiltinCatalog,
+} from '../catalog/catalogService';
+import { isLowerBetter as scoreTypeIsLowerBetter, getLogScoreType, getScoreModes } from '../config/scoreTypes';
+import { validateExportData, ImportValidationError } from '../utils/importValidator';
+import { decryptExport, isEncryptedExport, ExportCryptoError } from '../utils/exportCrypto';
+import { extractRawResult, parseResultToValue, remapLogScoreType, remapGoalScoreType } from '../utils/resultParser';
+import { mergeGoalIntoItem, mergeLogIntoItem } from '../utils/itemMerge';
+import { DEFAULT_UNITS, comparableLogValue, preferredUnit } from '../utils/units';
+import { redirectGoal, redirectLog, resolveRedirect } from '../utils/catalogRedirects';
+import { searchBoostsFrom, searchCatalog } from '../utils/search';
+import { toPackCatalogItems } from '../utils/catalogPack';
+import { CatalogValidationError, validateCatalogItem } from '../utils/catalogValidation';
+
+/** Tables whose records carry an `updatedAt` stamp (the synced tables) */
+const SYNC_STAMPED_TABLES = ['favorites', 'customItems', 'prLogs', 'goals', 'dailyCheckIns'] as const;
+
+/** Tables whose writes land in the change journal */
+const JOURNAL_TABLES: JournalTable[] = [...SYNC_STAMPED_TABLES, 'settings'];
+
+/** Operation labels, keyed by the transaction they run in (see `journaled`) */
+const transactionActions = new WeakMap<Transaction, ChangeAction>();
+
+/** Entries from unlabeled writes, written once their transaction commits */
+const pendingEntries = new WeakMap<Transaction, ChangeEntry[]>();
+
+const actionOf = (trans: Transaction): ChangeAction => {
+  for (let current: Transaction | undefined = trans; current; current = current.parent) {
+    const action = transactionActions.get(current);
+    if (action) return action;
+  }
+  return 'other';
+};
+
+/** Catalog item a record belongs to, if any */
+const itemIdOf = (table: JournalTable, record: Record<string, unknown> | undefined): string | undefined => {
+  if (!record) return undefined;
+  switch (table) {
+    case 'favorites':
+    case 'customItems':
+      return record.id as string;
+    case 'prLogs':
+      return record.catalogItemId as string;
+    case 'goals':
+      return record.itemId as string;
+    default:
+      return undefined;
+  }
+};
+
+const journal = (
+  trans: Transaction,
+  table: JournalTable,
+  recordId: unknown,
+  op: ChangeEntry['op'],
+  before?: Record<string, unknown>,
+  after?: Record<string, unknown>
+) => {
+  const itemIds = [...new Set([itemIdOf(table, before), itemIdOf(table, after)])].filter((id) => id !== undefined);
+  const entry: ChangeEntry = {
+    table,
+    recordId: String(recordId),
+    op,
+    action: actionOf(trans),
+    timestamp: Date.now(),
+    itemIds,
+    ...(before ? { before } : {}),
+    ...(after ? { after } : {}),
+  };
+
+  // Labeled operations include the journal in their transaction, so a
+  // rolled-back operation leaves no entries behind.
+  if (trans.storeNames.includes('changes')) {
+    trans.table('changes').add(entry);
+    return;
+  }
+  const buffered = pendingEntries.get(trans);
+  if (buffered) {
+    buffered.push(entry);
+    return;
+  }
+  pendingEntries.set(trans, [entry]);
+  trans.on('complete', () => {
+    db.changes.bulkAdd(pendingEntries.get(trans) ?? []).catch((error) => console.error('[DB] Journal write failed:', error));
+  });
+};
+
+/**
+ * Whether a write runs inside a schema upgrade. Dexie reports upgrade
+ * transactions as 'readwrite'; the underlying IndexedDB one says 'versionchange'.
+ */
+const isUpgrade = (trans: Transaction): boolean => trans.idbtrans?.mode === 'versionchange';
+
+/**
+ * Whether a write carries stamps from the sync server. Everything else,
+ * imports and restores included, is a local write the next push must send.
+ */
+const isPulled = (trans: Transaction): boolean => actionOf(trans) === 'sync';
+
+/**
+ * Hooks on a user data table: journal every create, update and delete, and
+ * (for synced tables) keep `updatedAt` current. Only changes pulled from the
+ * sync server keep the `updatedAt` they arrive with.
+ */
+const trackChanges = (table: Dexie.Table, name: JournalTable, stamp: boolean) => {
+  table.hook('creating', (primKey, obj, trans) => {
+    if (stamp && (obj.updatedAt === undefined || !(isPulled(trans) || isUpgrade(trans)))) obj.updatedAt = Date.now();
+    if (isUpgrade(trans)) return;
+    journal(trans, name, obj.id ?? primKey, 'create', undefined, structuredClone(obj));
+  });
+
+  table.hook('updating', (mods, primKey, obj, trans) => {
+    if (Object.keys(mods).length === 0) return undefined;
+    // Schema migrations aren't edits: every device runs them, so they don't make records newer.
+    const stamped = stamp && !isUpgrade(trans) && !(isPulled(trans) && 'updatedAt' in mods)
+      ? { updatedAt: Date.now() }
+      : undefined;
+    if (!isUpgrade(trans)) {
+      const after = structuredClone(obj);
+      for (const [keyPath, value] of Object.entries({ ...mods, ...stamped })) {
+        if (value === undefined) Dexie.delByKeyPath(after, keyPath);
+        else Dexie.setByKeyPath(after, keyPath, value);
+      }
+      journal(trans, name, primKey, 'update', structuredClone(obj), after);
+    }
+    return stamped;
+  });
+
+  table.hook('deleting', (primKey, obj, trans) => {
+    if (isUpgrade(trans)) return;
+    journal(trans, name, primKey, 'delete', structuredClone(obj));
+  });
+};
+
+/**
+ * Resolve the score type of a log or goal: its own, else its item's (builtin
+ * or one of `customItems`). Undefined when the item is unknown.
+ */
+const createScoreTypeResolver = (customItems: Pick<CustomItem, 'id' | 'scoreType'>[]) => {
+  const customById = new Map(customItems.map((item) => [item.id, item]));
+  return (record: { scoreTypeId?: ScoreType }, itemId: string): ScoreType | undefined =>
+    record.scoreTypeId ?? (getBuiltinCatalogItemById(itemId) ?? customById.get(itemId))?.scoreType;
+};
+
+/**
+ * Stamp `unit` on load and distance logs and goals saved before units were
+ * stored, assuming they were entered in `units`. Records that have one keep it.
+ */
+const stampLegacyUnits = (
+  prLogs: PRLog[],
+  goals: Goal[],
+  customItems: Pick<CustomItem, 'id' | 'scoreType'>[],
+  units: UnitPreferences
+): void => {
+  const scoreTypeOf = createScoreTypeResolver(customItems);
+  const stamp = (record: PRLog | Goal, itemId: string) => {
+    const scoreType = scoreTypeOf(record, itemId);
+    const unit = scoreType && preferredUnit(scoreType, units);
+    if (unit && !record.unit) record.unit = unit;
+  };
+  prLogs.forEach((log) => stamp(log, log.catalogItemId));
+  goals.forEach((goal) => stamp(goal, goal.itemId));
+};
+
+/**
+ * Re-point favorites, logs and goals that use builtin ids retired after
+ * catalog version `fromVersion` (see src/catalog/redirects.json). Replaces
+ * the records in `data` and returns how many moved.
+ */
+const redirectRetiredIds = (data: Pick<ExportPayload, 'favorites' | 'prLogs' | 'goals'>, fromVersion: number): number => {
+  const redirects = getCatalogRedirects(fromVersion);
+  if (redirects.length === 0) return 0;
+
+  let moved = 0;
+  const targetOf = (itemId: string) => {
+    const target = resolveRedirect(itemId, redirects);
+    if (target) moved++;
+    return target;
+  };
+
+  const favoriteIds = data.favorites.map((favorite) => targetOf(favorite.id)?.itemId ?? favorite.id);
+  data.favorites = [...new Set(favoriteIds)].map((id) => ({ id }));
+  data.prLogs = data.prLogs.map((log) => {
+    const target = targetOf(log.catalogItemId);
+    return target ? redirectLog(log, target) : log;
+  });
+  data.goals = data.goals.map((goal) => {
+    const target = targetOf(goal.itemId);
+    return target ? redirectGoal(goal, target) : goal;
+  });
+  return moved;
+};
 
 /**
  * CrossfitToolkit IndexedDB Database
@@ -11,6 +236,11 @@ import { isLowerBetter as scoreTypeIsLowerBetter, getLogScoreType } from '../con
  * Schema v2: Catalog items moved to static JSON file.
  * Schema v3: Added goals table for Goal Setting & Tracking feature.
  * Schema v4: Added dailyCheckIns table for Recovery Insights feature.
+ * Schema v5: Indexed `deletedAt` on prLogs/goals/dailyCheckIns for the trash.
+ * Schema v6: `updatedAt` stamps on user data tables and a syncState table for sync.
+ * Schema v7: Added the changes table (journal of every write to user data).
+ * Schema v8: Load/distance logs and goals carry the `unit` they were entered in.
+ * Schema v9: Added the catalogPacks table (installed catalog packs, items inline).
  * DB now only stores user data: favorites, custom items, PR logs, settings, goals, check-ins.
  */
 class CrossfitToolkitDB extends Dexie {
@@ -20,6 +250,9 @@ class CrossfitToolkitDB extends Dexie {
   settings!: EntityTable<UserSettings & { id: string }, 'id'>;
   goals!: EntityTable<Goal, 'id'>;
   dailyCheckIns!: EntityTable<DailyCheckIn, 'id'>;
+  syncState!: EntityTable<SyncState, 'id'>;
+  changes!: EntityTable<ChangeEntry, 'id'>;
+  catalogPacks!: EntityTable<InstalledCatalogPack, 'id'>;
 
   constructor() {
     super('CrossfitToolkitDB');
@@ -103,12 +336,103 @@ class CrossfitToolkitDB extends Dexie {
       goals: '++id, itemId, status, targetDate',
       dailyCheckIns: 'id, date, type',
     });
+
+    // Version 5: Soft delete — trashed records carry an indexed `deletedAt`
+    this.version(5).stores({
+      prLogs: 'id, catalogItemId, date, variant, deletedAt',
+      goals: '++id, itemId, status, targetDate, deletedAt',
+      dailyCheckIns: 'id, date, type, deletedAt',
+    });
+
+    // Version 6: Sync — every user data record carries an indexed `updatedAt`
+    this.version(6)
+      .stores({
+        favorites: 'id, updatedAt',
+        customItems: 'id, category, name, updatedAt',
+        prLogs: 'id, catalogItemId, date, variant, deletedAt, updatedAt',
+        goals: '++id, itemId, status, targetDate, deletedAt, updatedAt',
+        dailyCheckIns: 'id, date, type, deletedAt, updatedAt',
+        syncState: 'id',
+      })
+      .upgrade(async (tx) => {
+        const now = Date.now();
+        for (const table of SYNC_STAMPED_TABLES) {
+          await tx.table(table).toCollection().modify({ updatedAt: now });
+        }
+      });
+
+    // Version 7: Change journal
+    this.version(7).stores({
+      changes: '++id, timestamp, [table+recordId], *itemIds, action',
+    });
+
+    // Version 8: Units — existing loads/distances were entered in whatever unit was active
+    this.version(8)
+      .stores({})
+      .upgrade(async (tx) => {
+        // Score types come from the builtin items, lazily loaded ones included
+        await Dexie.waitFor(loadBuiltinCatalog());
+        const settings: UserSettings | undefined = await tx.table('settings').get('default');
+        const units = settings ?? DEFAULT_UNITS;
+        const customItems: CustomItem[] = await tx.table('customItems').toArray();
+        const prLogs: PRLog[] = await tx.table('prLogs').toArray();
+        const goals: Goal[] = await tx.table('goals').toArray();
+
+        stampLegacyUnits(prLogs, goals, customItems, units);
+        await tx.table('prLogs').bulkPut(prLogs);
+        await tx.table('goals').bulkPut(goals);
+        console.log(`[DB] Stamped units (${units.weightUnit}/${units.distanceUnit}) on existing logs and goals`);
+      });
+
+    // Version 9: Installed catalog packs
+    this.version(9).stores({
+      catalogPacks: 'id',
+    });
+
+    for (const table of JOURNAL_TABLES) {
+      trackChanges(this.table(table), table, table !== 'settings');
+    }
   }
 }
 
 // Database singleton
 export const db = new CrossfitToolkitDB();
 
+let lastIdStamp = 0;
+let idSequence = 0;
+
+/**
+ * Timestamp-based record id (`log-1712345678901`). Records created within the
+ * same millisecond (bulk imports) get a `-n` suffix so ids never collide.
+ */
+export const createId = (prefix: string): string => {
+  const now = Date.now();
+  if (now === lastIdStamp) {
+    idSequence += 1;
+    return `${prefix}-${now}-${idSequence}`;
+  }
+  lastIdStamp = now;
+  idSequence = 0;
+  return `${prefix}-${now}`;
+};
+
+/**
+ * Run a write operation in a transaction labeled with `action`, so its
+ * journal entries say what made them. The journal is part of the same
+ * transaction: a failed operation leaves no entries.
+ */
+export const journaled = <T>(action: ChangeAction, tables: Dexie.Table[], operation: () => Promise<T>): Promise<T> =>
+  db.transaction('rw', [...tables, db.changes], (trans) => {
+    transactionActions.set(trans, action);
+    return operation();
+  });
+
+/**
+ * Whether a record is live (not in the trash). Every read of prLogs, goals
+ * and dailyCheckIns filters through this.
+ */
+export const isNotTrashed = (record: { deletedAt?: number }): boolean => record.deletedAt === undefined;
+
 /**
  * Initialize database
  */
@@ -119,32 +443,129 @@ export const initializeDatabase = async (): Promise<void> => {
     // `put` (not `add`) keeps this idempotent: React StrictMode double-invokes
     // initialize() in dev, racing two inserts of the same key — `add` would
     // throw a ConstraintError on the second. `put` is a safe no-op overwrite.
-    await db.settings.put({
+    await journaled('initialize', [db.settings], () => db.settings.put({
       id: 'default',
       weightUnit: 'kg',
       distanceUnit: 'm',
       hasSeenOnboarding: false,
       minSleepHours: 7,
-    });
+      catalogVersion: CATALOG_VERSION,
+    }));
     console.log('[DB] Created default settings');
+  } else if ((settings.catalogVersion ?? 0) < CATALOG_VERSION) {
+    await migrateCatalogIds(settings.catalogVersion ?? 0);
   }
   
   console.log('[DB] Initialized');
 };
 
+/**
+ * Move favorites, logs and goals (trashed ones included) off builtin ids the
+ * catalog retired since `fromVersion`, then record the current version.
+ */
+const migrateCatalogIds = async (fromVersion: number): Promise<void> => {
+  const retiredIds = getCatalogRedirects(fromVersion).map((redirect) => redirect.from);
+
+  await journaled('migrate-catalog', [db.favorites, db.prLogs, db.goals, db.settings], async () => {
+    if (retiredIds.length > 0) {
+      const [favorites, prLogs, goals] = await Promise.all([
+        db.favorites.where('id').anyOf(retiredIds).toArray(),
+        db.prLogs.where('catalogItemId').anyOf(retiredIds).toArray(),
+        db.goals.where('itemId').anyOf(retiredIds).toArray(),
+      ]);
+      const data = { favorites, prLogs, goals };
+      const moved = redirectRetiredIds(data, fromVersion);
+
+      await db.favorites.bulkDelete(favorites.map((favorite) => favorite.id));
+      await db.favorites.bulkPut(data.favorites);
+      await db.prLogs.bulkPut(data.prLogs);
+      await db.goals.bulkPut(data.goals);
+      console.log(`[DB] Moved ${moved} records off retired catalog ids`);
+    }
+    await db.settings.update('default', { catalogVersion: CATALOG_VERSION });
+  });
+  console.log(`[DB] Catalog updated from v${fromVersion} to v${CATALOG_VERSION}`);
+};
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CATALOG ITEM OPERATIONS
 // ═══════════════════════════════════════════════════════════════════════════
 
+let packItemsById: Promise<Map<string, CatalogItem>> | null = null;
+
+/**
+ * Items of every installed catalog pack by id, read once and kept until a
+ * pack changes. An item whose id the builtin catalog has since taken is left
+ * out (the builtin one wins), so with packs installed the whole builtin
+ * catalog is loaded. Writes that look items up call
+ * `loadCatalogLookups` before opening their transaction, which doesn't include
+ * the packs table; the read itself also stays outside any open transaction.
+ */
+const getPackItemsById = (): Promise<Map<string, CatalogItem>> => {
+  packItemsById ??= (async () => {
+    const packs = await Dexie.ignoreTransaction(() => db.catalogPacks.toArray());
+    if (packs.length > 0) await loadBuiltinCatalog();
+    return new Map(
+      packs
+        .flatMap(toPackCatalogItems)
+        .filter((item) => !getBuiltinCatalogItemById(item.id))
+        .map((item) => [item.id, item])
+    );
+  })();
+  const pending = packItemsById;
+  pending.catch(() => {
+    if (packItemsById === pending) packItemsById = null;
+  });
+  return pending;
+};
+
+/**
+ * Load everything `getCatalogItemById` reads besides favorites and custom
+ * items, so it can run inside a write transaction scoped to those tables
+ */
+const loadCatalogLookups = async (): Promise<void> => {
+  await Promise.all([loadBuiltinCatalog(), getPackItemsById()]);
+};
+
+/**
+ * Drop the cached pack items; call after installing or removing a pack
+ */
+export const invalidatePackCatalogItems = (): void => {
+  packItemsById = null;
+};
+
+/**
+ * Load the split-out builtin files if a favorite, log or goal (trashed ones
+ * included) points at an id that nothing loaded so far provides
+ */
+const loadBuiltinItemsInUse = async (isKnown: (id: string) => boolean): Promise<void> => {
+  if (isBuiltinCatalogLoaded()) return;
+  const [favoriteIds, loggedIds, goalIds] = await Promise.all([
+    db.favorites.toCollection().primaryKeys(),
+    db.prLogs.orderBy('catalogItemId').uniqueKeys(),
+    db.goals.orderBy('itemId').uniqueKeys(),
+  ]);
+  if ([...favoriteIds, ...loggedIds, ...goalIds].some((id) => !isKnown(String(id)))) {
+    await loadBuiltinCatalog();
+  }
+};
+
 /**
- * Get all catalog items (builtin + custom, with favorites applied)
+ * Get all catalog items (builtin + catalog packs + custom, with favorites
+ * applied). Builtin items from the split-out files are included once loaded,
+ * which this does itself when the user has data on them.
  */
 export const getAllCatalogItems = async (): Promise<CatalogItem[]> => {
-  // Get favorites and custom items from DB
-  const [favorites, customItems] = await Promise.all([
+  // Get favorites, pack items and custom items from DB
+  const [favorites, packItems, customItems] = await Promise.all([
     db.favorites.toArray(),
+    getPackItemsById(),
     db.customItems.toArray(),
   ]);
+  const customIds = new Set(customItems.map((item) => item.id));
+  await loadBuiltinItemsInUse(
+    (id) => !!getBuiltinCatalogItemById(id) || packItems.has(id) || customIds.has(id)
+  );
   
   const favoriteIds = new Set(favorites.map((f) => f.id));
   
@@ -153,6 +574,11 @@ export const getAllCatalogItems = async (): Promise<CatalogItem[]> => {
     ...item,
     isFavorite: favoriteIds.has(item.id),
   }));
+
+  const packCatalogItems = [...packItems.values()].map((item) => ({
+    ...item,
+    isFavorite: favoriteIds.has(item.id),
+  }));
   
   // Convert custom items to CatalogItem format
   const customCatalogItems: CatalogItem[] = customItems.map((item) => ({
@@ -161,7 +587,7 @@ export const getAllCatalogItems = async (): Promise<CatalogItem[]> => {
     isFavorite: favoriteIds.has(item.id),
   }));
   
-  return [...builtinItems, ...customCatalogItems];
+  return [...builtinItems, ...packCatalogItems, ...customCatalogItems];
 };
 
 /**
@@ -170,8 +596,19 @@ export const getAllCatalogItems = async (): Promise<CatalogItem[]> => {
 export const getCatalogItemsByCategory = async (
   category: CatalogItem['category']
 ): Promise<CatalogItem[]> => {
-  const allItems = await getAllCatalogItems();
-  return allItems.filter((item) => item.category === category);
+  const [favorites, packItems, customItems] = await Promise.all([
+    db.favorites.toArray(),
+    getPackItemsById(),
+    db.customItems.where('category').equals(category).toArray(),
+    loadBuiltinCatalog(),
+  ]);
+  const favoriteIds = new Set(favorites.map((f) => f.id));
+
+  return [
+    ...getBuiltinItemsByCategory(category),
+    ...[...packItems.values()].filter((item) => item.category === category),
+    ...customItems.map((item) => ({ ...item, isBuiltin: false })),
+  ].map((item) => ({ ...item, isFavorite: favoriteIds.has(item.id) }));
 };
 
 /**
@@ -188,8 +625,16 @@ export const getFavoriteCatalogItems = async (): Promise<CatalogItem[]> => {
 export const getCatalogItemById = async (
   id: string
 ): Promise<CatalogItem | undefined> => {
-  // Check builtin catalog first
-  const builtinItem = getBuiltinCatalogItemById(id);
+  // Check builtin catalog first, loading the split-out files when nothing
+  // else has the id
+  let builtinItem = getBuiltinCatalogItemById(id);
+  if (!builtinItem && !isBuiltinCatalogLoaded()) {
+    const [customItem, packItems] = await Promise.all([db.customItems.get(id), getPackItemsById()]);
+    if (!customItem && !packItems.has(id)) {
+      await loadBuiltinCatalog();
+      builtinItem = getBuiltinCatalogItemById(id);
+    }
+  }
   if (builtinItem) {
     const favorite = await db.favorites.get(id);
     return {
@@ -197,6 +642,16 @@ export const getCatalogItemById = async (
       isFavorite: !!favorite,
     };
   }
+
+  // Then installed catalog packs
+  const packItem = (await getPackItemsById()).get(id);
+  if (packItem) {
+    const favorite = await db.favorites.get(id);
+    return {
+      ...packItem,
+      isFavorite: !!favorite,
+    };
+  }
   
   // Check custom items
   const customItem = await db.customItems.get(id);
@@ -213,45 +668,181 @@ export const getCatalogItemById = async (
 };
 
 /**
- * Search catalog items by name
+ * Search catalog items, best match first; favorites and recently logged
+ * items rank higher (see utils/search)
  */
 export const searchCatalogItems = async (
   query: string
 ): Promise<CatalogItem[]> => {
-  const lowerQuery = query.toLowerCase();
-  const allItems = await getAllCatalogItems();
-  return allItems.filter((item) => 
-    item.name.toLowerCase().includes(lowerQuery)
-  );
+  const [allItems, recentLogs] = await Promise.all([getAllCatalogItems(), getRecentPRLogs(10)]);
+  return searchCatalog(allItems, query, searchBoostsFrom(allItems, recentLogs)).map((result) => result.item);
 };
 
 /**
  * Toggle favorite status for a catalog item
  */
 export const toggleFavorite = async (id: string): Promise<void> => {
-  const existing = await db.favorites.get(id);
-  if (existing) {
-    await db.favorites.delete(id);
-  } else {
-    await db.favorites.add({ id });
-  }
+  await journaled('toggle-favorite', [db.favorites], async () => {
+    const existing = await db.favorites.get(id);
+    if (existing) {
+      await db.favorites.delete(id);
+    } else {
+      await db.favorites.add({ id });
+    }
+  });
+};
+
+/**
+ * Hold a custom item to the catalog rules; throws `CatalogValidationError`
+ */
+const assertValidCustomItem = (item: CustomItem) => {
+  const movementIds = new Set(getMovements().map((movement) => movement.id));
+  const issues = validateCatalogItem(item, { source: 'custom', movementIds });
+  if (issues.length > 0) throw new CatalogValidationError(issues);
 };
 
 /**
  * Add a custom catalog item
  */
-export const addCustomCatalogItem = async (
-  item: Omit<CatalogItem, 'id' | 'isBuiltin' | 'isFavorite' | 'createdAt'>
-): Promise<string> => {
-  const id = `custom-${Date.now()}`;
-  await db.customItems.add({
-    ...item,
-    id,
-    createdAt: Date.now(),
-  });
+export const addCustomCatalogItem = async (item: CustomItemInput): Promise<string> => {
+  const id = createId('custom');
+  const record: CustomItem = { ...item, id, createdAt: Date.now() };
+  assertValidCustomItem(record);
+  await journaled('add-custom-item', [db.customItems], () => db.customItems.add(record));
   return id;
 };
 
+/**
+ * Re-home every log and goal (trashed ones included) of `fromId` onto `to`,
+ * migrating or flagging score types that `to` doesn't offer.
+ */
+export const moveItemRecords = async (
+  fromId: string,
+  from: Pick<CatalogItem, 'scoreType'>,
+  to: CatalogItem
+): Promise<ScoreTypeMigrationSummary> => {
+  const summary: ScoreTypeMigrationSummary = { migrated: 0, flagged: 0 };
+
+  const logs = await db.prLogs.where('catalogItemId').equals(fromId).toArray();
+  for (const log of logs) {
+    const { outcome, updates } = remapLogScoreType(log, from, to);
+    if (outcome === 'migrated') summary.migrated++;
+    if (outcome === 'flagged') summary.flagged++;
+    await db.prLogs.update(log.id, { ...updates, catalogItemId: to.id });
+  }
+
+  const goals = await db.goals.where('itemId').equals(fromId).toArray();
+  for (const goal of goals) {
+    await db.goals.update(goal.id, { itemId: to.id, scoreTypeId: remapGoalScoreType(goal, from, to) });
+  }
+
+  return summary;
+};
+
+/**
+ * Edit a custom item. When its score types change, existing logs are
+ * migrated to the new default where the result converts cleanly and flagged
+ * otherwise.
+ */
+export const updateCustomCatalogItem = async (
+  id: string,
+  updates: Partial<CustomItemInput>
+): Promise<ScoreTypeMigrationSummary> => {
+  return journaled('update-custom-item', [db.customItems, db.prLogs, db.goals], async () => {
+    const existing = await db.customItems.get(id);
+    if (!existing) throw new Error(`Custom item not found: ${id}`);
+
+    const next: CustomItem = { ...existing, ...updates, id, createdAt: existing.createdAt, updatedAt: existing.updatedAt };
+    assertValidCustomItem(next);
+    await db.customItems.put(next);
+
+    const nextItem: CatalogItem = { ...next, isBuiltin: false, isFavorite: false };
+    const before = getScoreModes({ ...existing, isBuiltin: false, isFavorite: false });
+    const after = getScoreModes(nextItem);
+    const scoreTypesChanged =
+      existing.scoreType !== next.scoreType || before.length !== after.length || before.some((type) => !after.includes(type));
+    if (!scoreTypesChanged) return { migrated: 0, flagged: 0 };
+
+    const summary = await moveItemRecords(id, existing, nextItem);
+    console.log(`[DB] Score types changed for ${id}: ${summary.migrated} migrated, ${summary.flagged} flagged`);
+    return summary;
+  });
+};
+
+/**
+ * Delete a custom item. Its logs and goals are either deleted with it
+ * (permanently, trashed ones included) or reassigned to another item.
+ */
+export const deleteCustomCatalogItem = async (
+  id: string,
+  disposal: CustomItemDisposal
+): Promise<ScoreTypeMigrationSummary> => {
+  await loadCatalogLookups();
+  return journaled('delete-custom-item', [db.customItems, db.prLogs, db.goals, db.favorites], async () => {
+    const existing = await db.customItems.get(id);
+    if (!existing) throw new Error(`Custom item not found: ${id}`);
+
+    let summary: ScoreTypeMigrationSummary = { migrated: 0, flagged: 0 };
+    if (disposal.mode === 'reassign') {
+      const target = disposal.targetItemId === id ? undefined : await getCatalogItemById(disposal.targetItemId);
+      if (!target) throw new Error(`Reassignment target not found: ${disposal.targetItemId}`);
+      summary = await moveItemRecords(id, existing, target);
+    } else {
+      await db.prLogs.where('catalogItemId').equals(id).delete();
+      await db.goals.where('itemId').equals(id).delete();
+    }
+
+    await db.favorites.delete(id);
+    await db.customItems.delete(id);
+    console.log(`[DB] Deleted custom item ${id} (${disposal.mode})`);
+    return summary;
+  });
+};
+
+/**
+ * Fold a custom item into a builtin item: every log, goal (trashed ones
+ * included) and the favorite move to the builtin id, score types and
+ * constraints are mapped, and the custom item is removed.
+ */
+export const mergeCustomCatalogItem = async (
+  id: string,
+  targetId: string,
+  options: CustomItemMergeOptions = {}
+): Promise<CustomItemMergeSummary> => {
+  await loadCatalogLookups();
+  return journaled('merge-custom-item', [db.customItems, db.prLogs, db.goals, db.favorites], async () => {
+    const source = await getCatalogItemById(id);
+    if (!source || source.isBuiltin) throw new Error(`Custom item not found: ${id}`);
+    const target = await getCatalogItemById(targetId);
+    if (!target?.isBuiltin) throw new Error(`Builtin item not found: ${targetId}`);
+
+    const summary: CustomItemMergeSummary = { logs: 0, goals: 0, migrated: 0, flagged: 0, constraintsFilled: 0 };
+
+    const logs = await db.prLogs.where('catalogItemId').equals(id).toArray();
+    for (const log of logs) {
+      const merged = mergeLogIntoItem(log, source, target, options);
+      summary.logs++;
+      if (merged.outcome === 'migrated') summary.migrated++;
+      if (merged.outcome === 'flagged') summary.flagged++;
+      if (merged.constraintFilled) summary.constraintsFilled++;
+      await db.prLogs.update(log.id, merged.updates);
+    }
+
+    const goals = await db.goals.where('itemId').equals(id).toArray();
+    for (const goal of goals) {
+      summary.goals++;
+      await db.goals.update(goal.id, mergeGoalIntoItem(goal, source, target, options));
+    }
+
+    if (source.isFavorite) await db.favorites.put({ id: targetId });
+    await db.favorites.delete(id);
+    await db.customItems.delete(id);
+
+    console.log(`[DB] Merged ${id} into ${targetId}: ${summary.logs} logs, ${summary.goals} goals`);
+    return summary;
+  });
+};
+
 // ═══════════════════════════════════════════════════════════════════════════
 // PR LOG OPERATIONS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -260,7 +851,7 @@ export const addCustomCatalogItem = async (
  * Get all PR logs
  */
 export const getAllPRLogs = async (): Promise<PRLog[]> => {
-  return db.prLogs.orderBy('date').reverse().toArray();
+  return db.prLogs.orderBy('date').reverse().filter(isNotTrashed).toArray();
 };
 
 /**
@@ -272,6 +863,7 @@ export const getPRLogsForItem = async (
   const logs = await db.prLogs
     .where('catalogItemId')
     .equals(catalogItemId)
+    .filter(isNotTrashed)
     .toArray();
   return logs.sort((a, b) => b.date - a.date);
 };
@@ -280,7 +872,15 @@ export const getPRLogsForItem = async (
  * Get recent PR logs (last N entries)
  */
 export const getRecentPRLogs = async (limit: number = 10): Promise<PRLog[]> => {
-  return db.prLogs.orderBy('date').reverse().limit(limit).toArray();
+  return db.prLogs.orderBy('date').reverse().filter(isNotTrashed).limit(limit).toArray();
+};
+
+/**
+ * Ids of catalog items with at least one log
+ */
+export const getLoggedItemIds = async (): Promise<Set<string>> => {
+  const logs = await db.prLogs.filter(isNotTrashed).toArray();
+  return new Set(logs.map((log) => log.catalogItemId));
 };
 
 /**
@@ -296,7 +896,8 @@ export const getBestPR = async (
   variant?: PRLog['variant'],
   opts?: { scoreTypeId?: ScoreType; timeCap?: number; targetReps?: number }
 ): Promise<PRLog | undefined> => {
-  let logs = await getPRLogsForItem(catalogItemId);
+  // Flagged logs sit on a score type the item no longer offers; they don't compete.
+  let logs = (await getPRLogsForItem(catalogItemId)).filter((log) => !log.scoreTypeMismatch);
 
   if (variant !== undefined) {
     logs = logs.filter((log) => log.variant === variant);
@@ -318,12 +919,15 @@ export const getBestPR = async (
   }
 
   const isLowerBetter = scoreTypeIsLowerBetter(scoreType);
+  // Loads/distances may be in different units; compare them in the current ones.
+  const units = await getSettings();
+  const valueOf = (log: PRLog) => comparableLogValue(log, getLogScoreType(log, item), units);
 
   return logs.reduce((best, current) => {
     if (isLowerBetter) {
-      return current.resultValue < best.resultValue ? current : best;
+      return valueOf(current) < valueOf(best) ? current : best;
     } else {
-      return current.resultValue > best.resultValue ? current : best;
+      return valueOf(current) > valueOf(best) ? current : best;
     }
   });
 };
@@ -381,20 +985,76 @@ export const getBestPRsByCalories = async (
 export const addPRLog = async (
   log: Omit<PRLog, 'id' | 'createdAt'>
 ): Promise<string> => {
-  const id = `log-${Date.now()}`;
-  await db.prLogs.add({
+  const id = createId('log');
+  await journaled('add-log', [db.prLogs], () => db.prLogs.add({
     ...log,
     id,
     createdAt: Date.now(),
-  });
+  }));
   return id;
 };
 
 /**
- * Delete a PR log
+ * Add many PR logs at once (bulk imports), first creating the custom items in
+ * `newItems`. Their ids are placeholders: logs pointing at one are moved to
+ * the created item. All-or-nothing: one transaction.
+ */
+export const addPRLogs = async (
+  logs: Omit<PRLog, 'id' | 'createdAt'>[],
+  newItems: Pick<CatalogItem, 'id' | 'name' | 'category' | 'scoreType'>[] = []
+): Promise<string[]> => {
+  const now = Date.now();
+  const createdIds = new Map<string, string>();
+  const items = newItems.map(({ id, name, category, scoreType }): CustomItem => {
+    const record: CustomItem = { id: createId('custom'), name, category, scoreType, createdAt: now };
+    assertValidCustomItem(record);
+    createdIds.set(id, record.id);
+    return record;
+  });
+  const records = logs.map((log) => ({
+    ...log,
+    id: createId('log'),
+    catalogItemId: createdIds.get(log.catalogItemId) ?? log.catalogItemId,
+    createdAt: now,
+  }));
+  await journaled('import-logs', [db.customItems, db.prLogs], async () => {
+    await db.customItems.bulkAdd(items);
+    await db.prLogs.bulkAdd(records);
+  });
+  return records.map((record) => record.id);
+};
+
+/**
+ * Update a PR log in place, keeping its id and `createdAt`. `resultValue` is
+ * recomputed from the (possibly edited) result via the score-type registry.
+ */
+export const updatePRLog = async (id: string, updates: UpdatePRLogInput): Promise<PRLog> => {
+  await loadCatalogLookups();
+  return journaled('update-log', [db.prLogs, db.customItems, db.favorites], async () => {
+    const existing = await db.prLogs.get(id);
+    if (!existing) throw new Error(`PR log not found: ${id}`);
+
+    const next: PRLog = { ...existing, ...updates, id, createdAt: existing.createdAt };
+    const item = await getCatalogItemById(next.catalogItemId);
+    const scoreType = item ? getLogScoreType(next, item) : next.scoreTypeId;
+    if (scoreType) {
+      next.resultValue = parseResultToValue(extractRawResult(next.result, scoreType), scoreType);
+    }
+    // Re-saving a flagged log under a score type the item offers clears the flag.
+    if (item && scoreType && getScoreModes(item).includes(scoreType)) {
+      next.scoreTypeMismatch = undefined;
+    }
+
+    await db.prLogs.put(next);
+    return next;
+  });
+};
+
+/**
+ * Move a PR log to the trash
  */
 export const deletePRLog = async (id: string): Promise<void> => {
-  await db.prLogs.delete(id);
+  await journaled('delete-log', [db.prLogs], () => db.prLogs.update(id, { deletedAt: Date.now() }));
 };
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -415,7 +1075,7 @@ export const getSettings = async (): Promise<UserSettings> => {
 export const updateSettings = async (
   updates: Partial<UserSettings>
 ): Promise<void> => {
-  await db.settings.update('default', updates);
+  await journaled('update-settings', [db.settings], () => db.settings.update('default', updates));
 };
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -423,15 +1083,17 @@ export const updateSettings = async (
 // ═══════════════════════════════════════════════════════════════════════════
 
 /**
- * Export all user data as JSON
+ * Export all user data as JSON. Trashed records are left out unless
+ * `includeTrash` is set (restore points keep them).
  */
-export const exportData = async (): Promise<string> => {
+export const exportData = async (opts?: { includeTrash?: boolean }): Promise<string> => {
+  const keep = opts?.includeTrash ? () => true : isNotTrashed;
   const [favorites, customItems, prLogs, goals, dailyCheckIns, settings] = await Promise.all([
     db.favorites.toArray(),
     db.customItems.toArray(),
-    db.prLogs.toArray(),
-    db.goals.toArray(),
-    db.dailyCheckIns.toArray(),
+    db.prLogs.filter(keep).toArray(),
+    db.goals.filter(keep).toArray(),
+    db.dailyCheckIns.filter(keep).toArray(),
     getSettings(),
   ]);
 
@@ -452,185 +1114,315 @@ export const exportData = async (): Promise<string> => {
 };
 
 /**
- * Import data from JSON
+ * Tables each export version carries. A replace-import only clears these, so
+ * restoring an older file leaves data it never knew about (e.g. check-ins) alone.
  */
-export const importData = async (json: string): Promise<void> => {
-  const data = JSON.parse(json);
-
-  // Handle v1 format (legacy)
-  if (data.version === 1) {
-    await importV1Data(data);
-    return;
-  }
-
-  // Handle v2 format (no goals)
-  if (data.version === 2) {
-    await importV2Data(data);
-    return;
-  }
+const TABLES_BY_VERSION: Record<number, ImportTable[]> = {
+  1: ['favorites', 'customItems', 'prLogs'],
+  2: ['favorites', 'customItems', 'prLogs'],
+  3: ['favorites', 'customItems', 'prLogs', 'goals'],
+  4: ['favorites', 'customItems', 'prLogs', 'goals', 'dailyCheckIns'],
+};
 
-  // Handle v3 format (no dailyCheckIns)
-  if (data.version === 3) {
-    await importV3Data(data);
-    return;
-  }
+/**
+ * Import data from JSON, replacing the tables the file's version carries.
+ * Encrypted exports are opened with `passphrase` first (throws
+ * `ExportCryptoError` when it's missing or wrong, or the file was altered).
+ *
+ * The file is validated in full first (throws `ImportValidationError` listing
+ * every bad row), and all writes run in one transaction — a failure part-way
+ * rolls everything back instead of leaving the database half-empty.
+ */
+export const importData = async (json: string, passphrase?: string): Promise<void> => {
+  const { version, payload } = readExportFile(await openExportFile(json, passphrase));
+
+  await journaled(
+    'import-data',
+    [db.favorites, db.customItems, db.prLogs, db.goals, db.dailyCheckIns, db.settings],
+    async () => {
+      for (const table of TABLES_BY_VERSION[version]) {
+        // Not `clear()`: it bypasses hooks, and the journal should show what the import replaced.
+        await db.table(table).toCollection().delete();
+        if (payload[table].length > 0) {
+          await db.table(table).bulkAdd(payload[table]);
+        }
+      }
+      if (payload.settings) {
+        await db.settings.put({ id: 'default', ...payload.settings });
+      }
+    }
+  );
+};
 
-  if (data.version !== 4) {
-    throw new Error('Unsupported data format version');
-  }
+/**
+ * Convert a legacy v1 catalog item (custom items lived alongside builtins) into
+ * a stored custom item.
+ */
+const toCustomItem = (item: CatalogItem): CustomItem => ({
+  id: item.id,
+  name: item.name,
+  category: item.category,
+  subCategory: item.subCategory,
+  tags: item.tags,
+  scoreType: item.scoreType,
+  description: item.description,
+  aliases: item.aliases,
+  source: item.source,
+  sourceUrl: item.sourceUrl,
+  createdAt: item.createdAt,
+  metrics: item.metrics,
+});
 
-  // Clear existing user data
-  await Promise.all([
-    db.favorites.clear(),
-    db.customItems.clear(),
-    db.prLogs.clear(),
-    db.goals.clear(),
-    db.dailyCheckIns.clear(),
-  ]);
+// ═══════════════════════════════════════════════════════════════════════════
+// MERGE IMPORT
+// ═══════════════════════════════════════════════════════════════════════════
 
-  // Import new data
-  if (data.favorites?.length > 0) {
-    await db.favorites.bulkAdd(data.favorites);
-  }
-  if (data.customItems?.length > 0) {
-    await db.customItems.bulkAdd(data.customItems);
-  }
-  if (data.prLogs?.length > 0) {
-    await db.prLogs.bulkAdd(data.prLogs);
-  }
-  if (data.goals?.length > 0) {
-    await db.goals.bulkAdd(data.goals);
-  }
-  if (data.dailyCheckIns?.length > 0) {
-    await db.dailyCheckIns.bulkAdd(data.dailyCheckIns);
-  }
-  if (data.settings) {
-    await db.settings.put({ id: 'default', ...data.settings });
-  }
-};
+/**
+ * User data tables an import touches, in display order.
+ */
+export const IMPORT_TABLES: ImportTable[] = ['favorites', 'customItems', 'prLogs', 'goals', 'dailyCheckIns'];
 
 /**
- * Import v3 data format (no dailyCheckIns)
+ * Raw export file as written by any supported version (v1–v4).
  */
-const importV3Data = async (data: {
-  favorites?: { id: string }[];
+interface ExportFile {
+  version: number;
+  catalogItems?: CatalogItem[];
+  favorites?: Favorite[];
   customItems?: CustomItem[];
   prLogs?: PRLog[];
   goals?: Goal[];
+  dailyCheckIns?: DailyCheckIn[];
   settings?: UserSettings;
-}): Promise<void> => {
-  // Clear existing user data
-  await Promise.all([
-    db.favorites.clear(),
-    db.customItems.clear(),
-    db.prLogs.clear(),
-    db.goals.clear(),
-  ]);
+}
 
-  if (data.favorites?.length) {
-    await db.favorites.bulkAdd(data.favorites);
-  }
-  if (data.customItems?.length) {
-    await db.customItems.bulkAdd(data.customItems);
+/**
+ * Decrypt an encrypted export with its passphrase; plain exports pass through.
+ * Also loads the whole builtin catalog, which `readExportFile` resolves the
+ * file's item ids against.
+ */
+const openExportFile = async (json: string, passphrase?: string): Promise<string> => {
+  await loadBuiltinCatalog();
+  return isEncryptedExport(json) ? decryptExport(json, passphrase ?? '') : json;
+};
+
+/**
+ * Parse and validate an export file, normalizing it to the current shape.
+ * Tables that didn't exist in older versions come back as empty arrays.
+ * Throws `ImportValidationError` listing every invalid row.
+ */
+export const readExportFile = (json: string): { version: number; payload: ExportPayload } => {
+  if (isEncryptedExport(json)) {
+    throw new ExportCryptoError('passphrase-required');
   }
-  if (data.prLogs?.length) {
-    await db.prLogs.bulkAdd(data.prLogs);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
   }
-  if (data.goals?.length) {
-    await db.goals.bulkAdd(data.goals);
+
+  const issues = validateExportData(parsed);
+  if (issues.length > 0) {
+    throw new ImportValidationError(issues);
   }
-  if (data.settings) {
-    await db.settings.put({ id: 'default', ...data.settings });
+
+  const data = parsed as ExportFile;
+  const payload: ExportPayload = data.version === 1
+    ? {
+        favorites: (data.catalogItems ?? []).filter((item) => item.isFavorite).map((item) => ({ id: item.id })),
+        customItems: (data.catalogItems ?? []).filter((item) => !item.isBuiltin).map(toCustomItem),
+        prLogs: data.prLogs ?? [],
+        goals: [],
+        dailyCheckIns: [],
+        settings: data.settings,
+      }
+    : {
+        favorites: data.favorites ?? [],
+        customItems: data.customItems ?? [],
+        prLogs: data.prLogs ?? [],
+        goals: data.version >= 3 ? data.goals ?? [] : [],
+        dailyCheckIns: data.version >= 4 ? data.dailyCheckIns ?? [] : [],
+        settings: data.settings,
+      };
+
+  // Files written before units were stored: loads/distances are in the file's units.
+  stampLegacyUnits(payload.prLogs, payload.goals, payload.customItems, data.settings ?? DEFAULT_UNITS);
+
+  // Files written against an older catalog may use builtin ids retired since.
+  const fileCatalogVersion = data.settings?.catalogVersion ?? 0;
+  redirectRetiredIds(payload, fileCatalogVersion);
+  if (payload.settings) {
+    payload.settings = { ...payload.settings, catalogVersion: Math.max(fileCatalogVersion, CATALOG_VERSION) };
   }
+
+  return { version: data.version, payload };
 };
 
 /**
- * Import v2 data format (no goals)
+ * Serialize a record with sorted keys so content comparison ignores key order
+ * (records written by different app versions don't share one).
  */
-const importV2Data = async (data: {
-  favorites?: { id: string }[];
-  customItems?: CustomItem[];
-  prLogs?: PRLog[];
-  settings?: UserSettings;
-}): Promise<void> => {
-  // Clear existing user data
-  await Promise.all([
-    db.favorites.clear(),
-    db.customItems.clear(),
-    db.prLogs.clear(),
-  ]);
+export const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
 
-  if (data.favorites?.length) {
-    await db.favorites.bulkAdd(data.favorites);
-  }
-  if (data.customItems?.length) {
-    await db.customItems.bulkAdd(data.customItems);
-  }
-  if (data.prLogs?.length) {
-    await db.prLogs.bulkAdd(data.prLogs);
-  }
-  if (data.settings) {
-    await db.settings.put({ id: 'default', ...data.settings });
-  }
+/**
+ * When a record was created, as epoch millis — the newest-wins fallback for
+ * records without write stamps. Favorites carry no timestamp; goals store ISO
+ * dates and count from when they were achieved, if they were.
+ */
+const recordTimestamp = (record: ImportRecord<ImportTable>): number => {
+  if (!('createdAt' in record)) return 0;
+  if (typeof record.createdAt === 'number') return record.createdAt;
+  const goal = record as Goal;
+  return Date.parse(goal.achievedAt ?? goal.createdAt);
 };
 
 /**
- * Import legacy v1 data format
+ * Whether `incoming` is the newer copy of a record. Both sides of a same-id
+ * conflict share `createdAt`, so the last-write stamps decide when both have
+ * one; older records without them fall back to when they were created.
  */
-const importV1Data = async (data: {
-  catalogItems?: CatalogItem[];
-  prLogs?: PRLog[];
-  settings?: UserSettings;
-}): Promise<void> => {
-  // Clear existing user data
-  await Promise.all([
-    db.favorites.clear(),
-    db.customItems.clear(),
-    db.prLogs.clear(),
-  ]);
+const isNewerRecord = (incoming: ImportRecord<ImportTable>, local: ImportRecord<ImportTable>): boolean => {
+  if (incoming.updatedAt !== undefined && local.updatedAt !== undefined) {
+    return incoming.updatedAt > local.updatedAt;
+  }
+  return recordTimestamp(incoming) > recordTimestamp(local);
+};
 
-  if (data.catalogItems?.length) {
-    // Extract favorites
-    const favorites = data.catalogItems
-      .filter((item) => item.isFavorite)
-      .map((item) => ({ id: item.id }));
-    
-    if (favorites.length > 0) {
-      await db.favorites.bulkAdd(favorites);
+/**
+ * Dry-run one table: match incoming records to local ones by id and, when
+ * `sameSlot` is given, by a second uniqueness rule (e.g. one check-in per date).
+ */
+const planTableMerge = <T extends { id: string }>(
+  local: T[],
+  incoming: T[],
+  sameSlot?: (a: T, b: T) => boolean
+): TableMergePlan<T> => {
+  const localById = new Map(local.map((record) => [record.id, record]));
+  const plan: TableMergePlan<T> = { added: [], identical: [], conflicts: [] };
+
+  for (const record of incoming) {
+    const existing = localById.get(record.id);
+    if (existing) {
+      // Sync stamps differ between devices even when the content matches
+      if (stableStringify({ ...existing, updatedAt: undefined }) === stableStringify({ ...record, updatedAt: undefined })) {
+        plan.identical.push(record);
+      } else {
+        plan.conflicts.push({ kind: 'content', local: existing, incoming: record });
+      }
+      continue;
     }
 
-    // Extract custom items
-    const customItems = data.catalogItems
-      .filter((item) => !item.isBuiltin)
-      .map((item) => ({
-        id: item.id,
-        name: item.name,
-        category: item.category,
-        subCategory: item.subCategory,
-        tags: item.tags,
-        scoreType: item.scoreType,
-        description: item.description,
-        aliases: item.aliases,
-        source: item.source,
-        sourceUrl: item.sourceUrl,
-        createdAt: item.createdAt,
-        metrics: item.metrics,
-      }));
-    
-    if (customItems.length > 0) {
-      await db.customItems.bulkAdd(customItems);
+    const clash = sameSlot ? local.find((l) => sameSlot(l, record)) : undefined;
+    if (clash) {
+      plan.conflicts.push({ kind: 'date', local: clash, incoming: record });
+    } else {
+      plan.added.push(record);
     }
   }
 
-  if (data.prLogs?.length) {
-    await db.prLogs.bulkAdd(data.prLogs);
-  }
+  return plan;
+};
 
-  if (data.settings) {
-    await db.settings.put({ id: 'default', ...data.settings });
+/**
+ * Whether the incoming side of a conflict wins under a strategy.
+ */
+const incomingWins = (
+  conflict: MergeConflict<ImportRecord<ImportTable>>,
+  strategy: MergeStrategy
+): boolean => {
+  switch (strategy) {
+    case 'keep-local':
+      return false;
+    case 'keep-incoming':
+      return true;
+    case 'newest-wins':
+      return isNewerRecord(conflict.incoming, conflict.local);
   }
 };
 
+/**
+ * Build a dry-run merge plan for an export file against the local database.
+ * Trashed records count as absent on both sides: incoming ones take a local
+ * trashed record's id or date, and the file's own trash (restore points keep
+ * it) is not merged in.
+ * Nothing is written.
+ */
+export const previewMergeImport = async (json: string, passphrase?: string): Promise<MergePlan> => {
+  const { payload: incoming } = readExportFile(await openExportFile(json, passphrase));
+  const [favorites, customItems, prLogs, goals, dailyCheckIns] = await Promise.all([
+    db.favorites.toArray(),
+    db.customItems.toArray(),
+    db.prLogs.filter(isNotTrashed).toArray(),
+    db.goals.filter(isNotTrashed).toArray(),
+    db.dailyCheckIns.filter(isNotTrashed).toArray(),
+  ]);
+
+  return {
+    favorites: planTableMerge(favorites, incoming.favorites),
+    customItems: planTableMerge(customItems, incoming.customItems),
+    prLogs: planTableMerge(prLogs, incoming.prLogs.filter(isNotTrashed)),
+    goals: planTableMerge(goals, incoming.goals.filter(isNotTrashed)),
+    dailyCheckIns: planTableMerge(
+      dailyCheckIns,
+      incoming.dailyCheckIns.filter(isNotTrashed),
+      (a, b) => a.date === b.date
+    ),
+  };
+};
+
+/**
+ * Per-table counts for a merge plan under a strategy.
+ */
+export const summarizeMergePlan = (
+  plan: MergePlan,
+  strategy: MergeStrategy
+): Record<ImportTable, TableMergeSummary> => {
+  const summarize = (tablePlan: TableMergePlan<ImportRecord<ImportTable>>): TableMergeSummary => {
+    const updated = tablePlan.conflicts.filter((c) => incomingWins(c, strategy)).length;
+    return {
+      added: tablePlan.added.length,
+      updated,
+      skipped: tablePlan.identical.length + tablePlan.conflicts.length - updated,
+      conflicting: tablePlan.conflicts.length,
+    };
+  };
+
+  return {
+    favorites: summarize(plan.favorites),
+    customItems: summarize(plan.customItems),
+    prLogs: summarize(plan.prLogs),
+    goals: summarize(plan.goals),
+    dailyCheckIns: summarize(plan.dailyCheckIns),
+  };
+};
+
+/**
+ * Apply a merge plan in a single transaction: add new records, and for each
+ * conflict keep whichever side the strategy picks. A date conflict won by the
+ * incoming check-in replaces the local one for that day. Settings are left
+ * untouched — they belong to this device.
+ */
+export const applyMergeImport = async (plan: MergePlan, strategy: MergeStrategy): Promise<void> => {
+  await journaled('merge-import', [db.favorites, db.customItems, db.prLogs, db.goals, db.dailyCheckIns], async () => {
+    for (const table of IMPORT_TABLES) {
+      const tablePlan: TableMergePlan<ImportRecord<ImportTable>> = plan[table];
+      const winners = tablePlan.conflicts.filter((c) => incomingWins(c, strategy));
+      const puts = [...tablePlan.added, ...winners.map((c) => c.incoming)];
+      const deletes = winners.filter((c) => c.kind === 'date').map((c) => c.local.id);
+
+      if (deletes.length > 0) await db.table(table).bulkDelete(deletes);
+      if (puts.length > 0) await db.table(table).bulkPut(puts);
+    }
+  });
+};
+
 // ═══════════════════════════════════════════════════════════════════════════
 // GOAL OPERATIONS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -639,14 +1431,14 @@ const importV1Data = async (data: {
  * Get all goals
  */
 export const getAllGoals = async (): Promise<Goal[]> => {
-  return db.goals.toArray();
+  return db.goals.filter(isNotTrashed).toArray();
 };
 
 /**
  * Get goals by status
  */
 export const getGoalsByStatus = async (status: GoalStatus): Promise<Goal[]> => {
-  return db.goals.where('status').equals(status).toArray();
+  return db.goals.where('status').equals(status).filter(isNotTrashed).toArray();
 };
 
 /**
@@ -660,7 +1452,8 @@ export const getActiveGoals = async (): Promise<Goal[]> => {
  * Get goal by ID
  */
 export const getGoalById = async (id: string): Promise<Goal | undefined> => {
-  return db.goals.get(id);
+  const goal = await db.goals.get(id);
+  return goal && isNotTrashed(goal) ? goal : undefined;
 };
 
 /**
@@ -675,7 +1468,7 @@ export const getActiveGoalForItem = async (
   const activeGoals = await db.goals
     .where('itemId')
     .equals(itemId)
-    .and((goal) => goal.status === 'active')
+    .and((goal) => goal.status === 'active' && isNotTrashed(goal))
     .toArray();
 
   // Resolve the item once (only needed to backfill the score pool of legacy goals).
@@ -702,20 +1495,21 @@ export const getActiveGoalForItem = async (
  * Get all goals for a specific item
  */
 export const getGoalsForItem = async (itemId: string): Promise<Goal[]> => {
-  return db.goals.where('itemId').equals(itemId).toArray();
+  return db.goals.where('itemId').equals(itemId).filter(isNotTrashed).toArray();
 };
 
 /**
  * Add a new goal
  */
 export const addGoal = async (input: CreateGoalInput): Promise<string> => {
-  const id = `goal-${Date.now()}`;
+  const id = createId('goal');
   const now = new Date().toISOString().split('T')[0];
   
-  await db.goals.add({
+  await journaled('add-goal', [db.goals], () => db.goals.add({
     id,
     itemId: input.itemId,
     targetValue: input.targetValue,
+    unit: input.unit,
     targetDate: input.targetDate,
     createdAt: now,
     status: 'active',
@@ -724,7 +1518,7 @@ export const addGoal = async (input: CreateGoalInput): Promise<string> => {
     scoreTypeId: input.scoreTypeId,
     timeCap: input.timeCap,
     targetReps: input.targetReps,
-  });
+  }));
   
   return id;
 };
@@ -736,7 +1530,7 @@ export const updateGoal = async (
   id: string,
   updates: UpdateGoalInput
 ): Promise<void> => {
-  await db.goals.update(id, updates);
+  await journaled('update-goal', [db.goals], () => db.goals.update(id, updates));
 };
 
 /**
@@ -744,22 +1538,171 @@ export const updateGoal = async (
  */
 export const achieveGoal = async (id: string): Promise<void> => {
   const now = new Date().toISOString().split('T')[0];
-  await db.goals.update(id, {
+  await journaled('achieve-goal', [db.goals], () => db.goals.update(id, {
     status: 'achieved',
     achievedAt: now,
-  });
+  }));
+};
+
+/**
+ * Return an achieved goal to active (e.g. the PR that achieved it was edited)
+ */
+export const reopenGoal = async (id: string): Promise<void> => {
+  await journaled('reopen-goal', [db.goals], () => db.goals.update(id, {
+    status: 'active',
+    achievedAt: undefined,
+  }));
 };
 
 /**
  * Cancel a goal
  */
 export const cancelGoal = async (id: string): Promise<void> => {
-  await db.goals.update(id, { status: 'cancelled' });
+  await journaled('cancel-goal', [db.goals], () => db.goals.update(id, { status: 'cancelled' }));
 };
 
 /**
- * Delete a goal
+ * Move a goal to the trash
  */
 export const deleteGoal = async (id: string): Promise<void> => {
-  await db.goals.delete(id);
+  await journaled('delete-goal', [db.goals], () => db.goals.update(id, { deletedAt: Date.now() }));
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TRASH
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const TRASH_TABLES: TrashTable[] = ['prLogs', 'goals', 'dailyCheckIns'];
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Everything in the trash, most recently deleted first
+ */
+export const getTrash = async (): Promise<TrashedRecord[]> => {
+  const [prLogs, goals, dailyCheckIns] = await Promise.all([
+    db.prLogs.where('deletedAt').above(0).toArray(),
+    db.goals.where('deletedAt').above(0).toArray(),
+    db.dailyCheckIns.where('deletedAt').above(0).toArray(),
+  ]);
+
+  const trashed = [
+    ...prLogs.map((record) => ({ table: 'prLogs', record })),
+    ...goals.map((record) => ({ table: 'goals', record })),
+    ...dailyCheckIns.map((record) => ({ table: 'dailyCheckIns', record })),
+  ] as TrashedRecord[];
+
+  return trashed.sort((a, b) => b.record.deletedAt - a.record.deletedAt);
+};
+
+/**
+ * Restore a trashed record. A check-in can't come back over a live check-in
+ * for the same date (one check-in per day).
+ */
+export const restoreFromTrash = async (table: TrashTable, id: string): Promise<void> => {
+  await journaled('restore-from-trash', [db.table(table)], async () => {
+    if (table === 'dailyCheckIns') {
+      const checkIn = await db.dailyCheckIns.get(id);
+      const clash = checkIn && await db.dailyCheckIns
+        .where('date')
+        .equals(checkIn.date)
+        .filter((other) => other.id !== id && isNotTrashed(other))
+        .first();
+      if (clash) throw new Error(`A check-in for ${checkIn.date} already exists`);
+    }
+    await db.table(table).update(id, { deletedAt: undefined });
+  });
+};
+
+/**
+ * Permanently delete a trashed record
+ */
+export const purgeFromTrash = async (table: TrashTable, id: string): Promise<void> => {
+  await journaled('purge-from-trash', [db.table(table)], () => db.table(table).delete(id));
+};
+
+/**
+ * Permanently delete records trashed before `cutoff` (all of them when
+ * omitted). Returns how many were purged.
+ */
+export const emptyTrash = async (cutoff: number = Infinity): Promise<number> => {
+  return journaled('empty-trash', [db.prLogs, db.goals, db.dailyCheckIns], async () => {
+    let purged = 0;
+    for (const table of TRASH_TABLES) {
+      purged += await db.table(table).where('deletedAt').below(cutoff).delete();
+    }
+    return purged;
+  });
+};
+
+/**
+ * Auto-purge: drop records that have been in the trash longer than the
+ * retention period.
+ */
+export const purgeExpiredTrash = async (
+  retentionDays: number = DEFAULT_TRASH_RETENTION_DAYS
+): Promise<number> => {
+  const purged = await emptyTrash(Date.now() - retentionDays * DAY_MS);
+  if (purged > 0) console.log(`[DB] Purged ${purged} expired trash records`);
+  return purged;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHANGE JOURNAL
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_JOURNAL_RETENTION_DAYS = 90;
+
+/**
+ * Journal entries matching `query`, newest first
+ */
+export const getChanges = async (query: ChangeQuery = {}): Promise<ChangeEntry[]> => {
+  const { table, recordId, itemId, action, since = 0, until = Infinity, limit } = query;
+
+  const collection = table && recordId
+    ? db.changes.where('[table+recordId]').equals([table, recordId])
+    : itemId
+      ? db.changes.where('itemIds').equals(itemId)
+      : db.changes.where('timestamp').between(since, until);
+
+  const entries = await collection
+    .filter((entry) =>
+      (!table || entry.table === table) &&
+      (!recordId || entry.recordId === recordId) &&
+      (!itemId || entry.itemIds.includes(itemId)) &&
+      (!action || entry.action === action) &&
+      entry.timestamp >= since &&
+      entry.timestamp < until
+    )
+    .toArray();
+
+  entries.sort((a, b) => (b.id ?? 0) - (a.id ?? 0));
+  return limit === undefined ? entries : entries.slice(0, limit);
+};
+
+/**
+ * Every change to one record, newest first
+ */
+export const getRecordHistory = async (table: JournalTable, recordId: string): Promise<ChangeEntry[]> => {
+  return getChanges({ table, recordId });
+};
+
+/**
+ * Every change to records belonging to a catalog item (its logs, goals,
+ * favorite and, for custom items, the item itself), newest first
+ */
+export const getItemHistory = async (itemId: string, limit?: number): Promise<ChangeEntry[]> => {
+  return getChanges({ itemId, limit });
+};
+
+/**
+ * Drop journal entries older than the retention period
+ */
+export const pruneJournal = async (
+  retentionDays: number = DEFAULT_JOURNAL_RETENTION_DAYS
+): Promise<number> => {
+  const pruned = await db.changes.where('timestamp').below(Date.now() - retentionDays * DAY_MS).delete();
+  if (pruned > 0) console.log(`[DB] Pruned ${pruned} journal entries`);
+  return pruned;
 };
@@ -0,0 +1,316 @@
+import { db, createId, getAllCatalogItems, isNotTrashed, journaled, stableStringify } from './index';
+import { getLogScoreType, getScoreTypeDef } from '../config/scoreTypes';
+import { extractRawResult, parseResultToValue } from '../utils/resultParser';
+import { RESULT_VALUE_TOLERANCE } from '../utils/importValidator';
+import type { CatalogItem, CustomItem, PRLog, ScoreType } from '../types/catalog';
+import type { Goal } from '../types/goal';
+import type { DailyCheckIn } from '../types/training';
+import type { TrashTable } from '../types/trash';
+import type { ChangeEntry } from '../types/journal';
+import type {
+  IntegrityIssue,
+  IntegrityProblemKind,
+  IntegrityReport,
+  RepairPlan,
+  RepairStep,
+} from '../types/integrity';
+
+/**
+ * Data integrity checks on the main database.
+ *
+ * Each problem kind has an analyzer that reads a snapshot of the tables and
+ * returns both the problem records (for the report) and the steps that fix
+ * them (for review before anything is written).
+ */
+
+export const INTEGRITY_PROBLEM_KINDS: IntegrityProblemKind[] = [
+  'orphan-log',
+  'orphan-goal',
+  'duplicate-check-in',
+  'result-mismatch',
+  'id-collision',
+];
+
+/** Id prefix of new records per table (matches `createId` callers) */
+const ID_PREFIXES: Record<TrashTable, string> = {
+  prLogs: 'log',
+  goals: 'goal',
+  dailyCheckIns: 'checkin',
+};
+
+interface IntegritySnapshot {
+  items: Map<string, CatalogItem>;
+  prLogs: PRLog[];
+  goals: Goal[];
+  dailyCheckIns: DailyCheckIn[];
+  /** Journaled updates that swapped a record for one created at a different time */
+  replacements: ChangeEntry[];
+}
+
+interface Analysis {
+  issues: IntegrityIssue[];
+  steps: RepairStep[];
+}
+
+const formatDay = (timestamp: number): string => new Date(timestamp).toLocaleDateString();
+
+const createdAtOf = (snapshot: unknown): unknown => (snapshot as { createdAt?: unknown } | undefined)?.createdAt;
+
+/**
+ * Record content without bookkeeping fields — a restored copy of an
+ * overwritten record matches the original under this.
+ */
+const fingerprint = (record: object): string =>
+  stableStringify({ ...record, id: undefined, updatedAt: undefined });
+
+const loadSnapshot = async (): Promise<IntegritySnapshot> => {
+  const [items, prLogs, goals, dailyCheckIns, replacements] = await Promise.all([
+    getAllCatalogItems(),
+    db.prLogs.toArray(),
+    db.goals.toArray(),
+    db.dailyCheckIns.toArray(),
+    db.changes
+      .filter((entry) =>
+        entry.op === 'update' &&
+        (entry.table === 'prLogs' || entry.table === 'goals' || entry.table === 'dailyCheckIns') &&
+        createdAtOf(entry.before) !== undefined &&
+        createdAtOf(entry.before) !== createdAtOf(entry.after)
+      )
+      .toArray(),
+  ]);
+  return { items: new Map(items.map((item) => [item.id, item])), prLogs, goals, dailyCheckIns, replacements };
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ANALYZERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Best guess at how a missing item was scored, from the logs that point at it
+ */
+const guessScoreTypes = (logs: PRLog[]): ScoreType[] => {
+  const recorded = [...new Set(logs.map((log) => log.scoreTypeId).filter((type) => type !== undefined))];
+  if (recorded.length > 0) return recorded;
+
+  const sample = logs[0];
+  if (sample.unit === 'kg' || sample.unit === 'lb' || sample.result.includes(' @ ')) return ['Load'];
+  if (sample.unit === 'm' || sample.unit === 'ft') return ['Distance'];
+  if (sample.result.includes(':')) return ['Time'];
+  if (/^\d+\+\d+$/.test(sample.result.trim())) return ['Rounds+Reps'];
+  return ['Reps'];
+};
+
+/**
+ * Logs whose item is gone. Repair: recreate each missing item as a custom
+ * item under the same id, so the history shows again and can be merged
+ * into the right item from the item's page.
+ */
+const analyzeOrphanLogs = ({ items, prLogs }: IntegritySnapshot): Analysis => {
+  const orphansByItem = new Map<string, PRLog[]>();
+  for (const log of prLogs) {
+    if (items.has(log.catalogItemId)) continue;
+    orphansByItem.set(log.catalogItemId, [...(orphansByItem.get(log.catalogItemId) ?? []), log]);
+  }
+
+  const analysis: Analysis = { issues: [], steps: [] };
+  for (const [itemId, logs] of orphansByItem) {
+    for (const log of logs) {
+      analysis.issues.push({
+        kind: 'orphan-log',
+        table: 'prLogs',
+        recordId: log.id,
+        message: `"${log.result}" on ${formatDay(log.date)} points at missing item "${itemId}"`,
+      });
+    }
+
+    const scoreTypes = guessScoreTypes(logs);
+    const item: CustomItem = {
+      id: itemId,
+      name: `Recovered item (${itemId})`,
+      category: 'Custom',
+      scoreType: scoreTypes[0],
+      scoreTypeIds: scoreTypes.length > 1 ? scoreTypes : undefined,
+      description: 'Recreated by the data check for logs whose item was missing.',
+      createdAt: Math.min(...logs.map((log) => log.createdAt)),
+    };
+    analysis.steps.push({
+      description: `Recreate "${itemId}" as a custom item (${getScoreTypeDef(item.scoreType).name}) for ${logs.length} log${logs.length === 1 ? '' : 's'}`,
+      operation: { op: 'add', table: 'customItems', record: item },
+    });
+  }
+  return analysis;
+};
+
+/**
+ * Live goals whose item is gone. Repair: move them to the trash.
+ */
+const analyzeOrphanGoals = ({ items, goals }: IntegritySnapshot): Analysis => {
+  const analysis: Analysis = { issues: [], steps: [] };
+  for (const goal of goals.filter(isNotTrashed)) {
+    if (items.has(goal.itemId)) continue;
+    analysis.issues.push({
+      kind: 'orphan-goal',
+      table: 'goals',
+      recordId: goal.id,
+      message: `Goal due ${goal.targetDate} points at missing item "${goal.itemId}"`,
+    });
+    analysis.steps.push({
+      description: `Move the goal for "${goal.itemId}" (due ${goal.targetDate}) to the trash`,
+      operation: { op: 'trash', table: 'goals', id: goal.id },
+    });
+  }
+  return analysis;
+};
+
+/**
+ * Dates with more than one live check-in. Repair: keep the most recently
+ * changed one and move the rest to the trash.
+ */
+const analyzeDuplicateCheckIns = ({ dailyCheckIns }: IntegritySnapshot): Analysis => {
+  const byDate = new Map<string, DailyCheckIn[]>();
+  for (const checkIn of dailyCheckIns.filter(isNotTrashed)) {
+    byDate.set(checkIn.date, [...(byDate.get(checkIn.date) ?? []), checkIn]);
+  }
+
+  const analysis: Analysis = { issues: [], steps: [] };
+  for (const [date, checkIns] of byDate) {
+    if (checkIns.length < 2) continue;
+    const [keep, ...extras] = [...checkIns].sort(
+      (a, b) => (b.updatedAt ?? b.createdAt) - (a.updatedAt ?? a.createdAt) || b.createdAt - a.createdAt
+    );
+    for (const extra of extras) {
+      analysis.issues.push({
+        kind: 'duplicate-check-in',
+        table: 'dailyCheckIns',
+        recordId: extra.id,
+        message: `${date} has ${checkIns.length} check-ins`,
+      });
+      analysis.steps.push({
+        description: `Move the older ${extra.type} check-in for ${date} to the trash (keeping ${keep.id})`,
+        operation: { op: 'trash', table: 'dailyCheckIns', id: extra.id },
+      });
+    }
+  }
+  return analysis;
+};
+
+/**
+ * Logs whose stored `resultValue` isn't what their result parses to (old
+ * bugs, hand-edited imports). Repair: store the parsed value. Flagged logs
+ * are skipped — their result doesn't read under any score the item offers.
+ */
+const analyzeResultMismatches = ({ items, prLogs }: IntegritySnapshot): Analysis => {
+  const analysis: Analysis = { issues: [], steps: [] };
+  for (const log of prLogs) {
+    if (log.scoreTypeMismatch) continue;
+    const item = items.get(log.catalogItemId);
+    const scoreType = item ? getLogScoreType(log, item) : log.scoreTypeId;
+    if (!scoreType) continue;
+
+    const expected = parseResultToValue(extractRawResult(log.result, scoreType), scoreType);
+    if (Math.abs(expected - log.resultValue) <= RESULT_VALUE_TOLERANCE) continue;
+
+    analysis.issues.push({
+      kind: 'result-mismatch',
+      table: 'prLogs',
+      recordId: log.id,
+      message: `"${log.result}" is stored as ${log.resultValue} but reads as ${expected}`,
+    });
+    analysis.steps.push({
+      description: `Set the value of "${log.result}" (${formatDay(log.date)}) from ${log.resultValue} to ${expected}`,
+      operation: { op: 'update', table: 'prLogs', id: log.id, changes: { resultValue: expected } },
+    });
+  }
+  return analysis;
+};
+
+/**
+ * Records replaced by a different record with the same id (time-based ids
+ * from two devices or an import can coincide). Found through the change
+ * journal, so only within its retention window. Repair: add the overwritten
+ * version back under a new id.
+ */
+const analyzeIdCollisions = (snapshot: IntegritySnapshot): Analysis => {
+  const analysis: Analysis = { issues: [], steps: [] };
+  const present = new Set(
+    [...snapshot.prLogs, ...snapshot.goals, ...snapshot.dailyCheckIns].map((record) => fingerprint(record))
+  );
+
+  for (const entry of snapshot.replacements) {
+    const table = entry.table as TrashTable;
+    const lost = entry.before as PRLog | Goal | DailyCheckIn;
+    const key = fingerprint(lost);
+    if (present.has(key)) continue;
+    present.add(key);
+
+    const label = 'result' in lost ? `log "${lost.result}"` : 'targetDate' in lost ? `goal due ${lost.targetDate}` : `check-in for ${lost.date}`;
+    analysis.issues.push({
+      kind: 'id-collision',
+      table,
+      recordId: entry.recordId,
+      message: `The ${label} was overwritten on ${formatDay(entry.timestamp)} by another record with id ${entry.recordId}`,
+    });
+
+    const restored = { ...lost, id: createId(ID_PREFIXES[table]) };
+    delete restored.updatedAt;
+    analysis.steps.push({
+      description: `Restore the overwritten ${label} as a new record`,
+      operation: { op: 'add', table, record: restored },
+    });
+  }
+  return analysis;
+};
+
+const ANALYZERS: Record<IntegrityProblemKind, (snapshot: IntegritySnapshot) => Analysis> = {
+  'orphan-log': analyzeOrphanLogs,
+  'orphan-goal': analyzeOrphanGoals,
+  'duplicate-check-in': analyzeDuplicateCheckIns,
+  'result-mismatch': analyzeResultMismatches,
+  'id-collision': analyzeIdCollisions,
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCAN / REPAIR
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Scan every user data table for each problem kind
+ */
+export const scanIntegrity = async (): Promise<IntegrityReport> => {
+  const snapshot = await loadSnapshot();
+  const issues = Object.fromEntries(
+    INTEGRITY_PROBLEM_KINDS.map((kind) => [kind, ANALYZERS[kind](snapshot).issues])
+  ) as IntegrityReport['issues'];
+  return { scannedAt: Date.now(), issues };
+};
+
+/**
+ * Work out (without writing) how to fix every current problem of one kind
+ */
+export const planIntegrityRepair = async (kind: IntegrityProblemKind): Promise<RepairPlan> => {
+  const snapshot = await loadSnapshot();
+  return { kind, steps: ANALYZERS[kind](snapshot).steps };
+};
+
+/**
+ * Apply a reviewed repair in one transaction; a failing step rolls back the
+ * whole repair.
+ */
+export const applyIntegrityRepair = async (plan: RepairPlan): Promise<void> => {
+  await journaled('repair-integrity', [db.customItems, db.prLogs, db.goals, db.dailyCheckIns], async () => {
+    const now = Date.now();
+    for (const { operation } of plan.steps) {
+      switch (operation.op) {
+        case 'add':
+          await db.table(operation.table).add(operation.record);
+          break;
+        case 'update':
+          await db.table(operation.table).update(operation.id, operation.changes);
+          break;
+        case 'trash':
+          await db.table(operation.table).update(operation.id, { deletedAt: now });
+          break;
+      }
+    }
+  });
+};
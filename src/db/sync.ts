@@ -0,0 +1,220 @@
+import { db, IMPORT_TABLES, isNotTrashed, journaled } from './index';
+import type { DailyCheckIn } from '../types/training';
+import type {
+  SyncChangeSet,
+  SyncConfig,
+  SyncRecord,
+  SyncState,
+  SyncTable,
+  SyncTombstone,
+} from '../types/sync';
+
+/**
+ * Sync bookkeeping on the main database.
+ *
+ * Records are stamped with `updatedAt` by table hooks (see CrossfitToolkitDB).
+ * Hard deletes leave no trace in the tables, so tombstones are derived
+ * instead: ids that were present after the last sync and are gone now,
+ * stamped with the time the change journal recorded the delete.
+ */
+
+export const SYNC_TABLES: SyncTable[] = IMPORT_TABLES;
+
+const emptyIds = (): Record<SyncTable, string[]> => ({
+  favorites: [],
+  customItems: [],
+  prLogs: [],
+  goals: [],
+  dailyCheckIns: [],
+});
+
+export const emptyChangeSet = (): SyncChangeSet => ({
+  favorites: { records: [], tombstones: [] },
+  customItems: { records: [], tombstones: [] },
+  prLogs: { records: [], tombstones: [] },
+  goals: { records: [], tombstones: [] },
+  dailyCheckIns: { records: [], tombstones: [] },
+});
+
+const stampKey = (table: SyncTable, id: string) => `${table}:${id}`;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STATE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * This device's sync state, or undefined when sync isn't set up
+ */
+export const getSyncState = async (): Promise<SyncState | undefined> => {
+  return db.syncState.get('default');
+};
+
+/**
+ * Set up sync, or change the server or athlete. Pointing at a different
+ * feed starts over from scratch: everything local is pushed again and the
+ * whole feed is pulled.
+ */
+export const saveSyncConfig = async (config: SyncConfig): Promise<SyncState> => {
+  const existing = await getSyncState();
+  const sameFeed = existing?.serverUrl === config.serverUrl && existing.athleteId === config.athleteId;
+
+  const state: SyncState = sameFeed
+    ? { ...existing, ...config }
+    : {
+        id: 'default',
+        ...config,
+        deviceId: existing?.deviceId ?? crypto.randomUUID(),
+        cursor: 0,
+        pushedUpTo: 0,
+        knownIds: emptyIds(),
+      };
+  await db.syncState.put(state);
+  return state;
+};
+
+export const updateSyncState = async (updates: Partial<Omit<SyncState, 'id'>>): Promise<void> => {
+  await db.syncState.update('default', updates);
+};
+
+/**
+ * Turn sync off on this device. Local data is kept.
+ */
+export const clearSyncState = async (): Promise<void> => {
+  await db.syncState.delete('default');
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PULL
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface AppliedChanges {
+  applied: number;
+  replacedCheckIns: number;
+  /** `table:id` → stamp of every record just written from the server */
+  appliedStamps: Map<string, number>;
+  /** Local check-ins that lost a same-date clash; the server must drop them too */
+  tombstones: SyncTombstone[];
+}
+
+/**
+ * Apply changes pulled from the server, last-writer-wins per record.
+ * Ties go to the server, so every device settles on the server's copy.
+ *
+ * One check-in per date still holds: when a pulled check-in and a local one
+ * share a date, the older one is deleted (and tombstoned for the server).
+ */
+export const applyRemoteChanges = async (changes: SyncChangeSet): Promise<AppliedChanges> => {
+  const result: AppliedChanges = { applied: 0, replacedCheckIns: 0, appliedStamps: new Map(), tombstones: [] };
+
+  await journaled('sync', SYNC_TABLES.map((table) => db.table(table)), async () => {
+    for (const table of SYNC_TABLES) {
+      const store = db.table(table);
+      const { records, tombstones } = changes[table];
+
+      for (const remote of records as SyncRecord[]) {
+        const local = await store.get(remote.id);
+        if (local && (local.updatedAt ?? 0) > remote.updatedAt) continue;
+
+        const checkIn = table === 'dailyCheckIns' ? (remote as SyncRecord<'dailyCheckIns'>) : undefined;
+        if (checkIn && isNotTrashed(checkIn)) {
+          const clashes: DailyCheckIn[] = await db.dailyCheckIns
+            .where('date')
+            .equals(checkIn.date)
+            .filter((other) => other.id !== checkIn.id && isNotTrashed(other))
+            .toArray();
+          if (clashes.some((other) => (other.updatedAt ?? 0) > checkIn.updatedAt)) {
+            // A newer local check-in owns this date; the pulled one loses.
+            if (local) await store.delete(remote.id);
+            result.tombstones.push({ id: remote.id, deletedAt: Date.now() });
+            continue;
+          }
+          for (const other of clashes) {
+            await store.delete(other.id);
+            result.tombstones.push({ id: other.id, deletedAt: Date.now() });
+            result.replacedCheckIns++;
+          }
+        }
+
+        await store.put(remote);
+        result.appliedStamps.set(stampKey(table, remote.id), remote.updatedAt);
+        result.applied++;
+      }
+
+      for (const tombstone of tombstones) {
+        const local = await store.get(tombstone.id);
+        if (local && (local.updatedAt ?? 0) <= tombstone.deletedAt) {
+          await store.delete(tombstone.id);
+          result.applied++;
+        }
+      }
+    }
+  });
+
+  return result;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PUSH
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface LocalChanges {
+  changes: SyncChangeSet;
+  count: number;
+  /** Every id present when the changes were read — the next `knownIds` */
+  ids: Record<SyncTable, string[]>;
+  /** The next `pushedUpTo` */
+  readAt: number;
+}
+
+/**
+ * When a record was deleted, from its latest journal entry. Entries pruned
+ * from the journal fall back to `fallback`.
+ */
+const deletedAtOf = async (table: SyncTable, id: string, fallback: number): Promise<number> => {
+  const last = await db.changes.where('[table+recordId]').equals([table, String(id)]).last();
+  return last?.op === 'delete' ? last.timestamp : fallback;
+};
+
+/**
+ * Local changes since the last push: records stamped after `pushedUpTo`
+ * (minus ones that just arrived from the server) and tombstones for ids
+ * that have disappeared since the last sync.
+ */
+export const collectLocalChanges = async (
+  state: SyncState,
+  skip: Map<string, number> = new Map()
+): Promise<LocalChanges> => {
+  // One millisecond back, so a write landing in the same millisecond as
+  // the read is picked up by the next sync rather than missed.
+  const readAt = Date.now() - 1;
+  const changes = emptyChangeSet();
+  const ids = emptyIds();
+  let count = 0;
+
+  await db.transaction('r', [...SYNC_TABLES.map((table) => db.table(table)), db.changes], async () => {
+    for (const table of SYNC_TABLES) {
+      const store = db.table(table);
+      ids[table] = (await store.toCollection().primaryKeys()) as string[];
+
+      const records = (await store.where('updatedAt').above(state.pushedUpTo).toArray()) as SyncRecord[];
+      changes[table].records = records.filter((record) => skip.get(stampKey(table, record.id)) !== record.updatedAt);
+
+      const present = new Set(ids[table]);
+      for (const id of state.knownIds[table] ?? []) {
+        if (!present.has(id)) changes[table].tombstones.push({ id, deletedAt: await deletedAtOf(table, id, readAt) });
+      }
+
+      count += changes[table].records.length + changes[table].tombstones.length;
+    }
+  });
+
+  return { changes, count, ids, readAt };
+};
+
+/**
+ * How many local changes are waiting to be pushed
+ */
+export const countPendingChanges = async (state: SyncState): Promise<number> => {
+  const { count } = await collectLocalChanges(state);
+  return count;
+};
@@ -0,0 +1,28 @@
+import { useEffect } from 'react';
+import { useCatalogStore } from '../stores/catalogStore';
+import { runScheduledBackup } from '../services/backupService';
+
+/** How often an open app re-checks whether a scheduled backup is due */
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Hook to take scheduled restore points while the app is open
+ */
+export const useAutoBackup = () => {
+  const isInitialized = useCatalogStore((state) => state.isInitialized);
+  const settings = useCatalogStore((state) => state.settings);
+
+  useEffect(() => {
+    if (!isInitialized) return;
+
+    const check = () => {
+      runScheduledBackup(settings).catch((error) => {
+        console.error('[Backup] Scheduled backup failed:', error);
+      });
+    };
+
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isInitialized, settings]);
+};
@@ -0,0 +1,16 @@
+import { useEffect } from 'react';
+import { useCatalogStore } from '../stores/catalogStore';
+
+/**
+ * Hook to load the whole builtin catalog (Open and Games included) once the
+ * app is initialized, for views that browse it or look up arbitrary ids
+ */
+export const useFullCatalog = (enabled: boolean = true) => {
+  const loadFullCatalog = useCatalogStore((state) => state.loadFullCatalog);
+  const isInitialized = useCatalogStore((state) => state.isInitialized);
+
+  useEffect(() => {
+    if (!enabled || !isInitialized) return;
+    loadFullCatalog().catch((err) => console.error('[Catalog] Failed to load the full catalog:', err));
+  }, [enabled, isInitialized, loadFullCatalog]);
+};
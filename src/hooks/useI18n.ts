@@ -0,0 +1,10 @@
+import { useCatalogStore } from '../stores/catalogStore';
+import { t } from '../utils/i18n';
+
+/**
+ * Hook for translated text: re-renders the component when the language changes
+ */
+export const useI18n = () => {
+  const locale = useCatalogStore((state) => state.locale);
+  return { locale, t };
+};
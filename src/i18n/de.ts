@@ -0,0 +1,132 @@
+/**
+ * German messages
+ */
+
+import type { MessageCatalog } from '../types/i18n';
+
+export const de: MessageCatalog = {
+  // Navigation
+  'nav.home': 'Start',
+  'nav.log': 'Eintragen',
+  'nav.logResult': 'Ergebnis eintragen',
+  'nav.timer': 'Timer',
+  'nav.progress': 'Fortschritt',
+  'nav.goHome': 'Zur Startseite',
+  'nav.openSettings': 'Einstellungen öffnen',
+
+  // Home
+  'home.headline': 'Bereit fürs Training.',
+  'home.checkIn': 'Check-in',
+  'home.restRecommended': 'Pause empfohlen',
+  'home.primed': 'Startklar',
+
+  // Settings: language
+  'settings.language.title': 'SPRACHE',
+  'settings.language.label': 'Sprache',
+  'settings.language.device': 'Gerätesprache ({language})',
+  'settings.language.hint': 'Workout-Namen, Beschreibungen und App-Texte erscheinen in dieser Sprache, sofern eine Übersetzung vorhanden ist. Die Suche findet Einträge weiterhin unter ihren englischen Namen.',
+
+  // Score types
+  'scoreType.Time': 'Zeit',
+  'scoreType.Load': 'Gewicht',
+  'scoreType.Reps': 'Wiederholungen',
+  'scoreType.Rounds+Reps': 'Runden + Wdh.',
+  'scoreType.Distance': 'Distanz',
+  'scoreType.Calories': 'Kalorien',
+  'scoreType.RepsInTime': 'Wdh. in Zeit',
+  'scoreType.TimeForReps': 'Zeit für Wdh.',
+  'scoreType.constraint.timeCap': 'ZEITLIMIT',
+  'scoreType.constraint.targetReps': 'ZIEL-WDH.',
+
+  // Recovery
+  'recovery.energy': 'Energie',
+  'recovery.soreness': 'Muskelkater',
+  'recovery.sleep': 'Schlaf',
+  'recovery.energy.1': 'Erschöpft',
+  'recovery.energy.2': 'Niedrig',
+  'recovery.energy.3': 'Okay',
+  'recovery.energy.4': 'Gut',
+  'recovery.energy.5': 'Super',
+  'recovery.soreness.1': 'Keiner',
+  'recovery.soreness.2': 'Leicht',
+  'recovery.soreness.3': 'Mittel',
+  'recovery.soreness.4': 'Stark',
+  'recovery.soreness.5': 'Sehr stark',
+  'recovery.sleepHours': '{hours} Std.',
+  'recovery.sleepHoursOrMore': '{hours}+ Std.',
+  'recovery.sleepAria': '{label} Schlaf',
+  'recovery.selectEnergy': 'Energielevel wählen',
+  'recovery.selectSoreness': 'Muskelkater wählen',
+  'recovery.alert.info.title': 'Achte auf deine Erholung',
+  'recovery.alert.warning.title': 'Lieber etwas leichter trainieren',
+  'recovery.alert.critical.title': 'Ruhetag empfohlen',
+  'recovery.alert.info.description': 'Du zeigst erste Anzeichen von Ermüdung. Hör auf deinen Körper.',
+  'recovery.alert.warning.description': 'Mehrere Erholungsfaktoren sprechen dafür, es heute ruhiger angehen zu lassen.',
+  'recovery.alert.critical.description': 'Dein Körper braucht Ruhe. Plane aktive Erholung oder einen kompletten Ruhetag ein.',
+  'recovery.reason.consecutive': { one: '{count} Trainingstag in Folge', other: '{count} Trainingstage in Folge' },
+  'recovery.reason.consecutiveMax': '{count}+ Trainingstage in Folge',
+  'recovery.reason.energyVeryLow': 'Sehr wenig Energie',
+  'recovery.reason.energyLow': 'Wenig Energie',
+  'recovery.reason.sorenessHigh': 'Starker Muskelkater',
+  'recovery.reason.sorenessElevated': 'Erhöhter Muskelkater',
+  'recovery.reason.sleepDeficit': 'Deutliches Schlafdefizit',
+  'recovery.reason.sleepInsufficient': 'Zu wenig Schlaf',
+  'recovery.reason.sleepSlightlyShort': 'Etwas unausgeruht',
+
+  // Onboarding
+  'onboarding.skip': 'ÜBERSPRINGEN',
+  'onboarding.skipAria': 'Einführung überspringen',
+  'onboarding.next': 'WEITER',
+  'onboarding.nextAria': 'Nächster Schritt',
+  'onboarding.start': 'LOS GEHT’S',
+  'onboarding.startAria': 'Loslegen',
+  'onboarding.goToStep': 'Zu Schritt {step}',
+  'onboarding.welcome.title': 'Willkommen bei CrossfitToolkit',
+  'onboarding.welcome.description': 'Dein persönlicher PR-Tracker für CrossFit-Workouts, Benchmarks und Lifts.',
+  'onboarding.welcome.body': 'Verfolge deinen Fortschritt, stell neue PRs auf und vergiss nie deine besten Leistungen.',
+  'onboarding.welcome.benchmarks': 'Benchmarks',
+  'onboarding.welcome.lifts': 'Lifts',
+  'onboarding.welcome.cardio': 'Cardio',
+  'onboarding.install.title': 'Als App installieren',
+  'onboarding.install.description': 'Füge CrossfitToolkit deinem Home-Bildschirm hinzu – so funktioniert es am besten.',
+  'onboarding.install.ios.step1': 'Tippe in Safari auf {icon} Teilen',
+  'onboarding.install.ios.step2': 'Scrolle nach unten und tippe auf {action}',
+  'onboarding.install.ios.addToHome': '„Zum Home-Bildschirm“',
+  'onboarding.install.ios.step3': 'Tippe zum Bestätigen auf {action}',
+  'onboarding.install.ios.add': '„Hinzufügen“',
+  'onboarding.install.android.step1': 'Tippe in Chrome auf das Menü {icon}',
+  'onboarding.install.android.step2': 'Tippe auf {install} oder {icon} {addToHome}',
+  'onboarding.install.android.installApp': '„App installieren“',
+  'onboarding.install.android.addToHome': '„Zum Startbildschirm hinzufügen“',
+  'onboarding.install.android.step3': 'Tippe zum Bestätigen auf {action}',
+  'onboarding.install.android.install': '„Installieren“',
+  'onboarding.install.desktop.title': 'Desktop nicht empfohlen',
+  'onboarding.install.desktop.body': 'Diese App ist für {mobile} gemacht. Öffne diese Seite am besten auf deinem Smartphone.',
+  'onboarding.install.desktop.mobile': 'Mobilgeräte',
+  'onboarding.install.otherDeviceSwipe': 'Anderes Gerät? Scrolle nach unten für weitere Optionen.',
+  'onboarding.install.otherDeviceTap': 'Anderes Gerät? Tippe unten für weitere Optionen.',
+  'onboarding.install.showAndroid': 'Anleitung für Android anzeigen',
+  'onboarding.install.showIos': 'Anleitung für iOS anzeigen',
+  'onboarding.install.scanQr': 'Scanne diesen QR-Code mit deinem Smartphone:',
+  'onboarding.install.showMobile': 'Installationsanleitung für Mobilgeräte anzeigen',
+  'onboarding.data.title': 'Deine Daten, dein Gerät',
+  'onboarding.data.description': 'Alle Daten bleiben auf deinem Gerät. Kein Konto nötig.',
+  'onboarding.data.privateTitle': '100 % privat',
+  'onboarding.data.privateBody': 'Deine PRs und Trainingsdaten werden nur lokal auf diesem Gerät gespeichert. Wir sehen oder sammeln deine Daten nie.',
+  'onboarding.data.importantTitle': 'Wichtig',
+  'onboarding.data.importantBody': 'Wenn du die App deinstallierst oder die Browserdaten löschst, {lost}. Exportiere regelmäßig ein Backup!',
+  'onboarding.data.lost': 'gehen deine Daten verloren',
+  'onboarding.backup.title': 'Sichern & Wiederherstellen',
+  'onboarding.backup.description': 'Exportiere deine Daten jederzeit und stelle sie auf jedem Gerät wieder her.',
+  'onboarding.backup.exportTitle': 'Daten exportieren',
+  'onboarding.backup.exportBody': 'Lade alle PRs, Favoriten und Einstellungen als JSON-Datei herunter. Bewahre sie sicher auf!',
+  'onboarding.backup.importTitle': 'Daten importieren',
+  'onboarding.backup.importBody': 'Stelle deine Daten aus einer Sicherungsdatei wieder her. So wechselst du ganz einfach das Gerät.',
+  'onboarding.backup.where': 'Du findest diese Optionen unter {location}',
+  'onboarding.backup.location': 'Einstellungen → Daten',
+  'onboarding.done.title': 'Alles bereit!',
+  'onboarding.done.description': 'Starte deine CrossFit-Reise.',
+  'onboarding.done.body': 'Suche Workouts, trage deine PRs ein und sieh zu, wie dein Fortschritt wächst.',
+  'onboarding.done.tip': '{label} Markiere deine Lieblings-Workouts mit einem Stern, um sie direkt vom Startbildschirm aufzurufen!',
+  'onboarding.done.tipLabel': 'Profi-Tipp:',
+};
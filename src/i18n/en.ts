@@ -0,0 +1,133 @@
+/**
+ * English messages — the source catalog. Every key the app uses is defined
+ * here; other languages translate some or all of them.
+ */
+
+import type { Message } from '../types/i18n';
+
+export const en = {
+  // Navigation
+  'nav.home': 'Home',
+  'nav.log': 'Log',
+  'nav.logResult': 'Log a result',
+  'nav.timer': 'Timer',
+  'nav.progress': 'Progress',
+  'nav.goHome': 'Go to home',
+  'nav.openSettings': 'Open settings',
+
+  // Home
+  'home.headline': 'Ready to train.',
+  'home.checkIn': 'Check in',
+  'home.restRecommended': 'Rest recommended',
+  'home.primed': 'Primed',
+
+  // Settings: language
+  'settings.language.title': 'LANGUAGE',
+  'settings.language.label': 'Language',
+  'settings.language.device': 'Device language ({language})',
+  'settings.language.hint': 'Workout names, descriptions and app text use this language where a translation exists. Search still finds items by their English names.',
+
+  // Score types
+  'scoreType.Time': 'Time',
+  'scoreType.Load': 'Load',
+  'scoreType.Reps': 'Reps',
+  'scoreType.Rounds+Reps': 'Rounds + Reps',
+  'scoreType.Distance': 'Distance',
+  'scoreType.Calories': 'Calories',
+  'scoreType.RepsInTime': 'Reps in Time',
+  'scoreType.TimeForReps': 'Time for Reps',
+  'scoreType.constraint.timeCap': 'TIME CAP',
+  'scoreType.constraint.targetReps': 'TARGET REPS',
+
+  // Recovery
+  'recovery.energy': 'Energy',
+  'recovery.soreness': 'Soreness',
+  'recovery.sleep': 'Sleep',
+  'recovery.energy.1': 'Exhausted',
+  'recovery.energy.2': 'Low',
+  'recovery.energy.3': 'OK',
+  'recovery.energy.4': 'Good',
+  'recovery.energy.5': 'Great',
+  'recovery.soreness.1': 'None',
+  'recovery.soreness.2': 'Light',
+  'recovery.soreness.3': 'Moderate',
+  'recovery.soreness.4': 'High',
+  'recovery.soreness.5': 'Severe',
+  'recovery.sleepHours': '{hours}h',
+  'recovery.sleepHoursOrMore': '{hours}h+',
+  'recovery.sleepAria': '{label} of sleep',
+  'recovery.selectEnergy': 'Select energy level',
+  'recovery.selectSoreness': 'Select soreness level',
+  'recovery.alert.info.title': 'Monitor Your Recovery',
+  'recovery.alert.warning.title': 'Consider Lighter Intensity',
+  'recovery.alert.critical.title': 'Rest Day Recommended',
+  'recovery.alert.info.description': "You're showing some signs of fatigue. Listen to your body.",
+  'recovery.alert.warning.description': 'Multiple recovery factors suggest taking it easy today.',
+  'recovery.alert.critical.description': 'Your body needs rest. Consider an active recovery or full rest day.',
+  'recovery.reason.consecutive': { one: '{count} consecutive training day', other: '{count} consecutive training days' },
+  'recovery.reason.consecutiveMax': '{count}+ consecutive training days',
+  'recovery.reason.energyVeryLow': 'Very low energy',
+  'recovery.reason.energyLow': 'Low energy',
+  'recovery.reason.sorenessHigh': 'High soreness',
+  'recovery.reason.sorenessElevated': 'Elevated soreness',
+  'recovery.reason.sleepDeficit': 'Significant sleep deficit',
+  'recovery.reason.sleepInsufficient': 'Insufficient sleep',
+  'recovery.reason.sleepSlightlyShort': 'Slightly under-rested',
+
+  // Onboarding
+  'onboarding.skip': 'SKIP',
+  'onboarding.skipAria': 'Skip onboarding',
+  'onboarding.next': 'NEXT',
+  'onboarding.nextAria': 'Next step',
+  'onboarding.start': 'START TRAINING',
+  'onboarding.startAria': 'Get started',
+  'onboarding.goToStep': 'Go to step {step}',
+  'onboarding.welcome.title': 'Welcome to CrossfitToolkit',
+  'onboarding.welcome.description': 'Your personal PR tracker for CrossFit workouts, benchmarks, and lifts.',
+  'onboarding.welcome.body': 'Track your progress, set new PRs, and never forget your best performances.',
+  'onboarding.welcome.benchmarks': 'Benchmarks',
+  'onboarding.welcome.lifts': 'Lifts',
+  'onboarding.welcome.cardio': 'Cardio',
+  'onboarding.install.title': 'Install as an App',
+  'onboarding.install.description': 'Add CrossfitToolkit to your home screen for the best experience.',
+  'onboarding.install.ios.step1': 'Tap the {icon} Share button in Safari',
+  'onboarding.install.ios.step2': 'Scroll down and tap {action}',
+  'onboarding.install.ios.addToHome': '"Add to Home Screen"',
+  'onboarding.install.ios.step3': 'Tap {action} to confirm',
+  'onboarding.install.ios.add': '"Add"',
+  'onboarding.install.android.step1': 'Tap the {icon} menu in Chrome',
+  'onboarding.install.android.step2': 'Tap {install} or {icon} {addToHome}',
+  'onboarding.install.android.installApp': '"Install app"',
+  'onboarding.install.android.addToHome': '"Add to Home screen"',
+  'onboarding.install.android.step3': 'Tap {action} to confirm',
+  'onboarding.install.android.install': '"Install"',
+  'onboarding.install.desktop.title': 'Desktop Not Recommended',
+  'onboarding.install.desktop.body': 'This app is designed for {mobile}. For the best experience, please open this page on your phone.',
+  'onboarding.install.desktop.mobile': 'mobile devices',
+  'onboarding.install.otherDeviceSwipe': 'Using a different device? Swipe down to see other options.',
+  'onboarding.install.otherDeviceTap': 'Using a different device? Tap below to see other options.',
+  'onboarding.install.showAndroid': 'Show Android instructions',
+  'onboarding.install.showIos': 'Show iOS instructions',
+  'onboarding.install.scanQr': 'Scan this QR code with your phone:',
+  'onboarding.install.showMobile': 'View mobile installation instructions',
+  'onboarding.data.title': 'Your Data, Your Device',
+  'onboarding.data.description': 'All your data stays on your device. No account needed.',
+  'onboarding.data.privateTitle': '100% Private',
+  'onboarding.data.privateBody': 'Your PRs and workout data are stored locally on this device only. We never see or collect your data.',
+  'onboarding.data.importantTitle': 'Important',
+  'onboarding.data.importantBody': 'If you uninstall the app or clear browser data, {lost}. Make sure to export a backup regularly!',
+  'onboarding.data.lost': 'your data will be lost',
+  'onboarding.backup.title': 'Backup & Restore',
+  'onboarding.backup.description': 'Export your data anytime and restore it on any device.',
+  'onboarding.backup.exportTitle': 'Export Data',
+  'onboarding.backup.exportBody': 'Download all your PRs, favorites, and settings as a JSON file. Store it safely!',
+  'onboarding.backup.importTitle': 'Import Data',
+  'onboarding.backup.importBody': 'Restore your data from a backup file. Transfer between devices easily.',
+  'onboarding.backup.where': 'Find these options in {location}',
+  'onboarding.backup.location': 'Settings → Data',
+  'onboarding.done.title': "You're All Set!",
+  'onboarding.done.description': 'Start tracking your CrossFit journey.',
+  'onboarding.done.body': 'Search for workouts, log your PRs, and watch your progress grow over time.',
+  'onboarding.done.tip': '{label} Star your favorite workouts for quick access from the home screen!',
+  'onboarding.done.tipLabel': 'Pro tip:',
+} satisfies Record<string, Message>;
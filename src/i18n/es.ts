@@ -0,0 +1,132 @@
+/**
+ * Spanish messages
+ */
+
+import type { MessageCatalog } from '../types/i18n';
+
+export const es: MessageCatalog = {
+  // Navigation
+  'nav.home': 'Inicio',
+  'nav.log': 'Registrar',
+  'nav.logResult': 'Registrar un resultado',
+  'nav.timer': 'Reloj',
+  'nav.progress': 'Progreso',
+  'nav.goHome': 'Ir al inicio',
+  'nav.openSettings': 'Abrir ajustes',
+
+  // Home
+  'home.headline': 'Listo para entrenar.',
+  'home.checkIn': 'Registrar estado',
+  'home.restRecommended': 'Descanso recomendado',
+  'home.primed': 'A tope',
+
+  // Settings: language
+  'settings.language.title': 'IDIOMA',
+  'settings.language.label': 'Idioma',
+  'settings.language.device': 'Idioma del dispositivo ({language})',
+  'settings.language.hint': 'Los nombres y descripciones de los entrenamientos y los textos de la app usan este idioma cuando hay traducción. La búsqueda sigue encontrando los elementos por su nombre en inglés.',
+
+  // Score types
+  'scoreType.Time': 'Tiempo',
+  'scoreType.Load': 'Peso',
+  'scoreType.Reps': 'Repeticiones',
+  'scoreType.Rounds+Reps': 'Rondas + reps',
+  'scoreType.Distance': 'Distancia',
+  'scoreType.Calories': 'Calorías',
+  'scoreType.RepsInTime': 'Reps en tiempo',
+  'scoreType.TimeForReps': 'Tiempo por reps',
+  'scoreType.constraint.timeCap': 'TIEMPO LÍMITE',
+  'scoreType.constraint.targetReps': 'REPS OBJETIVO',
+
+  // Recovery
+  'recovery.energy': 'Energía',
+  'recovery.soreness': 'Agujetas',
+  'recovery.sleep': 'Sueño',
+  'recovery.energy.1': 'Agotado',
+  'recovery.energy.2': 'Baja',
+  'recovery.energy.3': 'Normal',
+  'recovery.energy.4': 'Buena',
+  'recovery.energy.5': 'Genial',
+  'recovery.soreness.1': 'Ninguna',
+  'recovery.soreness.2': 'Leves',
+  'recovery.soreness.3': 'Moderadas',
+  'recovery.soreness.4': 'Fuertes',
+  'recovery.soreness.5': 'Severas',
+  'recovery.sleepHours': '{hours} h',
+  'recovery.sleepHoursOrMore': '{hours} h+',
+  'recovery.sleepAria': '{label} de sueño',
+  'recovery.selectEnergy': 'Elige el nivel de energía',
+  'recovery.selectSoreness': 'Elige el nivel de agujetas',
+  'recovery.alert.info.title': 'Vigila tu recuperación',
+  'recovery.alert.warning.title': 'Considera bajar la intensidad',
+  'recovery.alert.critical.title': 'Se recomienda descansar',
+  'recovery.alert.info.description': 'Muestras algunas señales de fatiga. Escucha a tu cuerpo.',
+  'recovery.alert.warning.description': 'Varios factores de recuperación sugieren ir con calma hoy.',
+  'recovery.alert.critical.description': 'Tu cuerpo necesita descanso. Considera una recuperación activa o un día de descanso completo.',
+  'recovery.reason.consecutive': { one: '{count} día seguido de entrenamiento', other: '{count} días seguidos de entrenamiento' },
+  'recovery.reason.consecutiveMax': 'Más de {count} días seguidos de entrenamiento',
+  'recovery.reason.energyVeryLow': 'Energía muy baja',
+  'recovery.reason.energyLow': 'Energía baja',
+  'recovery.reason.sorenessHigh': 'Agujetas fuertes',
+  'recovery.reason.sorenessElevated': 'Agujetas elevadas',
+  'recovery.reason.sleepDeficit': 'Falta de sueño importante',
+  'recovery.reason.sleepInsufficient': 'Sueño insuficiente',
+  'recovery.reason.sleepSlightlyShort': 'Algo falto de descanso',
+
+  // Onboarding
+  'onboarding.skip': 'SALTAR',
+  'onboarding.skipAria': 'Saltar la introducción',
+  'onboarding.next': 'SIGUIENTE',
+  'onboarding.nextAria': 'Paso siguiente',
+  'onboarding.start': 'A ENTRENAR',
+  'onboarding.startAria': 'Empezar',
+  'onboarding.goToStep': 'Ir al paso {step}',
+  'onboarding.welcome.title': 'Bienvenido a CrossfitToolkit',
+  'onboarding.welcome.description': 'Tu registro personal de PRs para WODs de CrossFit, benchmarks y levantamientos.',
+  'onboarding.welcome.body': 'Sigue tu progreso, bate tus PRs y no olvides nunca tus mejores marcas.',
+  'onboarding.welcome.benchmarks': 'Benchmarks',
+  'onboarding.welcome.lifts': 'Levantamientos',
+  'onboarding.welcome.cardio': 'Cardio',
+  'onboarding.install.title': 'Instálala como app',
+  'onboarding.install.description': 'Añade CrossfitToolkit a tu pantalla de inicio para disfrutarla al máximo.',
+  'onboarding.install.ios.step1': 'Toca el botón {icon} Compartir en Safari',
+  'onboarding.install.ios.step2': 'Desliza hacia abajo y toca {action}',
+  'onboarding.install.ios.addToHome': '"Añadir a pantalla de inicio"',
+  'onboarding.install.ios.step3': 'Toca {action} para confirmar',
+  'onboarding.install.ios.add': '"Añadir"',
+  'onboarding.install.android.step1': 'Toca el menú {icon} en Chrome',
+  'onboarding.install.android.step2': 'Toca {install} o {icon} {addToHome}',
+  'onboarding.install.android.installApp': '"Instalar aplicación"',
+  'onboarding.install.android.addToHome': '"Añadir a pantalla de inicio"',
+  'onboarding.install.android.step3': 'Toca {action} para confirmar',
+  'onboarding.install.android.install': '"Instalar"',
+  'onboarding.install.desktop.title': 'Escritorio no recomendado',
+  'onboarding.install.desktop.body': 'Esta app está pensada para {mobile}. Para la mejor experiencia, abre esta página en tu móvil.',
+  'onboarding.install.desktop.mobile': 'dispositivos móviles',
+  'onboarding.install.otherDeviceSwipe': '¿Usas otro dispositivo? Desliza hacia abajo para ver otras opciones.',
+  'onboarding.install.otherDeviceTap': '¿Usas otro dispositivo? Toca abajo para ver otras opciones.',
+  'onboarding.install.showAndroid': 'Ver instrucciones para Android',
+  'onboarding.install.showIos': 'Ver instrucciones para iOS',
+  'onboarding.install.scanQr': 'Escanea este código QR con tu móvil:',
+  'onboarding.install.showMobile': 'Ver instrucciones de instalación en el móvil',
+  'onboarding.data.title': 'Tus datos, tu dispositivo',
+  'onboarding.data.description': 'Todos tus datos se quedan en tu dispositivo. No necesitas cuenta.',
+  'onboarding.data.privateTitle': '100 % privado',
+  'onboarding.data.privateBody': 'Tus PRs y entrenamientos se guardan solo en este dispositivo. Nunca vemos ni recopilamos tus datos.',
+  'onboarding.data.importantTitle': 'Importante',
+  'onboarding.data.importantBody': 'Si desinstalas la app o borras los datos del navegador, {lost}. ¡Exporta una copia de seguridad con regularidad!',
+  'onboarding.data.lost': 'perderás tus datos',
+  'onboarding.backup.title': 'Copia y restauración',
+  'onboarding.backup.description': 'Exporta tus datos cuando quieras y restáuralos en cualquier dispositivo.',
+  'onboarding.backup.exportTitle': 'Exportar datos',
+  'onboarding.backup.exportBody': 'Descarga todos tus PRs, favoritos y ajustes en un archivo JSON. ¡Guárdalo en un lugar seguro!',
+  'onboarding.backup.importTitle': 'Importar datos',
+  'onboarding.backup.importBody': 'Restaura tus datos desde una copia de seguridad. Pásalos de un dispositivo a otro fácilmente.',
+  'onboarding.backup.where': 'Encontrarás estas opciones en {location}',
+  'onboarding.backup.location': 'Ajustes → Datos',
+  'onboarding.done.title': '¡Todo listo!',
+  'onboarding.done.description': 'Empieza a registrar tu camino en CrossFit.',
+  'onboarding.done.body': 'Busca entrenamientos, registra tus PRs y mira cómo crece tu progreso.',
+  'onboarding.done.tip': '{label} Marca con una estrella tus entrenamientos favoritos para tenerlos a mano en la pantalla de inicio.',
+  'onboarding.done.tipLabel': 'Consejo:',
+};
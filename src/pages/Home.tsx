@@ -1,10 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ChevronRight, Plus, Loader2, Timer, Dumbbell, Activity, Repeat } from 'lucide-react';
 import { useCatalogStore } from '../stores/catalogStore';
 import { useGoalsStore, useSortedActiveGoals } from '../stores/goalsStore';
 import { useCheckInStore } from '../stores/checkInStore';
 import { useInitialize } from '../hooks/useInitialize';
+import { useI18n } from '../hooks/useI18n';
 import { QuickCheckIn, RecoveryAlert } from '../components/recovery';
 import { WeekStreak } from '../components/WeekStreak';
 import { LoadedBarButton } from '../components/LoadedBarButton';
@@ -12,7 +13,9 @@ import { BottomSheet } from '../components/BottomSheet';
 import { Barbell } from '../components/Barbell';
 import { PlateBadge } from '../components/PlateBadge';
 import { categoryColorVar } from '../utils/categoryColors';
-import * as db from '../db';
+import { displayLogResult } from '../utils/units';
+import { formatDate } from '../utils/i18n';
+import { getLogScoreType } from '../config/scoreTypes';
 import type { Category, Variant } from '../types/catalog';
 
 const GLYPH: Record<Category, typeof Dumbbell> = {
@@ -36,8 +39,10 @@ interface RecentLogWithItem {
 export const Home = () => {
   const navigate = useNavigate();
   const { isInitialized, isLoading } = useInitialize();
+  const { t } = useI18n();
 
   const catalogItems = useCatalogStore((state) => state.catalogItems);
+  const catalogItemsById = useCatalogStore((state) => state.catalogItemsById);
   const favorites = useCatalogStore((state) => state.favorites);
   const recentLogs = useCatalogStore((state) => state.recentLogs);
   const settings = useCatalogStore((state) => state.settings);
@@ -51,14 +56,13 @@ export const Home = () => {
   const recoveryScore = useCheckInStore((s) => s.recoveryScore);
   const todayCheckIn = useCheckInStore((s) => s.todayCheckIn);
 
-  const [recentLogsWithItems, setRecentLogsWithItems] = useState<RecentLogWithItem[]>([]);
   const [showCheckIn, setShowCheckIn] = useState(false);
 
   useEffect(() => {
     if (isInitialized && !goalsIsInitialized && catalogItems.length > 0) {
-      goalsInitialize(catalogItems, settings.weightUnit);
+      goalsInitialize(catalogItems, settings);
     }
-  }, [isInitialized, goalsIsInitialized, catalogItems, settings.weightUnit, goalsInitialize]);
+  }, [isInitialized, goalsIsInitialized, catalogItems, settings, goalsInitialize]);
 
   useEffect(() => {
     if (isInitialized && !checkInIsInitialized) {
@@ -66,32 +70,22 @@ export const Home = () => {
     }
   }, [isInitialized, checkInIsInitialized, checkInInitialize]);
 
-  useEffect(() => {
-    let cancelled = false;
-    const fetchItemNames = async () => {
-      if (recentLogs.length === 0) {
-        if (!cancelled) setRecentLogsWithItems([]);
-        return;
-      }
-      const logsWithItems = await Promise.all(
-        recentLogs.map(async (log) => {
-          const item = await db.getCatalogItemById(log.catalogItemId);
-          return {
-            id: log.id,
-            itemId: log.catalogItemId,
-            itemName: item?.name ?? 'Unknown',
-            category: item?.category ?? 'Custom',
-            result: log.result,
-            variant: log.variant,
-            date: new Date(log.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-          } as RecentLogWithItem;
-        })
-      );
-      if (!cancelled) setRecentLogsWithItems(logsWithItems);
-    };
-    void fetchItemNames();
-    return () => { cancelled = true; };
-  }, [recentLogs]);
+  const recentLogsWithItems = useMemo(
+    () =>
+      recentLogs.map((log): RecentLogWithItem => {
+        const item = catalogItemsById.get(log.catalogItemId);
+        return {
+          id: log.id,
+          itemId: log.catalogItemId,
+          itemName: item?.name ?? 'Unknown',
+          category: item?.category ?? 'Custom',
+          result: item ? displayLogResult(log, getLogScoreType(log, item), settings) : log.result,
+          variant: log.variant,
+          date: formatDate(log.date, { month: 'short', day: 'numeric' }),
+        };
+      }),
+    [recentLogs, catalogItemsById, settings]
+  );
 
   const handleItemClick = (itemId: string) => navigate(`/item/${itemId}`);
   const handleLogResult = () => navigate('/search');
@@ -106,12 +100,12 @@ export const Home = () => {
   }
 
   const now = new Date();
-  const heroDate = now.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const heroDate = formatDate(now, { weekday: 'short', month: 'short', day: 'numeric' });
 
   // Readiness chip: invite a check-in when today has none, otherwise reflect recovery state.
   const hasCheckIn = !!todayCheckIn;
   const isRestRecommended = recoveryScore && (recoveryScore.level === 'warning' || recoveryScore.level === 'critical');
-  const chipLabel = !hasCheckIn ? 'Check in' : isRestRecommended ? 'Rest recommended' : 'Primed';
+  const chipLabel = !hasCheckIn ? t('home.checkIn') : isRestRecommended ? t('home.restRecommended') : t('home.primed');
   const chipStyle = !hasCheckIn
     ? { background: 'var(--color-surface)', color: 'var(--color-text)', border: '1px solid var(--color-border-strong)' }
     : isRestRecommended
@@ -124,7 +118,7 @@ export const Home = () => {
       <div className="flex items-start justify-between">
         <div>
           <div className="label-eyebrow">{heroDate}</div>
-          <h1 className="font-display-black text-[30px] text-[var(--color-text)] mt-1 leading-[1.05]">Ready to train.</h1>
+          <h1 className="font-display-black text-[30px] text-[var(--color-text)] mt-1 leading-[1.05]">{t('home.headline')}</h1>
         </div>
         <button
           onClick={() => setShowCheckIn(true)}
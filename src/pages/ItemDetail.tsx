@@ -1,26 +1,35 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { ArrowLeft, Star, Plus, Trash2, Loader2, TrendingUp, TrendingDown, ChevronDown, ChevronRight, Dumbbell, Target } from 'lucide-react';
+import { ArrowLeft, Star, Plus, Pencil, Trash2, Loader2, TrendingUp, TrendingDown, ChevronDown, ChevronRight, Dumbbell, Target, AlertTriangle, History } from 'lucide-react';
 import { useCatalogStore, useCatalogItem } from '../stores/catalogStore';
 import { useGoalsStore, useActiveGoalForItem, useActiveGoalsForItem } from '../stores/goalsStore';
 import { useInitialize } from '../hooks/useInitialize';
+import { useFullCatalog } from '../hooks/useFullCatalog';
 import { LogResultModal } from '../components/LogResultModal';
 import { ConfirmDialog } from '../components/ConfirmDialog';
+import { UndoToast } from '../components/UndoToast';
 import { PercentageCalculator } from '../components/PercentageCalculator';
 import { GoalProgress, GoalModal } from '../components/goals';
+import { CustomItemSheet, DeleteCustomItemSheet, MergeCustomItemSheet } from '../components/customItems';
+import { ItemHistorySheet } from '../components/history';
 import { LoadedBarButton } from '../components/LoadedBarButton';
 import { Barbell } from '../components/Barbell';
 import { RxTag } from '../components/RxTag';
+import { WorkoutDetails } from '../components/WorkoutDetails';
 import { isDualMetricItem, isDistanceOnlyItem } from '../utils/itemMetrics';
 import { categoryColorHex } from '../utils/categoryColors';
+import { extractRawResult } from '../utils/resultParser';
+import { localizeLog } from '../utils/units';
+import { formatDate as formatLocaleDate } from '../utils/i18n';
 import {
   getScoreModes,
   getLogScoreType,
-  getScoreTypeDef,
+  getScoreTypeName,
   isLowerBetter as scoreIsLowerBetter,
   formatSecondsToTime,
 } from '../config/scoreTypes';
 import * as db from '../db';
+import { isBuiltinCatalogLoaded } from '../catalog/catalogService';
 import type { PRLog, CatalogItem, ScoreType } from '../types/catalog';
 import type { CreateGoalInput, UpdateGoalInput, GoalWithProgress } from '../types/goal';
 
@@ -46,12 +55,12 @@ interface ScoreTypeGroup {
 // Human label for a score-type group, folding the captured constraint into the header.
 const scoreTypeGroupLabel = (scoreType: ScoreType, sample: PRLog): string => {
   if (scoreType === 'RepsInTime') {
-    return sample.timeCap ? `Reps in ${formatSecondsToTime(sample.timeCap)}` : getScoreTypeDef(scoreType).name;
+    return sample.timeCap ? `Reps in ${formatSecondsToTime(sample.timeCap)}` : getScoreTypeName(scoreType);
   }
   if (scoreType === 'TimeForReps') {
-    return sample.targetReps ? `Time for ${sample.targetReps} reps` : getScoreTypeDef(scoreType).name;
+    return sample.targetReps ? `Time for ${sample.targetReps} reps` : getScoreTypeName(scoreType);
   }
-  return getScoreTypeDef(scoreType).name;
+  return getScoreTypeName(scoreType);
 };
 
 // Group logs into per-score-type pools, keyed by (scoreType, constraint).
@@ -209,9 +218,12 @@ export const ItemDetail = () => {
   const { isInitialized, isLoading: isInitializing } = useInitialize();
 
   const item = useCatalogItem(id ?? '');
+  // An id the store doesn't have may be in the split-out catalog files
+  useFullCatalog(!item);
   const catalogItems = useCatalogStore((state) => state.catalogItems);
   const toggleFavorite = useCatalogStore((state) => state.toggleFavorite);
   const deletePRLog = useCatalogStore((state) => state.deletePRLog);
+  const restoreFromTrash = useCatalogStore((state) => state.restoreFromTrash);
   const settings = useCatalogStore((state) => state.settings);
 
   const goalsIsInitialized = useGoalsStore((s) => s.isInitialized);
@@ -223,7 +235,9 @@ export const ItemDetail = () => {
   // All active goals for this item — one per score pool for multi-mode items.
   const activeGoals = useActiveGoalsForItem(id ?? '');
 
+  // Logs as displayed (converted to the current units) and as stored, for editing
   const [logs, setLogs] = useState<PRLog[]>([]);
+  const [storedLogs, setStoredLogs] = useState<Map<string, PRLog>>(new Map());
   const [bestLog, setBestLog] = useState<PRLog | null>(null);
   const [bestByDistance, setBestByDistance] = useState<Map<number, PRLog>>(new Map());
   const [bestByCalories, setBestByCalories] = useState<Map<number, PRLog>>(new Map());
@@ -235,20 +249,27 @@ export const ItemDetail = () => {
   const [goalModalEditGoal, setGoalModalEditGoal] = useState<GoalWithProgress | null>(null);
   const [goalModalScoreType, setGoalModalScoreType] = useState<ScoreType | null>(null);
   const [deleteLogId, setDeleteLogId] = useState<string | null>(null);
+  const [editLog, setEditLog] = useState<PRLog | null>(null);
+  // Last deleted log, offered for undo until the toast times out.
+  const [undoLogId, setUndoLogId] = useState<string | null>(null);
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  // Custom items only: the editor, delete or merge flow
+  const [itemSheet, setItemSheet] = useState<'edit' | 'delete' | 'merge' | 'history' | null>(null);
 
   useEffect(() => {
     if (isInitialized && !goalsIsInitialized && catalogItems.length > 0) {
-      goalsInitialize(catalogItems, settings.weightUnit);
+      goalsInitialize(catalogItems, settings);
     }
-  }, [isInitialized, goalsIsInitialized, catalogItems, settings.weightUnit, goalsInitialize]);
+  }, [isInitialized, goalsIsInitialized, catalogItems, settings, goalsInitialize]);
 
   const isDual = isDualMetricItem(item);
   const isDistanceOnly = isDistanceOnlyItem(item);
 
   const fetchLogsAndBests = useCallback(async (itemId: string, currentItem: CatalogItem | null) => {
     const itemLogs = await db.getPRLogsForItem(itemId);
-    setLogs(itemLogs);
+    const localize = (log: PRLog) => (currentItem ? localizeLog(log, getLogScoreType(log, currentItem), settings) : log);
+    setStoredLogs(new Map(itemLogs.map((log) => [log.id, log])));
+    setLogs(itemLogs.map(localize));
 
     if (isDualMetricItem(currentItem)) {
       const bestsByDist = await db.getBestPRsByDistance(itemId);
@@ -275,9 +296,9 @@ export const ItemDetail = () => {
       setBestByDistance(new Map());
       setBestByCalories(new Map());
       const best = await db.getBestPR(itemId);
-      setBestLog(best ?? null);
+      setBestLog(best ? localize(best) : null);
     }
-  }, []);
+  }, [settings]);
 
   useEffect(() => {
     const fetchLogs = async () => {
@@ -310,28 +331,60 @@ export const ItemDetail = () => {
   const confirmDeleteLog = async () => {
     if (deleteLogId) {
       await deletePRLog(deleteLogId);
-      await refreshLogs();
+      await handleModalSuccess();
+      setUndoLogId(deleteLogId);
       setDeleteLogId(null);
     }
   };
 
+  const handleUndoDelete = async () => {
+    if (!undoLogId) return;
+    setUndoLogId(null);
+    await restoreFromTrash('prLogs', undoLogId);
+    await handleModalSuccess();
+  };
+
+  const dismissUndo = useCallback(() => setUndoLogId(null), []);
+
   const handleModalSuccess = async () => {
     await refreshLogs();
     if (goalsIsInitialized) {
-      await goalsRefresh(catalogItems, settings.weightUnit);
+      await goalsRefresh(catalogItems, settings);
+    }
+  };
+
+  const handleItemSaved = async () => {
+    setItemSheet(null);
+    await handleModalSuccess();
+  };
+
+  // Goals may now point at another item; refresh against the reloaded catalog.
+  const handleItemDeleted = async () => {
+    setItemSheet(null);
+    if (goalsIsInitialized) {
+      await goalsRefresh(useCatalogStore.getState().catalogItems, settings);
     }
+    navigate(-1);
+  };
+
+  const handleItemMerged = async (targetId: string) => {
+    setItemSheet(null);
+    if (goalsIsInitialized) {
+      await goalsRefresh(useCatalogStore.getState().catalogItems, settings);
+    }
+    navigate(`/item/${targetId}`, { replace: true });
   };
 
   const handleSaveGoal = async (input: CreateGoalInput | { id: string; updates: UpdateGoalInput }) => {
     if ('id' in input) {
-      await goalsUpdateGoal(input.id, input.updates, catalogItems, settings.weightUnit);
+      await goalsUpdateGoal(input.id, input.updates, catalogItems, settings);
     } else {
-      await goalsAddGoal(input, catalogItems, settings.weightUnit);
+      await goalsAddGoal(input, catalogItems, settings);
     }
   };
 
   const formatDate = (timestamp: number): string =>
-    new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    formatLocaleDate(timestamp, { month: 'short', day: 'numeric', year: 'numeric' });
 
   const getResultWithUnit = (result: string, scoreType: ScoreType | undefined = item?.scoreType): string => {
     if (!item || !scoreType) return result;
@@ -422,10 +475,11 @@ export const ItemDetail = () => {
   };
 
   const useGroupedHistory = groupedLogs.length > 0;
+  const flaggedCount = logs.filter((log) => log.scoreTypeMismatch).length;
 
   const getCategoryColor = (category: CatalogItem['category']) => categoryColorHex(category);
 
-  if (!isInitialized || isInitializing) {
+  if (!isInitialized || isInitializing || (!item && !isBuiltinCatalogLoaded())) {
     return (
       <div className="flex items-center justify-center h-64">
         <Loader2 className="w-8 h-8 text-[var(--color-primary)] animate-spin" />
@@ -462,24 +516,52 @@ export const ItemDetail = () => {
               className="font-display text-[10px] tracking-[0.2em] mb-0.5"
               style={{ color: getCategoryColor(item.category) }}
             >
-              {item.category.toUpperCase()} · {scoreModes.length > 1 ? 'MULTI' : getScoreTypeDef(item.scoreType).name.toUpperCase()}
+              {item.category.toUpperCase()} · {scoreModes.length > 1 ? 'MULTI' : getScoreTypeName(item.scoreType).toLocaleUpperCase()}
             </p>
             <h1 className="font-display text-3xl text-[var(--color-text)] leading-tight">{item.name}</h1>
           </div>
         </div>
-        <button
-          onClick={handleFavoriteClick}
-          className={`p-2 transition-colors ${
-            item.isFavorite ? 'text-[var(--color-primary)]' : 'text-[var(--color-text-muted)] hover:text-[var(--color-primary)]'
-          }`}
-          aria-label={item.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
-        >
-          <Star className={`w-6 h-6 ${item.isFavorite ? 'fill-current' : ''}`} />
-        </button>
+        <div className="flex items-center">
+          <button
+            onClick={() => setItemSheet('history')}
+            className="p-2 text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors"
+            aria-label="Change history"
+          >
+            <History className="w-5 h-5" />
+          </button>
+          {!item.isBuiltin && (
+            <button
+              onClick={() => setItemSheet('edit')}
+              className="p-2 text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors"
+              aria-label="Edit custom item"
+            >
+              <Pencil className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={handleFavoriteClick}
+            className={`p-2 transition-colors ${
+              item.isFavorite ? 'text-[var(--color-primary)]' : 'text-[var(--color-text-muted)] hover:text-[var(--color-primary)]'
+            }`}
+            aria-label={item.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+          >
+            <Star className={`w-6 h-6 ${item.isFavorite ? 'fill-current' : ''}`} />
+          </button>
+        </div>
       </div>
 
       {/* Description */}
-      {(item.description || item.movements) && (() => {
+      {(item.description || item.movements || item.workout) && (() => {
+        if (item.workout) {
+          return (
+            <WorkoutDetails
+              workout={item.workout}
+              settings={settings}
+              onSelectMovement={(movementId) => navigate(`/search?movement=${movementId}`)}
+              onSetDivision={() => navigate('/settings')}
+            />
+          );
+        }
         if (item.movements && item.movements.length > 0) {
           return (
             <div className="border-l-2 border-[var(--color-border-strong)] pl-3 py-1">
@@ -745,6 +827,17 @@ export const ItemDetail = () => {
           <span className="font-display text-xs text-[var(--color-text-muted)]">{logs.length} LOGS</span>
         </div>
 
+        {/* Logs left on a score type this item no longer offers */}
+        {flaggedCount > 0 && (
+          <div className="flex items-start gap-2 mb-2 px-1 py-2 border-l-2 border-[var(--color-warning)]">
+            <AlertTriangle className="w-4 h-4 text-[var(--color-warning)] shrink-0" />
+            <p className="text-xs text-[var(--color-text-muted)]">
+              {flaggedCount} {flaggedCount === 1 ? 'log uses a score type' : 'logs use score types'} this item no longer
+              offers. Edit {flaggedCount === 1 ? 'it' : 'them'} to pick one of its current score types.
+            </p>
+          </div>
+        )}
+
         {isLoading ? (
           <div className="flex items-center justify-center h-32 border border-[var(--color-border)]">
             <Loader2 className="w-5 h-5 text-[var(--color-text-muted)] animate-spin" />
@@ -799,13 +892,22 @@ export const ItemDetail = () => {
                                   {formatDate(log.date)}{log.notes && ` — ${log.notes}`}
                                 </p>
                               </div>
-                              <button
-                                onClick={(e) => { e.stopPropagation(); handleDeleteLog(log.id); }}
-                                className="p-2 -m-2 text-[var(--color-text-muted)] hover:text-[var(--color-danger)] transition-colors opacity-60 group-hover:opacity-100"
-                                aria-label="Delete log"
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </button>
+                              <div className="flex items-center gap-3">
+                                <button
+                                  onClick={(e) => { e.stopPropagation(); setEditLog(log); }}
+                                  className="p-2 -m-2 text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors opacity-60 group-hover:opacity-100"
+                                  aria-label="Edit log"
+                                >
+                                  <Pencil className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={(e) => { e.stopPropagation(); handleDeleteLog(log.id); }}
+                                  className="p-2 -m-2 text-[var(--color-text-muted)] hover:text-[var(--color-danger)] transition-colors opacity-60 group-hover:opacity-100"
+                                  aria-label="Delete log"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </div>
                             </div>
                           );
                         })}
@@ -832,7 +934,7 @@ export const ItemDetail = () => {
                 switch (group.type) {
                   case 'distance': return group.bestLog.result.includes(' in ') ? group.bestLog.result.split(' in ')[1] : group.bestLog.result;
                   case 'calories': return `${group.bestLog.calories} cal`;
-                  case 'reps':     return `${group.bestLog.resultValue} ${settings.weightUnit}`;
+                  case 'reps':     return getResultWithUnit(extractRawResult(group.bestLog.result, 'Load'), 'Load');
                   case 'variant':  return getResultWithUnit(group.bestLog.result);
                 }
               };
@@ -861,7 +963,7 @@ export const ItemDetail = () => {
                           switch (group.type) {
                             case 'distance': return log.result.includes(' in ') ? log.result.split(' in ')[1] : log.result;
                             case 'calories': return `${log.calories} cal`;
-                            case 'reps':     return `${log.resultValue} ${settings.weightUnit}`;
+                            case 'reps':     return getResultWithUnit(extractRawResult(log.result, 'Load'), 'Load');
                             case 'variant':  return getResultWithUnit(log.result);
                           }
                         };
@@ -889,13 +991,22 @@ export const ItemDetail = () => {
                                 {formatDate(log.date)}{log.notes && ` — ${log.notes}`}
                               </p>
                             </div>
-                            <button
-                              onClick={(e) => { e.stopPropagation(); handleDeleteLog(log.id); }}
-                              className="p-2 -m-2 text-[var(--color-text-muted)] hover:text-[var(--color-danger)] transition-colors opacity-60 group-hover:opacity-100"
-                              aria-label="Delete log"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
+                            <div className="flex items-center gap-3">
+                              <button
+                                onClick={(e) => { e.stopPropagation(); setEditLog(log); }}
+                                className="p-2 -m-2 text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors opacity-60 group-hover:opacity-100"
+                                aria-label="Edit log"
+                              >
+                                <Pencil className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={(e) => { e.stopPropagation(); handleDeleteLog(log.id); }}
+                                className="p-2 -m-2 text-[var(--color-text-muted)] hover:text-[var(--color-danger)] transition-colors opacity-60 group-hover:opacity-100"
+                                aria-label="Delete log"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
                           </div>
                         );
                       })}
@@ -927,13 +1038,22 @@ export const ItemDetail = () => {
                       {formatDate(log.date)}{log.notes && ` — ${log.notes}`}
                     </p>
                   </div>
-                  <button
-                    onClick={() => handleDeleteLog(log.id)}
-                    className="p-2 -m-2 text-[var(--color-text-muted)] hover:text-[var(--color-danger)] transition-colors opacity-60 group-hover:opacity-100"
-                    aria-label="Delete log"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => setEditLog(log)}
+                      className="p-2 -m-2 text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors opacity-60 group-hover:opacity-100"
+                      aria-label="Edit log"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteLog(log.id)}
+                      className="p-2 -m-2 text-[var(--color-text-muted)] hover:text-[var(--color-danger)] transition-colors opacity-60 group-hover:opacity-100"
+                      aria-label="Delete log"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
                 </div>
               );
             })}
@@ -959,11 +1079,16 @@ export const ItemDetail = () => {
         <LogResultModal item={item} onClose={() => setShowModal(false)} onSuccess={handleModalSuccess} />
       )}
 
+      {/* Edit Log Modal */}
+      {editLog && (
+        <LogResultModal item={item} log={storedLogs.get(editLog.id) ?? editLog} onClose={() => setEditLog(null)} onSuccess={handleModalSuccess} />
+      )}
+
       {/* Delete Confirmation Dialog */}
       {deleteLogId && (
         <ConfirmDialog
           title="Delete Log"
-          message="Are you sure you want to delete this log? This action cannot be undone."
+          message="Delete this log? It moves to the trash and can be restored from Settings."
           confirmLabel="Delete"
           cancelLabel="Cancel"
           isDestructive
@@ -972,6 +1097,31 @@ export const ItemDetail = () => {
         />
       )}
 
+      {/* Undo delete */}
+      {undoLogId && (
+        <UndoToast message="Log deleted" onUndo={handleUndoDelete} onDismiss={dismissUndo} />
+      )}
+
+      {/* Custom item editor / delete flow */}
+      {itemSheet === 'edit' && (
+        <CustomItemSheet
+          item={item}
+          onClose={() => setItemSheet(null)}
+          onSaved={handleItemSaved}
+          onDelete={() => setItemSheet('delete')}
+          onMerge={() => setItemSheet('merge')}
+        />
+      )}
+      {itemSheet === 'merge' && (
+        <MergeCustomItemSheet item={item} onClose={() => setItemSheet(null)} onMerged={handleItemMerged} />
+      )}
+      {itemSheet === 'history' && (
+        <ItemHistorySheet item={item} onClose={() => setItemSheet(null)} />
+      )}
+      {itemSheet === 'delete' && (
+        <DeleteCustomItemSheet item={item} onClose={() => setItemSheet(null)} onDeleted={handleItemDeleted} />
+      )}
+
       {/* Goal Modal */}
       {showGoalModal && item && (
         <GoalModal
@@ -980,6 +1130,7 @@ export const ItemDetail = () => {
           preselectedItem={item}
           preselectedScoreType={goalModalScoreType}
           weightUnit={settings.weightUnit}
+          distanceUnit={settings.distanceUnit}
           onSave={handleSaveGoal}
           onClose={() => setShowGoalModal(false)}
         />
@@ -1,4 +1,4 @@
-import { useState, useRef, useMemo } from 'react';
+import { Fragment, useState, useRef, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Smartphone,
@@ -15,6 +15,9 @@ import {
 } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
 import { useCatalogStore } from '../stores/catalogStore';
+import { useI18n } from '../hooks/useI18n';
+import { messageParts } from '../utils/i18n';
+import type { MessageKey } from '../types/i18n';
 
 type DeviceType = 'ios' | 'android' | 'desktop';
 
@@ -38,6 +41,12 @@ const detectDeviceType = (): DeviceType => {
   return 'desktop';
 };
 
+/**
+ * A message with icons or emphasis slotted into its placeholders
+ */
+const richText = (key: MessageKey, values: Record<string, React.ReactNode>): React.ReactNode =>
+  messageParts(key, values).map((part, index) => <Fragment key={index}>{part}</Fragment>);
+
 interface OnboardingStep {
   icon: React.ReactNode;
   title: string;
@@ -48,6 +57,7 @@ interface OnboardingStep {
 export const Onboarding = () => {
   const navigate = useNavigate();
   const updateSettings = useCatalogStore((state) => state.updateSettings);
+  const { t } = useI18n();
   const [currentStep, setCurrentStep] = useState(0);
   const [touchStart, setTouchStart] = useState<number | null>(null);
   const [touchEnd, setTouchEnd] = useState<number | null>(null);
@@ -68,15 +78,15 @@ export const Onboarding = () => {
       <ol className="space-y-2 text-sm text-[var(--color-text-muted)]">
         <li className="flex items-start gap-2">
           <span className="text-[var(--color-primary)] font-bold">1.</span>
-          <span>Tap the <Share className="w-4 h-4 inline text-blue-400" /> Share button in Safari</span>
+          <span>{richText('onboarding.install.ios.step1', { icon: <Share className="w-4 h-4 inline text-blue-400" /> })}</span>
         </li>
         <li className="flex items-start gap-2">
           <span className="text-[var(--color-primary)] font-bold">2.</span>
-          <span>Scroll down and tap <strong className="text-[var(--color-text)]">"Add to Home Screen"</strong></span>
+          <span>{richText('onboarding.install.ios.step2', { action: <strong className="text-[var(--color-text)]">{t('onboarding.install.ios.addToHome')}</strong> })}</span>
         </li>
         <li className="flex items-start gap-2">
           <span className="text-[var(--color-primary)] font-bold">3.</span>
-          <span>Tap <strong className="text-[var(--color-text)]">"Add"</strong> to confirm</span>
+          <span>{richText('onboarding.install.ios.step3', { action: <strong className="text-[var(--color-text)]">{t('onboarding.install.ios.add')}</strong> })}</span>
         </li>
       </ol>
     </div>
@@ -94,15 +104,21 @@ export const Onboarding = () => {
       <ol className="space-y-2 text-sm text-[var(--color-text-muted)]">
         <li className="flex items-start gap-2">
           <span className="text-[var(--color-primary)] font-bold">1.</span>
-          <span>Tap the <MoreVertical className="w-4 h-4 inline text-[var(--color-text)]" /> menu in Chrome</span>
+          <span>{richText('onboarding.install.android.step1', { icon: <MoreVertical className="w-4 h-4 inline text-[var(--color-text)]" /> })}</span>
         </li>
         <li className="flex items-start gap-2">
           <span className="text-[var(--color-primary)] font-bold">2.</span>
-          <span>Tap <strong className="text-[var(--color-text)]">"Install app"</strong> or <Plus className="w-4 h-4 inline" /> <strong className="text-[var(--color-text)]">"Add to Home screen"</strong></span>
+          <span>
+            {richText('onboarding.install.android.step2', {
+              install: <strong className="text-[var(--color-text)]">{t('onboarding.install.android.installApp')}</strong>,
+              icon: <Plus className="w-4 h-4 inline" />,
+              addToHome: <strong className="text-[var(--color-text)]">{t('onboarding.install.android.addToHome')}</strong>,
+            })}
+          </span>
         </li>
         <li className="flex items-start gap-2">
           <span className="text-[var(--color-primary)] font-bold">3.</span>
-          <span>Tap <strong className="text-[var(--color-text)]">"Install"</strong> to confirm</span>
+          <span>{richText('onboarding.install.android.step3', { action: <strong className="text-[var(--color-text)]">{t('onboarding.install.android.install')}</strong> })}</span>
         </li>
       </ol>
     </div>
@@ -116,9 +132,9 @@ export const Onboarding = () => {
           <Monitor className="w-5 h-5 text-amber-400" />
         </div>
         <div>
-          <h4 className="font-semibold text-amber-400 mb-1">Desktop Not Recommended</h4>
+          <h4 className="font-semibold text-amber-400 mb-1">{t('onboarding.install.desktop.title')}</h4>
           <p className="text-sm text-[var(--color-text-muted)]">
-            This app is designed for <strong className="text-[var(--color-text)]">mobile devices</strong>. For the best experience, please open this page on your phone.
+            {richText('onboarding.install.desktop.body', { mobile: <strong className="text-[var(--color-text)]">{t('onboarding.install.desktop.mobile')}</strong> })}
           </p>
         </div>
       </div>
@@ -133,11 +149,11 @@ export const Onboarding = () => {
           <div className="space-y-4">
             {iOSInstructions}
             <p className="text-center text-xs text-[var(--color-text-muted)]">
-              Using a different device? Swipe down to see other options.
+              {t('onboarding.install.otherDeviceSwipe')}
             </p>
             <details className="group">
               <summary className="text-center text-sm text-[var(--color-primary)] cursor-pointer">
-                Show Android instructions
+                {t('onboarding.install.showAndroid')}
               </summary>
               <div className="mt-4">{androidInstructions}</div>
             </details>
@@ -148,11 +164,11 @@ export const Onboarding = () => {
           <div className="space-y-4">
             {androidInstructions}
             <p className="text-center text-xs text-[var(--color-text-muted)]">
-              Using a different device? Tap below to see other options.
+              {t('onboarding.install.otherDeviceTap')}
             </p>
             <details className="group">
               <summary className="text-center text-sm text-[var(--color-primary)] cursor-pointer">
-                Show iOS instructions
+                {t('onboarding.install.showIos')}
               </summary>
               <div className="mt-4">{iOSInstructions}</div>
             </details>
@@ -164,7 +180,7 @@ export const Onboarding = () => {
             {desktopNotice}
             <div className="bg-[var(--color-surface-elevated)] rounded-xl p-6 text-center">
               <p className="text-sm text-[var(--color-text-muted)] mb-4">
-                Scan this QR code with your phone:
+                {t('onboarding.install.scanQr')}
               </p>
               <div className="flex justify-center mb-4">
                 <div className="bg-white p-3 rounded-xl">
@@ -182,7 +198,7 @@ export const Onboarding = () => {
             </div>
             <details className="group">
               <summary className="text-center text-sm text-[var(--color-text-muted)] cursor-pointer">
-                View mobile installation instructions
+                {t('onboarding.install.showMobile')}
               </summary>
               <div className="mt-4 space-y-4">
                 {iOSInstructions}
@@ -197,31 +213,31 @@ export const Onboarding = () => {
   const steps: OnboardingStep[] = [
     {
       icon: <Rocket className="w-16 h-16 text-[var(--color-primary)]" />,
-      title: 'Welcome to CrossfitToolkit',
-      description: 'Your personal PR tracker for CrossFit workouts, benchmarks, and lifts.',
+      title: t('onboarding.welcome.title'),
+      description: t('onboarding.welcome.description'),
       content: (
         <div className="space-y-4 text-center">
           <p className="text-[var(--color-text-muted)]">
-            Track your progress, set new PRs, and never forget your best performances.
+            {t('onboarding.welcome.body')}
           </p>
           <div className="flex justify-center gap-4 pt-4">
             <div className="flex flex-col items-center gap-2">
               <div className="w-12 h-12 rounded-full bg-amber-400/20 flex items-center justify-center">
                 <span className="text-amber-400 font-bold">WOD</span>
               </div>
-              <span className="text-xs text-[var(--color-text-muted)]">Benchmarks</span>
+              <span className="text-xs text-[var(--color-text-muted)]">{t('onboarding.welcome.benchmarks')}</span>
             </div>
             <div className="flex flex-col items-center gap-2">
               <div className="w-12 h-12 rounded-full bg-blue-400/20 flex items-center justify-center">
                 <span className="text-blue-400 font-bold">PR</span>
               </div>
-              <span className="text-xs text-[var(--color-text-muted)]">Lifts</span>
+              <span className="text-xs text-[var(--color-text-muted)]">{t('onboarding.welcome.lifts')}</span>
             </div>
             <div className="flex flex-col items-center gap-2">
               <div className="w-12 h-12 rounded-full bg-green-400/20 flex items-center justify-center">
                 <span className="text-green-400 font-bold">CAL</span>
               </div>
-              <span className="text-xs text-[var(--color-text-muted)]">Cardio</span>
+              <span className="text-xs text-[var(--color-text-muted)]">{t('onboarding.welcome.cardio')}</span>
             </div>
           </div>
         </div>
@@ -229,14 +245,14 @@ export const Onboarding = () => {
     },
     {
       icon: <Smartphone className="w-16 h-16 text-[var(--color-primary)]" />,
-      title: 'Install as an App',
-      description: 'Add CrossfitToolkit to your home screen for the best experience.',
+      title: t('onboarding.install.title'),
+      description: t('onboarding.install.description'),
       content: getInstallContent(),
     },
     {
       icon: <Database className="w-16 h-16 text-[var(--color-primary)]" />,
-      title: 'Your Data, Your Device',
-      description: 'All your data stays on your device. No account needed.',
+      title: t('onboarding.data.title'),
+      description: t('onboarding.data.description'),
       content: (
         <div className="space-y-4">
           <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-lg p-4">
@@ -245,9 +261,9 @@ export const Onboarding = () => {
                 <Database className="w-5 h-5 text-green-400" />
               </div>
               <div>
-                <h4 className="font-semibold text-[var(--color-text)] mb-1">100% Private</h4>
+                <h4 className="font-semibold text-[var(--color-text)] mb-1">{t('onboarding.data.privateTitle')}</h4>
                 <p className="text-sm text-[var(--color-text-muted)]">
-                  Your PRs and workout data are stored locally on this device only. We never see or collect your data.
+                  {t('onboarding.data.privateBody')}
                 </p>
               </div>
             </div>
@@ -259,9 +275,9 @@ export const Onboarding = () => {
                 <span className="text-amber-400 text-lg">⚠️</span>
               </div>
               <div>
-                <h4 className="font-semibold text-amber-400 mb-1">Important</h4>
+                <h4 className="font-semibold text-amber-400 mb-1">{t('onboarding.data.importantTitle')}</h4>
                 <p className="text-sm text-[var(--color-text-muted)]">
-                  If you uninstall the app or clear browser data, <strong className="text-[var(--color-text)]">your data will be lost</strong>. Make sure to export a backup regularly!
+                  {richText('onboarding.data.importantBody', { lost: <strong className="text-[var(--color-text)]">{t('onboarding.data.lost')}</strong> })}
                 </p>
               </div>
             </div>
@@ -276,8 +292,8 @@ export const Onboarding = () => {
           <Upload className="w-12 h-12 text-[var(--color-primary)]" />
         </div>
       ),
-      title: 'Backup & Restore',
-      description: 'Export your data anytime and restore it on any device.',
+      title: t('onboarding.backup.title'),
+      description: t('onboarding.backup.description'),
       content: (
         <div className="space-y-4">
           <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-lg p-4">
@@ -286,9 +302,9 @@ export const Onboarding = () => {
                 <Download className="w-5 h-5 text-blue-400" />
               </div>
               <div>
-                <h4 className="font-semibold text-[var(--color-text)] mb-1">Export Data</h4>
+                <h4 className="font-semibold text-[var(--color-text)] mb-1">{t('onboarding.backup.exportTitle')}</h4>
                 <p className="text-sm text-[var(--color-text-muted)]">
-                  Download all your PRs, favorites, and settings as a JSON file. Store it safely!
+                  {t('onboarding.backup.exportBody')}
                 </p>
               </div>
             </div>
@@ -300,32 +316,32 @@ export const Onboarding = () => {
                 <Upload className="w-5 h-5 text-purple-400" />
               </div>
               <div>
-                <h4 className="font-semibold text-[var(--color-text)] mb-1">Import Data</h4>
+                <h4 className="font-semibold text-[var(--color-text)] mb-1">{t('onboarding.backup.importTitle')}</h4>
                 <p className="text-sm text-[var(--color-text-muted)]">
-                  Restore your data from a backup file. Transfer between devices easily.
+                  {t('onboarding.backup.importBody')}
                 </p>
               </div>
             </div>
           </div>
 
           <p className="text-center text-sm text-[var(--color-text-muted)]">
-            Find these options in <strong className="text-[var(--color-text)]">Settings → Data</strong>
+            {richText('onboarding.backup.where', { location: <strong className="text-[var(--color-text)]">{t('onboarding.backup.location')}</strong> })}
           </p>
         </div>
       ),
     },
     {
       icon: <Rocket className="w-16 h-16 text-[var(--color-primary)]" />,
-      title: "You're All Set!",
-      description: 'Start tracking your CrossFit journey.',
+      title: t('onboarding.done.title'),
+      description: t('onboarding.done.description'),
       content: (
         <div className="space-y-6 text-center">
           <p className="text-[var(--color-text-muted)]">
-            Search for workouts, log your PRs, and watch your progress grow over time.
+            {t('onboarding.done.body')}
           </p>
           <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-lg p-4">
             <p className="text-sm text-[var(--color-text-muted)]">
-              <strong className="text-[var(--color-text)]">Pro tip:</strong> Star your favorite workouts for quick access from the home screen!
+              {richText('onboarding.done.tip', { label: <strong className="text-[var(--color-text)]">{t('onboarding.done.tipLabel')}</strong> })}
             </p>
           </div>
         </div>
@@ -386,9 +402,9 @@ export const Onboarding = () => {
         <button
           onClick={handleSkip}
           className="flex items-center gap-1 px-2 py-1 font-display text-xs tracking-widest text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors"
-          aria-label="Skip onboarding"
+          aria-label={t('onboarding.skipAria')}
         >
-          SKIP <X className="w-3 h-3" />
+          {t('onboarding.skip')} <X className="w-3 h-3" />
         </button>
       </div>
 
@@ -421,7 +437,7 @@ export const Onboarding = () => {
 
               {/* Title */}
               <h2 className="font-display text-3xl text-[var(--color-text)] text-center mb-2">
-                {step.title.toUpperCase()}
+                {step.title.toLocaleUpperCase()}
               </h2>
 
               {/* Description */}
@@ -449,7 +465,7 @@ export const Onboarding = () => {
                   ? 'w-8 bg-[var(--color-primary)]'
                   : 'w-2 bg-[var(--color-border-strong)] hover:bg-[var(--color-text-muted)]'
               }`}
-              aria-label={`Go to step ${index + 1}`}
+              aria-label={t('onboarding.goToStep', { step: index + 1 })}
             />
           ))}
         </div>
@@ -458,9 +474,9 @@ export const Onboarding = () => {
         <button
           onClick={handleNext}
           className="w-full flex items-center justify-center gap-2 py-4 bg-[var(--color-primary)] hover:opacity-90 rounded-sm text-white font-display tracking-widest transition-all active:scale-[0.98]"
-          aria-label={isLastStep ? 'Get started' : 'Next step'}
+          aria-label={isLastStep ? t('onboarding.startAria') : t('onboarding.nextAria')}
         >
-          <span>{isLastStep ? 'START TRAINING' : 'NEXT'}</span>
+          <span>{isLastStep ? t('onboarding.start') : t('onboarding.next')}</span>
           {!isLastStep && <ChevronRight className="w-5 h-5" />}
         </button>
       </div>
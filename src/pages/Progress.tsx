@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Plus, ChevronDown, Trophy, Loader2 } from 'lucide-react';
 import { useCatalogStore } from '../stores/catalogStore';
 import { useCheckInStore } from '../stores/checkInStore';
@@ -6,6 +6,7 @@ import { useGoalsStore, useSortedActiveGoals, useSortedAchievedGoals } from '../
 import { GoalCard, GoalModal } from '../components/goals';
 import { RecoveryTrends } from '../components/recovery';
 import { ConfirmDialog } from '../components/ConfirmDialog';
+import { UndoToast } from '../components/UndoToast';
 import type { GoalWithProgress, CreateGoalInput, UpdateGoalInput } from '../types/goal';
 
 /**
@@ -28,6 +29,7 @@ export const Progress = () => {
   const goalsAchieveGoal = useGoalsStore((s) => s.achieveGoal);
   const goalsCancelGoal = useGoalsStore((s) => s.cancelGoal);
   const goalsDeleteGoal = useGoalsStore((s) => s.deleteGoal);
+  const goalsRestoreGoal = useGoalsStore((s) => s.restoreGoal);
   const activeGoals = useSortedActiveGoals();
   const achievedGoals = useSortedAchievedGoals();
 
@@ -38,12 +40,13 @@ export const Progress = () => {
     type: 'achieve' | 'cancel' | 'delete';
     goal: GoalWithProgress;
   } | null>(null);
+  const [undoGoalId, setUndoGoalId] = useState<string | null>(null);
 
   useEffect(() => {
     if (isStoreInitialized && !goalsIsInitialized && catalogItems.length > 0) {
-      goalsInitialize(catalogItems, settings.weightUnit);
+      goalsInitialize(catalogItems, settings);
     }
-  }, [isStoreInitialized, goalsIsInitialized, catalogItems, settings.weightUnit, goalsInitialize]);
+  }, [isStoreInitialized, goalsIsInitialized, catalogItems, settings, goalsInitialize]);
 
   useEffect(() => {
     if (isStoreInitialized && !checkInIsInitialized) {
@@ -55,9 +58,9 @@ export const Progress = () => {
     input: CreateGoalInput | { id: string; updates: UpdateGoalInput }
   ) => {
     if ('id' in input) {
-      await goalsUpdateGoal(input.id, input.updates, catalogItems, settings.weightUnit);
+      await goalsUpdateGoal(input.id, input.updates, catalogItems, settings);
     } else {
-      await goalsAddGoal(input, catalogItems, settings.weightUnit);
+      await goalsAddGoal(input, catalogItems, settings);
     }
   };
 
@@ -75,18 +78,27 @@ export const Progress = () => {
     const { type, goal } = confirmAction;
     switch (type) {
       case 'achieve':
-        await goalsAchieveGoal(goal.id, catalogItems, settings.weightUnit);
+        await goalsAchieveGoal(goal.id, catalogItems, settings);
         break;
       case 'cancel':
-        await goalsCancelGoal(goal.id, catalogItems, settings.weightUnit);
+        await goalsCancelGoal(goal.id, catalogItems, settings);
         break;
       case 'delete':
-        await goalsDeleteGoal(goal.id, catalogItems, settings.weightUnit);
+        await goalsDeleteGoal(goal.id, catalogItems, settings);
+        setUndoGoalId(goal.id);
         break;
     }
     setConfirmAction(null);
   };
 
+  const handleUndoDelete = async () => {
+    if (!undoGoalId) return;
+    setUndoGoalId(null);
+    await goalsRestoreGoal(undoGoalId, catalogItems, settings);
+  };
+
+  const dismissUndo = useCallback(() => setUndoGoalId(null), []);
+
   const handleCloseModal = () => {
     setShowModal(false);
     setEditingGoal(null);
@@ -182,6 +194,7 @@ export const Progress = () => {
           items={catalogItems}
           editGoal={editingGoal}
           weightUnit={settings.weightUnit}
+          distanceUnit={settings.distanceUnit}
           onSave={handleSaveGoal}
           onClose={handleCloseModal}
         />
@@ -202,7 +215,7 @@ export const Progress = () => {
               ? `Congratulations! Mark "${confirmAction.goal.itemName}" goal as achieved?`
               : confirmAction.type === 'cancel'
                 ? `Cancel your "${confirmAction.goal.itemName}" goal? You can set a new goal anytime.`
-                : `Delete the "${confirmAction.goal.itemName}" goal? This cannot be undone.`
+                : `Delete the "${confirmAction.goal.itemName}" goal? It moves to the trash and can be restored from Settings.`
           }
           confirmLabel={
             confirmAction.type === 'achieve'
@@ -216,6 +229,10 @@ export const Progress = () => {
           onCancel={() => setConfirmAction(null)}
         />
       )}
+
+      {undoGoalId && (
+        <UndoToast message="Goal deleted" onUndo={handleUndoDelete} onDismiss={dismissUndo} />
+      )}
     </div>
   );
 };
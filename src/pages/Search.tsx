@@ -1,14 +1,35 @@
-import { useState, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Search as SearchIcon, Loader2, Dumbbell, Timer, Activity, Repeat } from 'lucide-react';
+import { useEffect, useState, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Search as SearchIcon, Loader2, Dumbbell, Timer, Activity, Repeat, Plus, ChevronRight, X, SlidersHorizontal } from 'lucide-react';
 import { useCatalogStore } from '../stores/catalogStore';
+import { useFullCatalog } from '../hooks/useFullCatalog';
 import { useInitialize } from '../hooks/useInitialize';
 import { PlateBadge } from '../components/PlateBadge';
+import { CustomItemSheet } from '../components/customItems';
+import { CatalogFilterSheet } from '../components/CatalogFilterSheet';
 import { categoryColorVar } from '../utils/categoryColors';
-import type { Category } from '../types/catalog';
+import { MOVEMENT_PATTERN_LABELS, browseMovement, countBenchmarksByMovement, searchMovements } from '../utils/movements';
+import { createSearchIndex, searchBoostsFrom, searchIndex, splitHighlights } from '../utils/search';
+import type { SearchField, SearchMatch } from '../utils/search';
+import {
+  DEFAULT_CATALOG_FILTERS,
+  applyCatalogFilters,
+  countActiveFilters,
+  createFacetIndex,
+  filtersFromParams,
+  filtersToParams,
+  getFacetCounts,
+} from '../utils/catalogFilters';
+import { getMovementById } from '../catalog/catalogService';
+import * as db from '../db';
+import type { CatalogItem, Category } from '../types/catalog';
+import type { CatalogFilters } from '../types/filters';
 
 const CATEGORIES: (Category | 'All')[] = ['All', 'Benchmark', 'Lift', 'Monostructural', 'Skill'];
 
+/** Query parameter holding the movement being browsed */
+const MOVEMENT_PARAM = 'movement';
+
 const GLYPH: Record<Category, typeof Dumbbell> = {
   Lift: Dumbbell,
   Benchmark: Timer,
@@ -17,41 +38,193 @@ const GLYPH: Record<Category, typeof Dumbbell> = {
   Custom: Dumbbell,
 };
 
+/** Label for a search match found outside the name */
+const MATCH_FIELD_LABELS: Record<Exclude<SearchField, 'name'>, string> = {
+  aliases: 'Also',
+  id: 'Id',
+  movements: 'Movement',
+  tags: 'Tag',
+  description: 'Description',
+};
+
+/** Characters of description kept either side of the first match */
+const SNIPPET_CONTEXT = 24;
+
+/**
+ * Trim a long matched text to a window around its first match, keeping the
+ * ranges aligned with the trimmed text
+ */
+const toSnippet = (match: SearchMatch): SearchMatch => {
+  const [firstStart] = match.ranges[0] ?? [0];
+  const start = Math.max(0, firstStart - SNIPPET_CONTEXT);
+  const end = Math.min(match.text.length, firstStart + SNIPPET_CONTEXT * 3);
+  if (start === 0 && end === match.text.length) return match;
+  const prefix = start > 0 ? '…' : '';
+  const offset = prefix.length - start;
+  return {
+    ...match,
+    text: `${prefix}${match.text.slice(start, end)}${end < match.text.length ? '…' : ''}`,
+    ranges: match.ranges
+      .filter(([rangeStart, rangeEnd]) => rangeStart >= start && rangeEnd <= end)
+      .map(([rangeStart, rangeEnd]) => [rangeStart + offset, rangeEnd + offset]),
+  };
+};
+
+const Highlighted = ({ text, ranges }: { text: string; ranges: [number, number][] }) => (
+  <>
+    {splitHighlights(text, ranges).map((part, idx) =>
+      part.highlighted ? (
+        <span key={idx} className="text-[var(--color-primary)]">{part.text}</span>
+      ) : (
+        part.text
+      )
+    )}
+  </>
+);
+
+interface ItemCardProps {
+  item: CatalogItem;
+  /** Search matches to highlight, best first */
+  matches?: SearchMatch[];
+  onOpen: (itemId: string) => void;
+  onToggleFavorite: (itemId: string) => void;
+}
+
+const ItemCard = ({ item, matches, onOpen, onToggleFavorite }: ItemCardProps) => {
+  const Icon = GLYPH[item.category] ?? Dumbbell;
+  const nameMatch = matches?.find((match) => match.field === 'name');
+  const otherMatch = matches?.find((match) => match.field !== 'name');
+  return (
+    <div
+      className="relative flex items-center gap-[14px] w-full rounded-2xl mb-[10px] px-[14px] py-[13px] transition-transform active:scale-[0.98]"
+      style={{ background: 'var(--color-surface)', border: '1px solid var(--color-border)' }}
+    >
+      {/* full-card tap target for navigation (sibling to the favorite button, not a parent) */}
+      <button
+        type="button"
+        onClick={() => onOpen(item.id)}
+        className="absolute inset-0 rounded-2xl"
+        aria-label={`View ${item.name}`}
+      />
+      <div className="relative z-10">
+        <PlateBadge
+          category={item.category}
+          favorite={item.isFavorite}
+          onToggleFavorite={() => onToggleFavorite(item.id)}
+        >
+          <Icon size={18} />
+        </PlateBadge>
+      </div>
+      <div className="relative z-10 flex-1 min-w-0 pointer-events-none">
+        <div className="font-display text-base text-[var(--color-text)] truncate">
+          {nameMatch ? <Highlighted text={item.name} ranges={nameMatch.ranges} /> : item.name}
+        </div>
+        {otherMatch && otherMatch.field !== 'name' && (
+          <div className="text-xs text-[var(--color-text-dim)] truncate mt-0.5">
+            {MATCH_FIELD_LABELS[otherMatch.field]}: <Highlighted {...toSnippet(otherMatch)} />
+          </div>
+        )}
+        <div className="text-xs mt-0.5">
+          <span style={{ color: categoryColorVar(item.category) }}>{item.category}</span>
+          <span style={{ color: 'var(--color-text-muted)' }}> · {item.scoreType}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const byFavoriteThenName = (a: CatalogItem, b: CatalogItem): number => {
+  if (a.isFavorite && !b.isFavorite) return -1;
+  if (!a.isFavorite && b.isFavorite) return 1;
+  return a.name.localeCompare(b.name);
+};
+
 export const Search = () => {
   const navigate = useNavigate();
   const { isInitialized, isLoading } = useInitialize();
+  useFullCatalog();
 
   // Store state
   const catalogItems = useCatalogStore((state) => state.catalogItems);
+  const recentLogs = useCatalogStore((state) => state.recentLogs);
   const toggleFavorite = useCatalogStore((state) => state.toggleFavorite);
 
   // Local state
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<Category | 'All'>('All');
-
-  // Filter items
-  const filteredItems = useMemo(() => {
-    let items = catalogItems;
-
-    if (selectedCategory !== 'All') {
-      items = items.filter((item) => item.category === selectedCategory);
-    }
-
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      items = items.filter((item) =>
-        item.name.toLowerCase().includes(query) ||
-        item.description?.toLowerCase().includes(query) ||
-        item.aliases?.some((alias) => alias.toLowerCase().includes(query))
-      );
-    }
-
-    return items.sort((a, b) => {
-      if (a.isFavorite && !b.isFavorite) return -1;
-      if (!a.isFavorite && b.isFavorite) return 1;
-      return a.name.localeCompare(b.name);
+  const [showCreate, setShowCreate] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [browseMovements, setBrowseMovements] = useState(false);
+  const [loggedItemIds, setLoggedItemIds] = useState<Set<string>>(new Set());
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Query, category and facets live in the URL so a filtered view can be bookmarked
+  const filters = useMemo(() => filtersFromParams(searchParams), [searchParams]);
+  const { query: searchQuery, category: selectedCategory } = filters;
+  const updateFilters = (updates: Partial<CatalogFilters>) => {
+    setSearchParams((params) => filtersToParams({ ...filtersFromParams(params), ...updates }, params), { replace: true });
+  };
+  const activeFilterCount = countActiveFilters(filters);
+  const clearFilters = () => updateFilters({ ...DEFAULT_CATALOG_FILTERS, query: searchQuery, category: selectedCategory });
+
+  const movementId = searchParams.get(MOVEMENT_PARAM);
+  const selectedMovement = movementId ? getMovementById(movementId) : undefined;
+
+  // Which items have logs, for the "logged / never attempted" facet; reloads
+  // whenever a log is added or removed
+  useEffect(() => {
+    let cancelled = false;
+    db.getLoggedItemIds()
+      .then((ids) => {
+        if (!cancelled) setLoggedItemIds(ids);
+      })
+      .catch((err) => console.error('[Search] Failed to load logged items:', err));
+    return () => { cancelled = true; };
+  }, [recentLogs]);
+
+  // Filter items: ranked search results for a query, favorites then A–Z otherwise
+  const index = useMemo(() => createSearchIndex(catalogItems), [catalogItems]);
+  const boosts = useMemo(() => searchBoostsFrom(catalogItems, recentLogs), [catalogItems, recentLogs]);
+  const searchResults = useMemo(
+    () =>
+      searchQuery.trim()
+        ? searchIndex(index, searchQuery, boosts)
+        : [...catalogItems].sort(byFavoriteThenName).map((item) => ({ item, matches: [] })),
+    [catalogItems, index, boosts, searchQuery]
+  );
+
+  // Facets narrow the search results; counts are taken over them too
+  const facetIndex = useMemo(() => createFacetIndex(catalogItems), [catalogItems]);
+  const { filteredItems, facets } = useMemo(() => {
+    const context = { loggedItemIds };
+    const items = searchResults.map((result) => result.item);
+    const passing = new Set(applyCatalogFilters(items, filters, context, facetIndex).map((item) => item.id));
+    return {
+      filteredItems: searchResults.filter((result) => passing.has(result.item.id)),
+      facets: getFacetCounts(items, filters, context, facetIndex),
+    };
+  }, [searchResults, filters, loggedItemIds, facetIndex]);
+
+  // Movement browser: the library filtered by the query, with benchmark counts
+  const movementCounts = useMemo(() => countBenchmarksByMovement(catalogItems), [catalogItems]);
+  const filteredMovements = useMemo(
+    () => searchMovements(searchQuery).sort((a, b) => a.name.localeCompare(b.name)),
+    [searchQuery]
+  );
+
+  // Items linked to the selected movement
+  const movementItems = useMemo(() => {
+    if (!selectedMovement) return null;
+    const { benchmarks, relatedItems } = browseMovement(selectedMovement.id, catalogItems);
+    return { benchmarks: benchmarks.sort(byFavoriteThenName), relatedItems: relatedItems.sort(byFavoriteThenName) };
+  }, [selectedMovement, catalogItems]);
+
+  const selectMovement = (id: string | null) => {
+    setSearchParams((params) => {
+      const next = new URLSearchParams(params);
+      if (id) next.set(MOVEMENT_PARAM, id);
+      else next.delete(MOVEMENT_PARAM);
+      return next;
     });
-  }, [catalogItems, selectedCategory, searchQuery]);
+  };
 
   const handleItemClick = (itemId: string) => {
     navigate(`/item/${itemId}`);
@@ -68,100 +241,227 @@ export const Search = () => {
   return (
     <div className="space-y-4">
       {/* Title */}
-      <h1 className="font-display-black text-[30px] text-[var(--color-text)]">Catalog</h1>
+      <div className="flex items-center justify-between">
+        <h1 className="font-display-black text-[30px] text-[var(--color-text)]">Catalog</h1>
+        <button
+          onClick={() => setShowCreate(true)}
+          className="flex items-center gap-1.5 px-3 py-1.5 font-display text-xs tracking-widest text-[var(--color-text-muted)] border border-[var(--color-border-strong)] hover:text-[var(--color-text)] transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          CUSTOM
+        </button>
+      </div>
 
       {/* Search input — dark field */}
       <div className="relative">
         <SearchIcon className="absolute left-3.5 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--color-text-muted)]" />
         <input
           type="text"
-          placeholder="Search benchmarks, lifts, skills..."
+          placeholder={browseMovements ? 'Search movements...' : 'Search benchmarks, lifts, skills...'}
           value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
+          onChange={(e) => updateFilters({ query: e.target.value })}
           className="w-full rounded-2xl bg-[var(--color-input)] border border-[var(--color-input-border)] pl-10 pr-4 py-3 text-[15px] text-[var(--color-text)] placeholder:text-[var(--color-text-muted)] hover:border-[var(--color-input-border-hover)] focus:outline-none focus:border-[var(--color-primary)] focus:shadow-[0_0_0_3px_var(--color-focus-ring)] transition-colors"
           aria-label="Search catalog"
           autoFocus
         />
       </div>
 
-      {/* Category filters — pill chips */}
-      <div className="flex gap-2 overflow-x-auto scrollbar-hide -mx-4 px-4">
-        {CATEGORIES.map((category) => {
-          const isActive = selectedCategory === category;
-          return (
+      {selectedMovement && movementItems ? (
+        <>
+          {/* Selected movement — linked lifts/skills and benchmarks */}
+          <div className="flex items-start justify-between gap-3 pb-2 border-b border-[var(--color-border)]">
+            <div className="min-w-0">
+              <div className="label-eyebrow">Movement</div>
+              <h2 className="font-display text-xl text-[var(--color-text)] truncate">{selectedMovement.name}</h2>
+              <p className="text-xs text-[var(--color-text-muted)]">
+                {MOVEMENT_PATTERN_LABELS[selectedMovement.pattern]}
+                {!selectedMovement.equipment.includes('none') && ` · ${selectedMovement.equipment.join(', ')}`}
+              </p>
+            </div>
             <button
-              key={category}
-              onClick={() => setSelectedCategory(category)}
+              onClick={() => {
+                setBrowseMovements(true);
+                selectMovement(null);
+              }}
+              className="p-2 text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors"
+              aria-label="Back to movements"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {movementItems.relatedItems.length > 0 && (
+            <div>
+              <div className="label-eyebrow mb-2">Lifts & skills · {movementItems.relatedItems.length}</div>
+              {movementItems.relatedItems.map((item) => (
+                <ItemCard key={item.id} item={item} onOpen={handleItemClick} onToggleFavorite={toggleFavorite} />
+              ))}
+            </div>
+          )}
+
+          <div>
+            <div className="label-eyebrow mb-2">Benchmarks · {movementItems.benchmarks.length}</div>
+            {movementItems.benchmarks.length > 0 ? (
+              movementItems.benchmarks.map((item) => (
+                <ItemCard key={item.id} item={item} onOpen={handleItemClick} onToggleFavorite={toggleFavorite} />
+              ))
+            ) : (
+              <p className="py-6 text-center text-[13px] text-[var(--color-text-muted)]">No benchmark programs this movement</p>
+            )}
+          </div>
+        </>
+      ) : (
+        <>
+          {/* Category filters — pill chips, plus the movement browser */}
+          <div className="flex gap-2 overflow-x-auto scrollbar-hide -mx-4 px-4">
+            {CATEGORIES.map((category) => {
+              const isActive = !browseMovements && selectedCategory === category;
+              return (
+                <button
+                  key={category}
+                  onClick={() => {
+                    updateFilters({ category });
+                    setBrowseMovements(false);
+                  }}
+                  className={`flex-shrink-0 rounded-full px-4 py-1.5 text-[13px] font-semibold whitespace-nowrap transition-transform active:scale-95 border ${
+                    isActive
+                      ? 'bg-[var(--color-primary)] text-[var(--color-text)] border-transparent'
+                      : 'bg-transparent text-[var(--color-text-muted)] border-[var(--color-border-strong)]'
+                  }`}
+                  aria-label={`Filter by ${category}`}
+                  aria-pressed={isActive}
+                >
+                  {category}
+                </button>
+              );
+            })}
+            <button
+              onClick={() => setBrowseMovements(true)}
               className={`flex-shrink-0 rounded-full px-4 py-1.5 text-[13px] font-semibold whitespace-nowrap transition-transform active:scale-95 border ${
-                isActive
+                browseMovements
                   ? 'bg-[var(--color-primary)] text-[var(--color-text)] border-transparent'
                   : 'bg-transparent text-[var(--color-text-muted)] border-[var(--color-border-strong)]'
               }`}
-              aria-label={`Filter by ${category}`}
-              aria-pressed={isActive}
+              aria-label="Browse by movement"
+              aria-pressed={browseMovements}
             >
-              {category}
+              By movement
             </button>
-          );
-        })}
-      </div>
+          </div>
 
-      {/* Results count */}
-      <div className="label-eyebrow">
-        {filteredItems.length} {filteredItems.length === 1 ? 'Item' : 'Items'}
-        {selectedCategory !== 'All' && ` · ${selectedCategory}`}
-      </div>
+          {browseMovements ? (
+            <>
+              {/* Movement count */}
+              <div className="label-eyebrow">
+                {filteredMovements.length} {filteredMovements.length === 1 ? 'Movement' : 'Movements'}
+              </div>
 
-      {/* Catalog list — plate cards */}
-      {filteredItems.length > 0 ? (
-        <div>
-          {filteredItems.map((item) => {
-            const Icon = GLYPH[item.category] ?? Dumbbell;
-            return (
-              <div
-                key={item.id}
-                className="relative flex items-center gap-[14px] w-full rounded-2xl mb-[10px] px-[14px] py-[13px] transition-transform active:scale-[0.98]"
-                style={{ background: 'var(--color-surface)', border: '1px solid var(--color-border)' }}
-              >
-                {/* full-card tap target for navigation (sibling to the favorite button, not a parent) */}
-                <button
-                  type="button"
-                  onClick={() => handleItemClick(item.id)}
-                  className="absolute inset-0 rounded-2xl"
-                  aria-label={`View ${item.name}`}
-                />
-                <div className="relative z-10">
-                  <PlateBadge
-                    category={item.category}
-                    favorite={item.isFavorite}
-                    onToggleFavorite={() => toggleFavorite(item.id)}
-                  >
-                    <Icon size={18} />
-                  </PlateBadge>
+              {/* Movement list */}
+              {filteredMovements.length > 0 ? (
+                <div>
+                  {filteredMovements.map((movement) => {
+                    const count = movementCounts.get(movement.id) ?? 0;
+                    return (
+                      <button
+                        key={movement.id}
+                        onClick={() => selectMovement(movement.id)}
+                        className="w-full flex items-center justify-between gap-3 py-3 px-1 border-b border-[var(--color-border)]/50 text-left"
+                      >
+                        <div className="min-w-0">
+                          <div className="font-display text-base text-[var(--color-text)] truncate">{movement.name}</div>
+                          <div className="text-xs text-[var(--color-text-muted)]">
+                            {MOVEMENT_PATTERN_LABELS[movement.pattern]} · {count} {count === 1 ? 'benchmark' : 'benchmarks'}
+                          </div>
+                        </div>
+                        <ChevronRight className="w-4 h-4 text-[var(--color-text-muted)] shrink-0" />
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="py-12 text-center">
+                  <Dumbbell className="w-10 h-10 mx-auto mb-3 text-[var(--color-border-strong)]" />
+                  <p className="font-display text-lg text-[var(--color-text)] mb-1">No results</p>
+                  <p className="text-[13px] text-[var(--color-text-muted)]">No movement matches "{searchQuery}"</p>
                 </div>
-                <div className="relative z-10 flex-1 min-w-0 pointer-events-none">
-                  <div className="font-display text-base text-[var(--color-text)] truncate">{item.name}</div>
-                  <div className="text-xs mt-0.5">
-                    <span style={{ color: categoryColorVar(item.category) }}>{item.category}</span>
-                    <span style={{ color: 'var(--color-text-muted)' }}> · {item.scoreType}</span>
-                  </div>
+              )}
+            </>
+          ) : (
+            <>
+              {/* Results count and facet filters */}
+              <div className="flex items-center justify-between gap-3">
+                <div className="label-eyebrow">
+                  {filteredItems.length} {filteredItems.length === 1 ? 'Item' : 'Items'}
+                  {selectedCategory !== 'All' && ` · ${selectedCategory}`}
+                </div>
+                <div className="flex items-center gap-3">
+                  {activeFilterCount > 0 && (
+                    <button
+                      onClick={clearFilters}
+                      className="text-xs text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors"
+                    >
+                      Clear
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setShowFilters(true)}
+                    className={`flex items-center gap-1.5 font-display text-xs tracking-widest transition-colors ${
+                      activeFilterCount > 0 ? 'text-[var(--color-primary)]' : 'text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+                    }`}
+                    aria-label="Filters"
+                  >
+                    <SlidersHorizontal className="w-3.5 h-3.5" />
+                    FILTERS{activeFilterCount > 0 && ` · ${activeFilterCount}`}
+                  </button>
                 </div>
               </div>
-            );
-          })}
-        </div>
-      ) : (
-        <div className="py-12 text-center">
-          <Dumbbell className="w-10 h-10 mx-auto mb-3 text-[var(--color-border-strong)]" />
-          <p className="font-display text-lg text-[var(--color-text)] mb-1">No results</p>
-          <p className="text-[13px] text-[var(--color-text-muted)]">
-            {searchQuery
-              ? `No match for "${searchQuery}"${selectedCategory !== 'All' ? ` in ${selectedCategory}` : ''}`
-              : selectedCategory !== 'All'
-                ? `No ${selectedCategory} items`
-                : 'Catalog empty'}
-          </p>
-        </div>
+
+              {/* Catalog list — plate cards */}
+              {filteredItems.length > 0 ? (
+                <div>
+                  {filteredItems.map(({ item, matches }) => (
+                    <ItemCard
+                      key={item.id}
+                      item={item}
+                      matches={matches}
+                      onOpen={handleItemClick}
+                      onToggleFavorite={toggleFavorite}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <div className="py-12 text-center">
+                  <Dumbbell className="w-10 h-10 mx-auto mb-3 text-[var(--color-border-strong)]" />
+                  <p className="font-display text-lg text-[var(--color-text)] mb-1">No results</p>
+                  <p className="text-[13px] text-[var(--color-text-muted)]">
+                    {activeFilterCount > 0
+                      ? 'No items match these filters'
+                      : searchQuery
+                        ? `No match for "${searchQuery}"${selectedCategory !== 'All' ? ` in ${selectedCategory}` : ''}`
+                        : selectedCategory !== 'All'
+                          ? `No ${selectedCategory} items`
+                          : 'Catalog empty'}
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+
+      {showFilters && (
+        <CatalogFilterSheet
+          filters={filters}
+          facets={facets}
+          resultCount={filteredItems.length}
+          onChange={updateFilters}
+          onClear={clearFilters}
+          onClose={() => setShowFilters(false)}
+        />
+      )}
+
+      {showCreate && (
+        <CustomItemSheet onClose={() => setShowCreate(false)} onSaved={(id) => navigate(`/item/${id}`)} />
       )}
     </div>
   );
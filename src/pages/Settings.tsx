@@ -1,19 +1,32 @@
 import { useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Download, Upload, Check, AlertCircle, Loader2, HelpCircle, ChevronRight, Timer, Minus, Plus, Moon } from 'lucide-react';
+import { ArrowLeft, Download, Upload, FileSpreadsheet, ArrowRightLeft, Lock, Check, AlertCircle, Loader2, HelpCircle, ChevronRight, Timer, Minus, Plus, Moon } from 'lucide-react';
 import { useCatalogStore } from '../stores/catalogStore';
 import { useClockStore } from '../stores/clockStore';
+import { useGoalsStore } from '../stores/goalsStore';
 import { useInitialize } from '../hooks/useInitialize';
+import { DivisionSection } from '../components/DivisionSection';
+import { LanguageSection } from '../components/LanguageSection';
+import { ImportSheet, CsvImportSheet, ExternalImportSheet, EncryptedExportSheet, BackupSection, TrashSection, IntegritySection, SyncSection, CatalogPackSection } from '../components/data';
+import { buildPRLogsCsv } from '../services/csvService';
+import { downloadFile, fileDateStamp } from '../utils/download';
+import * as db from '../db';
+import type { UnitPreferences } from '../types/catalog';
 
 export const Settings = () => {
   const navigate = useNavigate();
   const { isInitialized, isLoading: isInitializing } = useInitialize();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const externalInputRef = useRef<HTMLInputElement>(null);
 
   const settings = useCatalogStore((state) => state.settings);
+  const catalogItems = useCatalogStore((state) => state.catalogItems);
   const updateSettings = useCatalogStore((state) => state.updateSettings);
   const exportData = useCatalogStore((state) => state.exportData);
-  const importData = useCatalogStore((state) => state.importData);
+  const clearAllData = useCatalogStore((state) => state.clearAllData);
+  const goalsIsInitialized = useGoalsStore((state) => state.isInitialized);
+  const refreshGoals = useGoalsStore((state) => state.refreshGoals);
 
   const countdownSeconds = useClockStore((state) => state.countdownSeconds);
   const setCountdownSeconds = useClockStore((state) => state.setCountdownSeconds);
@@ -21,17 +34,24 @@ export const Settings = () => {
   const toggleSound = useClockStore((state) => state.toggleSound);
 
   const [exportStatus, setExportStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [showEncryptedExport, setShowEncryptedExport] = useState(false);
+  const [encryptedExportStatus, setEncryptedExportStatus] = useState<'idle' | 'success'>('idle');
   const [importStatus, setImportStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const [importError, setImportError] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ json: string; fileName: string } | null>(null);
+  const [csvExportStatus, setCsvExportStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [csvImportStatus, setCsvImportStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [pendingCsvImport, setPendingCsvImport] = useState<{ csv: string; fileName: string } | null>(null);
+  const [pendingExternalImport, setPendingExternalImport] = useState<{ text: string; fileName: string } | null>(null);
 
   const handleBack = () => navigate(-1);
 
-  const handleWeightUnitChange = async (unit: 'kg' | 'lb') => {
-    await updateSettings({ weightUnit: unit });
-  };
-
-  const handleDistanceUnitChange = async (unit: 'm' | 'ft') => {
-    await updateSettings({ distanceUnit: unit });
+  // Goal targets and bests are shown in the current units; re-derive them.
+  const handleUnitsChange = async (updates: Partial<UnitPreferences>) => {
+    await updateSettings(updates);
+    if (goalsIsInitialized) {
+      await refreshGoals(catalogItems, { ...settings, ...updates });
+    }
   };
 
   const handleCountdownChange = (delta: number) => {
@@ -47,15 +67,7 @@ export const Settings = () => {
   const handleExport = async () => {
     try {
       const json = await exportData();
-      const blob = new Blob([json], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `crossfit-toolkit-backup-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadFile(json, `crossfit-toolkit-backup-${fileDateStamp()}.json`, 'application/json');
       setExportStatus('success');
       setTimeout(() => setExportStatus('idle'), 3000);
     } catch (error) {
@@ -65,6 +77,12 @@ export const Settings = () => {
     }
   };
 
+  const handleEncryptedExported = () => {
+    setShowEncryptedExport(false);
+    setEncryptedExportStatus('success');
+    setTimeout(() => setEncryptedExportStatus('idle'), 3000);
+  };
+
   const handleImportClick = () => {
     fileInputRef.current?.click();
   };
@@ -78,12 +96,11 @@ export const Settings = () => {
 
     try {
       const text = await file.text();
-      await importData(text);
-      setImportStatus('success');
-      setTimeout(() => setImportStatus('idle'), 3000);
+      // Nothing is written yet — the import sheet previews the file first.
+      setPendingImport({ json: text, fileName: file.name });
     } catch (error) {
       console.error('[Settings] Import error:', error);
-      setImportError(error instanceof Error ? error.message : 'Failed to import data');
+      setImportError(error instanceof Error ? error.message : 'Failed to read file');
       setImportStatus('error');
     }
 
@@ -92,17 +109,84 @@ export const Settings = () => {
     }
   };
 
+  const handleImportClose = () => {
+    setPendingImport(null);
+    setImportStatus('idle');
+  };
+
+  const handleImported = () => {
+    setPendingImport(null);
+    setImportStatus('success');
+    setTimeout(() => setImportStatus('idle'), 3000);
+  };
+
+  const handleCsvExport = async () => {
+    try {
+      const logs = await db.getAllPRLogs();
+      const csv = buildPRLogsCsv(logs, catalogItems, settings);
+      downloadFile(csv, `crossfit-toolkit-prs-${fileDateStamp()}.csv`, 'text/csv');
+      setCsvExportStatus('success');
+      setTimeout(() => setCsvExportStatus('idle'), 3000);
+    } catch (error) {
+      console.error('[Settings] CSV export error:', error);
+      setCsvExportStatus('error');
+      setTimeout(() => setCsvExportStatus('idle'), 3000);
+    }
+  };
+
+  const handleCsvImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      setPendingCsvImport({ csv: text, fileName: file.name });
+    } catch (error) {
+      console.error('[Settings] CSV import error:', error);
+      setCsvImportStatus('error');
+      setTimeout(() => setCsvImportStatus('idle'), 3000);
+    }
+
+    if (csvInputRef.current) {
+      csvInputRef.current.value = '';
+    }
+  };
+
+  const handleCsvImported = () => {
+    setPendingCsvImport(null);
+    setCsvImportStatus('success');
+    setTimeout(() => setCsvImportStatus('idle'), 3000);
+  };
+
+  const handleExternalImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      setPendingExternalImport({ text, fileName: file.name });
+    } catch (error) {
+      console.error('[Settings] External import error:', error);
+      setCsvImportStatus('error');
+      setTimeout(() => setCsvImportStatus('idle'), 3000);
+    }
+
+    if (externalInputRef.current) {
+      externalInputRef.current.value = '';
+    }
+  };
+
+  const handleExternalImported = () => {
+    setPendingExternalImport(null);
+    setCsvImportStatus('success');
+    setTimeout(() => setCsvImportStatus('idle'), 3000);
+  };
+
   const handleClearData = async () => {
-    if (window.confirm('Are you sure you want to clear ALL data? This cannot be undone. You may want to export a backup first.')) {
+    if (window.confirm('Are you sure you want to clear ALL data? A restore point is saved first, so it can be restored from Backups below.')) {
       if (window.confirm('This will delete all your PRs, favorites, and custom items. Are you absolutely sure?')) {
         try {
-          await importData(JSON.stringify({
-            version: 1,
-            exportedAt: new Date().toISOString(),
-            catalogItems: [],
-            prLogs: [],
-            settings: { weightUnit: 'kg', distanceUnit: 'm' },
-          }));
+          await clearAllData();
           window.location.reload();
         } catch (error) {
           console.error('[Settings] Clear data error:', error);
@@ -216,7 +300,7 @@ export const Settings = () => {
           <TabToggle
             options={[{ value: 'kg', label: 'KG' }, { value: 'lb', label: 'LB' }]}
             active={settings.weightUnit}
-            onChange={(v) => handleWeightUnitChange(v as 'kg' | 'lb')}
+            onChange={(v) => handleUnitsChange({ weightUnit: v as 'kg' | 'lb' })}
           />
         </div>
 
@@ -227,11 +311,24 @@ export const Settings = () => {
           <TabToggle
             options={[{ value: 'm', label: 'M' }, { value: 'ft', label: 'FT' }]}
             active={settings.distanceUnit}
-            onChange={(v) => handleDistanceUnitChange(v as 'm' | 'ft')}
+            onChange={(v) => handleUnitsChange({ distanceUnit: v as 'm' | 'ft' })}
           />
         </div>
+
+        <p className="text-xs text-[var(--color-text-muted)]">
+          Results keep the unit they were logged in and are converted for display, so switching back and forth loses nothing.
+        </p>
       </section>
 
+      {/* Language section */}
+      <LanguageSection />
+
+      {/* Division section */}
+      <DivisionSection />
+
+      {/* Catalog packs section */}
+      <CatalogPackSection />
+
       {/* Timer section */}
       <section className="space-y-3">
         <div className="flex items-center gap-2 pb-1 border-b border-[var(--color-border)]">
@@ -304,6 +401,20 @@ export const Settings = () => {
           {exportStatus === 'error' && <AlertCircle className="w-4 h-4 text-[var(--color-danger)]" />}
         </button>
 
+        <button
+          onClick={() => setShowEncryptedExport(true)}
+          className="w-full py-3 flex items-center justify-between border-b border-[var(--color-border)] hover:bg-[var(--color-surface)] transition-colors text-left px-1"
+        >
+          <div className="flex items-center gap-3">
+            <Lock className="w-4 h-4 text-[var(--color-text-muted)]" />
+            <div>
+              <span className="font-display text-sm tracking-wider text-[var(--color-text)]">EXPORT ENCRYPTED</span>
+              <p className="text-xs text-[var(--color-text-muted)]">Passphrase-protected JSON, safer to send over chat apps</p>
+            </div>
+          </div>
+          {encryptedExportStatus === 'success' && <Check className="w-4 h-4 text-[var(--color-success)]" />}
+        </button>
+
         <button
           onClick={handleImportClick}
           disabled={importStatus === 'loading'}
@@ -313,7 +424,7 @@ export const Settings = () => {
             <Upload className="w-4 h-4 text-[var(--color-text-muted)]" />
             <div>
               <span className="font-display text-sm tracking-wider text-[var(--color-text)]">IMPORT DATA</span>
-              <p className="text-xs text-[var(--color-text-muted)]">Restore from a JSON backup</p>
+              <p className="text-xs text-[var(--color-text-muted)]">Merge or restore from a JSON backup, encrypted or not</p>
             </div>
           </div>
           {importStatus === 'loading' && <Loader2 className="w-4 h-4 text-[var(--color-text-muted)] animate-spin" />}
@@ -328,6 +439,64 @@ export const Settings = () => {
           className="hidden"
         />
 
+        <button
+          onClick={handleCsvExport}
+          className="w-full py-3 flex items-center justify-between border-b border-[var(--color-border)] hover:bg-[var(--color-surface)] transition-colors text-left px-1"
+        >
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet className="w-4 h-4 text-[var(--color-text-muted)]" />
+            <div>
+              <span className="font-display text-sm tracking-wider text-[var(--color-text)]">EXPORT PRS AS CSV</span>
+              <p className="text-xs text-[var(--color-text-muted)]">One row per logged result, for spreadsheets</p>
+            </div>
+          </div>
+          {csvExportStatus === 'success' && <Check className="w-4 h-4 text-[var(--color-success)]" />}
+          {csvExportStatus === 'error' && <AlertCircle className="w-4 h-4 text-[var(--color-danger)]" />}
+        </button>
+
+        <button
+          onClick={() => csvInputRef.current?.click()}
+          className="w-full py-3 flex items-center justify-between border-b border-[var(--color-border)] hover:bg-[var(--color-surface)] transition-colors text-left px-1"
+        >
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet className="w-4 h-4 text-[var(--color-text-muted)]" />
+            <div>
+              <span className="font-display text-sm tracking-wider text-[var(--color-text)]">IMPORT PRS FROM CSV</span>
+              <p className="text-xs text-[var(--color-text-muted)]">Add logs from a spreadsheet with date, item and result columns</p>
+            </div>
+          </div>
+          {csvImportStatus === 'success' && <Check className="w-4 h-4 text-[var(--color-success)]" />}
+          {csvImportStatus === 'error' && <AlertCircle className="w-4 h-4 text-[var(--color-danger)]" />}
+        </button>
+        <input
+          ref={csvInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleCsvImportFile}
+          className="hidden"
+        />
+
+        <button
+          onClick={() => externalInputRef.current?.click()}
+          className="w-full py-3 flex items-center justify-between border-b border-[var(--color-border)] hover:bg-[var(--color-surface)] transition-colors text-left px-1"
+        >
+          <div className="flex items-center gap-3">
+            <ArrowRightLeft className="w-4 h-4 text-[var(--color-text-muted)]" />
+            <div>
+              <span className="font-display text-sm tracking-wider text-[var(--color-text)]">IMPORT FROM ANOTHER APP</span>
+              <p className="text-xs text-[var(--color-text-muted)]">SugarWOD or any movement, date, result CSV</p>
+            </div>
+          </div>
+          <ChevronRight className="w-4 h-4 text-[var(--color-text-muted)]" />
+        </button>
+        <input
+          ref={externalInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleExternalImportFile}
+          className="hidden"
+        />
+
         {importError && (
           <div className="px-1 py-2 border-l-2 border-[var(--color-danger)]">
             <p className="text-xs text-[var(--color-danger)] font-display tracking-wider">{importError}</p>
@@ -335,6 +504,18 @@ export const Settings = () => {
         )}
       </section>
 
+      {/* Sync section */}
+      <SyncSection />
+
+      {/* Backups section */}
+      <BackupSection />
+
+      {/* Trash section */}
+      <TrashSection />
+
+      {/* Diagnostics section */}
+      <IntegritySection />
+
       {/* Danger zone */}
       <section className="space-y-1">
         <div className="flex items-center gap-2 pb-1 border-b border-[var(--color-danger)]/40">
@@ -389,6 +570,38 @@ export const Settings = () => {
           BUILT FOR CROSSFIT ATHLETES
         </p>
       </section>
+
+      {/* Import preview */}
+      {pendingImport && (
+        <ImportSheet
+          json={pendingImport.json}
+          fileName={pendingImport.fileName}
+          onClose={handleImportClose}
+          onImported={handleImported}
+        />
+      )}
+
+      {pendingCsvImport && (
+        <CsvImportSheet
+          csv={pendingCsvImport.csv}
+          fileName={pendingCsvImport.fileName}
+          onClose={() => setPendingCsvImport(null)}
+          onImported={handleCsvImported}
+        />
+      )}
+
+      {showEncryptedExport && (
+        <EncryptedExportSheet onClose={() => setShowEncryptedExport(false)} onExported={handleEncryptedExported} />
+      )}
+
+      {pendingExternalImport && (
+        <ExternalImportSheet
+          text={pendingExternalImport.text}
+          fileName={pendingExternalImport.fileName}
+          onClose={() => setPendingExternalImport(null)}
+          onImported={handleExternalImported}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,115 @@
+/**
+ * Backup Service
+ *
+ * Automatic restore points. A snapshot is the full `exportData` payload, trash
+ * included, taken on a schedule and before every operation that overwrites
+ * data (imports, "Clear all data", restoring another snapshot).
+ */
+
+import type { UserSettings } from '../types/catalog';
+import type { ImportTable } from '../types/dataTransfer';
+import type { BackupReason, BackupSnapshot, BackupSummary } from '../types/backup';
+import * as db from '../db';
+import * as backups from '../db/backups';
+
+export const DEFAULT_BACKUP_INTERVAL_HOURS = 24;
+export const DEFAULT_BACKUP_RETENTION = 10;
+
+/** Interval choices offered in Settings (0 = scheduled backups off) */
+export const BACKUP_INTERVAL_OPTIONS = [0, 24, 168] as const;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Live records per table; trashed ones ride along in the snapshot uncounted */
+const countRecords = (payload: Record<string, unknown>): Record<ImportTable, number> => {
+  const count = (table: ImportTable) => {
+    const records = payload[table];
+    return Array.isArray(records) ? records.filter((record) => record.deletedAt === undefined).length : 0;
+  };
+  return {
+    favorites: count('favorites'),
+    customItems: count('customItems'),
+    prLogs: count('prLogs'),
+    goals: count('goals'),
+    dailyCheckIns: count('dailyCheckIns'),
+  };
+};
+
+/** Payload minus its `exportedAt` stamp, for change detection */
+const contentKey = (data: string): string => {
+  const content = JSON.parse(data);
+  content.exportedAt = undefined;
+  return JSON.stringify(content);
+};
+
+/**
+ * Snapshot the current data and prune old restore points beyond the
+ * configured retention.
+ */
+export const createBackup = async (reason: BackupReason): Promise<BackupSummary> => {
+  const [data, settings] = await Promise.all([db.exportData({ includeTrash: true }), db.getSettings()]);
+  const now = Date.now();
+  const snapshot: BackupSnapshot = {
+    id: db.createId('backup'),
+    createdAt: now,
+    reason,
+    counts: countRecords(JSON.parse(data)),
+    data,
+  };
+
+  await backups.addBackup(snapshot);
+  const pruned = await backups.pruneBackups(settings.backupRetention ?? DEFAULT_BACKUP_RETENTION);
+  console.log(`[Backup] Created ${reason} snapshot${pruned ? `, pruned ${pruned}` : ''}`);
+
+  return backups.toBackupSummary(snapshot);
+};
+
+let scheduledRun: Promise<boolean> | null = null;
+
+const checkScheduledBackup = async (settings: UserSettings): Promise<boolean> => {
+  const intervalHours = settings.backupIntervalHours ?? DEFAULT_BACKUP_INTERVAL_HOURS;
+  if (intervalHours <= 0) return false;
+
+  const latest = await backups.getLatestBackup();
+  if (latest && Date.now() - latest.createdAt < intervalHours * HOUR_MS) return false;
+
+  if (latest && contentKey(latest.data) === contentKey(await db.exportData({ includeTrash: true }))) return false;
+
+  await createBackup('scheduled');
+  return true;
+};
+
+/**
+ * Take a scheduled snapshot when the interval has elapsed since the last
+ * one and the data actually changed. Returns whether a snapshot was taken.
+ */
+export const runScheduledBackup = (settings: UserSettings): Promise<boolean> => {
+  // Overlapping checks (e.g. StrictMode double effects) share one run.
+  scheduledRun ??= checkScheduledBackup(settings).finally(() => {
+    scheduledRun = null;
+  });
+  return scheduledRun;
+};
+
+/**
+ * Replace all data with a snapshot's contents. The current state is
+ * snapshotted first, so a restore can itself be undone.
+ */
+export const restoreBackup = async (id: string): Promise<void> => {
+  const snapshot = await backups.getBackup(id);
+  if (!snapshot) throw new Error('Restore point not found');
+
+  await createBackup('before-restore');
+  await db.importData(snapshot.data);
+};
+
+export const listBackups = backups.listBackups;
+export const getBackup = backups.getBackup;
+export const deleteBackup = backups.deleteBackup;
+
+/**
+ * Apply a new retention immediately instead of waiting for the next snapshot.
+ */
+export const applyBackupRetention = async (retention: number): Promise<void> => {
+  await backups.pruneBackups(retention);
+};
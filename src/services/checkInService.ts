@@ -4,7 +4,7 @@
  * CRUD operations for daily check-ins with consecutive day tracking.
  */
 
-import { db } from '../db';
+import { createId, db, isNotTrashed, journaled } from '../db';
 import { GAP_RESET_DAYS } from '../config/recoveryScoring.config';
 import type {
   DailyCheckIn,
@@ -57,7 +57,7 @@ export const getDaysDifference = (date1: string, date2: string): number => {
  */
 export const getTodayCheckIn = async (): Promise<DailyCheckIn | null> => {
   const today = getTodayDate();
-  const checkIn = await db.dailyCheckIns.where('date').equals(today).first();
+  const checkIn = await db.dailyCheckIns.where('date').equals(today).filter(isNotTrashed).first();
   return checkIn ?? null;
 };
 
@@ -65,7 +65,7 @@ export const getTodayCheckIn = async (): Promise<DailyCheckIn | null> => {
  * Get a check-in by date.
  */
 export const getCheckInByDate = async (date: string): Promise<DailyCheckIn | null> => {
-  const checkIn = await db.dailyCheckIns.where('date').equals(date).first();
+  const checkIn = await db.dailyCheckIns.where('date').equals(date).filter(isNotTrashed).first();
   return checkIn ?? null;
 };
 
@@ -73,7 +73,7 @@ export const getCheckInByDate = async (date: string): Promise<DailyCheckIn | nul
  * Get recent check-ins ordered by date (descending).
  */
 export const getRecentCheckIns = async (limit: number = 7): Promise<DailyCheckIn[]> => {
-  return db.dailyCheckIns.orderBy('date').reverse().limit(limit).toArray();
+  return db.dailyCheckIns.orderBy('date').reverse().filter(isNotTrashed).limit(limit).toArray();
 };
 
 /**
@@ -90,12 +90,12 @@ export const saveTrainingCheckIn = async (
 
   if (existing) {
     // Update existing check-in
-    await db.dailyCheckIns.update(existing.id, {
+    await journaled('save-check-in', [db.dailyCheckIns], () => db.dailyCheckIns.update(existing.id, {
       type: 'training',
       energy: input.energy,
       soreness: input.soreness,
       sleepHours: input.sleepHours,
-    });
+    }));
     return {
       ...existing,
       type: 'training',
@@ -106,7 +106,7 @@ export const saveTrainingCheckIn = async (
   }
 
   // Create new check-in
-  const id = `checkin-${Date.now()}`;
+  const id = createId('checkin');
   const checkIn: DailyCheckIn = {
     id,
     date: targetDate,
@@ -117,7 +117,7 @@ export const saveTrainingCheckIn = async (
     createdAt: Date.now(),
   };
 
-  await db.dailyCheckIns.add(checkIn);
+  await journaled('save-check-in', [db.dailyCheckIns], () => db.dailyCheckIns.add(checkIn));
   return checkIn;
 };
 
@@ -131,12 +131,12 @@ export const saveRestDayCheckIn = async (date?: string): Promise<DailyCheckIn> =
 
   if (existing) {
     // Update existing to rest day
-    await db.dailyCheckIns.update(existing.id, {
+    await journaled('save-check-in', [db.dailyCheckIns], () => db.dailyCheckIns.update(existing.id, {
       type: 'rest',
       energy: undefined,
       soreness: undefined,
       sleepHours: undefined,
-    });
+    }));
     return {
       ...existing,
       type: 'rest',
@@ -147,7 +147,7 @@ export const saveRestDayCheckIn = async (date?: string): Promise<DailyCheckIn> =
   }
 
   // Create new rest day check-in
-  const id = `checkin-${Date.now()}`;
+  const id = createId('checkin');
   const checkIn: DailyCheckIn = {
     id,
     date: targetDate,
@@ -155,15 +155,15 @@ export const saveRestDayCheckIn = async (date?: string): Promise<DailyCheckIn> =
     createdAt: Date.now(),
   };
 
-  await db.dailyCheckIns.add(checkIn);
+  await journaled('save-check-in', [db.dailyCheckIns], () => db.dailyCheckIns.add(checkIn));
   return checkIn;
 };
 
 /**
- * Delete a check-in by ID.
+ * Move a check-in to the trash by ID.
  */
 export const deleteCheckIn = async (id: string): Promise<void> => {
-  await db.dailyCheckIns.delete(id);
+  await journaled('delete-check-in', [db.dailyCheckIns], () => db.dailyCheckIns.update(id, { deletedAt: Date.now() }));
 };
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -183,6 +183,7 @@ export const getConsecutiveTrainingDays = async (): Promise<number> => {
   const recentCheckIns = await db.dailyCheckIns
     .orderBy('date')
     .reverse()
+    .filter(isNotTrashed)
     .limit(30) // Look back up to 30 days
     .toArray();
 
@@ -224,7 +225,7 @@ export const getConsecutiveTrainingDays = async (): Promise<number> => {
  * Check if this is the user's first check-in ever.
  */
 export const isFirstCheckIn = async (): Promise<boolean> => {
-  const count = await db.dailyCheckIns.count();
+  const count = await db.dailyCheckIns.filter(isNotTrashed).count();
   return count === 0;
 };
 
@@ -232,7 +233,7 @@ export const isFirstCheckIn = async (): Promise<boolean> => {
  * Check if there's a gap of 3+ days since last check-in (welcome back scenario).
  */
 export const hasLongGap = async (): Promise<boolean> => {
-  const lastCheckIn = await db.dailyCheckIns.orderBy('date').last();
+  const lastCheckIn = await db.dailyCheckIns.orderBy('date').filter(isNotTrashed).last();
   if (!lastCheckIn) return false;
 
   const today = getTodayDate();
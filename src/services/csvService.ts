@@ -0,0 +1,320 @@
+/**
+ * CSV Service
+ *
+ * Spreadsheet-friendly export and import of PR logs. Export joins each log
+ * with its catalog item; import resolves items by id, name or alias and
+ * reparses every result through the score-type registry so imported logs are
+ * indistinguishable from ones entered in the app.
+ */
+
+import type { CatalogItem, PRLog, ScoreType, UserSettings, Variant } from '../types/catalog';
+import type { LogImportPreview, NewPRLog } from '../types/dataTransfer';
+import { SCORE_TYPES, getLogScoreType, getScoreModes } from '../config/scoreTypes';
+import {
+  extractRawResult,
+  formatLogResult,
+  formatSecondsToTime,
+  parseResultToValue,
+  parseTimeToSeconds,
+} from '../utils/resultParser';
+import { createCatalogLookup } from '../utils/catalogLookup';
+import { escapeFormula, parseCsvRecords, toCsv, unescapeFormula } from '../utils/csv';
+import { preferredUnit, toDisplayUnit } from '../utils/units';
+
+/** Column order of exported files (also the headers import understands) */
+export const PR_LOG_CSV_COLUMNS = [
+  'date',
+  'item_id',
+  'item_name',
+  'category',
+  'score_type',
+  'variant',
+  'result',
+  'weight_unit',
+  'reps',
+  'distance_m',
+  'calories',
+  'time_cap',
+  'target_reps',
+  'notes',
+] as const;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FIELD HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Timestamp → local calendar date (YYYY-MM-DD). Local, not UTC, so an evening
+ * session doesn't export as the next day.
+ */
+const toLocalIsoDate = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Parse a date cell. Plain YYYY-MM-DD and US-style M/D/YYYY dates are read as
+ * local midnight; full timestamps and other formats fall back to `Date.parse`.
+ */
+export const parseDateCell = (value: string): number | undefined => {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const parts = iso ? [iso[1], iso[2], iso[3]] : us ? [us[3], us[1], us[2]] : null;
+  if (parts) {
+    const date = new Date(Number(parts[0]), Number(parts[1]) - 1, Number(parts[2]));
+    return Number.isNaN(date.getTime()) ? undefined : date.getTime();
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const parseVariant = (value: string): Variant | undefined => {
+  switch (value.trim().toLowerCase()) {
+    case '':       return null;
+    case 'rx':     return 'Rx';
+    case 'rx+':    return 'Rx+';
+    case 'scaled': return 'Scaled';
+    default:       return undefined;
+  }
+};
+
+/**
+ * Resolve a score-type cell by id ("RepsInTime") or display name ("Reps in Time").
+ */
+export const parseScoreType = (value: string): ScoreType | undefined => {
+  const key = value.trim().toLowerCase();
+  return Object.values(SCORE_TYPES).find(
+    (def) => def.id.toLowerCase() === key || def.name.toLowerCase() === key
+  )?.id;
+};
+
+const parsePositive = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const n = parseFloat(value);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+/** "2:00" or "120" → seconds */
+const parseDurationCell = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  return value.includes(':') ? parseTimeToSeconds(value) || undefined : parsePositive(value);
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROW → LOG
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Raw fields of one imported log row, already matched to a catalog item.
+ * Shared by every log importer (CSV, other apps' exports).
+ */
+export interface LogRowInput {
+  item: CatalogItem;
+  date: string;
+  result: string;
+  scoreType?: string;
+  variant?: string;
+  weightUnit?: string;
+  reps?: string;
+  distance?: string;
+  calories?: string;
+  timeCap?: string;
+  targetReps?: string;
+  notes?: string;
+}
+
+/**
+ * Turn a row into a new PR log, or return the reason it can't be imported.
+ * The result is reparsed via the score-type registry and reformatted exactly
+ * as the log form would store it.
+ */
+export const logRowToPRLog = (row: LogRowInput, settings: UserSettings): NewPRLog | string => {
+  const { item } = row;
+  const modes = getScoreModes(item);
+
+  let scoreType = item.scoreType;
+  if (row.scoreType) {
+    const parsed = parseScoreType(row.scoreType);
+    if (!parsed) return `Unknown score type "${row.scoreType}"`;
+    if (!modes.includes(parsed)) return `${item.name} can't be scored as ${SCORE_TYPES[parsed].name}`;
+    scoreType = parsed;
+  }
+
+  const date = parseDateCell(row.date);
+  if (date === undefined) return `Invalid date "${row.date}"`;
+
+  const variant = parseVariant(row.variant ?? '');
+  if (variant === undefined) return `Invalid variant "${row.variant}"`;
+
+  const raw = extractRawResult(row.result, scoreType);
+  if (!SCORE_TYPES[scoreType].validate(raw)) {
+    return `Invalid ${SCORE_TYPES[scoreType].name.toLowerCase()} result "${row.result}"`;
+  }
+
+  // Loads keep the row's unit; everything else is in the athlete's units.
+  const rowUnit = row.weightUnit?.trim().toLowerCase();
+  const unit = scoreType === 'Load' && (rowUnit === 'kg' || rowUnit === 'lb')
+    ? rowUnit
+    : preferredUnit(scoreType, settings);
+
+  const reps = scoreType === 'Load' ? Math.round(parsePositive(row.reps) ?? 1) : undefined;
+  // Distance/calories qualify a timed effort (e.g. 500m row in 1:32).
+  const distance = scoreType === 'Time' ? parsePositive(row.distance) : undefined;
+  const calories = scoreType === 'Time' && distance === undefined ? parsePositive(row.calories) : undefined;
+  const timeCap = scoreType === 'RepsInTime' ? parseDurationCell(row.timeCap) ?? item.timeCap : undefined;
+  const targetReps = scoreType === 'TimeForReps'
+    ? Math.round(parsePositive(row.targetReps) ?? item.targetReps ?? 0) || undefined
+    : undefined;
+
+  if (scoreType === 'RepsInTime' && !timeCap) return 'Missing time cap';
+  if (scoreType === 'TimeForReps' && !targetReps) return 'Missing target reps';
+
+  return {
+    catalogItemId: item.id,
+    result: formatLogResult(raw, scoreType, {
+      reps,
+      distanceLabel: distance !== undefined ? `${distance}m` : undefined,
+      calories,
+      timeCap,
+      targetReps,
+      weightUnit: unit ?? settings.weightUnit,
+      distanceUnit: unit ?? settings.distanceUnit,
+    }),
+    resultValue: parseResultToValue(raw, scoreType),
+    scoreTypeId: scoreType,
+    unit,
+    variant,
+    date,
+    notes: row.notes?.trim() || undefined,
+    reps,
+    distance,
+    calories,
+    timeCap,
+    targetReps,
+  };
+};
+
+/**
+ * Whether an equivalent log (same item, day, score pool and value) already
+ * exists — re-importing the same file must not duplicate history.
+ */
+export const isDuplicateLog = (log: NewPRLog, item: CatalogItem, existing: PRLog[]): boolean =>
+  existing.some(
+    (e) =>
+      e.catalogItemId === log.catalogItemId &&
+      toLocalIsoDate(e.date) === toLocalIsoDate(log.date) &&
+      e.resultValue === log.resultValue &&
+      e.unit === log.unit &&
+      getLogScoreType(e, item) === log.scoreTypeId &&
+      e.reps === log.reps &&
+      e.distance === log.distance &&
+      e.calories === log.calories
+  );
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXPORT / IMPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Build a CSV of PR logs joined with catalog item details. Results are the raw
+ * values, with loads and distance scores in the user's units (converted ones
+ * rounded to plate increments); weight_unit labels the loads. Distances of
+ * timed efforts are in meters. Item names and notes are escaped so a
+ * spreadsheet reads them as text, never as formulas.
+ */
+export const buildPRLogsCsv = (
+  logs: PRLog[],
+  items: CatalogItem[],
+  settings: UserSettings
+): string => {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const sorted = [...logs].sort((a, b) => a.date - b.date);
+
+  const rows = sorted.map((log) => {
+    const item = itemsById.get(log.catalogItemId);
+    const scoreType = item ? getLogScoreType(log, item) : log.scoreTypeId;
+    let result = scoreType ? extractRawResult(log.result, scoreType) : log.result;
+    const unit = scoreType && preferredUnit(scoreType, settings);
+    if (unit && log.unit && log.unit !== unit) {
+      result = String(toDisplayUnit(parseFloat(result), log.unit, unit));
+    }
+    return [
+      toLocalIsoDate(log.date),
+      log.catalogItemId,
+      escapeFormula(item?.name ?? ''),
+      item?.category ?? '',
+      scoreType ?? '',
+      log.variant ?? '',
+      result,
+      scoreType === 'Load' ? settings.weightUnit : '',
+      log.reps,
+      log.distance,
+      log.calories,
+      log.timeCap !== undefined ? formatSecondsToTime(log.timeCap) : '',
+      log.targetReps,
+      escapeFormula(log.notes ?? ''),
+    ];
+  });
+
+  return toCsv([[...PR_LOG_CSV_COLUMNS], ...rows]);
+};
+
+/**
+ * Read a PR log CSV (as exported, or hand-made with at least date, item and
+ * result columns) into logs ready to write. Nothing is written.
+ */
+export const parsePRLogsCsv = (
+  text: string,
+  items: CatalogItem[],
+  settings: UserSettings,
+  existingLogs: PRLog[]
+): LogImportPreview => {
+  const findItem = createCatalogLookup(items);
+  const preview: LogImportPreview = { logs: [], skipped: [] };
+
+  for (const { line, values } of parseCsvRecords(text)) {
+    const itemRef = values.item_id || values.item_name || values.item || '';
+    const item =
+      findItem(values.item_id ?? '') ??
+      findItem(unescapeFormula(values.item_name ?? '')) ??
+      findItem(unescapeFormula(values.item ?? ''));
+    if (!item) {
+      preview.skipped.push({ line, reason: itemRef ? `Unknown item "${itemRef}"` : 'Missing item' });
+      continue;
+    }
+    if (!values.result) {
+      preview.skipped.push({ line, reason: 'Missing result' });
+      continue;
+    }
+
+    const log = logRowToPRLog(
+      {
+        item,
+        date: values.date ?? '',
+        result: values.result,
+        scoreType: values.score_type,
+        variant: values.variant,
+        weightUnit: values.weight_unit,
+        reps: values.reps,
+        distance: values.distance_m,
+        calories: values.calories,
+        timeCap: values.time_cap,
+        targetReps: values.target_reps,
+        notes: values.notes && unescapeFormula(values.notes),
+      },
+      settings
+    );
+
+    if (typeof log === 'string') {
+      preview.skipped.push({ line, reason: log });
+    } else if (isDuplicateLog(log, item, existingLogs)) {
+      preview.skipped.push({ line, reason: `Already logged (${item.name})` });
+    } else {
+      preview.logs.push(log);
+    }
+  }
+
+  return preview;
+};
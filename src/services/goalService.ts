@@ -1,7 +1,15 @@
-import type { CatalogItem, PRLog, ScoreType } from '../types/catalog';
+import type { CatalogItem, PRLog, ScoreType, UnitPreferences } from '../types/catalog';
 import type { Goal, GoalWithProgress, TrendStatus } from '../types/goal';
 import { formatSecondsToTime } from '../utils/resultParser';
 import { isLowerBetter as scoreTypeIsLowerBetter, getLogScoreType } from '../config/scoreTypes';
+import {
+  DEFAULT_UNITS,
+  comparableGoalTarget,
+  comparableLogValue,
+  displayGoalTarget,
+  displayLogResult,
+  preferredUnit,
+} from '../utils/units';
 import * as db from '../db';
 
 /**
@@ -98,7 +106,8 @@ export const calculateTrend = (
   logs: PRLog[],
   targetValue: number,
   targetDate: string,
-  scoreType: ScoreType
+  scoreType: ScoreType,
+  units: UnitPreferences = DEFAULT_UNITS
 ): { trend: TrendStatus; projectedDate?: string } => {
   if (logs.length < 2) {
     return { trend: 'no_data' };
@@ -113,7 +122,7 @@ export const calculateTrend = (
   // Calculate linear regression
   const n = recentLogs.length;
   const xValues = recentLogs.map((_, i) => i);
-  const yValues = recentLogs.map((log) => log.resultValue);
+  const yValues = recentLogs.map((log) => comparableLogValue(log, scoreType, units));
 
   const sumX = xValues.reduce((a, b) => a + b, 0);
   const sumY = yValues.reduce((a, b) => a + b, 0);
@@ -205,7 +214,8 @@ export const formatValueAsResult = (
  */
 export const getBestPRForGoal = async (
   goal: Goal,
-  item: CatalogItem
+  item: CatalogItem,
+  units: UnitPreferences = DEFAULT_UNITS
 ): Promise<PRLog | undefined> => {
   const logs = await db.getPRLogsForItem(goal.itemId);
 
@@ -224,13 +234,14 @@ export const getBestPRForGoal = async (
 
   if (filteredLogs.length === 0) return undefined;
 
-  // Find best PR
+  // Find best PR (loads/distances compared in the current units)
   const scoreType = goalScoreType(goal, item);
+  const valueOf = (log: PRLog) => comparableLogValue(log, scoreType, units);
   return filteredLogs.reduce((best, current) => {
     if (isLowerBetter(scoreType)) {
-      return current.resultValue < best.resultValue ? current : best;
+      return valueOf(current) < valueOf(best) ? current : best;
     }
-    return current.resultValue > best.resultValue ? current : best;
+    return valueOf(current) > valueOf(best) ? current : best;
   });
 };
 
@@ -260,22 +271,23 @@ export const getPRLogsForTrend = async (
 export const enrichGoalWithProgress = async (
   goal: Goal,
   item: CatalogItem,
-  weightUnit: string = 'kg'
+  units: UnitPreferences = DEFAULT_UNITS
 ): Promise<GoalWithProgress> => {
-  const bestPR = await getBestPRForGoal(goal, item);
+  const bestPR = await getBestPRForGoal(goal, item, units);
   const logs = await getPRLogsForTrend(goal, item);
   const scoreType = goalScoreType(goal, item);
-  const unit = scoreType === 'Load' ? weightUnit : undefined;
+  const targetValue = comparableGoalTarget(goal, scoreType, units);
 
-  const currentValue = bestPR?.resultValue ?? null;
-  const currentResult = bestPR?.result ?? null;
-  const progress = calculateProgress(currentValue, goal.targetValue, scoreType);
+  const currentValue = bestPR ? comparableLogValue(bestPR, scoreType, units) : null;
+  const currentResult = bestPR ? displayLogResult(bestPR, scoreType, units) : null;
+  const progress = calculateProgress(currentValue, targetValue, scoreType);
   const daysRemaining = calculateDaysRemaining(goal.targetDate);
   const { trend, projectedDate } = calculateTrend(
     logs,
-    goal.targetValue,
+    targetValue,
     goal.targetDate,
-    scoreType
+    scoreType,
+    units
   );
 
   return {
@@ -283,7 +295,7 @@ export const enrichGoalWithProgress = async (
     itemName: item.name,
     currentValue,
     currentResult,
-    targetResult: formatValueAsResult(goal.targetValue, scoreType, unit),
+    targetResult: formatValueAsResult(displayGoalTarget(goal, scoreType, units), scoreType, preferredUnit(scoreType, units)),
     progress,
     daysRemaining,
     trend,
@@ -300,6 +312,7 @@ export const checkGoalsOnNewPR = async (
   item: CatalogItem
 ): Promise<string[]> => {
   const activeGoals = await db.getActiveGoals();
+  const units = await db.getSettings();
   const achievedGoalIds: string[] = [];
 
   for (const goal of activeGoals) {
@@ -321,7 +334,12 @@ export const checkGoalsOnNewPR = async (
     }
 
     // Check if this PR achieves the goal
-    if (isGoalAchieved(log.resultValue, goal.targetValue, goalScoreType(goal, item))) {
+    const scoreType = goalScoreType(goal, item);
+    if (isGoalAchieved(
+      comparableLogValue(log, scoreType, units),
+      comparableGoalTarget(goal, scoreType, units),
+      scoreType
+    )) {
       achievedGoalIds.push(goal.id);
     }
   }
@@ -329,6 +347,38 @@ export const checkGoalsOnNewPR = async (
   return achievedGoalIds;
 };
 
+/**
+ * Re-evaluate an item's goals after one of its logs was edited: active goals
+ * the edited log now meets are achieved, and achieved goals whose best PR no
+ * longer meets the target (e.g. a mistyped result was corrected) go back to
+ * active.
+ */
+export const reevaluateGoalsAfterEdit = async (
+  log: PRLog,
+  item: CatalogItem
+): Promise<{ achieved: string[]; reopened: string[] }> => {
+  const achieved = await checkGoalsOnNewPR(log, item);
+  for (const id of achieved) {
+    await db.achieveGoal(id);
+  }
+
+  const reopened: string[] = [];
+  const goals = await db.getGoalsForItem(item.id);
+  const units = await db.getSettings();
+  for (const goal of goals) {
+    if (goal.status !== 'achieved') continue;
+    const bestPR = await getBestPRForGoal(goal, item, units);
+    const scoreType = goalScoreType(goal, item);
+    const bestValue = bestPR ? comparableLogValue(bestPR, scoreType, units) : null;
+    if (!isGoalAchieved(bestValue, comparableGoalTarget(goal, scoreType, units), scoreType)) {
+      await db.reopenGoal(goal.id);
+      reopened.push(goal.id);
+    }
+  }
+
+  return { achieved, reopened };
+};
+
 /**
  * Get reps label for display (e.g., "1RM", "3RM", "5 reps")
  */
@@ -0,0 +1,28 @@
+import type { LogImportAdapter } from '../../types/dataTransfer';
+
+const NAME_COLUMNS = ['movement', 'workout', 'exercise', 'name'];
+
+/**
+ * Generic "movement, date, result, notes" spreadsheet — the lowest common
+ * denominator most apps (and hand-kept logs) can produce.
+ */
+export const genericCsvAdapter: LogImportAdapter = {
+  id: 'generic',
+  name: 'Generic CSV',
+  description: 'Columns: movement (or workout), date, result, notes',
+  detect: (headers) =>
+    headers.includes('date') &&
+    headers.includes('result') &&
+    NAME_COLUMNS.some((column) => headers.includes(column)),
+  readRows: (records) =>
+    records.map(({ line, values }) => ({
+      line,
+      name: NAME_COLUMNS.map((column) => values[column]).find(Boolean) ?? '',
+      date: values.date ?? '',
+      result: values.result ?? '',
+      notes: values.notes,
+      variant: values.variant,
+      scoreType: values.score_type,
+      reps: values.reps,
+    })),
+};
@@ -0,0 +1,22 @@
+/**
+ * Log Importers
+ *
+ * Registry of adapters that read other training apps' exports. To support a
+ * new app, add an adapter here — matching, mapping and writing are shared.
+ */
+
+import type { LogImportAdapter } from '../../types/dataTransfer';
+import { genericCsvAdapter } from './genericCsv';
+import { sugarWodAdapter } from './sugarWod';
+
+/** Ordered most-specific first: detection picks the first match */
+export const LOG_IMPORT_ADAPTERS: LogImportAdapter[] = [sugarWodAdapter, genericCsvAdapter];
+
+/**
+ * Pick the adapter whose format matches the file's (normalized) headers.
+ */
+export const detectImportAdapter = (headers: string[]): LogImportAdapter | undefined =>
+  LOG_IMPORT_ADAPTERS.find((adapter) => adapter.detect(headers));
+
+export const getImportAdapter = (id: string): LogImportAdapter | undefined =>
+  LOG_IMPORT_ADAPTERS.find((adapter) => adapter.id === id);
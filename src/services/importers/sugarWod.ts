@@ -0,0 +1,26 @@
+import type { LogImportAdapter } from '../../types/dataTransfer';
+
+/**
+ * SugarWOD workout export (Athlete → Export workouts). One row per logged
+ * workout; strength pieces carry the lift name in `barbell_lift`.
+ */
+export const sugarWodAdapter: LogImportAdapter = {
+  id: 'sugarwod',
+  name: 'SugarWOD',
+  description: 'Workout history export (date, title, best_result_display, rx_or_scaled…)',
+  detect: (headers) =>
+    headers.includes('title') &&
+    headers.includes('best_result_display') &&
+    headers.includes('rx_or_scaled'),
+  readRows: (records) =>
+    records.map(({ line, values }) => ({
+      line,
+      name: values.barbell_lift || values.title || '',
+      date: values.date ?? '',
+      // "5 + 12" → "5+12" so Rounds + Reps results parse.
+      result: (values.best_result_display ?? '').replace(/\s*\+\s*/, '+'),
+      notes: values.notes,
+      variant: values.rx_or_scaled,
+      scoreType: values.score_type,
+    })),
+};
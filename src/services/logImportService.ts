@@ -0,0 +1,180 @@
+/**
+ * Log Import Service
+ *
+ * Shared pipeline for importing results from other training apps:
+ * adapter reads rows → rows are grouped by source name and fuzzy-matched to
+ * the catalog → the user confirms each name's mapping → rows become PR logs.
+ */
+
+import type { CatalogItem, PRLog, ScoreType, UserSettings } from '../types/catalog';
+import type {
+  LogImportAdapter,
+  LogImportPreview,
+  NameMapping,
+  SourceLogRow,
+} from '../types/dataTransfer';
+import { getScoreModes } from '../config/scoreTypes';
+import { rankCatalogMatches, type CatalogMatch } from '../utils/catalogLookup';
+import { readCsvTable } from '../utils/csv';
+import { isDuplicateLog, logRowToPRLog, parseScoreType } from './csvService';
+import { detectImportAdapter, getImportAdapter } from './importers';
+
+/** Matches at or above this score are pre-selected without asking */
+const AUTO_MATCH_SCORE = 0.85;
+
+/** Id prefix for custom items that will be created on import */
+const PENDING_ITEM_PREFIX = 'pending:';
+
+/**
+ * Every row sharing one source name, with its best catalog candidates.
+ */
+export interface ImportNameGroup {
+  name: string;
+  rows: SourceLogRow[];
+  matches: CatalogMatch[];
+  /** Pre-selected mapping: a confident match, else create a custom item */
+  suggested: NameMapping;
+}
+
+export interface ExternalLogPreview extends LogImportPreview {
+  /** Custom items to create first (ids are `pending:` placeholders) */
+  newItems: CatalogItem[];
+}
+
+/**
+ * Read another app's export. Uses the given adapter, or detects one from the
+ * header row; throws when the format isn't recognized.
+ */
+export const readExternalLogFile = (
+  text: string,
+  adapterId?: string
+): { adapter: LogImportAdapter; rows: SourceLogRow[] } => {
+  const { headers, records } = readCsvTable(text);
+  const adapter = adapterId ? getImportAdapter(adapterId) : detectImportAdapter(headers);
+  if (!adapter) {
+    throw new Error('Unrecognized file format. Expected a CSV with movement, date and result columns.');
+  }
+  return { adapter, rows: adapter.readRows(records) };
+};
+
+/**
+ * Best guess at how an unmatched workout is scored, from the source's hint or
+ * the shape of its results.
+ */
+export const guessScoreType = (rows: SourceLogRow[]): ScoreType => {
+  for (const row of rows) {
+    const hinted = row.scoreType ? parseScoreType(row.scoreType) : undefined;
+    if (hinted) return hinted;
+  }
+  const results = rows.map((row) => row.result.trim()).filter(Boolean);
+  if (results.length > 0 && results.every((r) => /^\d+:\d{2}(:\d{2})?$/.test(r))) return 'Time';
+  if (results.some((r) => /^\d+\+\d+$/.test(r))) return 'Rounds+Reps';
+  return 'Reps';
+};
+
+/**
+ * Group rows by source name (case/punctuation-insensitive) and rank catalog
+ * candidates for each. Most frequent names come first.
+ */
+export const groupSourceRows = (rows: SourceLogRow[], items: CatalogItem[]): ImportNameGroup[] => {
+  const groups = new Map<string, SourceLogRow[]>();
+  for (const row of rows) {
+    const name = row.name.trim();
+    if (!name) continue;
+    const key = name.toLowerCase();
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  return [...groups.values()]
+    .map((groupRows) => {
+      const name = groupRows[0].name.trim();
+      const matches = rankCatalogMatches(name, items);
+      const best = matches[0];
+      const suggested: NameMapping = best && best.score >= AUTO_MATCH_SCORE
+        ? { kind: 'item', itemId: best.item.id }
+        : { kind: 'create', scoreType: guessScoreType(groupRows) };
+      return { name, rows: groupRows, matches, suggested };
+    })
+    .sort((a, b) => b.rows.length - a.rows.length || a.name.localeCompare(b.name));
+};
+
+/**
+ * Placeholder catalog item for a name the user chose to create. Lets rows be
+ * validated and previewed before anything is written.
+ */
+const buildPendingItem = (name: string, scoreType: ScoreType): CatalogItem => ({
+  id: `${PENDING_ITEM_PREFIX}${name}`,
+  name,
+  category: 'Custom',
+  scoreType,
+  isBuiltin: false,
+  isFavorite: false,
+  createdAt: Date.now(),
+});
+
+export const isPendingItemId = (id: string): boolean => id.startsWith(PENDING_ITEM_PREFIX);
+
+/**
+ * Dry-run the import with the user's mappings: which logs will be written,
+ * which custom items created, and which rows skipped (and why).
+ */
+export const previewExternalImport = (
+  rows: SourceLogRow[],
+  groups: ImportNameGroup[],
+  mappings: Record<string, NameMapping>,
+  items: CatalogItem[],
+  settings: UserSettings,
+  existingLogs: PRLog[],
+  weightUnit: UserSettings['weightUnit']
+): ExternalLogPreview => {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const preview: ExternalLogPreview = { logs: [], skipped: [], newItems: [] };
+
+  for (const row of rows) {
+    if (!row.name.trim()) preview.skipped.push({ line: row.line, reason: 'Missing workout name' });
+  }
+
+  for (const group of groups) {
+    const mapping = mappings[group.name] ?? group.suggested;
+    if (mapping.kind === 'skip') continue;
+
+    let item: CatalogItem | undefined;
+    if (mapping.kind === 'item') {
+      item = itemsById.get(mapping.itemId);
+    } else {
+      item = buildPendingItem(group.name, mapping.scoreType);
+      preview.newItems.push(item);
+    }
+    if (!item) continue;
+
+    // Source score types only apply when this item can be scored that way.
+    const modes = getScoreModes(item);
+    for (const row of group.rows) {
+      const hinted = row.scoreType ? parseScoreType(row.scoreType) : undefined;
+      const log = logRowToPRLog(
+        {
+          item,
+          date: row.date,
+          result: row.result,
+          scoreType: hinted && modes.includes(hinted) ? hinted : undefined,
+          variant: row.variant,
+          weightUnit,
+          reps: row.reps,
+          notes: row.notes,
+        },
+        settings
+      );
+
+      if (typeof log === 'string') {
+        preview.skipped.push({ line: row.line, reason: `${group.name}: ${log}` });
+      } else if (isDuplicateLog(log, item, existingLogs)) {
+        preview.skipped.push({ line: row.line, reason: `Already logged (${group.name})` });
+      } else {
+        preview.logs.push(log);
+      }
+    }
+  }
+
+  preview.skipped.sort((a, b) => a.line - b.line);
+  return preview;
+};
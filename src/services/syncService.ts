@@ -0,0 +1,130 @@
+/**
+ * Sync Service
+ *
+ * Talks to a self-hosted sync server (protocol: docs/SYNC_PROTOCOL.md,
+ * reference server: server/syncServer.mjs). A sync run pulls the server's
+ * feed since our cursor, applies it last-writer-wins, then pushes local
+ * changes. Nothing runs in the background — sync happens when asked.
+ */
+
+import type {
+  SyncChangeSet,
+  SyncConfig,
+  SyncPullResponse,
+  SyncPushRequest,
+  SyncPushResponse,
+  SyncResult,
+  SyncState,
+} from '../types/sync';
+import * as syncDb from '../db/sync';
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+/** Athlete ids the reference server accepts (they become file names) */
+export const ATHLETE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Check and normalize sync settings before they're saved.
+ * Returns an error message, or the cleaned-up config.
+ */
+export const normalizeSyncConfig = (config: SyncConfig): { config?: SyncConfig; error?: string } => {
+  let url: URL;
+  try {
+    url = new URL(config.serverUrl.trim());
+  } catch {
+    return { error: 'Server URL is not a valid URL' };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { error: 'Server URL must start with http:// or https://' };
+  }
+
+  const athleteId = config.athleteId.trim();
+  if (!ATHLETE_ID_PATTERN.test(athleteId)) {
+    return { error: 'Athlete id: up to 64 letters, digits, "-" or "_"' };
+  }
+
+  const token = config.token?.trim();
+  return {
+    config: {
+      serverUrl: url.href.replace(/\/+$/, ''),
+      athleteId,
+      ...(token ? { token } : {}),
+    },
+  };
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HTTP
+// ═══════════════════════════════════════════════════════════════════════════
+
+const request = async <T>(state: SyncState, init: RequestInit & { query?: string } = {}): Promise<T> => {
+  const url = `${state.serverUrl}/v1/athletes/${encodeURIComponent(state.athleteId)}/changes${init.query ?? ''}`;
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (init.body) headers['Content-Type'] = 'application/json';
+  if (state.token) headers.Authorization = `Bearer ${state.token}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, headers, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+    throw new Error(timedOut ? 'Sync server did not respond' : 'Could not reach the sync server');
+  }
+
+  if (response.status === 401) throw new Error('Sync server rejected the token');
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ? `Sync server: ${body.error}` : `Sync server error (HTTP ${response.status})`);
+  }
+  return response.json() as Promise<T>;
+};
+
+const pull = (state: SyncState): Promise<SyncPullResponse> =>
+  request<SyncPullResponse>(state, { method: 'GET', query: `?since=${state.cursor}` });
+
+const push = (state: SyncState, changes: SyncChangeSet): Promise<SyncPushResponse> => {
+  const body: SyncPushRequest = { deviceId: state.deviceId, changes };
+  return request<SyncPushResponse>(state, { method: 'POST', body: JSON.stringify(body) });
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SYNC
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Run one sync: pull → apply → push. The outcome (or error) is recorded on
+ * the sync state for the Settings status line.
+ */
+export const syncNow = async (): Promise<SyncResult> => {
+  const state = await syncDb.getSyncState();
+  if (!state) throw new Error('Sync is not set up');
+
+  try {
+    const { cursor, changes: remote } = await pull(state);
+    const applied = await syncDb.applyRemoteChanges(remote);
+
+    const local = await syncDb.collectLocalChanges(state, applied.appliedStamps);
+    const known = new Set(local.changes.dailyCheckIns.tombstones.map((tombstone) => tombstone.id));
+    const lostCheckIns = applied.tombstones.filter((tombstone) => !known.has(tombstone.id));
+    local.changes.dailyCheckIns.tombstones.push(...lostCheckIns);
+    const pushed = local.count + lostCheckIns.length;
+    if (pushed > 0) await push(state, local.changes);
+
+    // The pull cursor, not the push's: other devices may have pushed in between.
+    await syncDb.updateSyncState({
+      cursor,
+      pushedUpTo: local.readAt,
+      knownIds: local.ids,
+      lastSyncedAt: Date.now(),
+      lastError: undefined,
+    });
+    console.log(`[Sync] Pulled ${applied.applied}, pushed ${pushed}`);
+
+    return { pulled: applied.applied, pushed, replacedCheckIns: applied.replacedCheckIns };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Sync failed';
+    await syncDb.updateSyncState({ lastError: message });
+    console.error('[Sync] Failed:', error);
+    throw error;
+  }
+};
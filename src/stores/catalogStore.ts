@@ -1,13 +1,40 @@
 import { create } from 'zustand';
-import type { CatalogItem, PRLog, UserSettings } from '../types/catalog';
+import type {
+  CatalogItem,
+  CustomItemDisposal,
+  CustomItemInput,
+  CustomItemMergeOptions,
+  CustomItemMergeSummary,
+  PRLog,
+  ScoreTypeMigrationSummary,
+  UpdatePRLogInput,
+  UserSettings,
+} from '../types/catalog';
+import type { MergePlan, MergeStrategy, NewPRLog } from '../types/dataTransfer';
+import type { TrashTable } from '../types/trash';
+import type { SyncResult } from '../types/sync';
+import type { RepairPlan } from '../types/integrity';
+import type { CatalogPackChangeSummary, CatalogPackInstallPlan } from '../types/catalogPack';
+import type { Locale } from '../types/i18n';
 import * as db from '../db';
+import * as integrity from '../db/integrity';
+import * as catalogPacks from '../db/catalogPacks';
+import { createBackup, restoreBackup } from '../services/backupService';
+import { reevaluateGoalsAfterEdit } from '../services/goalService';
+import { syncNow } from '../services/syncService';
+import { isBuiltinCatalogLoaded, loadBuiltinCatalog, setCatalogLocale } from '../catalog/catalogService';
+import { DEFAULT_LOCALE, getLocale, resolveLocale, setLocale } from '../utils/i18n';
 
 interface CatalogState {
   // Data
   catalogItems: CatalogItem[];
+  /** `catalogItems` by id, for constant-time lookups */
+  catalogItemsById: Map<string, CatalogItem>;
   favorites: CatalogItem[];
   recentLogs: PRLog[];
   settings: UserSettings;
+  /** Active language, from `settings.language` or the device */
+  locale: Locale;
   
   // UI State
   isLoading: boolean;
@@ -20,20 +47,62 @@ interface CatalogState {
   setSearchQuery: (query: string) => void;
   setSelectedCategory: (category: CatalogItem['category'] | 'All') => void;
   toggleFavorite: (id: string) => Promise<void>;
+  addCustomItem: (item: CustomItemInput) => Promise<string>;
+  updateCustomItem: (id: string, updates: Partial<CustomItemInput>) => Promise<ScoreTypeMigrationSummary>;
+  deleteCustomItem: (id: string, disposal: CustomItemDisposal) => Promise<ScoreTypeMigrationSummary>;
+  mergeCustomItem: (id: string, targetId: string, options?: CustomItemMergeOptions) => Promise<CustomItemMergeSummary>;
   addPRLog: (log: Omit<PRLog, 'id' | 'createdAt'>) => Promise<string>;
+  updatePRLog: (id: string, updates: UpdatePRLogInput, item: CatalogItem) => Promise<PRLog>;
   deletePRLog: (id: string) => Promise<void>;
   refreshData: () => Promise<void>;
+  loadFullCatalog: () => Promise<void>;
   updateSettings: (updates: Partial<UserSettings>) => Promise<void>;
   exportData: () => Promise<string>;
   importData: (json: string) => Promise<void>;
+  mergeImport: (plan: MergePlan, strategy: MergeStrategy) => Promise<void>;
+  importPRLogs: (logs: NewPRLog[]) => Promise<void>;
+  importExternalLogs: (newItems: CatalogItem[], logs: NewPRLog[]) => Promise<void>;
+  clearAllData: () => Promise<void>;
+  restoreFromTrash: (table: TrashTable, id: string) => Promise<void>;
+  purgeFromTrash: (table: TrashTable, id: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  applyIntegrityRepair: (plan: RepairPlan) => Promise<void>;
+  installCatalogPack: (plan: CatalogPackInstallPlan) => Promise<CatalogPackChangeSummary>;
+  uninstallCatalogPack: (id: string) => Promise<CatalogPackChangeSummary>;
+  restoreBackup: (id: string) => Promise<void>;
+  syncNow: () => Promise<SyncResult>;
 }
 
+/**
+ * Switch app text and builtin catalog names to the settings' language.
+ * Call before reading catalog items so they come back translated.
+ */
+const applyLanguage = async (settings: UserSettings): Promise<Locale> => {
+  const locale = resolveLocale(settings.language);
+  if (locale !== getLocale()) {
+    await setCatalogLocale(locale);
+    setLocale(locale);
+  }
+  return locale;
+};
+
+/**
+ * Catalog items with the state derived from them
+ */
+const catalogItemsState = (catalogItems: CatalogItem[]) => ({
+  catalogItems,
+  catalogItemsById: new Map(catalogItems.map((item) => [item.id, item])),
+  favorites: catalogItems.filter((item) => item.isFavorite),
+});
+
 export const useCatalogStore = create<CatalogState>((set, get) => ({
   // Initial state
   catalogItems: [],
+  catalogItemsById: new Map(),
   favorites: [],
   recentLogs: [],
   settings: { weightUnit: 'kg', distanceUnit: 'm', hasSeenOnboarding: false, minSleepHours: 7 },
+  locale: DEFAULT_LOCALE,
   isLoading: false,
   isInitialized: false,
   searchQuery: '',
@@ -47,20 +116,21 @@ export const useCatalogStore = create<CatalogState>((set, get) => ({
     
     try {
       await db.initializeDatabase();
+      await db.purgeExpiredTrash((await db.getSettings()).trashRetentionDays);
+      await db.pruneJournal();
       
-      const [catalogItems, recentLogs, settings] = await Promise.all([
+      const settings = await db.getSettings();
+      const locale = await applyLanguage(settings);
+      const [catalogItems, recentLogs] = await Promise.all([
         db.getAllCatalogItems(),
         db.getRecentPRLogs(10),
-        db.getSettings(),
       ]);
 
-      const favorites = catalogItems.filter((item) => item.isFavorite);
-
       set({
-        catalogItems,
-        favorites,
+        ...catalogItemsState(catalogItems),
         recentLogs,
         settings,
+        locale,
         isInitialized: true,
         isLoading: false,
       });
@@ -85,9 +155,36 @@ export const useCatalogStore = create<CatalogState>((set, get) => ({
     await db.toggleFavorite(id);
     
     const catalogItems = await db.getAllCatalogItems();
-    const favorites = catalogItems.filter((item) => item.isFavorite);
-    
-    set({ catalogItems, favorites });
+    set(catalogItemsState(catalogItems));
+  },
+
+  // Create a custom catalog item
+  addCustomItem: async (item: CustomItemInput) => {
+    const id = await db.addCustomCatalogItem(item);
+    await get().refreshData();
+    return id;
+  },
+
+  // Edit a custom item, migrating or flagging logs if its score types changed
+  updateCustomItem: async (id: string, updates: Partial<CustomItemInput>) => {
+    const summary = await db.updateCustomCatalogItem(id, updates);
+    await get().refreshData();
+    return summary;
+  },
+
+  // Delete a custom item, cascading or reassigning its logs and goals
+  deleteCustomItem: async (id: string, disposal: CustomItemDisposal) => {
+    const summary = await db.deleteCustomCatalogItem(id, disposal);
+    await get().refreshData();
+    return summary;
+  },
+
+  // Fold a custom item's history into a builtin item and remove it (snapshotted first)
+  mergeCustomItem: async (id: string, targetId: string, options?: CustomItemMergeOptions) => {
+    await createBackup('before-merge');
+    const summary = await db.mergeCustomCatalogItem(id, targetId, options);
+    await get().refreshData();
+    return summary;
   },
 
   // Add a new PR log
@@ -98,6 +195,15 @@ export const useCatalogStore = create<CatalogState>((set, get) => ({
     return id;
   },
 
+  // Edit a PR log in place, then re-evaluate the item's goals
+  updatePRLog: async (id: string, updates: UpdatePRLogInput, item: CatalogItem) => {
+    const log = await db.updatePRLog(id, updates);
+    await reevaluateGoalsAfterEdit(log, item);
+    const recentLogs = await db.getRecentPRLogs(10);
+    set({ recentLogs });
+    return log;
+  },
+
   // Delete a PR log
   deletePRLog: async (id: string) => {
     await db.deletePRLog(id);
@@ -109,26 +215,38 @@ export const useCatalogStore = create<CatalogState>((set, get) => ({
   refreshData: async () => {
     set({ isLoading: true });
     
-    const [catalogItems, recentLogs, settings] = await Promise.all([
+    // Settings first: an import or sync may have changed the language
+    const settings = await db.getSettings();
+    const locale = await applyLanguage(settings);
+    const [catalogItems, recentLogs] = await Promise.all([
       db.getAllCatalogItems(),
       db.getRecentPRLogs(10),
-      db.getSettings(),
     ]);
 
-    const favorites = catalogItems.filter((item) => item.isFavorite);
-
     set({
-      catalogItems,
-      favorites,
+      ...catalogItemsState(catalogItems),
       recentLogs,
       settings,
+      locale,
       isLoading: false,
     });
   },
 
+  // Bring in the split-out builtin files (Open, Games) for a view that needs them
+  loadFullCatalog: async () => {
+    if (isBuiltinCatalogLoaded()) return;
+    await loadBuiltinCatalog();
+    set(catalogItemsState(await db.getAllCatalogItems()));
+  },
+
   // Update settings
   updateSettings: async (updates: Partial<UserSettings>) => {
     await db.updateSettings(updates);
+    if ('language' in updates) {
+      // Reload the catalog in the new language
+      await get().refreshData();
+      return;
+    }
     const settings = await db.getSettings();
     set({ settings });
   },
@@ -140,9 +258,93 @@ export const useCatalogStore = create<CatalogState>((set, get) => ({
 
   // Import data from JSON
   importData: async (json: string) => {
+    await createBackup('before-import');
     await db.importData(json);
     await get().refreshData();
   },
+
+  // Merge a previewed import into existing data
+  mergeImport: async (plan: MergePlan, strategy: MergeStrategy) => {
+    await createBackup('before-import');
+    await db.applyMergeImport(plan, strategy);
+    await get().refreshData();
+  },
+
+  // Add logs parsed from a CSV file
+  importPRLogs: async (logs: NewPRLog[]) => {
+    await createBackup('before-import');
+    await db.addPRLogs(logs);
+    await get().refreshData();
+  },
+
+  // Create confirmed custom items and add the mapped logs, all in one transaction
+  importExternalLogs: async (newItems: CatalogItem[], logs: NewPRLog[]) => {
+    await createBackup('before-import');
+    await db.addPRLogs(logs, newItems);
+    await get().refreshData();
+  },
+
+  // Wipe PRs, favorites, custom items and settings (snapshotted first)
+  clearAllData: async () => {
+    await createBackup('before-clear');
+    await db.importData(JSON.stringify({
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      catalogItems: [],
+      prLogs: [],
+      settings: { weightUnit: 'kg', distanceUnit: 'm' },
+    }));
+    await get().refreshData();
+  },
+
+  // Bring a trashed log, goal or check-in back
+  restoreFromTrash: async (table: TrashTable, id: string) => {
+    await db.restoreFromTrash(table, id);
+    await get().refreshData();
+  },
+
+  // Permanently delete one trashed record
+  purgeFromTrash: async (table: TrashTable, id: string) => {
+    await db.purgeFromTrash(table, id);
+  },
+
+  // Permanently delete everything in the trash
+  emptyTrash: async () => {
+    await db.emptyTrash();
+  },
+
+  // Apply a reviewed data integrity repair
+  applyIntegrityRepair: async (plan: RepairPlan) => {
+    await integrity.applyIntegrityRepair(plan);
+    await get().refreshData();
+  },
+
+  // Install or upgrade a reviewed catalog pack
+  installCatalogPack: async (plan: CatalogPackInstallPlan) => {
+    const summary = await catalogPacks.installCatalogPack(plan);
+    await get().refreshData();
+    return summary;
+  },
+
+  // Remove a catalog pack, keeping items with history as custom items
+  uninstallCatalogPack: async (id: string) => {
+    const summary = await catalogPacks.uninstallCatalogPack(id);
+    await get().refreshData();
+    return summary;
+  },
+
+  // Replace all data with a restore point
+  restoreBackup: async (id: string) => {
+    await restoreBackup(id);
+    await get().refreshData();
+  },
+
+  // Exchange changes with the sync server
+  syncNow: async () => {
+    const result = await syncNow();
+    if (result.pulled > 0) await get().refreshData();
+    return result;
+  },
 }));
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -177,7 +379,5 @@ export const useFilteredCatalogItems = () => {
  * Get catalog item by ID
  */
 export const useCatalogItem = (id: string) => {
-  return useCatalogStore((state) =>
-    state.catalogItems.find((item) => item.id === id)
-  );
+  return useCatalogStore((state) => state.catalogItemsById.get(id));
 };
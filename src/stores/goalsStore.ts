@@ -1,9 +1,10 @@
 import { useMemo } from 'react';
 import { create } from 'zustand';
 import type { Goal, GoalWithProgress, CreateGoalInput, UpdateGoalInput } from '../types/goal';
-import type { CatalogItem, PRLog, ScoreType } from '../types/catalog';
+import type { CatalogItem, PRLog, ScoreType, UnitPreferences } from '../types/catalog';
 import * as db from '../db';
 import * as goalService from '../services/goalService';
+import { DEFAULT_UNITS } from '../utils/units';
 
 interface GoalsState {
   // Data
@@ -16,33 +17,38 @@ interface GoalsState {
   isInitialized: boolean;
 
   // Actions
-  initialize: (catalogItems: CatalogItem[], weightUnit?: string) => Promise<void>;
-  refreshGoals: (catalogItems: CatalogItem[], weightUnit?: string) => Promise<void>;
+  initialize: (catalogItems: CatalogItem[], units?: UnitPreferences) => Promise<void>;
+  refreshGoals: (catalogItems: CatalogItem[], units?: UnitPreferences) => Promise<void>;
   addGoal: (
     input: CreateGoalInput,
     catalogItems: CatalogItem[],
-    weightUnit?: string
+    units?: UnitPreferences
   ) => Promise<string>;
   updateGoal: (
     id: string,
     updates: UpdateGoalInput,
     catalogItems: CatalogItem[],
-    weightUnit?: string
+    units?: UnitPreferences
   ) => Promise<void>;
   achieveGoal: (
     id: string,
     catalogItems: CatalogItem[],
-    weightUnit?: string
+    units?: UnitPreferences
   ) => Promise<void>;
   cancelGoal: (
     id: string,
     catalogItems: CatalogItem[],
-    weightUnit?: string
+    units?: UnitPreferences
   ) => Promise<void>;
   deleteGoal: (
     id: string,
     catalogItems: CatalogItem[],
-    weightUnit?: string
+    units?: UnitPreferences
+  ) => Promise<void>;
+  restoreGoal: (
+    id: string,
+    catalogItems: CatalogItem[],
+    units?: UnitPreferences
   ) => Promise<void>;
   checkGoalsOnNewPR: (log: PRLog, item: CatalogItem) => Promise<string[]>;
   getActiveGoalForItem: (
@@ -59,7 +65,7 @@ interface GoalsState {
 const enrichAndSortActiveGoals = async (
   goals: Goal[],
   catalogItems: CatalogItem[],
-  weightUnit: string = 'kg'
+  units: UnitPreferences = DEFAULT_UNITS
 ): Promise<GoalWithProgress[]> => {
   const enrichedGoals: GoalWithProgress[] = [];
 
@@ -67,7 +73,7 @@ const enrichAndSortActiveGoals = async (
     const item = catalogItems.find((i) => i.id === goal.itemId);
     if (!item) continue;
 
-    const enriched = await goalService.enrichGoalWithProgress(goal, item, weightUnit);
+    const enriched = await goalService.enrichGoalWithProgress(goal, item, units);
     enrichedGoals.push(enriched);
   }
 
@@ -81,7 +87,7 @@ const enrichAndSortActiveGoals = async (
 const enrichAndSortAchievedGoals = async (
   goals: Goal[],
   catalogItems: CatalogItem[],
-  weightUnit: string = 'kg'
+  units: UnitPreferences = DEFAULT_UNITS
 ): Promise<GoalWithProgress[]> => {
   const enrichedGoals: GoalWithProgress[] = [];
 
@@ -89,7 +95,7 @@ const enrichAndSortAchievedGoals = async (
     const item = catalogItems.find((i) => i.id === goal.itemId);
     if (!item) continue;
 
-    const enriched = await goalService.enrichGoalWithProgress(goal, item, weightUnit);
+    const enriched = await goalService.enrichGoalWithProgress(goal, item, units);
     enrichedGoals.push(enriched);
   }
 
@@ -109,7 +115,7 @@ export const useGoalsStore = create<GoalsState>((set, get) => ({
   isInitialized: false,
 
   // Initialize goals from database
-  initialize: async (catalogItems: CatalogItem[], weightUnit: string = 'kg') => {
+  initialize: async (catalogItems: CatalogItem[], units: UnitPreferences = DEFAULT_UNITS) => {
     if (get().isInitialized) return;
 
     set({ isLoading: true });
@@ -120,8 +126,8 @@ export const useGoalsStore = create<GoalsState>((set, get) => ({
       const achieved = goals.filter((g) => g.status === 'achieved');
 
       const [activeGoals, achievedGoals] = await Promise.all([
-        enrichAndSortActiveGoals(active, catalogItems, weightUnit),
-        enrichAndSortAchievedGoals(achieved, catalogItems, weightUnit),
+        enrichAndSortActiveGoals(active, catalogItems, units),
+        enrichAndSortAchievedGoals(achieved, catalogItems, units),
       ]);
 
       set({
@@ -138,7 +144,7 @@ export const useGoalsStore = create<GoalsState>((set, get) => ({
   },
 
   // Refresh goals from database
-  refreshGoals: async (catalogItems: CatalogItem[], weightUnit: string = 'kg') => {
+  refreshGoals: async (catalogItems: CatalogItem[], units: UnitPreferences = DEFAULT_UNITS) => {
     set({ isLoading: true });
 
     try {
@@ -147,8 +153,8 @@ export const useGoalsStore = create<GoalsState>((set, get) => ({
       const achieved = goals.filter((g) => g.status === 'achieved');
 
       const [activeGoals, achievedGoals] = await Promise.all([
-        enrichAndSortActiveGoals(active, catalogItems, weightUnit),
-        enrichAndSortAchievedGoals(achieved, catalogItems, weightUnit),
+        enrichAndSortActiveGoals(active, catalogItems, units),
+        enrichAndSortAchievedGoals(achieved, catalogItems, units),
       ]);
 
       set({
@@ -167,10 +173,10 @@ export const useGoalsStore = create<GoalsState>((set, get) => ({
   addGoal: async (
     input: CreateGoalInput,
     catalogItems: CatalogItem[],
-    weightUnit: string = 'kg'
+    units: UnitPreferences = DEFAULT_UNITS
   ) => {
     const id = await db.addGoal(input);
-    await get().refreshGoals(catalogItems, weightUnit);
+    await get().refreshGoals(catalogItems, units);
     return id;
   },
 
@@ -179,40 +185,50 @@ export const useGoalsStore = create<GoalsState>((set, get) => ({
     id: string,
     updates: UpdateGoalInput,
     catalogItems: CatalogItem[],
-    weightUnit: string = 'kg'
+    units: UnitPreferences = DEFAULT_UNITS
   ) => {
     await db.updateGoal(id, updates);
-    await get().refreshGoals(catalogItems, weightUnit);
+    await get().refreshGoals(catalogItems, units);
   },
 
   // Mark a goal as achieved
   achieveGoal: async (
     id: string,
     catalogItems: CatalogItem[],
-    weightUnit: string = 'kg'
+    units: UnitPreferences = DEFAULT_UNITS
   ) => {
     await db.achieveGoal(id);
-    await get().refreshGoals(catalogItems, weightUnit);
+    await get().refreshGoals(catalogItems, units);
   },
 
   // Cancel a goal
   cancelGoal: async (
     id: string,
     catalogItems: CatalogItem[],
-    weightUnit: string = 'kg'
+    units: UnitPreferences = DEFAULT_UNITS
   ) => {
     await db.cancelGoal(id);
-    await get().refreshGoals(catalogItems, weightUnit);
+    await get().refreshGoals(catalogItems, units);
   },
 
   // Delete a goal
   deleteGoal: async (
     id: string,
     catalogItems: CatalogItem[],
-    weightUnit: string = 'kg'
+    units: UnitPreferences = DEFAULT_UNITS
   ) => {
     await db.deleteGoal(id);
-    await get().refreshGoals(catalogItems, weightUnit);
+    await get().refreshGoals(catalogItems, units);
+  },
+
+  // Restore a goal from the trash (undo delete)
+  restoreGoal: async (
+    id: string,
+    catalogItems: CatalogItem[],
+    units: UnitPreferences = DEFAULT_UNITS
+  ) => {
+    await db.restoreFromTrash('goals', id);
+    await get().refreshGoals(catalogItems, units);
   },
 
   // Check if any goals are achieved by a new PR
@@ -0,0 +1,33 @@
+/**
+ * Backup Types
+ *
+ * Automatic restore points: snapshots of the full export payload kept in a
+ * separate IndexedDB database so they survive an import or "Clear all data".
+ */
+
+import type { ImportTable } from './dataTransfer';
+
+/** Why a snapshot was taken */
+export type BackupReason =
+  | 'scheduled'
+  | 'manual'
+  | 'before-import'
+  | 'before-clear'
+  | 'before-restore'
+  | 'before-merge';
+
+/**
+ * A stored restore point.
+ */
+export interface BackupSnapshot {
+  id: string;
+  createdAt: number;
+  reason: BackupReason;
+  /** Record count per table, for listing without parsing `data` */
+  counts: Record<ImportTable, number>;
+  /** The `exportData` JSON (trash included), restorable through `importData` */
+  data: string;
+}
+
+/** Snapshot metadata (everything except the payload) */
+export type BackupSummary = Omit<BackupSnapshot, 'data'>;
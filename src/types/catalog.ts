@@ -1,3 +1,6 @@
+import type { AgeGroup, Division, WorkoutDefinition } from './workout';
+import type { Locale } from './i18n';
+
 /**
  * Category of a catalog item
  */
@@ -41,6 +44,13 @@ export type ScoreType =
  */
 export type Variant = 'Rx' | 'Scaled' | 'Rx+' | null;
 
+/**
+ * Units a load or distance can be recorded in
+ */
+export type WeightUnit = 'kg' | 'lb';
+export type DistanceUnit = 'm' | 'ft';
+export type MeasureUnit = WeightUnit | DistanceUnit;
+
 /**
  * Metric type for Monostructural items (what input metrics are supported)
  */
@@ -57,11 +67,13 @@ export interface CatalogItem {
   tags?: string[];
   scoreType: ScoreType;
   description?: string;
-  movements?: string[];    // Structured list of movements for benchmarks (e.g., ["Thrusters", "Pull-ups"])
+  movements?: string[];    // Free-text movement list for custom items (e.g., ["Thrusters", "Pull-ups"])
+  workout?: WorkoutDefinition; // Structured prescription (builtin benchmarks)
   aliases?: string[];      // Alternative names for search (e.g. "C&J", "Clean and Jerk")
   source?: string;         // Provenance label (e.g. "curated", "CrossFit Open", "community")
   sourceUrl?: string;      // Optional URL to the original reference
-  isBuiltin: boolean;      // true for seed items, false for user-created
+  isBuiltin: boolean;      // true for seed and pack items, false for user-created
+  packId?: string;         // Installed catalog pack providing the item
   isFavorite: boolean;     // user preference
   createdAt: number;       // timestamp
   metrics?: MetricType;    // For Monostructural items: what input metrics are supported
@@ -79,6 +91,7 @@ export interface PRLog {
   result: string;          // "4:32", "100", "18+5", etc.
   resultValue: number;     // Normalized numeric value for comparison
   scoreTypeId?: ScoreType; // The score mode this log used (for multi-mode items). Backfills to item.scoreType.
+  unit?: MeasureUnit;      // Unit of `result`/`resultValue` for Load and Distance scores
   variant: Variant;
   date: number;            // timestamp
   notes?: string;
@@ -88,24 +101,53 @@ export interface PRLog {
   timeCap?: number;        // For RepsInTime (e.g., 15 rope climbs in 120s)
   targetReps?: number;     // For TimeForReps (e.g., 10 HSPU in 0:45)
   createdAt: number;
+  deletedAt?: number;      // Timestamp when moved to the trash (absent = live)
+  updatedAt?: number;      // Timestamp of the last local write (sync)
+  scoreTypeMismatch?: boolean; // Item no longer offers this log's score type (set by an item edit or reassignment)
 }
 
+/**
+ * Editable fields of an existing PR log. `resultValue` is always recomputed
+ * from `result`; `id` and `createdAt` never change.
+ */
+export type UpdatePRLogInput = Partial<Omit<PRLog, 'id' | 'createdAt' | 'resultValue' | 'deletedAt' | 'scoreTypeMismatch' | 'updatedAt'>>;
+
 /**
  * User settings
  */
 export interface UserSettings {
-  weightUnit: 'kg' | 'lb';
-  distanceUnit: 'm' | 'ft';
+  weightUnit: WeightUnit;
+  distanceUnit: DistanceUnit;
   hasSeenOnboarding?: boolean;
   /** Minimum hours of sleep considered "good" for recovery scoring. Default: 7 */
   minSleepHours?: number;
+  /** Hours between automatic backups; 0 turns scheduled backups off. Default: 24 */
+  backupIntervalHours?: number;
+  /** Number of automatic restore points kept. Default: 10 */
+  backupRetention?: number;
+  /** Days deleted logs, goals and check-ins stay in the trash. Default: 30 */
+  trashRetentionDays?: number;
+  /** Builtin catalog version this device's logs, goals and favorites were last migrated to */
+  catalogVersion?: number;
+  /** Division the athlete's Rx and Scaled loads are shown for; unset shows both */
+  division?: Division;
+  /** Age group within the division. Default: 'open' */
+  ageGroup?: AgeGroup;
+  /** Language of app text and catalog names; unset follows the device */
+  language?: Locale;
 }
 
+/**
+ * The unit preferences results are displayed and compared in
+ */
+export type UnitPreferences = Pick<UserSettings, 'weightUnit' | 'distanceUnit'>;
+
 /**
  * Favorite item reference (stores only the itemId)
  */
 export interface Favorite {
   id: string; // Same as the catalog item ID
+  updatedAt?: number; // Timestamp of the last local write (sync)
 }
 
 /**
@@ -119,7 +161,7 @@ export interface CustomItem {
   tags?: string[];
   scoreType: ScoreType;
   description?: string;
-  movements?: string[];    // Structured list of movements for benchmarks
+  movements?: string[];    // Free-text movement list
   aliases?: string[];
   source?: string;
   sourceUrl?: string;
@@ -128,4 +170,78 @@ export interface CustomItem {
   timeCap?: number;        // For RepsInTime items: default time cap in seconds
   targetReps?: number;     // For TimeForReps items: default rep target
   scoreTypeIds?: ScoreType[]; // Allowed score modes; when set (>1) the item is multi-mode. `scoreType` is the default.
+  workout?: WorkoutDefinition; // Structured prescription, when kept from a catalog pack
+  originPackId?: string;   // Catalog pack the item was kept from after an uninstall or upgrade
+  updatedAt?: number;      // Timestamp of the last local write (sync)
+}
+
+/**
+ * Fields the user sets when creating or editing a custom item
+ */
+export type CustomItemInput = Omit<CatalogItem, 'id' | 'isBuiltin' | 'isFavorite' | 'createdAt' | 'packId'>;
+
+/**
+ * What happens to a custom item's logs and goals when it is deleted:
+ * deleted along with it, or moved onto another catalog item.
+ */
+export type CustomItemDisposal =
+  | { mode: 'cascade' }
+  | { mode: 'reassign'; targetItemId: string };
+
+/**
+ * Outcome of moving logs between score-type sets (item edit or reassignment).
+ * `migrated` logs were converted to the new default score type; `flagged`
+ * logs kept a score type the item no longer offers.
+ */
+export interface ScoreTypeMigrationSummary {
+  migrated: number;
+  flagged: number;
+}
+
+/**
+ * Options for folding a custom item into a builtin item
+ */
+export interface CustomItemMergeOptions {
+  /** Reps stamped on load logs that don't record any (e.g. "Back squat 5RM" → 5) */
+  defaultReps?: number;
+}
+
+/**
+ * What a custom → builtin merge did
+ */
+export interface CustomItemMergeSummary extends ScoreTypeMigrationSummary {
+  logs: number;
+  goals: number;
+  constraintsFilled: number;
+}
+
+/**
+ * Score pool of a multi-mode item: a score type plus the constraint that
+ * keeps its results comparable
+ */
+export interface CatalogRedirectPool {
+  scoreTypeId: ScoreType;
+  timeCap?: number;
+  targetReps?: number;
+}
+
+/**
+ * A retired builtin id and where its history lives now (src/catalog/redirects.json).
+ * Without a `pool` the id was renamed; with one, the old item was folded into
+ * that score pool of the target.
+ */
+export interface CatalogRedirect {
+  from: string;
+  to: string;
+  since: number;           // Catalog version that retired `from`
+  pool?: CatalogRedirectPool;
+  note?: string;
+}
+
+/**
+ * Contents of src/catalog/redirects.json
+ */
+export interface CatalogRedirectMap {
+  version: number;         // Builtin catalog version; bumped by every id change
+  redirects: CatalogRedirect[];
 }
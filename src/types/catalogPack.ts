@@ -0,0 +1,66 @@
+/**
+ * Catalog Pack Types
+ *
+ * A catalog pack is a JSON file of extra catalog items — a gym's own named
+ * benchmarks, say — in the same shape as the builtin `benchmarks_*.json`
+ * files, plus metadata and a version. Installed packs live in their own
+ * Dexie table and are merged into the catalog alongside builtin and custom
+ * items. Installing a higher version upgrades a pack in place; uninstalling
+ * keeps any item that has logs, goals or a favorite as a custom item.
+ */
+
+import type { CatalogItem } from './catalog';
+
+/**
+ * An item as written in a pack (or builtin catalog) file
+ */
+export type CatalogItemData = Omit<CatalogItem, 'isBuiltin' | 'isFavorite' | 'createdAt' | 'packId'>;
+
+/**
+ * Contents of a pack file
+ */
+export interface CatalogPackFile {
+  format: 'crossfit-toolkit-pack';
+  id: string;                // Stable pack id, e.g. "ironworks-benchmarks"
+  name: string;
+  version: number;           // Positive integer; installing a higher version upgrades
+  author?: string;
+  description?: string;
+  url?: string;
+  items: CatalogItemData[];
+}
+
+/**
+ * A pack as stored on this device
+ */
+export interface InstalledCatalogPack extends Omit<CatalogPackFile, 'format'> {
+  installedAt: number;
+  updatedAt: number;         // Last install or upgrade
+}
+
+/**
+ * What installing a pack file would do, for review before applying
+ */
+export interface CatalogPackInstallPlan {
+  pack: CatalogPackFile;
+  /** Version on this device, when upgrading */
+  installedVersion?: number;
+  added: string[];
+  updated: string[];
+  /** Items dropped by the new version; those with history stay as custom items */
+  removed: string[];
+  /** Custom items (kept from an earlier uninstall of this pack) the pack takes back */
+  reclaimed: string[];
+}
+
+/**
+ * What an install, upgrade or uninstall did
+ */
+export interface CatalogPackChangeSummary {
+  /** Items kept as custom items because they had logs, goals or a favorite */
+  keptAsCustom: number;
+  /** Logs converted to a changed item's new default score type */
+  migrated: number;
+  /** Logs keeping a score type the changed item no longer offers */
+  flagged: number;
+}
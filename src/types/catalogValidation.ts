@@ -0,0 +1,76 @@
+/**
+ * Catalog Validation Types
+ *
+ * Violations of the catalog rules (src/utils/catalogValidation.ts), shared by
+ * the catalog check script, catalog packs, custom items and imports. Each
+ * violation has a stable code for callers to branch on, the path of the
+ * offending field, and a message for people.
+ */
+
+export type CatalogIssueCode =
+  // Items
+  | 'not-an-object'
+  | 'missing-id'
+  | 'missing-name'
+  | 'duplicate-id'
+  | 'reserved-id'              // A builtin id, where only new ids are allowed
+  | 'id-in-use'                // Taken by another pack or a custom item
+  | 'invalid-category'
+  | 'invalid-subcategory'
+  | 'invalid-score-type'
+  | 'default-score-type-not-listed'
+  | 'invalid-constraint'       // timeCap / targetReps
+  | 'invalid-metrics'
+  | 'metrics-not-monostructural'
+  | 'invalid-text'             // A text field that isn't text
+  | 'invalid-movements'        // Free-text movement list that isn't a list of text
+  | 'free-text-movements'      // Free-text movements on a builtin or pack item
+  | 'missing-workout'
+  // Workouts
+  | 'invalid-workout'
+  | 'invalid-workout-format'
+  | 'invalid-workout-count'    // rounds, repIncrement, repScheme
+  | 'invalid-workout-duration' // duration, interval, timeCap, rest
+  | 'unknown-movement'
+  | 'invalid-movement-amount'  // reps, max, distance, calories
+  | 'invalid-load'
+  | 'invalid-standard'
+  | 'invalid-height'
+  | 'invalid-scoring'
+  // Movement library
+  | 'invalid-equipment'
+  | 'invalid-pattern'
+  | 'invalid-variant'
+  | 'invalid-related-item'
+  // Division guide
+  | 'invalid-age-group'
+  | 'invalid-fraction'
+  | 'invalid-rounding'
+  // Redirects
+  | 'invalid-redirect'
+  | 'retired-id-in-catalog'
+  | 'redirect-cycle'
+  | 'redirect-target-missing'
+  | 'invalid-pool'
+  // Translations
+  | 'invalid-translation'
+  // Pack metadata
+  | 'invalid-pack'
+  // Files
+  | 'unreadable-file';
+
+/**
+ * One rule violation
+ */
+export interface CatalogIssue {
+  code: CatalogIssueCode;
+  /** Path of the offending field within the checked value, e.g. "workout.movements[0].load" ('' for the value itself) */
+  path: string;
+  message: string;
+}
+
+/**
+ * Which rules an item is held to: builtin and pack items describe workouts
+ * with a structured `workout`; custom items may use free-text `movements`
+ */
+export type CatalogItemSource = 'catalog' | 'custom';
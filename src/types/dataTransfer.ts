@@ -0,0 +1,237 @@
+/**
+ * Data Transfer Types
+ *
+ * Shapes used when moving user data in and out of the app: the normalized
+ * export payload, the merge-import plan built from it, and log imports from
+ * CSV files and other training apps.
+ */
+
+import type { CustomItem, Favorite, PRLog, ScoreType, UserSettings } from './catalog';
+import type { CatalogIssueCode } from './catalogValidation';
+import type { Goal } from './goal';
+import type { DailyCheckIn } from './training';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXPORT PAYLOAD
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * User data tables that travel in an export file.
+ * Settings are handled separately (they are device-level, not records).
+ */
+export type ImportTable = 'favorites' | 'customItems' | 'prLogs' | 'goals' | 'dailyCheckIns';
+
+/**
+ * An export file normalized to the current schema, regardless of the version
+ * it was written with. Tables missing from older versions are empty arrays.
+ */
+export interface ExportPayload {
+  favorites: Favorite[];
+  customItems: CustomItem[];
+  prLogs: PRLog[];
+  goals: Goal[];
+  dailyCheckIns: DailyCheckIn[];
+  settings?: UserSettings;
+}
+
+/** Record type stored in a given import table. */
+export type ImportRecord<T extends ImportTable> = ExportPayload[T][number];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENCRYPTED EXPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Passphrase-encrypted export file. The plaintext is a regular export JSON;
+ * the key comes from PBKDF2 over the passphrase, the data is sealed with
+ * AES-GCM, and every field except `data` and `headerCheck` is bound in as
+ * associated data.
+ */
+export interface EncryptedExportEnvelope {
+  format: 'crossfit-toolkit-encrypted';
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  /** Hash of extra derived key material — tells a wrong passphrase apart from a tampered file */
+  keyCheck: string;
+  /** Hash of the other header fields — tells an edited salt or iteration count apart from a wrong passphrase */
+  headerCheck: string;
+  /** Base64 ciphertext (including the GCM tag) */
+  data: string;
+}
+
+/**
+ * Why an encrypted export couldn't be opened.
+ * - passphrase-required: the file is encrypted and no passphrase was given
+ * - wrong-passphrase: the passphrase doesn't match the file
+ * - tampered: the header was edited, or the contents fail authentication
+ * - unsupported-version: written by a newer envelope version
+ * - malformed: not a readable envelope
+ */
+export type ExportCryptoErrorCode =
+  | 'passphrase-required'
+  | 'wrong-passphrase'
+  | 'tampered'
+  | 'unsupported-version'
+  | 'malformed';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MERGE IMPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * How a merge import resolves conflicting records.
+ * - keep-local: the record already on this device wins
+ * - keep-incoming: the record from the file wins
+ * - newest-wins: whichever record was created/changed most recently wins
+ */
+export type MergeStrategy = 'keep-local' | 'keep-incoming' | 'newest-wins';
+
+/**
+ * Why two records conflict.
+ * - content: same id, different content
+ * - date: different ids for the same calendar day (daily check-ins only)
+ */
+export type MergeConflictKind = 'content' | 'date';
+
+/**
+ * A local record and an incoming record that can't both be kept as-is.
+ */
+export interface MergeConflict<T> {
+  kind: MergeConflictKind;
+  local: T;
+  incoming: T;
+}
+
+/**
+ * Dry-run result for one table: what an import would do before any strategy
+ * is applied.
+ */
+export interface TableMergePlan<T> {
+  /** Incoming records with no local counterpart */
+  added: T[];
+  /** Incoming records identical to the local copy (nothing to do) */
+  identical: T[];
+  /** Incoming records that clash with a local record */
+  conflicts: MergeConflict<T>[];
+}
+
+/**
+ * Dry-run result for a whole import file, one plan per table.
+ */
+export type MergePlan = {
+  [K in ImportTable]: TableMergePlan<ImportRecord<K>>;
+};
+
+/**
+ * Per-table counts shown in the import preview once a strategy is chosen.
+ */
+export interface TableMergeSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+  conflicting: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// IMPORT VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Where in an export file a validation issue was found.
+ * `catalogItems` only exists in v1 files; `file` covers top-level problems.
+ */
+export type ImportIssueSource = ImportTable | 'catalogItems' | 'settings' | 'file';
+
+/**
+ * A single problem found while validating an export file.
+ */
+export interface ImportIssue {
+  table: ImportIssueSource;
+  /** Row index within the table (absent for file/settings-level issues) */
+  index?: number;
+  /** Record id, when the row has a readable one */
+  recordId?: string;
+  /** Offending field, when the problem is field-specific */
+  field?: string;
+  message: string;
+  /** Catalog rule broken, for custom and catalog items */
+  code?: CatalogIssueCode;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LOG FILE IMPORT (CSV)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A CSV data row keyed by normalized header (lowercase, underscores).
+ */
+export interface CsvRecord {
+  /** 1-based line number in the file, for error reporting */
+  line: number;
+  values: Record<string, string>;
+}
+
+/** A new PR log parsed from an import file, ready for `addPRLogs` */
+export type NewPRLog = Omit<PRLog, 'id' | 'createdAt'>;
+
+/**
+ * A row from an import file that couldn't be turned into a log.
+ */
+export interface SkippedImportRow {
+  /** 1-based line number in the source file */
+  line: number;
+  reason: string;
+}
+
+/**
+ * Dry-run result of reading a log file: logs ready to write plus every row
+ * that was skipped and why.
+ */
+export interface LogImportPreview {
+  logs: NewPRLog[];
+  skipped: SkippedImportRow[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXTERNAL APP IMPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * One result read from another app's export, before it is matched to a
+ * catalog item. Fields are raw cell text; hints are optional.
+ */
+export interface SourceLogRow {
+  /** 1-based line number in the source file */
+  line: number;
+  /** Workout or movement name as the other app spells it */
+  name: string;
+  date: string;
+  result: string;
+  notes?: string;
+  variant?: string;
+  /** Score type hint (id or display name) when the source records one */
+  scoreType?: string;
+  reps?: string;
+}
+
+/**
+ * Reads one app's CSV export into source rows. Adapters are registered in
+ * `services/importers` and auto-detected from the header row.
+ */
+export interface LogImportAdapter {
+  id: string;
+  name: string;
+  description: string;
+  /** Whether a file with these (normalized) headers looks like this format */
+  detect: (headers: string[]) => boolean;
+  readRows: (records: CsvRecord[]) => SourceLogRow[];
+}
+
+/**
+ * What to do with every row sharing a source name.
+ */
+export type NameMapping =
+  | { kind: 'item'; itemId: string }
+  | { kind: 'create'; scoreType: ScoreType }
+  | { kind: 'skip' };
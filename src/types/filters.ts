@@ -0,0 +1,52 @@
+/**
+ * Catalog Filter Types
+ *
+ * Facets the catalog can be narrowed by on top of the category chips. Values
+ * within one facet combine with OR, facets combine with AND. The whole state
+ * round-trips through the Search page URL so a filtered view can be
+ * bookmarked.
+ */
+
+import type { Category, ScoreType, SubCategory } from './catalog';
+import type { MovementEquipment } from './movement';
+
+/**
+ * Whether the athlete has logged an item
+ */
+export type LogStatus = 'logged' | 'never';
+
+export interface CatalogFilters {
+  query: string;
+  category: Category | 'All';
+  subCategories: SubCategory[];
+  tags: string[];
+  scoreTypes: ScoreType[];
+  openYears: number[];
+  logStatus: LogStatus | null;
+  favoritesOnly: boolean;
+  equipment: MovementEquipment[];
+}
+
+/**
+ * Facets with selectable values and counts
+ */
+export type FacetKey = 'subCategories' | 'tags' | 'scoreTypes' | 'openYears' | 'logStatus' | 'favoritesOnly' | 'equipment';
+
+/**
+ * A facet value and how many items it would show given the other active
+ * filters
+ */
+export interface FacetOption<T = string> {
+  value: T;
+  count: number;
+}
+
+export interface FacetCounts {
+  subCategories: FacetOption<SubCategory>[];
+  tags: FacetOption[];
+  scoreTypes: FacetOption<ScoreType>[];
+  openYears: FacetOption<number>[];
+  logStatus: FacetOption<LogStatus>[];
+  favoritesOnly: FacetOption<true>[];
+  equipment: FacetOption<MovementEquipment>[];
+}
@@ -1,4 +1,4 @@
-import type { Variant, ScoreType } from './catalog';
+import type { Variant, ScoreType, MeasureUnit } from './catalog';
 
 /**
  * Goal status
@@ -16,7 +16,8 @@ export type TrendStatus = 'ahead' | 'on_track' | 'behind' | 'no_data';
 export interface Goal {
   id: string;
   itemId: string;              // Reference to catalog item
-  targetValue: number;         // Normalized value (kg, seconds, reps)
+  targetValue: number;         // Normalized value (load/distance in `unit`, seconds, reps)
+  unit?: MeasureUnit;          // Unit of `targetValue` for Load and Distance goals
   targetDate: string;          // ISO date string (YYYY-MM-DD)
   createdAt: string;           // ISO date string when goal was created
   status: GoalStatus;
@@ -26,6 +27,8 @@ export interface Goal {
   scoreTypeId?: ScoreType;     // For multi-mode items: which score pool the goal targets. Backfills to item.scoreType.
   timeCap?: number;            // Constraint pool for RepsInTime goals (seconds)
   targetReps?: number;         // Constraint pool for TimeForReps goals
+  deletedAt?: number;          // Timestamp when moved to the trash (absent = live)
+  updatedAt?: number;          // Timestamp of the last local write (sync)
 }
 
 /**
@@ -48,6 +51,7 @@ export interface GoalWithProgress extends Goal {
 export interface CreateGoalInput {
   itemId: string;
   targetValue: number;
+  unit?: MeasureUnit;
   targetDate: string;
   variant?: Variant;
   reps?: number;
@@ -61,6 +65,7 @@ export interface CreateGoalInput {
  */
 export interface UpdateGoalInput {
   targetValue?: number;
+  unit?: MeasureUnit;
   targetDate?: string;
   status?: GoalStatus;
   achievedAt?: string;
@@ -0,0 +1,36 @@
+/**
+ * Localization Types
+ *
+ * Languages the app ships message catalogs for (src/i18n) and the shape of
+ * those catalogs. English is the source: other catalogs may leave messages
+ * out, which then show in English.
+ */
+
+import type { en } from '../i18n/en';
+
+/**
+ * A supported language
+ */
+export type Locale = 'en' | 'es' | 'de';
+
+/** Plural category from Intl.PluralRules */
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+/**
+ * A message with {name} placeholders, or its plural forms chosen by the
+ * `count` parameter
+ */
+export type Message = string | (Partial<Record<PluralCategory, string>> & { other: string });
+
+export type MessageKey = keyof typeof en;
+
+export type MessageCatalog = Partial<Record<MessageKey, Message>>;
+
+/** Values for a message's {name} placeholders; numbers are formatted for the locale */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Localized text of builtin catalog items by item id
+ * (src/catalog/i18n/<locale>.json). Ids and aliases are never translated.
+ */
+export type CatalogTranslations = Record<string, { name?: string; description?: string }>;
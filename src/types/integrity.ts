@@ -0,0 +1,62 @@
+/**
+ * Data Integrity Types
+ *
+ * A scan of the user data tables for records the app can't use or
+ * shows wrongly, plus reviewable repairs for each kind of problem. See
+ * `scanIntegrity` / `planIntegrityRepair` in src/db/integrity.ts.
+ */
+
+import type { ImportTable, ImportRecord } from './dataTransfer';
+import type { TrashTable } from './trash';
+
+/** Kinds of problems a scan looks for */
+export type IntegrityProblemKind =
+  | 'orphan-log'          // Log whose catalog item no longer exists
+  | 'orphan-goal'         // Goal whose catalog item no longer exists
+  | 'duplicate-check-in'  // More than one live check-in for a date
+  | 'result-mismatch'     // Log whose resultValue doesn't match its result
+  | 'id-collision';       // Record overwritten by another that reused its id
+
+/**
+ * One problem record found by a scan
+ */
+export interface IntegrityIssue {
+  kind: IntegrityProblemKind;
+  table: TrashTable;
+  recordId: string;
+  /** Short human description of what's wrong */
+  message: string;
+}
+
+/**
+ * Result of scanning every table. Kinds with no issues have empty lists.
+ */
+export interface IntegrityReport {
+  scannedAt: number;
+  issues: Record<IntegrityProblemKind, IntegrityIssue[]>;
+}
+
+/**
+ * A single write a repair makes
+ */
+export type RepairOperation =
+  | { op: 'add'; table: ImportTable; record: ImportRecord<ImportTable> }
+  | { op: 'update'; table: TrashTable; id: string; changes: Record<string, unknown> }
+  | { op: 'trash'; table: TrashTable; id: string };
+
+/**
+ * One reviewable step of a repair
+ */
+export interface RepairStep {
+  description: string;
+  operation: RepairOperation;
+}
+
+/**
+ * Everything a repair for one problem kind will change. Nothing is written
+ * until it's applied.
+ */
+export interface RepairPlan {
+  kind: IntegrityProblemKind;
+  steps: RepairStep[];
+}
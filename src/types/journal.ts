@@ -0,0 +1,83 @@
+/**
+ * Change Journal Types
+ *
+ * Every write to user data lands in the `changes` table: which record, how
+ * it changed, the operation that changed it, and snapshots from before and
+ * after. Read through `getChanges` / `getRecordHistory` in src/db.
+ */
+
+import type { ImportTable } from './dataTransfer';
+
+/** Tables whose writes are journaled */
+export type JournalTable = ImportTable | 'settings';
+
+/** What happened to the record */
+export type ChangeOp = 'create' | 'update' | 'delete';
+
+/**
+ * The operation that made a change. Writes that didn't go through a
+ * labeled operation are recorded as `other`.
+ */
+export type ChangeAction =
+  | 'initialize'
+  | 'migrate-catalog'
+  | 'toggle-favorite'
+  | 'add-custom-item'
+  | 'update-custom-item'
+  | 'delete-custom-item'
+  | 'merge-custom-item'
+  | 'install-pack'
+  | 'uninstall-pack'
+  | 'add-log'
+  | 'import-logs'
+  | 'update-log'
+  | 'delete-log'
+  | 'update-settings'
+  | 'import-data'
+  | 'merge-import'
+  | 'add-goal'
+  | 'update-goal'
+  | 'achieve-goal'
+  | 'reopen-goal'
+  | 'cancel-goal'
+  | 'delete-goal'
+  | 'save-check-in'
+  | 'delete-check-in'
+  | 'restore-from-trash'
+  | 'purge-from-trash'
+  | 'empty-trash'
+  | 'sync'
+  | 'repair-integrity'
+  | 'other';
+
+/**
+ * One journaled write. `before` is absent for creates, `after` for deletes.
+ */
+export interface ChangeEntry {
+  id?: number;                 // Auto-increment, in write order
+  table: JournalTable;
+  recordId: string;
+  op: ChangeOp;
+  action: ChangeAction;
+  timestamp: number;
+  /** Catalog items the record belonged to before and after (for per-item history) */
+  itemIds: string[];
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Filter for reading the journal. All fields are optional and combine with AND.
+ */
+export interface ChangeQuery {
+  table?: JournalTable;
+  recordId?: string;
+  itemId?: string;
+  action?: ChangeAction;
+  /** Only changes at or after this timestamp */
+  since?: number;
+  /** Only changes before this timestamp */
+  until?: number;
+  /** Newest-first cap on the number of entries */
+  limit?: number;
+}
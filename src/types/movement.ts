@@ -0,0 +1,63 @@
+/**
+ * Movement Library Types
+ *
+ * Canonical movements (src/catalog/movements.json) that benchmark workouts
+ * reference by id, so "Pull-ups" in Fran, the Pull-ups skill test and C2B
+ * pull-ups in an Open workout are known to be related.
+ */
+
+/**
+ * Equipment a movement needs ('none' for bodyweight)
+ */
+export type MovementEquipment =
+  | 'none'
+  | 'barbell'
+  | 'dumbbell'
+  | 'kettlebell'
+  | 'medicine-ball'
+  | 'pull-up-bar'
+  | 'rings'
+  | 'parallettes'
+  | 'box'
+  | 'jump-rope'
+  | 'rope'
+  | 'peg-board'
+  | 'wall'
+  | 'ghd'
+  | 'rower'
+  | 'bike'
+  | 'ski-erg'
+  | 'sled'
+  | 'sandbag'
+  | 'strongman'
+  | 'water';
+
+/**
+ * Movement pattern, for grouping in the movement browser
+ */
+export type MovementPattern =
+  | 'squat'
+  | 'hinge'
+  | 'press'
+  | 'pull'
+  | 'olympic-lift'
+  | 'lunge'
+  | 'jump'
+  | 'core'
+  | 'inversion'
+  | 'full-body'
+  | 'carry'
+  | 'locomotion';
+
+/**
+ * A canonical movement
+ */
+export interface Movement {
+  id: string;
+  name: string;
+  aliases?: string[];
+  equipment: MovementEquipment[];
+  pattern: MovementPattern;
+  variantOf?: string;         // Parent movement (one level): C2B pull-up → pull-up
+  relatedItemIds?: string[];  // Lift, skill and monostructural items that test it
+}
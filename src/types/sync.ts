@@ -0,0 +1,103 @@
+/**
+ * Sync Types
+ *
+ * Optional sync with a self-hosted server (see docs/SYNC_PROTOCOL.md). Each
+ * user data table travels as a change feed: live records stamped with
+ * `updatedAt`, plus tombstones for records deleted since the last sync.
+ * Conflicts resolve last-writer-wins on those timestamps.
+ */
+
+import type { ImportRecord, ImportTable } from './dataTransfer';
+
+/**
+ * Tables that sync — the same user data tables an export carries.
+ * Settings stay per device.
+ */
+export type SyncTable = ImportTable;
+
+/** A record as it travels over the wire: always stamped */
+export type SyncRecord<T extends SyncTable = SyncTable> = ImportRecord<T> & { updatedAt: number };
+
+/**
+ * A permanently deleted record. `deletedAt` competes with `updatedAt` under
+ * last-writer-wins, so an edit made after the delete brings the record back.
+ */
+export interface SyncTombstone {
+  id: string;
+  deletedAt: number;
+}
+
+/** Changes to one table */
+export interface SyncTableChanges<T extends SyncTable = SyncTable> {
+  records: SyncRecord<T>[];
+  tombstones: SyncTombstone[];
+}
+
+/** Changes to every synced table */
+export type SyncChangeSet = { [T in SyncTable]: SyncTableChanges<T> };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROTOCOL
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Response to `GET /v1/athletes/:athleteId/changes?since=<cursor>` */
+export interface SyncPullResponse {
+  /** Pass back as `since` on the next pull */
+  cursor: number;
+  changes: SyncChangeSet;
+}
+
+/** Body of `POST /v1/athletes/:athleteId/changes` */
+export interface SyncPushRequest {
+  deviceId: string;
+  changes: SyncChangeSet;
+}
+
+/** Response to a push */
+export interface SyncPushResponse {
+  cursor: number;
+  /** Entries that replaced what the server had */
+  applied: number;
+  /** Entries the server already had a newer (or equal) version of */
+  ignored: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CLIENT STATE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Where and as whom this device syncs. Stored on the device only — never
+ * exported or synced.
+ */
+export interface SyncConfig {
+  serverUrl: string;
+  athleteId: string;
+  /** Bearer token, when the server is started with one */
+  token?: string;
+}
+
+/**
+ * Sync bookkeeping for this device (single row, id `default`).
+ */
+export interface SyncState extends SyncConfig {
+  id: 'default';
+  /** Random id sent with pushes, so the server log can tell devices apart */
+  deviceId: string;
+  /** Server cursor from the last successful pull */
+  cursor: number;
+  /** Highest `updatedAt` pushed so far; newer local records are pending */
+  pushedUpTo: number;
+  /** Ids present after the last sync — ones missing now become tombstones */
+  knownIds: Record<SyncTable, string[]>;
+  lastSyncedAt?: number;
+  lastError?: string;
+}
+
+/** Outcome of one sync run */
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+  /** Local check-ins dropped because a newer one for the same date arrived */
+  replacedCheckIns: number;
+}
@@ -61,6 +61,12 @@ export interface DailyCheckIn {
 
   /** Timestamp when the check-in was created */
   createdAt: number;
+
+  /** Timestamp when the check-in was moved to the trash (absent = live) */
+  deletedAt?: number;
+
+  /** Timestamp of the last local write (sync) */
+  updatedAt?: number;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
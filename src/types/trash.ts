@@ -0,0 +1,22 @@
+/**
+ * Trash Types
+ *
+ * Soft-deleted records. Logs, goals and check-ins carry a `deletedAt`
+ * timestamp while in the trash and are hidden from every read path until
+ * restored or purged.
+ */
+
+import type { PRLog } from './catalog';
+import type { Goal } from './goal';
+import type { DailyCheckIn } from './training';
+
+/** Tables whose deletes go to the trash */
+export type TrashTable = 'prLogs' | 'goals' | 'dailyCheckIns';
+
+/**
+ * A trashed record tagged with its table.
+ */
+export type TrashedRecord =
+  | { table: 'prLogs'; record: PRLog & { deletedAt: number } }
+  | { table: 'goals'; record: Goal & { deletedAt: number } }
+  | { table: 'dailyCheckIns'; record: DailyCheckIn & { deletedAt: number } };
@@ -0,0 +1,144 @@
+/**
+ * Workout Definition Types
+ *
+ * Structured form of a benchmark's prescription — format, rounds, rep
+ * scheme, movements with reps and Rx loads, time cap and scoring — so the
+ * app can format loads in the athlete's units and reason about volume.
+ * Builtin benchmarks carry one as `CatalogItem.workout`; free-text
+ * `movements` remain for custom items.
+ */
+
+import type { ScoreType, WeightUnit } from './catalog';
+
+/**
+ * How the workout is run
+ */
+export type WorkoutFormat =
+  | 'ForTime'    // Complete the work as fast as possible
+  | 'AMRAP'      // As many rounds/reps as possible in `duration`
+  | 'EMOM'       // Work starts every `interval` (default 1 min)
+  | 'Intervals'  // Fixed work intervals with set rest (Tabata, Fight Gone Bad)
+  | 'MaxReps'    // Max reps per set or round
+  | 'MaxLoad';   // Build to a heavy single, complex or set
+
+/**
+ * Division an Rx standard is prescribed for
+ */
+export type Division = 'men' | 'women';
+
+/**
+ * Age group within a division; 'open' has no age limits
+ */
+export type AgeGroup =
+  | 'open'
+  | 'teens-14-15'
+  | 'teens-16-17'
+  | 'masters-35-39'
+  | 'masters-40-44'
+  | 'masters-45-49'
+  | 'masters-50-54'
+  | 'masters-55-59'
+  | 'masters-60-64'
+  | 'masters-65';
+
+/**
+ * The division an athlete competes in
+ */
+export interface AthleteDivision {
+  division: Division;
+  ageGroup: AgeGroup;
+}
+
+/**
+ * Level a standard is prescribed at. Rx+ has no standard of its own.
+ */
+export type StandardLevel = 'Rx' | 'Scaled';
+
+/**
+ * A movement's load for some age groups at one level, where it is known.
+ * Takes precedence over the division guide (src/catalog/divisionStandards.json).
+ */
+export interface DivisionStandard {
+  ageGroups: AgeGroup[];
+  level: StandardLevel;
+  load: WorkoutLoad;
+}
+
+/**
+ * How an age group's loads relate to the open Rx load when a movement lists
+ * no standard for it
+ */
+export interface AgeGroupGuide {
+  id: AgeGroup;
+  label: string;
+  /** Fraction of the open Rx load for each level */
+  rx: number;
+  scaled: number;
+}
+
+/**
+ * Division guide: age groups in display order and the increments derived
+ * loads are rounded to, by movement equipment ('default' for anything else)
+ */
+export interface DivisionGuide {
+  ageGroups: AgeGroupGuide[];
+  rounding: Record<string, Record<WeightUnit, number>>;
+}
+
+/**
+ * Rx load of a movement: per-division weights (`women` absent when only
+ * one weight is prescribed), or a multiple of bodyweight
+ */
+export type WorkoutLoad =
+  | { men: number; women?: number; unit: WeightUnit }
+  | { bodyweight: number };
+
+/** Course distance — shown as prescribed, never converted */
+export interface WorkoutDistance {
+  value: number;
+  unit: 'm' | 'km' | 'mi' | 'ft' | 'yd';
+}
+
+/** Box or target height per division */
+export interface WorkoutHeight {
+  men: number;
+  women?: number;
+  unit: 'in' | 'ft' | 'cm';
+}
+
+/**
+ * One movement of a workout. With a `repScheme` the reps come from the
+ * scheme and `reps` is absent.
+ */
+export interface WorkoutMovement {
+  movementId: string;         // Canonical movement (src/catalog/movements.json)
+  name: string;               // As prescribed, e.g. "Thrusters", "KB Swings"
+  reps?: number;
+  max?: boolean;              // Max reps / max effort instead of a rep count
+  distance?: WorkoutDistance;
+  calories?: number;
+  load?: WorkoutLoad;
+  height?: WorkoutHeight;
+  standards?: DivisionStandard[]; // Known Scaled / age-group loads; `load` is the open Rx
+  notes?: string;             // e.g. "each arm", "calories", "unbroken"
+}
+
+/**
+ * Structured prescription of a benchmark
+ */
+export interface WorkoutDefinition {
+  format: WorkoutFormat;
+  rounds?: number;            // Rounds (or sets / cycles) of the movement list
+  repScheme?: number[];       // Reps per round for every movement, e.g. [21, 15, 9]
+  repIncrement?: number;      // Reps added to each movement every round (ladders, "Death by")
+  duration?: number;          // AMRAP / EMOM length in seconds
+  interval?: number;          // EMOM / interval length in seconds
+  timeCap?: number;           // Seconds
+  rest?: number;              // Seconds between rounds
+  notes?: string;
+  movements: WorkoutMovement[];
+  scoring: {
+    scoreType: ScoreType;     // One of the item's score modes
+    notes?: string;
+  };
+}
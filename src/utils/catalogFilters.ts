@@ -0,0 +1,281 @@
+/**
+ * Catalog Filters
+ *
+ * Faceted filtering for the catalog: which items pass the active filters,
+ * how many items each facet value would show (counted against every other
+ * active filter, so the numbers stay honest as filters combine), and the
+ * URL encoding of the filter state.
+ */
+
+import { SCORE_TYPES, getScoreModes } from '../config/scoreTypes';
+import { EQUIPMENT_LABELS, getItemEquipment } from './movements';
+import { CATEGORIES, SUB_CATEGORIES } from './catalogValidation';
+import { getBuiltinItemsBySubCategory, getBuiltinItemsByTag, isBuiltinCatalogLoaded } from '../catalog/catalogService';
+import type { CatalogItem, ScoreType } from '../types/catalog';
+import type { CatalogFilters, FacetCounts, FacetKey, FacetOption, LogStatus } from '../types/filters';
+import type { MovementEquipment } from '../types/movement';
+
+const YEAR_TAG = /^\d{4}$/;
+
+export const DEFAULT_CATALOG_FILTERS: CatalogFilters = {
+  query: '',
+  category: 'All',
+  subCategories: [],
+  tags: [],
+  scoreTypes: [],
+  openYears: [],
+  logStatus: null,
+  favoritesOnly: false,
+  equipment: [],
+};
+
+/**
+ * What filtering needs beyond the items themselves
+ */
+export interface FilterContext {
+  /** Items with at least one (non-trashed) log */
+  loggedItemIds: Set<string>;
+}
+
+/**
+ * Per-item values the facets test, computed once per catalog
+ */
+export interface FacetIndex {
+  equipment: Map<string, MovementEquipment[]>;
+}
+
+export const createFacetIndex = (items: CatalogItem[]): FacetIndex => ({
+  equipment: new Map(items.map((item) => [item.id, getItemEquipment(item)])),
+});
+
+/**
+ * Year of an Open workout, from its year tag ("2024")
+ */
+export const getOpenYear = (item: CatalogItem): number | undefined => {
+  if (item.subCategory !== 'Open') return undefined;
+  const tag = item.tags?.find((candidate) => YEAR_TAG.test(candidate));
+  return tag ? Number(tag) : undefined;
+};
+
+/** Tags offered as a facet; year tags are covered by the Open year facet */
+const facetTags = (item: CatalogItem): string[] => (item.tags ?? []).filter((tag) => !YEAR_TAG.test(tag));
+
+const matchesFacet = (
+  item: CatalogItem,
+  key: FacetKey,
+  filters: CatalogFilters,
+  context: FilterContext,
+  index: FacetIndex
+): boolean => {
+  switch (key) {
+    case 'subCategories':
+      return filters.subCategories.length === 0 || (!!item.subCategory && filters.subCategories.includes(item.subCategory));
+    case 'tags':
+      return filters.tags.length === 0 || facetTags(item).some((tag) => filters.tags.includes(tag));
+    case 'scoreTypes':
+      return filters.scoreTypes.length === 0 || getScoreModes(item).some((type) => filters.scoreTypes.includes(type));
+    case 'openYears': {
+      if (filters.openYears.length === 0) return true;
+      const year = getOpenYear(item);
+      return year !== undefined && filters.openYears.includes(year);
+    }
+    case 'logStatus':
+      return !filters.logStatus || context.loggedItemIds.has(item.id) === (filters.logStatus === 'logged');
+    case 'favoritesOnly':
+      return !filters.favoritesOnly || item.isFavorite;
+    case 'equipment':
+      return filters.equipment.length === 0 ||
+        (index.equipment.get(item.id) ?? []).some((entry) => filters.equipment.includes(entry));
+  }
+};
+
+const FACET_KEYS: FacetKey[] = ['subCategories', 'tags', 'scoreTypes', 'openYears', 'logStatus', 'favoritesOnly', 'equipment'];
+
+const matchesAll = (
+  item: CatalogItem,
+  filters: CatalogFilters,
+  context: FilterContext,
+  index: FacetIndex,
+  except?: FacetKey
+): boolean =>
+  (filters.category === 'All' || item.category === filters.category) &&
+  FACET_KEYS.every((key) => key === except || matchesFacet(item, key, filters, context, index));
+
+/**
+ * Builtin ids the active subCategory and tag filters allow, read from the
+ * catalog index; undefined when neither filter (besides `except`) is active
+ * or the index doesn't hold every builtin file yet
+ */
+const indexedBuiltinIds = (filters: CatalogFilters, except?: FacetKey): Set<string> | undefined => {
+  if (!isBuiltinCatalogLoaded()) return undefined;
+  const allowed: Set<string>[] = [];
+  if (except !== 'subCategories' && filters.subCategories.length > 0) {
+    allowed.push(new Set(filters.subCategories.flatMap((sub) => getBuiltinItemsBySubCategory(sub).map((item) => item.id))));
+  }
+  if (except !== 'tags' && filters.tags.length > 0) {
+    allowed.push(new Set(filters.tags.flatMap((tag) => getBuiltinItemsByTag(tag).map((item) => item.id))));
+  }
+  if (allowed.length === 0) return undefined;
+  const [first, ...rest] = allowed;
+  return new Set([...first].filter((id) => rest.every((ids) => ids.has(id))));
+};
+
+/**
+ * Items worth testing against every facet: builtin items outside the indexed
+ * subCategory and tag matches are dropped without a full match
+ */
+const candidates = (items: CatalogItem[], filters: CatalogFilters, except?: FacetKey): CatalogItem[] => {
+  const builtinIds = indexedBuiltinIds(filters, except);
+  return builtinIds ? items.filter((item) => !item.isBuiltin || builtinIds.has(item.id)) : items;
+};
+
+/**
+ * Items passing the category and every facet. The text query is applied by
+ * the caller (search ranks its own results).
+ */
+export const applyCatalogFilters = (
+  items: CatalogItem[],
+  filters: CatalogFilters,
+  context: FilterContext,
+  index: FacetIndex
+): CatalogItem[] => candidates(items, filters).filter((item) => matchesAll(item, filters, context, index));
+
+/**
+ * Count how often each value occurs, listing selected values even at zero
+ */
+const tally = <T>(values: T[], selected: T[], order: (a: FacetOption<T>, b: FacetOption<T>) => number): FacetOption<T>[] => {
+  const counts = new Map<T, number>(selected.map((value) => [value, 0]));
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts.entries()].map(([value, count]) => ({ value, count })).sort(order);
+};
+
+const byListOrder = <T>(list: T[]) => (a: FacetOption<T>, b: FacetOption<T>) => list.indexOf(a.value) - list.indexOf(b.value);
+const byCountThenValue = (a: FacetOption, b: FacetOption) => b.count - a.count || a.value.localeCompare(b.value);
+
+/**
+ * Options and counts for every facet. A facet's counts apply all the other
+ * active filters (and the category) but not its own, so picking a second
+ * value in the same facet shows what it would add.
+ */
+export const getFacetCounts = (
+  items: CatalogItem[],
+  filters: CatalogFilters,
+  context: FilterContext,
+  index: FacetIndex
+): FacetCounts => {
+  const passing = (key: FacetKey) =>
+    candidates(items, filters, key).filter((item) => matchesAll(item, filters, context, index, key));
+
+  const scoreTypeOrder = Object.keys(SCORE_TYPES) as ScoreType[];
+  const equipmentOrder = Object.keys(EQUIPMENT_LABELS) as MovementEquipment[];
+  const logged = passing('logStatus').map((item): LogStatus => (context.loggedItemIds.has(item.id) ? 'logged' : 'never'));
+
+  return {
+    subCategories: tally(
+      passing('subCategories').flatMap((item) => (item.subCategory ? [item.subCategory] : [])),
+      filters.subCategories,
+      byListOrder(SUB_CATEGORIES)
+    ),
+    tags: tally(passing('tags').flatMap(facetTags), filters.tags, byCountThenValue),
+    scoreTypes: tally(passing('scoreTypes').flatMap(getScoreModes), filters.scoreTypes, byListOrder(scoreTypeOrder)),
+    openYears: tally(
+      passing('openYears').flatMap((item) => {
+        const year = getOpenYear(item);
+        return year === undefined ? [] : [year];
+      }),
+      filters.openYears,
+      (a, b) => b.value - a.value
+    ),
+    logStatus: tally(logged, filters.logStatus ? [filters.logStatus] : [], byListOrder<LogStatus>(['logged', 'never'])),
+    favoritesOnly: tally(
+      passing('favoritesOnly').filter((item) => item.isFavorite).map((): true => true),
+      filters.favoritesOnly ? [true] : [],
+      () => 0
+    ),
+    equipment: tally(
+      passing('equipment').flatMap((item) => index.equipment.get(item.id) ?? []),
+      filters.equipment,
+      byListOrder(equipmentOrder)
+    ),
+  };
+};
+
+/**
+ * Number of active facet filters (the category and query not included)
+ */
+export const countActiveFilters = (filters: CatalogFilters): number =>
+  filters.subCategories.length +
+  filters.tags.length +
+  filters.scoreTypes.length +
+  filters.openYears.length +
+  filters.equipment.length +
+  (filters.logStatus ? 1 : 0) +
+  (filters.favoritesOnly ? 1 : 0);
+
+/**
+ * Add or remove one value of a multi-value facet
+ */
+export const toggleFilterValue = <T>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value];
+
+// URL encoding — one parameter per filter, multiple values comma-separated:
+// ?q=fran&category=Benchmark&sub=Girls,Heroes&equipment=barbell&logged=never&fav=1
+
+const PARAMS = {
+  query: 'q',
+  category: 'category',
+  subCategories: 'sub',
+  tags: 'tag',
+  scoreTypes: 'score',
+  openYears: 'year',
+  logStatus: 'logged',
+  favoritesOnly: 'fav',
+  equipment: 'equipment',
+} as const satisfies Record<keyof CatalogFilters, string>;
+
+const readList = (params: URLSearchParams, name: string): string[] =>
+  (params.get(name) ?? '').split(',').map((value) => value.trim()).filter(Boolean);
+
+const oneOf = <T extends string>(allowed: readonly T[]) => (value: string): value is T =>
+  (allowed as readonly string[]).includes(value);
+
+/**
+ * Read filters from URL search params, dropping values that aren't valid
+ */
+export const filtersFromParams = (params: URLSearchParams): CatalogFilters => {
+  const category = params.get(PARAMS.category) ?? '';
+  const logStatus = params.get(PARAMS.logStatus) ?? '';
+  return {
+    query: params.get(PARAMS.query) ?? '',
+    category: oneOf(CATEGORIES)(category) ? category : 'All',
+    subCategories: readList(params, PARAMS.subCategories).filter(oneOf(SUB_CATEGORIES)),
+    tags: readList(params, PARAMS.tags),
+    scoreTypes: readList(params, PARAMS.scoreTypes).filter(oneOf(Object.keys(SCORE_TYPES) as ScoreType[])),
+    openYears: readList(params, PARAMS.openYears).map(Number).filter((year) => Number.isInteger(year)),
+    logStatus: oneOf<LogStatus>(['logged', 'never'])(logStatus) ? logStatus : null,
+    favoritesOnly: params.get(PARAMS.favoritesOnly) === '1',
+    equipment: readList(params, PARAMS.equipment).filter(oneOf(Object.keys(EQUIPMENT_LABELS) as MovementEquipment[])),
+  };
+};
+
+/**
+ * Write filters into URL search params, leaving unrelated params alone and
+ * omitting filters at their defaults
+ */
+export const filtersToParams = (filters: CatalogFilters, params: URLSearchParams): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  const write = (name: string, value: string) => {
+    if (value) next.set(name, value);
+    else next.delete(name);
+  };
+  write(PARAMS.query, filters.query);
+  write(PARAMS.category, filters.category === 'All' ? '' : filters.category);
+  write(PARAMS.subCategories, filters.subCategories.join(','));
+  write(PARAMS.tags, filters.tags.join(','));
+  write(PARAMS.scoreTypes, filters.scoreTypes.join(','));
+  write(PARAMS.openYears, filters.openYears.join(','));
+  write(PARAMS.logStatus, filters.logStatus ?? '');
+  write(PARAMS.favoritesOnly, filters.favoritesOnly ? '1' : '');
+  write(PARAMS.equipment, filters.equipment.join(','));
+  return next;
+};
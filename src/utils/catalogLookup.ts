@@ -0,0 +1,94 @@
+import type { CatalogItem } from '../types/catalog';
+import { findBuiltinItemByName, isBuiltinCatalogLoaded, normalizeName } from '../catalog/catalogService';
+
+/**
+ * Build a resolver that finds a catalog item by id, name or any alias.
+ * Ids win over names, names over aliases; builtin names come from the
+ * catalog index (once it holds every file) and are tried before the rest.
+ */
+export const createCatalogLookup = (items: CatalogItem[]) => {
+  const indexed = isBuiltinCatalogLoaded();
+  const byId = new Map(items.map((item) => [item.id.toLowerCase(), item]));
+  const byName = new Map<string, CatalogItem>();
+  const byAlias = new Map<string, CatalogItem>();
+
+  for (const item of items) {
+    if (indexed && item.isBuiltin) continue;
+    const name = normalizeName(item.name);
+    if (name && !byName.has(name)) byName.set(name, item);
+    for (const alias of item.aliases ?? []) {
+      const key = normalizeName(alias);
+      if (key && !byAlias.has(key)) byAlias.set(key, item);
+    }
+  }
+
+  return (query: string): CatalogItem | undefined => {
+    const trimmed = query.trim();
+    if (!trimmed) return undefined;
+    const key = normalizeName(trimmed);
+    const builtin = findBuiltinItemByName(trimmed);
+    return byId.get(trimmed.toLowerCase()) ?? (builtin && byId.get(builtin.id.toLowerCase())) ?? byName.get(key) ?? byAlias.get(key);
+  };
+};
+
+/**
+ * Edit distance between two strings (insert/delete/substitute, cost 1 each).
+ */
+const levenshtein = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+/**
+ * Similarity of two normalized names in [0, 1]. Containment ("backsquat5rm"
+ * vs "backsquat") scores high; otherwise it's 1 − relative edit distance.
+ */
+const nameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const containment = shorter.length >= 4 && longer.includes(shorter)
+    ? 0.7 + 0.25 * (shorter.length / longer.length)
+    : 0;
+  const edit = 1 - levenshtein(a, b) / longer.length;
+  return Math.max(containment, edit);
+};
+
+export interface CatalogMatch {
+  item: CatalogItem;
+  /** 1 = exact name/alias match, lower = fuzzier */
+  score: number;
+}
+
+/**
+ * Rank catalog items by how well their name or aliases match a free-text
+ * name from another app. Returns the best `limit` matches above `minScore`.
+ */
+export const rankCatalogMatches = (
+  query: string,
+  items: CatalogItem[],
+  { limit = 5, minScore = 0.5 }: { limit?: number; minScore?: number } = {}
+): CatalogMatch[] => {
+  const key = normalizeName(query);
+  if (!key) return [];
+
+  return items
+    .map((item) => ({
+      item,
+      score: Math.max(
+        nameSimilarity(key, normalizeName(item.name)),
+        ...(item.aliases ?? []).map((alias) => nameSimilarity(key, normalizeName(alias)))
+      ),
+    }))
+    .filter((match) => match.score >= minScore)
+    .sort((a, b) => b.score - a.score || a.item.name.localeCompare(b.item.name))
+    .slice(0, limit);
+};
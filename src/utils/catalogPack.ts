@@ -0,0 +1,87 @@
+/**
+ * Catalog Packs
+ *
+ * Reading a catalog pack file: the pack metadata, then every item held to
+ * the builtin catalog's rules (utils/catalogValidation). Pack item ids may
+ * not shadow builtin ids.
+ */
+
+import { getBuiltinCatalogItemById, getMovements } from '../catalog/catalogService';
+import { isRecord, nestCatalogIssues, validateCatalogItems } from './catalogValidation';
+import type { CatalogItem } from '../types/catalog';
+import type { CatalogIssue } from '../types/catalogValidation';
+import type { CatalogPackFile, InstalledCatalogPack } from '../types/catalogPack';
+
+export const CATALOG_PACK_FORMAT = 'crossfit-toolkit-pack';
+
+const PACK_ID_RE = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Thrown when a pack file can't be installed. Carries every problem found.
+ */
+export class CatalogPackError extends Error {
+  readonly issues: CatalogIssue[];
+
+  constructor(issues: CatalogIssue[]) {
+    super(`Catalog pack has ${issues.length} ${issues.length === 1 ? 'problem' : 'problems'}`);
+    this.name = 'CatalogPackError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Parse and validate a pack file. Throws `CatalogPackError` listing every
+ * problem, or a plain Error when the file isn't JSON.
+ */
+export const parseCatalogPack = (json: string): CatalogPackFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!isRecord(parsed)) {
+    throw new CatalogPackError([{ code: 'invalid-pack', path: '', message: 'must be a JSON object' }]);
+  }
+
+  const issues: CatalogIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ code: 'invalid-pack', path, message });
+  if (parsed.format !== CATALOG_PACK_FORMAT) report('format', `must be "${CATALOG_PACK_FORMAT}"`);
+  if (typeof parsed.id !== 'string' || !PACK_ID_RE.test(parsed.id)) report('id', 'must be lowercase letters, digits and dashes');
+  if (!parsed.name || typeof parsed.name !== 'string') report('name', 'missing/invalid name');
+  if (!Number.isInteger(parsed.version) || (parsed.version as number) < 1) report('version', 'must be a positive integer');
+  for (const field of ['author', 'description', 'url']) {
+    if (parsed[field] !== undefined && typeof parsed[field] !== 'string') report(field, 'must be text');
+  }
+
+  if (!Array.isArray(parsed.items) || parsed.items.length === 0) {
+    report('items', 'must be a non-empty list');
+  } else {
+    const movementIds = new Set(getMovements().map((movement) => movement.id));
+    issues.push(...nestCatalogIssues(validateCatalogItems(parsed.items, { source: 'catalog', movementIds }), 'items'));
+    parsed.items.forEach((item, idx) => {
+      const id = isRecord(item) ? item.id : undefined;
+      if (typeof id === 'string' && getBuiltinCatalogItemById(id)) {
+        issues.push({ code: 'reserved-id', path: `items[${idx}].id`, message: `"${id}" is a builtin catalog id` });
+      }
+    });
+  }
+
+  if (issues.length > 0) throw new CatalogPackError(issues);
+  return parsed as unknown as CatalogPackFile;
+};
+
+/**
+ * An installed pack's items as catalog items (not yet marked as favorites).
+ * Items without their own source are attributed to the pack.
+ */
+export const toPackCatalogItems = (pack: InstalledCatalogPack): CatalogItem[] =>
+  pack.items.map((item) => ({
+    ...item,
+    source: item.source ?? pack.name,
+    packId: pack.id,
+    isBuiltin: true,
+    isFavorite: false,
+    createdAt: pack.installedAt,
+  }));
@@ -0,0 +1,64 @@
+/**
+ * Catalog Redirects
+ *
+ * Pure mapping for builtin ids retired by a catalog update: follow the
+ * redirect chain to the id the history lives under now, and re-point logs
+ * and goals at it — into a specific score pool when the old item was folded
+ * into a multi-mode item.
+ */
+
+import type { CatalogRedirect, CatalogRedirectPool, PRLog } from '../types/catalog';
+import type { Goal } from '../types/goal';
+
+export interface RedirectTarget {
+  itemId: string;
+  /** Pool of the last merge along the chain, if any */
+  pool?: CatalogRedirectPool;
+}
+
+/**
+ * Where a retired id ends up under `redirects`, following chains (a → b → c).
+ * Undefined for ids that aren't redirected. A cycle (rejected by
+ * validateCatalog.mjs) stops at the last id before it repeats.
+ */
+export const resolveRedirect = (id: string, redirects: CatalogRedirect[]): RedirectTarget | undefined => {
+  const byFrom = new Map(redirects.map((redirect) => [redirect.from, redirect]));
+  const seen = new Set([id]);
+  let target: RedirectTarget | undefined;
+
+  for (let redirect = byFrom.get(id); redirect && !seen.has(redirect.to); redirect = byFrom.get(redirect.to)) {
+    seen.add(redirect.to);
+    target = { itemId: redirect.to, pool: redirect.pool ?? target?.pool };
+  }
+  return target;
+};
+
+/** Score type and constraint a record takes on inside a pool (constraints it already has win) */
+const poolFields = (
+  record: Pick<PRLog, 'timeCap' | 'targetReps'>,
+  pool: CatalogRedirectPool | undefined
+): Pick<PRLog, 'scoreTypeId' | 'timeCap' | 'targetReps'> => {
+  if (!pool) return {};
+  const fields: Pick<PRLog, 'scoreTypeId' | 'timeCap' | 'targetReps'> = { scoreTypeId: pool.scoreTypeId };
+  if (record.timeCap === undefined && pool.timeCap !== undefined) fields.timeCap = pool.timeCap;
+  if (record.targetReps === undefined && pool.targetReps !== undefined) fields.targetReps = pool.targetReps;
+  return fields;
+};
+
+/**
+ * A log re-pointed at its redirect target
+ */
+export const redirectLog = (log: PRLog, target: RedirectTarget): PRLog => ({
+  ...log,
+  ...poolFields(log, target.pool),
+  catalogItemId: target.itemId,
+});
+
+/**
+ * A goal re-pointed at its redirect target
+ */
+export const redirectGoal = (goal: Goal, target: RedirectTarget): Goal => ({
+  ...goal,
+  ...poolFields(goal, target.pool),
+  itemId: target.itemId,
+});
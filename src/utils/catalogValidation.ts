@@ -0,0 +1,642 @@
+/**
+ * Catalog Validation
+ *
+ * The rules catalog data meets, in one place: builtin items and the files
+ * around them (checked by scripts/validateCatalog.mjs), catalog packs,
+ * custom items and imported data. Allow-lists are derived from the catalog
+ * types and the score-type registry, so adding a score type or subcategory
+ * updates every check. Each violation is a `CatalogIssue` with a code.
+ *
+ * Keep this module free of app state (no Dexie, no catalog JSON imports):
+ * the check script loads it outside the app.
+ */
+
+import { SCORE_TYPES } from '../config/scoreTypes';
+import type { CatalogItem, Category, MetricType, ScoreType, SubCategory, WeightUnit } from '../types/catalog';
+import type { CatalogIssue, CatalogIssueCode, CatalogItemSource } from '../types/catalogValidation';
+import type { MovementEquipment, MovementPattern } from '../types/movement';
+import type { AgeGroup, StandardLevel, WorkoutDistance, WorkoutFormat, WorkoutHeight } from '../types/workout';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ALLOW-LISTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Every member of a string union, checked exhaustive by the Record type */
+const keysOf = <T extends string>(members: Record<T, true>): T[] => Object.keys(members) as T[];
+
+export const CATEGORIES = keysOf<Category>({ Benchmark: true, Lift: true, Monostructural: true, Skill: true, Custom: true });
+
+export const SUB_CATEGORIES = keysOf<SubCategory>({
+  Girls: true,
+  Heroes: true,
+  Open: true,
+  Games: true,
+  Notable: true,
+  Movement: true,
+  Equipment: true,
+  Test: true,
+  Other: true,
+});
+
+export const SCORE_TYPE_IDS = Object.keys(SCORE_TYPES) as ScoreType[];
+
+export const METRIC_TYPES = keysOf<MetricType>({ distance: true, calories: true, 'distance+calories': true });
+
+export const WORKOUT_FORMATS = keysOf<WorkoutFormat>({
+  ForTime: true,
+  AMRAP: true,
+  EMOM: true,
+  Intervals: true,
+  MaxReps: true,
+  MaxLoad: true,
+});
+
+export const LOAD_UNITS = keysOf<WeightUnit>({ kg: true, lb: true });
+
+export const COURSE_UNITS = keysOf<WorkoutDistance['unit']>({ m: true, km: true, mi: true, ft: true, yd: true });
+
+export const HEIGHT_UNITS = keysOf<WorkoutHeight['unit']>({ in: true, ft: true, cm: true });
+
+export const AGE_GROUPS = keysOf<AgeGroup>({
+  open: true,
+  'teens-14-15': true,
+  'teens-16-17': true,
+  'masters-35-39': true,
+  'masters-40-44': true,
+  'masters-45-49': true,
+  'masters-50-54': true,
+  'masters-55-59': true,
+  'masters-60-64': true,
+  'masters-65': true,
+});
+
+export const STANDARD_LEVELS = keysOf<StandardLevel>({ Rx: true, Scaled: true });
+
+export const MOVEMENT_EQUIPMENT = keysOf<MovementEquipment>({
+  none: true,
+  barbell: true,
+  dumbbell: true,
+  kettlebell: true,
+  'medicine-ball': true,
+  'pull-up-bar': true,
+  rings: true,
+  parallettes: true,
+  box: true,
+  'jump-rope': true,
+  rope: true,
+  'peg-board': true,
+  wall: true,
+  ghd: true,
+  rower: true,
+  bike: true,
+  'ski-erg': true,
+  sled: true,
+  sandbag: true,
+  strongman: true,
+  water: true,
+});
+
+export const MOVEMENT_PATTERNS = keysOf<MovementPattern>({
+  squat: true,
+  hinge: true,
+  press: true,
+  pull: true,
+  'olympic-lift': true,
+  lunge: true,
+  jump: true,
+  core: true,
+  inversion: true,
+  'full-body': true,
+  carry: true,
+  locomotion: true,
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GUARDS
+// ═══════════════════════════════════════════════════════════════════════════
+
+type Row = Record<string, unknown>;
+type Report = (code: CatalogIssueCode, path: string, message: string) => void;
+
+export const isRecord = (value: unknown): value is Row =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isScoreType = (value: unknown): value is ScoreType =>
+  typeof value === 'string' && (SCORE_TYPE_IDS as string[]).includes(value);
+
+const isOneOf = <T extends string>(allowed: readonly T[]) => (value: unknown): value is T =>
+  typeof value === 'string' && (allowed as readonly string[]).includes(value);
+
+const isPositiveInteger = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0;
+const isPositiveNumber = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+const isNonEmptyString = (value: unknown): boolean => typeof value === 'string' && value.trim() !== '';
+
+/** `workout` + `movements` + 0 → "workout.movements[0]"; `items` + "[2].id" → "items[2].id" */
+const pathOf = (base: string, ...keys: (string | number)[]): string =>
+  keys.reduce<string>((path, key) => {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    if (!path || key.startsWith('[')) return `${path}${key}`;
+    return `${path}.${key}`;
+  }, base);
+
+const collect = (check: (report: Report) => void): CatalogIssue[] => {
+  const issues: CatalogIssue[] = [];
+  check((code, path, message) => issues.push({ code, path, message }));
+  return issues;
+};
+
+/**
+ * One-line description of an issue: "benchmarks_girls.json[3].workout: AMRAP needs a duration"
+ */
+export const formatCatalogIssue = (issue: CatalogIssue, prefix = ''): string => {
+  const where = pathOf(prefix, ...(issue.path ? [issue.path] : []));
+  return where ? `${where}: ${issue.message}` : issue.message;
+};
+
+/**
+ * Issues re-rooted under `path` (for values checked inside a larger file)
+ */
+export const nestCatalogIssues = (issues: CatalogIssue[], path: string): CatalogIssue[] =>
+  issues.map((issue) => ({ ...issue, path: issue.path ? pathOf(path, issue.path) : path }));
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ITEMS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Per-division amount (load or height): a positive `men` value, an optional
+ * positive `women` value, and a unit from `units`
+ */
+const checkDivisionAmount = (
+  amount: Row,
+  units: readonly string[],
+  code: CatalogIssueCode,
+  path: string,
+  report: Report
+) => {
+  if (!isPositiveNumber(amount.men)) report(code, pathOf(path, 'men'), 'must be a positive number');
+  if (amount.women !== undefined && !isPositiveNumber(amount.women)) {
+    report(code, pathOf(path, 'women'), 'must be a positive number');
+  }
+  if (!units.includes(amount.unit as string)) report(code, pathOf(path, 'unit'), `must be one of ${units.join(', ')}`);
+};
+
+/**
+ * Load: a positive multiple of bodyweight, or per-division weights
+ */
+const checkLoad = (load: unknown, path: string, report: Report) => {
+  if (!isRecord(load)) {
+    report('invalid-load', path, 'must be an object');
+  } else if ('bodyweight' in load) {
+    if (!isPositiveNumber(load.bodyweight)) report('invalid-load', pathOf(path, 'bodyweight'), 'must be a positive number');
+  } else {
+    checkDivisionAmount(load, LOAD_UNITS, 'invalid-load', path, report);
+  }
+};
+
+const checkText = (row: Row, field: string, path: string, report: Report) => {
+  if (row[field] !== undefined && typeof row[field] !== 'string') report('invalid-text', pathOf(path, field), 'must be text');
+};
+
+const checkWorkoutMovement = (
+  movement: unknown,
+  path: string,
+  hasRepScheme: boolean,
+  movementIds: ReadonlySet<string>,
+  report: Report
+) => {
+  if (!isRecord(movement)) {
+    report('not-an-object', path, 'must be an object');
+    return;
+  }
+  if (!isNonEmptyString(movement.name)) report('missing-name', pathOf(path, 'name'), 'missing/invalid name');
+  if (typeof movement.movementId !== 'string' || !movementIds.has(movement.movementId)) {
+    report('unknown-movement', pathOf(path, 'movementId'), `unknown movementId "${String(movement.movementId)}"`);
+  }
+
+  const amounts = ['reps', 'max', 'distance', 'calories'].filter((field) => movement[field] !== undefined);
+  if (amounts.length > 1) report('invalid-movement-amount', path, `use only one of ${amounts.join(', ')}`);
+  if (movement.reps !== undefined) {
+    if (!isPositiveInteger(movement.reps)) report('invalid-movement-amount', pathOf(path, 'reps'), 'must be a positive integer');
+    if (hasRepScheme) report('invalid-movement-amount', pathOf(path, 'reps'), "reps come from the workout's repScheme");
+  }
+  if (movement.max !== undefined && movement.max !== true) {
+    report('invalid-movement-amount', pathOf(path, 'max'), 'must be true when set');
+  }
+  if (movement.calories !== undefined && !isPositiveInteger(movement.calories)) {
+    report('invalid-movement-amount', pathOf(path, 'calories'), 'must be a positive integer');
+  }
+  if (movement.distance !== undefined) {
+    const distance = isRecord(movement.distance) ? movement.distance : {};
+    if (!isPositiveNumber(distance.value) || !isOneOf(COURSE_UNITS)(distance.unit)) {
+      report('invalid-movement-amount', pathOf(path, 'distance'), `needs a positive value and a unit (${COURSE_UNITS.join(', ')})`);
+    }
+  }
+
+  if (movement.load !== undefined) checkLoad(movement.load, pathOf(path, 'load'), report);
+  if (movement.standards !== undefined) {
+    if (!Array.isArray(movement.standards)) {
+      report('invalid-standard', pathOf(path, 'standards'), 'must be a list');
+    } else {
+      if (movement.load === undefined) report('invalid-standard', pathOf(path, 'standards'), 'standards need the open Rx load');
+      movement.standards.forEach((standard, idx) => {
+        const standardPath = pathOf(path, 'standards', idx);
+        const row = isRecord(standard) ? standard : {};
+        if (!Array.isArray(row.ageGroups) || row.ageGroups.length === 0 || !row.ageGroups.every(isOneOf(AGE_GROUPS))) {
+          report('invalid-standard', pathOf(standardPath, 'ageGroups'), `must be a non-empty list of ${AGE_GROUPS.join(', ')}`);
+        }
+        if (!isOneOf(STANDARD_LEVELS)(row.level)) report('invalid-standard', pathOf(standardPath, 'level'), 'must be Rx or Scaled');
+        checkLoad(row.load, pathOf(standardPath, 'load'), report);
+      });
+    }
+  }
+  if (movement.height !== undefined) {
+    if (!isRecord(movement.height)) report('invalid-height', pathOf(path, 'height'), 'must be an object');
+    else checkDivisionAmount(movement.height, HEIGHT_UNITS, 'invalid-height', pathOf(path, 'height'), report);
+  }
+  checkText(movement, 'notes', path, report);
+};
+
+/**
+ * A structured workout (src/types/workout.ts): known format, positive counts
+ * and durations, one amount per movement (reps come from `repScheme` when
+ * there is one), well formed loads and heights, movement ids from the
+ * library, and scoring in one of the item's score modes.
+ */
+const checkWorkout = (item: Row, movementIds: ReadonlySet<string>, report: Report) => {
+  const path = 'workout';
+  const workout = item.workout;
+  if (!isRecord(workout)) {
+    report('invalid-workout', path, 'must be an object');
+    return;
+  }
+
+  if (!isOneOf(WORKOUT_FORMATS)(workout.format)) {
+    report('invalid-workout-format', pathOf(path, 'format'), `unknown format "${String(workout.format)}"`);
+  }
+  for (const field of ['rounds', 'repIncrement']) {
+    if (workout[field] !== undefined && !isPositiveInteger(workout[field])) {
+      report('invalid-workout-count', pathOf(path, field), 'must be a positive integer');
+    }
+  }
+  for (const field of ['duration', 'interval', 'timeCap', 'rest']) {
+    if (workout[field] !== undefined && !isPositiveNumber(workout[field])) {
+      report('invalid-workout-duration', pathOf(path, field), 'must be a positive number (seconds)');
+    }
+  }
+  if (workout.repScheme !== undefined) {
+    if (!Array.isArray(workout.repScheme) || workout.repScheme.length === 0 || !workout.repScheme.every(isPositiveInteger)) {
+      report('invalid-workout-count', pathOf(path, 'repScheme'), 'must be a non-empty list of positive integers');
+    }
+  }
+  if (workout.format === 'AMRAP' && workout.duration === undefined) {
+    report('invalid-workout-duration', path, 'AMRAP needs a duration');
+  }
+  if (workout.format === 'ForTime' && workout.duration !== undefined) {
+    report('invalid-workout-duration', path, 'ForTime workouts use timeCap, not duration');
+  }
+  checkText(workout, 'notes', path, report);
+
+  if (!Array.isArray(workout.movements) || workout.movements.length === 0) {
+    report('invalid-workout', pathOf(path, 'movements'), 'must be a non-empty list');
+  } else {
+    workout.movements.forEach((movement, idx) => {
+      checkWorkoutMovement(movement, pathOf(path, 'movements', idx), workout.repScheme !== undefined, movementIds, report);
+    });
+  }
+
+  const scoring = workout.scoring;
+  if (!isRecord(scoring)) {
+    report('invalid-scoring', pathOf(path, 'scoring'), 'missing scoring');
+  } else {
+    const modes = Array.isArray(item.scoreTypeIds) ? item.scoreTypeIds : [item.scoreType];
+    if (!modes.includes(scoring.scoreType)) {
+      report(
+        'invalid-scoring',
+        pathOf(path, 'scoring', 'scoreType'),
+        `"${String(scoring.scoreType)}" is not one of the item's score types (${modes.join(', ')})`
+      );
+    }
+    checkText(scoring, 'notes', pathOf(path, 'scoring'), report);
+  }
+};
+
+export interface CatalogItemRules {
+  source: CatalogItemSource;
+  /** Movement library ids a workout may reference */
+  movementIds: ReadonlySet<string>;
+}
+
+/**
+ * Check one catalog item (builtin, pack or custom). Returns every violation;
+ * an empty list means the item is valid.
+ */
+export const validateCatalogItem = (item: unknown, rules: CatalogItemRules): CatalogIssue[] =>
+  collect((report) => {
+    if (!isRecord(item)) {
+      report('not-an-object', '', 'item must be an object');
+      return;
+    }
+    const { id, name, category, subCategory, scoreType, metrics, scoreTypeIds, timeCap, targetReps, movements, workout } = item;
+
+    if (!isNonEmptyString(id)) report('missing-id', 'id', 'missing/invalid id');
+    if (!isNonEmptyString(name)) report('missing-name', 'name', 'missing/invalid name');
+    if (!isOneOf(CATEGORIES)(category)) report('invalid-category', 'category', `unknown category "${String(category)}"`);
+    if (!isScoreType(scoreType)) report('invalid-score-type', 'scoreType', `unknown score type "${String(scoreType)}"`);
+    if (subCategory !== undefined && !isOneOf(SUB_CATEGORIES)(subCategory)) {
+      report('invalid-subcategory', 'subCategory', `unknown subcategory "${String(subCategory)}"`);
+    }
+
+    if (scoreTypeIds !== undefined) {
+      if (!Array.isArray(scoreTypeIds) || scoreTypeIds.length === 0) {
+        report('invalid-score-type', 'scoreTypeIds', 'must be a non-empty list');
+      } else {
+        scoreTypeIds.forEach((entry, idx) => {
+          if (!isScoreType(entry)) report('invalid-score-type', pathOf('scoreTypeIds', idx), `unknown score type "${String(entry)}"`);
+        });
+        if (isScoreType(scoreType) && !scoreTypeIds.includes(scoreType)) {
+          report('default-score-type-not-listed', 'scoreTypeIds', `must include the default score type "${scoreType}"`);
+        }
+      }
+    }
+
+    if (timeCap !== undefined && !isPositiveNumber(timeCap)) {
+      report('invalid-constraint', 'timeCap', 'must be a positive number (seconds)');
+    }
+    if (targetReps !== undefined && !isPositiveNumber(targetReps)) {
+      report('invalid-constraint', 'targetReps', 'must be a positive number');
+    }
+
+    if (metrics !== undefined) {
+      if (!isOneOf(METRIC_TYPES)(metrics)) report('invalid-metrics', 'metrics', `unknown metrics "${String(metrics)}"`);
+      if (category !== 'Monostructural') report('metrics-not-monostructural', 'metrics', 'only Monostructural items have metrics');
+    }
+
+    for (const field of ['description', 'source', 'sourceUrl']) checkText(item, field, '', report);
+    for (const field of ['tags', 'aliases']) {
+      const list = item[field];
+      if (list !== undefined && (!Array.isArray(list) || !list.every((entry) => typeof entry === 'string'))) {
+        report('invalid-text', field, 'must be a list of text');
+      }
+    }
+
+    if (workout !== undefined) {
+      checkWorkout(item, rules.movementIds, report);
+    } else if (rules.source === 'catalog' && category === 'Benchmark') {
+      report('missing-workout', 'workout', 'benchmarks need a structured workout');
+    }
+    if (movements !== undefined) {
+      if (rules.source === 'catalog') {
+        report('free-text-movements', 'movements', 'free-text movements are for custom items; describe workouts with "workout"');
+      } else if (!Array.isArray(movements) || !movements.every((entry) => typeof entry === 'string')) {
+        report('invalid-movements', 'movements', 'must be a list of text');
+      }
+    }
+  });
+
+/**
+ * Check a list of catalog items, flagging ids used twice
+ */
+export const validateCatalogItems = (items: unknown[], rules: CatalogItemRules): CatalogIssue[] => {
+  const issues: CatalogIssue[] = [];
+  const seen = new Set<string>();
+  items.forEach((item, idx) => {
+    issues.push(...nestCatalogIssues(validateCatalogItem(item, rules), `[${idx}]`));
+    const id = isRecord(item) ? item.id : undefined;
+    if (typeof id === 'string') {
+      if (seen.has(id)) issues.push({ code: 'duplicate-id', path: `[${idx}].id`, message: `duplicate id "${id}"` });
+      seen.add(id);
+    }
+  });
+  return issues;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MOVEMENT LIBRARY, DIVISION GUIDE, REDIRECTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Check the movement library: unique ids, known equipment and pattern,
+ * variants one level below an existing movement, and related items that
+ * exist and aren't benchmarks (benchmarks link through their workouts).
+ */
+export const validateMovementLibrary = (
+  movements: unknown[],
+  itemsById: ReadonlyMap<string, Pick<CatalogItem, 'category'>>
+): CatalogIssue[] =>
+  collect((report) => {
+    const byId = new Map<string, Row>();
+    movements.forEach((movement, idx) => {
+      if (!isRecord(movement) || typeof movement.id !== 'string') return;
+      if (byId.has(movement.id)) report('duplicate-id', `[${idx}].id`, `duplicate id "${movement.id}"`);
+      else byId.set(movement.id, movement);
+    });
+
+    movements.forEach((movement, idx) => {
+      const path = `[${idx}]`;
+      if (!isRecord(movement)) {
+        report('not-an-object', path, 'movement must be an object');
+        return;
+      }
+
+      const { id, name, aliases, equipment, pattern, variantOf, relatedItemIds } = movement;
+      if (!isNonEmptyString(id)) report('missing-id', pathOf(path, 'id'), 'missing/invalid id');
+      if (!isNonEmptyString(name)) report('missing-name', pathOf(path, 'name'), 'missing/invalid name');
+      if (aliases !== undefined && (!Array.isArray(aliases) || !aliases.every((alias) => typeof alias === 'string'))) {
+        report('invalid-text', pathOf(path, 'aliases'), 'must be a list of text');
+      }
+      if (!Array.isArray(equipment) || equipment.length === 0) {
+        report('invalid-equipment', pathOf(path, 'equipment'), 'must be a non-empty list');
+      } else {
+        for (const entry of equipment) {
+          if (!isOneOf(MOVEMENT_EQUIPMENT)(entry)) report('invalid-equipment', pathOf(path, 'equipment'), `unknown equipment "${String(entry)}"`);
+        }
+      }
+      if (!isOneOf(MOVEMENT_PATTERNS)(pattern)) report('invalid-pattern', pathOf(path, 'pattern'), `unknown pattern "${String(pattern)}"`);
+
+      if (variantOf !== undefined) {
+        const parent = typeof variantOf === 'string' ? byId.get(variantOf) : undefined;
+        if (!parent || variantOf === id) {
+          report('invalid-variant', pathOf(path, 'variantOf'), `"${String(variantOf)}" is not another movement`);
+        } else if (parent.variantOf !== undefined) {
+          report('invalid-variant', pathOf(path, 'variantOf'), `"${String(variantOf)}" is itself a variant; point at "${String(parent.variantOf)}"`);
+        }
+      }
+
+      if (relatedItemIds !== undefined) {
+        if (!Array.isArray(relatedItemIds)) {
+          report('invalid-related-item', pathOf(path, 'relatedItemIds'), 'must be a list');
+        } else {
+          for (const itemId of relatedItemIds) {
+            const item = typeof itemId === 'string' ? itemsById.get(itemId) : undefined;
+            if (!item) report('invalid-related-item', pathOf(path, 'relatedItemIds'), `related item "${String(itemId)}" is not in the catalog`);
+            else if (item.category === 'Benchmark') report('invalid-related-item', pathOf(path, 'relatedItemIds'), `related item "${String(itemId)}" is a benchmark`);
+          }
+        }
+      }
+    });
+  });
+
+/**
+ * Check the division guide: every age group once, with the open group at
+ * full Rx and load fractions in (0, 1], and positive rounding increments
+ * including a default.
+ */
+export const validateDivisionGuide = (guide: unknown): CatalogIssue[] =>
+  collect((report) => {
+    const { ageGroups, rounding } = isRecord(guide) ? guide : {};
+    if (!Array.isArray(ageGroups)) {
+      report('invalid-age-group', 'ageGroups', 'must be a list');
+    } else {
+      const seen = new Set<unknown>();
+      ageGroups.forEach((group, idx) => {
+        const path = pathOf('ageGroups', idx);
+        const row = isRecord(group) ? group : {};
+        if (!isOneOf(AGE_GROUPS)(row.id)) report('invalid-age-group', pathOf(path, 'id'), `unknown age group "${String(row.id)}"`);
+        if (seen.has(row.id)) report('duplicate-id', pathOf(path, 'id'), `duplicate id "${String(row.id)}"`);
+        seen.add(row.id);
+        if (!isNonEmptyString(row.label)) report('missing-name', pathOf(path, 'label'), 'missing/invalid label');
+        for (const level of ['rx', 'scaled']) {
+          if (!isPositiveNumber(row[level]) || (row[level] as number) > 1) {
+            report('invalid-fraction', pathOf(path, level), 'must be a fraction in (0, 1]');
+          }
+        }
+        if (row.id === 'open' && row.rx !== 1) report('invalid-fraction', pathOf(path, 'rx'), 'the open age group is the Rx (rx must be 1)');
+      });
+      for (const id of AGE_GROUPS) {
+        if (!seen.has(id)) report('invalid-age-group', 'ageGroups', `missing age group "${id}"`);
+      }
+    }
+
+    if (!isRecord(rounding) || !rounding.default) {
+      report('invalid-rounding', 'rounding', 'needs a default');
+    } else {
+      for (const [equipment, increments] of Object.entries(rounding)) {
+        if (equipment !== 'default' && !isOneOf(MOVEMENT_EQUIPMENT)(equipment)) {
+          report('invalid-rounding', pathOf('rounding', equipment), `unknown equipment "${equipment}"`);
+        }
+        for (const unit of LOAD_UNITS) {
+          if (!isPositiveNumber(isRecord(increments) ? increments[unit] : undefined)) {
+            report('invalid-rounding', pathOf('rounding', equipment, unit), 'must be a positive number');
+          }
+        }
+      }
+    }
+  });
+
+/**
+ * Check the catalog version and redirect map: every retired id points (maybe
+ * through a chain) at a live item, never back at itself, and pools name a
+ * score type the target offers.
+ */
+export const validateCatalogRedirects = (
+  map: unknown,
+  itemsById: ReadonlyMap<string, Pick<CatalogItem, 'scoreType' | 'scoreTypeIds'>>
+): CatalogIssue[] =>
+  collect((report) => {
+    const { version, redirects } = isRecord(map) ? map : {};
+    const catalogVersion = Number.isInteger(version) && (version as number) >= 1 ? (version as number) : undefined;
+    if (catalogVersion === undefined) report('invalid-redirect', 'version', 'must be a positive integer');
+    if (!Array.isArray(redirects)) {
+      report('invalid-redirect', 'redirects', 'must be a list');
+      return;
+    }
+
+    const byFrom = new Map<string, Row & { path: string }>();
+    redirects.forEach((redirect, idx) => {
+      const path = pathOf('redirects', idx);
+      if (!isRecord(redirect)) {
+        report('not-an-object', path, 'redirect must be an object');
+        return;
+      }
+
+      const { from, to, since, pool } = redirect;
+      if (!isNonEmptyString(from)) report('invalid-redirect', pathOf(path, 'from'), 'missing/invalid from');
+      if (!isNonEmptyString(to)) report('invalid-redirect', pathOf(path, 'to'), 'missing/invalid to');
+      if (!Number.isInteger(since) || (since as number) < 1 || (catalogVersion !== undefined && (since as number) > catalogVersion)) {
+        report('invalid-redirect', pathOf(path, 'since'), `must be a catalog version between 1 and ${String(version)}`);
+      }
+      if (typeof from === 'string') {
+        if (itemsById.has(from)) report('retired-id-in-catalog', pathOf(path, 'from'), `"${from}" is retired but still in the catalog`);
+        if (byFrom.has(from)) report('duplicate-id', pathOf(path, 'from'), `duplicate redirect for "${from}"`);
+        else byFrom.set(from, { ...redirect, path });
+      }
+      if (pool !== undefined) {
+        const row = isRecord(pool) ? pool : {};
+        if (!isScoreType(row.scoreTypeId)) report('invalid-pool', pathOf(path, 'pool'), 'needs a valid scoreTypeId');
+        if (row.timeCap !== undefined && !isPositiveNumber(row.timeCap)) {
+          report('invalid-pool', pathOf(path, 'pool', 'timeCap'), 'must be a positive number (seconds)');
+        }
+        if (row.targetReps !== undefined && !isPositiveNumber(row.targetReps)) {
+          report('invalid-pool', pathOf(path, 'pool', 'targetReps'), 'must be a positive number');
+        }
+      }
+    });
+
+    // Follow each chain to its end: it must land on a catalog item without revisiting an id.
+    for (const [from, redirect] of byFrom) {
+      const chain = [from];
+      let current: (Row & { path: string }) | undefined = redirect;
+      while (current && typeof current.to === 'string' && !chain.includes(current.to)) {
+        chain.push(current.to);
+        current = byFrom.get(current.to);
+      }
+      const last = chain[chain.length - 1];
+      const pool = isRecord(redirect.pool) ? redirect.pool : undefined;
+      if (current && typeof current.to === 'string' && chain.includes(current.to)) {
+        report('redirect-cycle', redirect.path, `redirect cycle ${[...chain, current.to].join(' → ')}`);
+      } else if (!itemsById.has(last)) {
+        report('redirect-target-missing', redirect.path, `"${from}" resolves to "${last}", which is not in the catalog`);
+      } else if (pool && isScoreType(pool.scoreTypeId)) {
+        const target = itemsById.get(last)!;
+        const modes = target.scoreTypeIds ?? [target.scoreType];
+        if (!modes.includes(pool.scoreTypeId)) {
+          report('invalid-pool', pathOf(redirect.path, 'pool'), `"${last}" has no ${pool.scoreTypeId} score pool`);
+        }
+      }
+    }
+  });
+
+/**
+ * Check a catalog translation file: an object of builtin ids, each with a
+ * non-empty `name` and/or `description`
+ */
+export const validateCatalogTranslations = (
+  translations: unknown,
+  itemsById: ReadonlyMap<string, unknown>
+): CatalogIssue[] =>
+  collect((report) => {
+    if (!isRecord(translations)) {
+      report('invalid-translation', '', 'must be an object of item ids');
+      return;
+    }
+    for (const [id, entry] of Object.entries(translations)) {
+      if (!itemsById.has(id)) report('invalid-translation', id, `"${id}" is not in the catalog`);
+      if (!isRecord(entry)) {
+        report('invalid-translation', id, 'must be an object');
+        continue;
+      }
+      for (const [field, value] of Object.entries(entry)) {
+        if (field !== 'name' && field !== 'description') {
+          report('invalid-translation', pathOf(id, field), 'only name and description are translated');
+        } else if (!isNonEmptyString(value)) {
+          report('invalid-translation', pathOf(id, field), 'must be non-empty text');
+        }
+      }
+    }
+  });
+
+/**
+ * Thrown when an item fails the catalog rules. Carries every issue found.
+ */
+export class CatalogValidationError extends Error {
+  readonly issues: CatalogIssue[];
+
+  constructor(issues: CatalogIssue[]) {
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+    super(`${formatCatalogIssue(issues[0])}${more}`);
+    this.name = 'CatalogValidationError';
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Minimal RFC 4180 CSV reader/writer.
+ *
+ * Handles quoted fields, escaped quotes ("") and embedded commas/newlines —
+ * enough for spreadsheet round-trips without pulling in a dependency.
+ */
+
+import type { CsvRecord } from '../types/dataTransfer';
+
+/**
+ * Quote a single field when it contains a delimiter, quote or line break.
+ */
+const escapeField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Neutralize free text a spreadsheet would run as a formula: a leading
+ * =, +, - or @ gets a ' in front, which spreadsheets show as text. Text that
+ * already looks escaped gets one more, so `unescapeFormula` restores it.
+ */
+export const escapeFormula = (value: string): string => (/^'*[=+\-@]/.test(value) ? `'${value}` : value);
+
+/**
+ * Undo `escapeFormula` on an imported field.
+ */
+export const unescapeFormula = (value: string): string => (/^'+[=+\-@]/.test(value) ? value.slice(1) : value);
+
+/**
+ * Serialize rows (first row = header) to CSV text.
+ */
+export const toCsv = (rows: (string | number | undefined | null)[][]): string =>
+  rows
+    .map((row) => row.map((value) => escapeField(value === undefined || value === null ? '' : String(value))).join(','))
+    .join('\r\n');
+
+/**
+ * Parse CSV text into rows of raw string fields, each with the physical line
+ * it starts on (quoted line breaks and dropped blank lines counted).
+ */
+const parseCsvRows = (text: string): { line: number; fields: string[] }[] => {
+  const rows: { line: number; fields: string[] }[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  // Strip a UTF-8 BOM (Excel adds one on export).
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ line: rowLine, fields: row });
+      row = [];
+      field = '';
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, fields: row });
+  }
+
+  return rows.filter((r) => r.fields.some((value) => value.trim() !== ''));
+};
+
+/**
+ * Parse CSV text into rows of raw string fields. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => parseCsvRows(text).map((row) => row.fields);
+
+/**
+ * Header cell → record key: lowercased, spaces/dashes → underscores.
+ */
+const normalizeHeader = (header: string): string => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * Parse CSV text into its normalized header row and one record per data row,
+ * keyed by header.
+ */
+export const readCsvTable = (text: string): { headers: string[]; records: CsvRecord[] } => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return { headers: [], records: [] };
+
+  const headers = header.fields.map(normalizeHeader);
+  const records = rows.map(({ line, fields }) => ({
+    line,
+    values: Object.fromEntries(headers.map((key, col) => [key, (fields[col] ?? '').trim()])),
+  }));
+  return { headers, records };
+};
+
+/**
+ * Parse CSV text into records keyed by normalized header name.
+ */
+export const parseCsvRecords = (text: string): CsvRecord[] => readCsvTable(text).records;
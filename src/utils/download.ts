@@ -0,0 +1,19 @@
+/**
+ * Trigger a browser download of in-memory content.
+ */
+export const downloadFile = (content: string | Blob, fileName: string, mimeType: string): void => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Today's date as YYYY-MM-DD, for backup file names.
+ */
+export const fileDateStamp = (): string => new Date().toISOString().split('T')[0];
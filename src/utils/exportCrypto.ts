@@ -0,0 +1,191 @@
+/**
+ * Export Crypto
+ *
+ * Optional passphrase encryption for export files, built on WebCrypto.
+ * PBKDF2-SHA-256 stretches the passphrase into an AES-GCM key plus a short
+ * key-check value; the envelope header is authenticated as associated data,
+ * so any edit to the file fails decryption. A plain digest of the header is
+ * checked before the key, so an edited salt or iteration count reads as
+ * tampering rather than as a wrong passphrase.
+ */
+
+import type { EncryptedExportEnvelope, ExportCryptoErrorCode } from '../types/dataTransfer';
+
+const ENVELOPE_FORMAT = 'crossfit-toolkit-encrypted';
+const ENVELOPE_VERSION = 1;
+const PBKDF2_ITERATIONS = 310_000;
+/** Highest iteration count a file may ask for, so a crafted one can't stall the app */
+const MAX_PBKDF2_ITERATIONS = PBKDF2_ITERATIONS * 4;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const MESSAGES: Record<ExportCryptoErrorCode, string> = {
+  'passphrase-required': 'This file is encrypted. Enter its passphrase to import it.',
+  'wrong-passphrase': 'Wrong passphrase for this file',
+  tampered: 'This file has been modified or corrupted and cannot be decrypted',
+  'unsupported-version': 'This encrypted file was made by a newer version of the app',
+  malformed: 'This encrypted file is damaged or incomplete',
+};
+
+/**
+ * Thrown when an encrypted export can't be opened. `code` says why.
+ */
+export class ExportCryptoError extends Error {
+  readonly code: ExportCryptoErrorCode;
+
+  constructor(code: ExportCryptoErrorCode) {
+    super(MESSAGES[code]);
+    this.name = 'ExportCryptoError';
+    this.code = code;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENCODING
+// ═══════════════════════════════════════════════════════════════════════════
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  try {
+    return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+  } catch {
+    throw new ExportCryptoError('malformed');
+  }
+};
+
+/** Everything but the ciphertext and header check, serialized in a fixed order */
+const associatedData = (envelope: Omit<EncryptedExportEnvelope, 'data' | 'headerCheck'>): Uint8Array<ArrayBuffer> =>
+  new TextEncoder().encode(
+    JSON.stringify([envelope.format, envelope.version, envelope.kdf, envelope.cipher, envelope.keyCheck])
+  );
+
+/**
+ * Unkeyed digest of the header. A forger could recompute it, but still
+ * couldn't make the file decrypt; it only decides which error is reported.
+ */
+const headerDigest = async (envelope: Omit<EncryptedExportEnvelope, 'data' | 'headerCheck'>): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', associatedData(envelope)));
+  return toBase64(digest.slice(0, 16));
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// KEY DERIVATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<{ key: CryptoKey; keyCheck: string }> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  // 256 bits of AES key followed by 256 bits used only for the key check.
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 512)
+  );
+  const key = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  const check = new Uint8Array(await crypto.subtle.digest('SHA-256', bits.slice(32)));
+  return { key, keyCheck: toBase64(check.slice(0, 16)) };
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENVELOPE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Whether a file's text is an encrypted export envelope (of any version)
+ */
+export const isEncryptedExport = (text: string): boolean => {
+  try {
+    const parsed = JSON.parse(text);
+    return typeof parsed === 'object' && parsed !== null && parsed.format === ENVELOPE_FORMAT;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Encrypt export JSON with a passphrase. Returns the envelope as JSON.
+ */
+export const encryptExport = async (plaintext: string, passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const { key, keyCheck } = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const header: Omit<EncryptedExportEnvelope, 'data' | 'headerCheck'> = {
+    format: ENVELOPE_FORMAT,
+    version: ENVELOPE_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    keyCheck,
+  };
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: associatedData(header) },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  const envelope: EncryptedExportEnvelope = {
+    ...header,
+    headerCheck: await headerDigest(header),
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(envelope, null, 2);
+};
+
+const readEnvelope = (text: string): EncryptedExportEnvelope => {
+  let parsed: Partial<EncryptedExportEnvelope>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ExportCryptoError('malformed');
+  }
+  if (parsed?.format !== ENVELOPE_FORMAT) throw new ExportCryptoError('malformed');
+  if (parsed.version !== ENVELOPE_VERSION) throw new ExportCryptoError('unsupported-version');
+
+  const { kdf, cipher } = parsed;
+  const valid =
+    kdf?.name === 'PBKDF2' && kdf.hash === 'SHA-256' &&
+    Number.isInteger(kdf.iterations) && kdf.iterations > 0 && kdf.iterations <= MAX_PBKDF2_ITERATIONS &&
+    typeof kdf.salt === 'string' &&
+    cipher?.name === 'AES-GCM' && typeof cipher.iv === 'string' &&
+    typeof parsed.keyCheck === 'string' && typeof parsed.headerCheck === 'string' &&
+    typeof parsed.data === 'string';
+  if (!valid) throw new ExportCryptoError('malformed');
+
+  return parsed as EncryptedExportEnvelope;
+};
+
+/**
+ * Decrypt an encrypted export back to its export JSON.
+ * Throws `ExportCryptoError` for a wrong passphrase, a tampered or damaged
+ * file, or an envelope version this build doesn't understand.
+ */
+export const decryptExport = async (text: string, passphrase: string): Promise<string> => {
+  if (!passphrase) throw new ExportCryptoError('passphrase-required');
+  const envelope = readEnvelope(text);
+  if (envelope.headerCheck !== (await headerDigest(envelope))) {
+    throw new ExportCryptoError('tampered');
+  }
+
+  const { key, keyCheck } = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+  if (keyCheck !== envelope.keyCheck) throw new ExportCryptoError('wrong-passphrase');
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv), additionalData: associatedData(envelope) },
+      key,
+      fromBase64(envelope.data)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch (error) {
+    if (error instanceof ExportCryptoError) throw error;
+    throw new ExportCryptoError('tampered');
+  }
+};
@@ -0,0 +1,157 @@
+/**
+ * Localization
+ *
+ * Message lookup and locale-aware formatting. The active locale is module
+ * state set by the catalog store from `UserSettings.language` (or the
+ * device languages when unset); `t` falls back to English for messages a
+ * catalog hasn't translated yet, and to the key itself as a last resort.
+ */
+
+import type { Locale, Message, MessageCatalog, MessageKey, MessageParams, PluralCategory } from '../types/i18n';
+import { en } from '../i18n/en';
+import { es } from '../i18n/es';
+import { de } from '../i18n/de';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Each language's name in that language, for the language picker */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  de: 'Deutsch',
+};
+
+const CATALOGS: Record<Locale, MessageCatalog> = { en, es, de };
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.hasOwn(LOCALE_NAMES, value);
+
+/**
+ * First supported language among the device's preferred languages
+ * ("es-MX" → "es"), or English
+ */
+export const detectLocale = (): Locale => {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const language of languages) {
+    const base = language?.split('-')[0].toLowerCase();
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+/**
+ * The locale for a language setting: the chosen one, or the device's when unset
+ */
+export const resolveLocale = (language?: Locale): Locale => language ?? detectLocale();
+
+let currentLocale: Locale = DEFAULT_LOCALE;
+
+export const getLocale = (): Locale => currentLocale;
+
+/**
+ * Switch the active locale. Components re-render through the store's
+ * `locale`; this only changes what `t` and the formatters return.
+ */
+export const setLocale = (locale: Locale): void => {
+  currentLocale = locale;
+  if (typeof document !== 'undefined') document.documentElement.lang = locale;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FORMATTING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Intl constructors are slow; keep one formatter per locale and options */
+const formatterCache = new Map<string, Intl.NumberFormat | Intl.DateTimeFormat | Intl.PluralRules>();
+
+const cachedFormatter = <T extends Intl.NumberFormat | Intl.DateTimeFormat | Intl.PluralRules>(
+  kind: string,
+  options: object,
+  create: () => T
+): T => {
+  const key = `${kind}:${currentLocale}:${JSON.stringify(options)}`;
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    formatter = create();
+    formatterCache.set(key, formatter);
+  }
+  return formatter as T;
+};
+
+/**
+ * A number with the locale's digit grouping and decimal separator
+ */
+export const formatNumber = (value: number, options: Intl.NumberFormatOptions = {}): string =>
+  cachedFormatter('number', options, () => new Intl.NumberFormat(currentLocale, options)).format(value);
+
+/**
+ * A date (Date, timestamp or ISO string) in the locale's format
+ */
+export const formatDate = (date: Date | number | string, options: Intl.DateTimeFormatOptions = {}): string =>
+  cachedFormatter('date', options, () => new Intl.DateTimeFormat(currentLocale, options)).format(new Date(date));
+
+/**
+ * A workout length: "20 min" for whole minutes (unit spelled per locale),
+ * a clock time such as "1:30" otherwise
+ */
+export const formatDuration = (seconds: number): string => {
+  if (seconds % 60 === 0) return formatNumber(seconds / 60, { style: 'unit', unit: 'minute' });
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MESSAGES
+// ═══════════════════════════════════════════════════════════════════════════
+
+const pluralCategory = (count: number): PluralCategory =>
+  cachedFormatter('plural', {}, () => new Intl.PluralRules(currentLocale)).select(count) as PluralCategory;
+
+const lookup = (key: MessageKey): Message | undefined => CATALOGS[currentLocale][key] ?? en[key];
+
+const selectForm = (message: Message, params: MessageParams): string => {
+  if (typeof message === 'string') return message;
+  const count = params.count;
+  if (typeof count !== 'number') return message.other;
+  return message[pluralCategory(count)] ?? message.other;
+};
+
+/**
+ * The message for `key` in the active locale, with {name} placeholders
+ * filled from `params`. A `count` param picks the plural form.
+ */
+export const t = (key: MessageKey, params: MessageParams = {}): string => {
+  const message = lookup(key);
+  if (message === undefined) return key;
+  return selectForm(message, params).replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+};
+
+/**
+ * A message split around its placeholders so rich values (icons, emphasis)
+ * can be slotted in: `messageParts('…{icon} Share', { icon: <Icon /> })`
+ * → ['…', <Icon />, ' Share']. Render the parts in order.
+ */
+export const messageParts = <T>(key: MessageKey, values: Record<string, T>): (string | T)[] => {
+  const message = lookup(key);
+  if (message === undefined) return [key];
+  return selectForm(message, {})
+    .split(/(\{\w+\})/)
+    .filter((part) => part !== '')
+    .map((part) => {
+      const name = part.match(/^\{(\w+)\}$/)?.[1];
+      return name !== undefined && name in values ? values[name] : part;
+    });
+};
+
+/**
+ * Translate every key of a label map, e.g. `{ 1: 'recovery.energy.1' }`
+ * → `{ 1: 'Exhausted' }`
+ */
+export const translateRecord = <K extends PropertyKey>(record: Record<K, MessageKey>): Record<K, string> =>
+  Object.fromEntries(Object.entries(record).map(([k, key]) => [k, t(key as MessageKey)])) as Record<K, string>;
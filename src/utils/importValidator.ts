@@ -0,0 +1,295 @@
+/**
+ * Import Validator
+ *
+ * Checks an export file (any supported version, v1–v4) record by record before
+ * anything is written: required fields, enum values, date formats, custom
+ * items against the catalog rules, and that each PR log's `resultValue`
+ * agrees with its `result` under the score-type registry. Produces a flat,
+ * row-level issue list for the UI.
+ */
+
+import type { ScoreType } from '../types/catalog';
+import type { CatalogIssueCode } from '../types/catalogValidation';
+import type { ImportIssue, ImportIssueSource } from '../types/dataTransfer';
+import { getBuiltinCatalogItemById, getMovements } from '../catalog/catalogService';
+import { isRecord, isScoreType, validateCatalogItem } from './catalogValidation';
+import { extractRawResult, parseResultToValue } from './resultParser';
+
+/** Export format versions this build can read */
+export const SUPPORTED_EXPORT_VERSIONS = [1, 2, 3, 4];
+
+const VARIANTS = ['Rx', 'Scaled', 'Rx+'];
+const GOAL_STATUSES = ['active', 'achieved', 'cancelled'];
+const CHECK_IN_TYPES = ['training', 'rest'];
+const SLEEP_HOURS = [5, 6, 7, 8, 9];
+const MEASURE_UNITS = ['kg', 'lb', 'm', 'ft'];
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Allowed drift between a stored resultValue and its reparsed result */
+export const RESULT_VALUE_TOLERANCE = 0.001;
+
+/**
+ * Thrown when an export file fails validation. Carries every issue found so
+ * the UI can list them all at once.
+ */
+export class ImportValidationError extends Error {
+  readonly issues: ImportIssue[];
+
+  constructor(issues: ImportIssue[]) {
+    super(`Import file has ${issues.length} invalid ${issues.length === 1 ? 'entry' : 'entries'}`);
+    this.name = 'ImportValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Human-readable one-liner for an issue, e.g.
+ * `PR log #3 (log-1712): resultValue — expected 100, got 95`.
+ */
+export const formatImportIssue = (issue: ImportIssue): string => {
+  const row = issue.index !== undefined ? ` #${issue.index + 1}` : '';
+  const id = issue.recordId ? ` (${issue.recordId})` : '';
+  const field = issue.field ? `${issue.field} — ` : '';
+  return `${ISSUE_SOURCE_LABELS[issue.table]}${row}${id}: ${field}${issue.message}`;
+};
+
+const ISSUE_SOURCE_LABELS: Record<ImportIssueSource, string> = {
+  favorites: 'Favorite',
+  customItems: 'Custom item',
+  prLogs: 'PR log',
+  goals: 'Goal',
+  dailyCheckIns: 'Check-in',
+  catalogItems: 'Catalog item',
+  settings: 'Settings',
+  file: 'File',
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FIELD GUARDS
+// ═══════════════════════════════════════════════════════════════════════════
+
+type Row = Record<string, unknown>;
+type Report = (field: string | undefined, message: string, code?: CatalogIssueCode) => void;
+
+const isIsoDate = (value: unknown): boolean =>
+  typeof value === 'string' && ISO_DATE_RE.test(value) && !Number.isNaN(Date.parse(value));
+
+const isTimestamp = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isPositiveNumber = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const requireString = (row: Row, field: string, report: Report) => {
+  if (typeof row[field] !== 'string' || (row[field] as string).trim() === '') {
+    report(field, 'is required');
+  }
+};
+
+const requireOneOf = (row: Row, field: string, allowed: readonly unknown[], report: Report, optional = false) => {
+  const value = row[field];
+  if (optional && value === undefined) return;
+  if (!allowed.includes(value)) report(field, `must be one of ${allowed.join(', ')} (got ${JSON.stringify(value)})`);
+};
+
+const requireScoreType = (row: Row, field: string, report: Report, optional = false) => {
+  const value = row[field];
+  if (optional && value === undefined) return;
+  if (!isScoreType(value)) report(field, `unknown score type ${JSON.stringify(value)}`);
+};
+
+const optionalPositive = (row: Row, fields: string[], report: Report) => {
+  for (const field of fields) {
+    if (row[field] !== undefined && !isPositiveNumber(row[field])) report(field, 'must be a positive number');
+  }
+};
+
+const checkVariant = (row: Row, report: Report) => {
+  // Non-benchmark logs store null; very old records may omit the field.
+  const variant = row.variant;
+  if (variant !== null && variant !== undefined && !VARIANTS.includes(variant as string)) {
+    report('variant', `must be Rx, Scaled, Rx+ or empty (got ${JSON.stringify(variant)})`);
+  }
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECORD CHECKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const checkFavorite = (row: Row, report: Report) => {
+  requireString(row, 'id', report);
+};
+
+/** Custom items follow the catalog rules (utils/catalogValidation) */
+const checkCustomItem = (row: Row, report: Report) => {
+  const movementIds = new Set(getMovements().map((movement) => movement.id));
+  for (const issue of validateCatalogItem(row, { source: 'custom', movementIds })) {
+    report(issue.path || undefined, issue.message, issue.code);
+  }
+};
+
+const checkCatalogItem = (row: Row, report: Report) => {
+  checkCustomItem(row, report);
+  if (typeof row.isBuiltin !== 'boolean') report('isBuiltin', 'must be true or false');
+};
+
+/**
+ * PR log check. `resolveScoreType` maps a catalog item id to its primary score
+ * type; when it can't (unknown item) and the log carries no `scoreTypeId`, the
+ * result/resultValue consistency check is skipped.
+ */
+const checkPRLog = (resolveScoreType: (itemId: string) => ScoreType | undefined) => (row: Row, report: Report) => {
+  requireString(row, 'id', report);
+  requireString(row, 'catalogItemId', report);
+  requireString(row, 'result', report);
+  if (typeof row.resultValue !== 'number' || !Number.isFinite(row.resultValue)) {
+    report('resultValue', 'must be a number');
+  }
+  requireScoreType(row, 'scoreTypeId', report, true);
+  requireOneOf(row, 'unit', MEASURE_UNITS, report, true);
+  checkVariant(row, report);
+  if (!isTimestamp(row.date)) report('date', 'must be a timestamp');
+  if (!isTimestamp(row.createdAt)) report('createdAt', 'must be a timestamp');
+  if (row.notes !== undefined && typeof row.notes !== 'string') report('notes', 'must be text');
+  optionalPositive(row, ['reps', 'distance', 'calories', 'timeCap', 'targetReps'], report);
+
+  if (typeof row.result !== 'string' || typeof row.resultValue !== 'number') return;
+  const scoreType = isScoreType(row.scoreTypeId)
+    ? row.scoreTypeId
+    : typeof row.catalogItemId === 'string'
+      ? resolveScoreType(row.catalogItemId)
+      : undefined;
+  if (!scoreType) return;
+
+  const expected = parseResultToValue(extractRawResult(row.result, scoreType), scoreType);
+  if (Math.abs(expected - row.resultValue) > RESULT_VALUE_TOLERANCE) {
+    report('resultValue', `expected ${expected} for "${row.result}", got ${row.resultValue}`);
+  }
+};
+
+const checkGoal = (row: Row, report: Report) => {
+  requireString(row, 'id', report);
+  requireString(row, 'itemId', report);
+  if (typeof row.targetValue !== 'number' || !Number.isFinite(row.targetValue)) {
+    report('targetValue', 'must be a number');
+  }
+  requireOneOf(row, 'unit', MEASURE_UNITS, report, true);
+  if (!isIsoDate(row.targetDate)) report('targetDate', 'must be a YYYY-MM-DD date');
+  if (!isIsoDate(row.createdAt)) report('createdAt', 'must be a YYYY-MM-DD date');
+  if (row.achievedAt !== undefined && !isIsoDate(row.achievedAt)) report('achievedAt', 'must be a YYYY-MM-DD date');
+  requireOneOf(row, 'status', GOAL_STATUSES, report);
+  checkVariant(row, report);
+  requireScoreType(row, 'scoreTypeId', report, true);
+  optionalPositive(row, ['reps', 'timeCap', 'targetReps'], report);
+};
+
+const checkDailyCheckIn = (row: Row, report: Report) => {
+  requireString(row, 'id', report);
+  if (!isIsoDate(row.date)) report('date', 'must be a YYYY-MM-DD date');
+  requireOneOf(row, 'type', CHECK_IN_TYPES, report);
+  const training = row.type === 'training';
+  requireOneOf(row, 'energy', [1, 2, 3, 4, 5], report, !training);
+  requireOneOf(row, 'soreness', [1, 2, 3, 4, 5], report, !training);
+  requireOneOf(row, 'sleepHours', SLEEP_HOURS, report, !training);
+  if (!isTimestamp(row.createdAt)) report('createdAt', 'must be a timestamp');
+};
+
+const checkSettings = (row: Row, report: Report) => {
+  requireOneOf(row, 'weightUnit', ['kg', 'lb'], report);
+  requireOneOf(row, 'distanceUnit', ['m', 'ft'], report);
+  if (row.hasSeenOnboarding !== undefined && typeof row.hasSeenOnboarding !== 'boolean') {
+    report('hasSeenOnboarding', 'must be true or false');
+  }
+  if (row.minSleepHours !== undefined && !isPositiveNumber(row.minSleepHours)) {
+    report('minSleepHours', 'must be a positive number');
+  }
+  if (row.catalogVersion !== undefined && !(Number.isInteger(row.catalogVersion) && (row.catalogVersion as number) >= 0)) {
+    report('catalogVersion', 'must be a whole number');
+  }
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FILE VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Run `check` over every row of a table, recording issues against the row.
+ * Also flags duplicate ids within the table.
+ */
+const checkTable = (
+  issues: ImportIssue[],
+  table: ImportIssueSource,
+  rows: unknown,
+  check: (row: Row, report: Report) => void
+) => {
+  if (rows === undefined) return;
+  if (!Array.isArray(rows)) {
+    issues.push({ table, message: 'must be a list' });
+    return;
+  }
+
+  const seenIds = new Set<string>();
+  rows.forEach((row, index) => {
+    if (!isRecord(row)) {
+      issues.push({ table, index, message: 'must be an object' });
+      return;
+    }
+    const recordId = typeof row.id === 'string' ? row.id : undefined;
+    const report: Report = (field, message, code) => issues.push({ table, index, recordId, field, message, ...(code ? { code } : {}) });
+
+    check(row, report);
+    if (recordId !== undefined) {
+      if (seenIds.has(recordId)) report('id', 'is duplicated in this file');
+      seenIds.add(recordId);
+    }
+  });
+};
+
+/**
+ * Validate a parsed export file. Returns an empty list when the file is safe
+ * to import.
+ */
+export const validateExportData = (data: unknown): ImportIssue[] => {
+  const issues: ImportIssue[] = [];
+
+  if (!isRecord(data)) {
+    return [{ table: 'file', message: 'Not a CrossfitToolkit backup' }];
+  }
+  if (typeof data.version !== 'number' || !SUPPORTED_EXPORT_VERSIONS.includes(data.version)) {
+    return [{ table: 'file', message: `Unsupported data format version ${JSON.stringify(data.version)}` }];
+  }
+  const version = data.version;
+
+  // Custom items in the file take part in score-type resolution for its logs.
+  const fileItems = (version === 1 ? data.catalogItems : data.customItems) ?? [];
+  const fileScoreTypes = new Map<string, ScoreType>();
+  if (Array.isArray(fileItems)) {
+    for (const item of fileItems) {
+      if (isRecord(item) && typeof item.id === 'string' && isScoreType(item.scoreType)) {
+        fileScoreTypes.set(item.id, item.scoreType);
+      }
+    }
+  }
+  const resolveScoreType = (itemId: string): ScoreType | undefined =>
+    getBuiltinCatalogItemById(itemId)?.scoreType ?? fileScoreTypes.get(itemId);
+
+  if (version === 1) {
+    checkTable(issues, 'catalogItems', data.catalogItems, checkCatalogItem);
+  } else {
+    checkTable(issues, 'favorites', data.favorites, checkFavorite);
+    checkTable(issues, 'customItems', data.customItems, checkCustomItem);
+  }
+  checkTable(issues, 'prLogs', data.prLogs, checkPRLog(resolveScoreType));
+  if (version >= 3) checkTable(issues, 'goals', data.goals, checkGoal);
+  if (version >= 4) checkTable(issues, 'dailyCheckIns', data.dailyCheckIns, checkDailyCheckIn);
+
+  if (data.settings !== undefined) {
+    if (!isRecord(data.settings)) {
+      issues.push({ table: 'settings', message: 'must be an object' });
+    } else {
+      checkSettings(data.settings, (field, message) => issues.push({ table: 'settings', field, message }));
+    }
+  }
+
+  return issues;
+};
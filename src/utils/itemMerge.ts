@@ -0,0 +1,89 @@
+/**
+ * Item Merge
+ *
+ * Pure mapping used when a custom item's history is folded into a builtin
+ * item: each log and goal is re-pointed at the target, its score type is
+ * kept / converted / flagged (see `remapLogScoreType`), and constraints the
+ * target's score type needs are filled in from the source item's defaults.
+ */
+
+import type { CatalogItem, CustomItemMergeOptions, PRLog } from '../types/catalog';
+import type { Goal } from '../types/goal';
+import { SCORE_TYPES } from '../config/scoreTypes';
+import { remapGoalScoreType, remapLogScoreType, type LogScoreTypeRemap } from './resultParser';
+
+export interface MergedLog {
+  outcome: LogScoreTypeRemap['outcome'];
+  /** Whether a missing constraint (time cap, rep target, reps) was filled in */
+  constraintFilled: boolean;
+  updates: Partial<PRLog>;
+}
+
+/**
+ * Rep count implied by a custom item's name ("Back squat 5RM" → 5)
+ */
+export const suggestMergeReps = (name: string): number | undefined => {
+  const match = name.match(/(\d+)\s*-?\s*rm\b/i);
+  const reps = match ? parseInt(match[1], 10) : NaN;
+  return reps > 0 ? reps : undefined;
+};
+
+type Constraints = Pick<PRLog, 'timeCap' | 'targetReps' | 'reps'>;
+
+/**
+ * Constraint fields a record needs under `scoreType` but lacks, filled from
+ * the source item's defaults, then the target's (and `defaultReps` for loads).
+ */
+const fillConstraints = (
+  record: Constraints,
+  scoreType: PRLog['scoreTypeId'],
+  source: CatalogItem,
+  target: CatalogItem,
+  options: CustomItemMergeOptions
+): Constraints => {
+  const filled: Constraints = {};
+  const constraint = scoreType ? SCORE_TYPES[scoreType].constraint : undefined;
+  if (constraint && record[constraint.field] === undefined) {
+    const value = source[constraint.field] ?? target[constraint.field];
+    if (value !== undefined) filled[constraint.field] = value;
+  }
+  if (scoreType === 'Load' && record.reps === undefined && options.defaultReps) {
+    filled.reps = options.defaultReps;
+  }
+  return filled;
+};
+
+/**
+ * Map one of the source item's logs onto the target item
+ */
+export const mergeLogIntoItem = (
+  log: PRLog,
+  source: CatalogItem,
+  target: CatalogItem,
+  options: CustomItemMergeOptions = {}
+): MergedLog => {
+  const { outcome, updates } = remapLogScoreType(log, source, target);
+  const constraints = fillConstraints(log, updates.scoreTypeId, source, target, options);
+  return {
+    outcome,
+    constraintFilled: Object.keys(constraints).length > 0,
+    updates: { ...updates, ...constraints, catalogItemId: target.id },
+  };
+};
+
+/**
+ * Map one of the source item's goals onto the target item
+ */
+export const mergeGoalIntoItem = (
+  goal: Goal,
+  source: CatalogItem,
+  target: CatalogItem,
+  options: CustomItemMergeOptions = {}
+): Partial<Goal> => {
+  const scoreTypeId = remapGoalScoreType(goal, source, target);
+  return {
+    ...fillConstraints(goal, scoreTypeId, source, target, options),
+    scoreTypeId,
+    itemId: target.id,
+  };
+};
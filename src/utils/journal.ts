@@ -0,0 +1,41 @@
+/**
+ * Journal
+ *
+ * Helpers for reading change journal entries: which fields an update
+ * touched, and short display values for them.
+ */
+
+import type { ChangeEntry } from '../types/journal';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** Bookkeeping fields left out of diffs */
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+/**
+ * Fields that differ between an entry's before and after snapshots,
+ * sorted by name
+ */
+export const diffSnapshots = (entry: ChangeEntry): FieldChange[] => {
+  const before = (entry.before ?? {}) as Record<string, unknown>;
+  const after = (entry.after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...fields]
+    .filter((field) => !IGNORED_FIELDS.has(field) && JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .sort()
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+};
+
+/**
+ * A snapshot value as short display text
+ */
+export const formatSnapshotValue = (value: unknown, maxLength = 40): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
@@ -0,0 +1,127 @@
+/**
+ * Movements
+ *
+ * Lookups over the movement library: which benchmarks program a movement
+ * (or one of its variants) and which lift, skill and monostructural items
+ * test it.
+ */
+
+import { getMovementById, getMovements } from '../catalog/catalogService';
+import type { CatalogItem } from '../types/catalog';
+import type { Movement, MovementEquipment, MovementPattern } from '../types/movement';
+
+export const MOVEMENT_PATTERN_LABELS: Record<MovementPattern, string> = {
+  squat: 'Squat',
+  hinge: 'Hinge',
+  press: 'Press',
+  pull: 'Pull',
+  'olympic-lift': 'Olympic lift',
+  lunge: 'Lunge',
+  jump: 'Jump',
+  core: 'Core',
+  inversion: 'Inversion',
+  'full-body': 'Full body',
+  carry: 'Carry',
+  locomotion: 'Locomotion',
+};
+
+export const EQUIPMENT_LABELS: Record<MovementEquipment, string> = {
+  none: 'Bodyweight',
+  barbell: 'Barbell',
+  dumbbell: 'Dumbbell',
+  kettlebell: 'Kettlebell',
+  'medicine-ball': 'Medicine ball',
+  'pull-up-bar': 'Pull-up bar',
+  rings: 'Rings',
+  parallettes: 'Parallettes',
+  box: 'Box',
+  'jump-rope': 'Jump rope',
+  rope: 'Climbing rope',
+  'peg-board': 'Peg board',
+  wall: 'Wall',
+  ghd: 'GHD',
+  rower: 'Rower',
+  bike: 'Bike',
+  'ski-erg': 'SkiErg',
+  sled: 'Sled',
+  sandbag: 'Sandbag',
+  strongman: 'Strongman',
+  water: 'Pool / open water',
+};
+
+/**
+ * A movement plus its variants (C2B, strict, L pull-ups under pull-up)
+ */
+export const getMovementFamily = (movementId: string): Movement[] =>
+  getMovements().filter((movement) => movement.id === movementId || movement.variantOf === movementId);
+
+/**
+ * Movement ids a catalog item's workout programs
+ */
+export const getItemMovementIds = (item: CatalogItem): Set<string> =>
+  new Set(item.workout?.movements.map((movement) => movement.movementId) ?? []);
+
+/**
+ * Equipment an item needs: from its workout's movements, or for lifts and
+ * skills from the movements listing it as related. 'none' (bodyweight) only
+ * when nothing else is needed; empty when the item links no movement.
+ */
+export const getItemEquipment = (item: CatalogItem): MovementEquipment[] => {
+  const movementIds = item.workout
+    ? getItemMovementIds(item)
+    : new Set(getMovements().filter((movement) => movement.relatedItemIds?.includes(item.id)).map((movement) => movement.id));
+  const equipment = new Set([...movementIds].flatMap((id) => getMovementById(id)?.equipment ?? []));
+  if (equipment.size > 1) equipment.delete('none');
+  return [...equipment];
+};
+
+/**
+ * Everything linked to a movement: benchmarks whose workout includes it or
+ * one of its variants, and the items listed as related on any of them
+ */
+export const browseMovement = (
+  movementId: string,
+  items: CatalogItem[]
+): { benchmarks: CatalogItem[]; relatedItems: CatalogItem[] } => {
+  const family = getMovementFamily(movementId);
+  const familyIds = new Set(family.map((movement) => movement.id));
+  const relatedIds = new Set(family.flatMap((movement) => movement.relatedItemIds ?? []));
+
+  const benchmarks = items.filter((item) => {
+    if (!item.workout) return false;
+    return [...getItemMovementIds(item)].some((id) => familyIds.has(id));
+  });
+  const relatedItems = items.filter((item) => relatedIds.has(item.id));
+  return { benchmarks, relatedItems };
+};
+
+/**
+ * Number of benchmarks programming each movement, counting variants toward
+ * their parent as well
+ */
+export const countBenchmarksByMovement = (items: CatalogItem[]): Map<string, number> => {
+  const parents = new Map(getMovements().map((movement) => [movement.id, movement.variantOf]));
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const ids = new Set<string>();
+    for (const id of getItemMovementIds(item)) {
+      ids.add(id);
+      const parent = parents.get(id);
+      if (parent) ids.add(parent);
+    }
+    for (const id of ids) counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Movements whose name or an alias contains the query (all when empty)
+ */
+export const searchMovements = (query: string): Movement[] => {
+  const lowerQuery = query.trim().toLowerCase();
+  if (!lowerQuery) return getMovements();
+  return getMovements().filter((movement) =>
+    movement.name.toLowerCase().includes(lowerQuery) ||
+    movement.aliases?.some((alias) => alias.toLowerCase().includes(lowerQuery))
+  );
+};
@@ -1,5 +1,6 @@
-import type { ScoreType } from '../types/catalog';
-import { SCORE_TYPES } from '../config/scoreTypes';
+import type { CatalogItem, PRLog, ScoreType } from '../types/catalog';
+import type { Goal } from '../types/goal';
+import { SCORE_TYPES, formatSecondsToTime, canConvertScore, getLogScoreType, getScoreModes } from '../config/scoreTypes';
 
 // Primitive parsers now live in the score-type registry (the leaf source of
 // truth). Re-exported here so existing call sites keep importing them from
@@ -70,6 +71,61 @@ export const formatCompoundResult = (
   }
 };
 
+/**
+ * Build the display string stored on a PR log from the raw result and the
+ * extras captured alongside it. This is the inverse of `extractRawResult`.
+ *
+ * `distanceLabel` is the distance as the athlete entered it (e.g. "1.5km");
+ * `calories` marks a calorie-metric entry; `timeCap` / `targetReps` are the
+ * constraints for RepsInTime / TimeForReps.
+ */
+export const formatLogResult = (
+  result: string,
+  scoreType: ScoreType,
+  options?: {
+    reps?: number;
+    distanceLabel?: string;
+    calories?: number;
+    timeCap?: number;
+    targetReps?: number;
+    weightUnit?: string;
+    distanceUnit?: string;
+  }
+): string => {
+  const { reps, distanceLabel, calories, timeCap, targetReps, weightUnit, distanceUnit } = options || {};
+
+  if (distanceLabel) return `${distanceLabel} in ${result}`;
+  if (calories !== undefined) return `${calories} cal in ${result}`;
+  if (scoreType === 'RepsInTime' && timeCap) return `${result} reps in ${formatSecondsToTime(timeCap)}`;
+  if (scoreType === 'TimeForReps' && targetReps) return `${targetReps} reps in ${result}`;
+  return formatCompoundResult(result, scoreType, { reps, weightUnit, distanceUnit });
+};
+
+/**
+ * Recover the raw result a log was entered with from its stored display string.
+ *
+ * Logs store a formatted result ("5 reps @ 100kg", "400m in 1:30",
+ * "15 reps in 2:00", "25 reps"). The score lives after "@" for loads, after
+ * "in" for time-scored entries and before it otherwise; numeric scores drop
+ * their unit suffix. The output round-trips through `parseResultToValue`.
+ */
+export const extractRawResult = (result: string, scoreType: ScoreType): string => {
+  const def = SCORE_TYPES[scoreType];
+  let segment = result.trim();
+
+  if (segment.includes(' @ ')) {
+    segment = segment.slice(segment.lastIndexOf(' @ ') + 3);
+  } else if (segment.includes(' in ')) {
+    const [before, after] = segment.split(' in ');
+    segment = def.resultInput === 'time' ? after : before;
+  }
+  segment = segment.trim();
+
+  if (def.resultInput === 'time' || scoreType === 'Rounds+Reps') return segment;
+  const numeric = segment.match(/^\d+(\.\d+)?/);
+  return numeric ? numeric[0] : segment;
+};
+
 /**
  * Get the label for the result field based on score type
  */
@@ -87,3 +143,54 @@ export const validateResult = (result: string, scoreType: ScoreType): boolean =>
  * Get placeholder text for result input based on score type
  */
 export const getResultPlaceholder = (scoreType: ScoreType): string => SCORE_TYPES[scoreType].placeholder;
+
+/**
+ * How a log fares when its item's score types change (or it moves to another
+ * item): kept under its own score type, converted to the new default, or
+ * flagged because the result can't be read under any offered type.
+ */
+export interface LogScoreTypeRemap {
+  outcome: 'kept' | 'migrated' | 'flagged';
+  updates: Pick<PRLog, 'scoreTypeId' | 'resultValue' | 'scoreTypeMismatch'>;
+}
+
+/**
+ * Work out a log's score type under `to`, given it was recorded against
+ * `from`. The score type is always stamped explicitly so legacy logs don't
+ * silently backfill to a different default.
+ */
+export const remapLogScoreType = (
+  log: Pick<PRLog, 'scoreTypeId' | 'result' | 'resultValue'>,
+  from: Pick<CatalogItem, 'scoreType'>,
+  to: CatalogItem
+): LogScoreTypeRemap => {
+  const current = getLogScoreType(log, from);
+  if (getScoreModes(to).includes(current)) {
+    return { outcome: 'kept', updates: { scoreTypeId: current, resultValue: log.resultValue, scoreTypeMismatch: undefined } };
+  }
+
+  const raw = extractRawResult(log.result, current);
+  if (canConvertScore(current, to.scoreType) && validateResult(raw, to.scoreType)) {
+    return {
+      outcome: 'migrated',
+      updates: { scoreTypeId: to.scoreType, resultValue: parseResultToValue(raw, to.scoreType), scoreTypeMismatch: undefined },
+    };
+  }
+
+  return { outcome: 'flagged', updates: { scoreTypeId: current, resultValue: log.resultValue, scoreTypeMismatch: true } };
+};
+
+/**
+ * Goal counterpart of `remapLogScoreType`: keep the goal's pool when `to`
+ * still offers it, follow a convertible pool to the new default, otherwise
+ * stay on the old pool (alongside the flagged logs it tracks).
+ */
+export const remapGoalScoreType = (
+  goal: Pick<Goal, 'scoreTypeId'>,
+  from: Pick<CatalogItem, 'scoreType'>,
+  to: CatalogItem
+): ScoreType => {
+  const current = goal.scoreTypeId ?? from.scoreType;
+  if (getScoreModes(to).includes(current)) return current;
+  return canConvertScore(current, to.scoreType) ? to.scoreType : current;
+};
@@ -0,0 +1,297 @@
+/**
+ * Catalog Search
+ *
+ * Ranked, typo-tolerant search over catalog items. Items are tokenized once
+ * into an index (name, aliases, builtin id, tags, workout movements,
+ * description) with accents folded, so "natacion" finds "Natación"; a
+ * query token matches a field token exactly, as a prefix, or within a small
+ * edit distance, and each field weighs in differently. Favorites and recently
+ * logged items get a small boost. Results carry the matched character ranges
+ * so the UI can highlight them.
+ */
+
+import { getMovementById } from '../catalog/catalogService';
+import type { CatalogItem, PRLog } from '../types/catalog';
+
+export type SearchField = 'name' | 'aliases' | 'id' | 'tags' | 'movements' | 'description';
+
+/**
+ * One field value a query matched, with the matched [start, end) ranges
+ */
+export interface SearchMatch {
+  field: SearchField;
+  text: string;
+  ranges: [number, number][];
+}
+
+export interface SearchResult {
+  item: CatalogItem;
+  score: number;
+  /** Matched field values, best field first */
+  matches: SearchMatch[];
+}
+
+/**
+ * Ranking signals from the user's own data
+ */
+export interface SearchBoosts {
+  favoriteIds?: Set<string>;
+  /** Items with recent logs, most recent first */
+  recentItemIds?: string[];
+}
+
+interface Token {
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedText {
+  field: SearchField;
+  text: string;
+  tokens: Token[];
+  /** Letters and digits only: "C&J" → "cj", so compact queries still match */
+  compact: string;
+}
+
+interface IndexedItem {
+  item: CatalogItem;
+  texts: IndexedText[];
+  compactName: string;
+}
+
+export interface SearchIndex {
+  items: IndexedItem[];
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 10,
+  aliases: 8,
+  id: 7,
+  movements: 6,
+  tags: 4,
+  description: 2,
+};
+
+/** How much of a field's weight each kind of token match earns */
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.75;
+const FUZZY_MATCH = 0.6;
+const FUZZY_PREFIX_MATCH = 0.45;
+
+const NAME_EXACT_BONUS = 20;
+const NAME_PREFIX_BONUS = 8;
+const FAVORITE_BOOST = 4;
+const RECENT_BOOST = 5;
+
+/** "Überkopf" → "uberkopf": lowercase without accents */
+const fold = (text: string): string => text.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '');
+
+const tokenize = (text: string): Token[] =>
+  // Ranges point into the original text, so fold each word rather than the whole string
+  [...text.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => ({
+    value: fold(match[0]),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+
+const compactOf = (text: string): string => fold(text).replace(/[^\p{L}\p{N}]/gu, '');
+
+/** Edits a query token may be off by: none for short words, more for long ones */
+const maxEdits = (length: number): number => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+/**
+ * Optimal string alignment distance (insertions, deletions, substitutions and
+ * adjacent transpositions), giving up once it exceeds `limit`
+ */
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const twoBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoBack[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+  }
+  return row[b.length];
+};
+
+/**
+ * How well a query token matches a field token (0 for no match) and which
+ * part of the field token to highlight
+ */
+const matchToken = (query: string, token: Token, allowShortPrefix: boolean): { quality: number; range: [number, number] } | null => {
+  const field = token.value;
+  if (field === query) return { quality: EXACT_MATCH, range: [token.start, token.end] };
+  if (field.startsWith(query) && (query.length >= 2 || allowShortPrefix)) {
+    return { quality: PREFIX_MATCH, range: [token.start, token.start + query.length] };
+  }
+
+  const limit = maxEdits(query.length);
+  if (limit === 0) return null;
+  const distance = editDistance(query, field, limit);
+  if (distance <= limit) {
+    return { quality: FUZZY_MATCH - 0.1 * (distance - 1), range: [token.start, token.end] };
+  }
+  // Typo while still typing a longer word: "thrustr" → "thrusters"
+  if (field.length > query.length && editDistance(query, field.slice(0, query.length), limit) <= limit) {
+    return { quality: FUZZY_PREFIX_MATCH, range: [token.start, token.start + query.length] };
+  }
+  return null;
+};
+
+/**
+ * Movement names an item can be found by: the prescribed names in its
+ * workout plus each linked movement's canonical name and aliases, or the
+ * free-text movements of a custom item
+ */
+const movementTexts = (item: CatalogItem): string[] => {
+  const texts = new Set<string>(item.movements ?? []);
+  for (const movement of item.workout?.movements ?? []) {
+    texts.add(movement.name);
+    const canonical = getMovementById(movement.movementId);
+    if (canonical) {
+      texts.add(canonical.name);
+      for (const alias of canonical.aliases ?? []) texts.add(alias);
+    }
+  }
+  return [...texts];
+};
+
+const indexText = (field: SearchField, text: string): IndexedText => ({
+  field,
+  text,
+  tokens: tokenize(text),
+  compact: compactOf(text),
+});
+
+/**
+ * Tokenize catalog items for searching. Build once per catalog change.
+ */
+export const createSearchIndex = (items: readonly CatalogItem[]): SearchIndex => ({
+  items: items.map((item) => ({
+    item,
+    compactName: compactOf(item.name),
+    texts: [
+      indexText('name', item.name),
+      ...(item.aliases ?? []).map((alias) => indexText('aliases', alias)),
+      ...(item.isBuiltin ? [indexText('id', item.id)] : []),
+      ...movementTexts(item).map((text) => indexText('movements', text)),
+      ...(item.tags ?? []).map((tag) => indexText('tags', tag)),
+      ...(item.description ? [indexText('description', item.description)] : []),
+    ],
+  })),
+});
+
+/**
+ * Rank indexed items against a query. Every query word has to match some
+ * field; an empty query returns nothing.
+ */
+export const searchIndex = (index: SearchIndex, query: string, boosts: SearchBoosts = {}): SearchResult[] => {
+  const queryTokens = tokenize(query).map((token) => token.value);
+  const compactQuery = queryTokens.join('');
+  if (queryTokens.length === 0) return [];
+
+  const recentRank = new Map((boosts.recentItemIds ?? []).map((id, rank) => [id, rank]));
+  const recentCount = Math.max(recentRank.size, 1);
+  const results: SearchResult[] = [];
+
+  for (const { item, texts, compactName } of index.items) {
+    const rangesByText = new Map<IndexedText, [number, number][]>();
+    const bestByText = new Map<IndexedText, number>();
+    let score = 0;
+    let matchedAll = true;
+
+    for (const [position, queryToken] of queryTokens.entries()) {
+      const allowShortPrefix = position === queryTokens.length - 1;
+      let best: { text: IndexedText; score: number; range: [number, number] } | null = null;
+      for (const text of texts) {
+        for (const token of text.tokens) {
+          const match = matchToken(queryToken, token, allowShortPrefix);
+          if (!match) continue;
+          const tokenScore = FIELD_WEIGHTS[text.field] * match.quality;
+          if (!best || tokenScore > best.score) best = { text, score: tokenScore, range: match.range };
+        }
+      }
+      if (!best) {
+        matchedAll = false;
+        break;
+      }
+      score += best.score;
+      rangesByText.set(best.text, [...(rangesByText.get(best.text) ?? []), best.range]);
+      bestByText.set(best.text, Math.max(bestByText.get(best.text) ?? 0, best.score));
+    }
+
+    // Abbreviations written without their punctuation: "cj" for "C&J"
+    if (!matchedAll && compactQuery.length >= 2) {
+      const text = texts.find((candidate) => candidate.compact === compactQuery);
+      if (text) {
+        matchedAll = true;
+        score = FIELD_WEIGHTS[text.field] * EXACT_MATCH * queryTokens.length;
+        rangesByText.clear();
+        bestByText.clear();
+        rangesByText.set(text, [[0, text.text.length]]);
+        bestByText.set(text, score);
+      }
+    }
+    if (!matchedAll) continue;
+
+    if (compactName === compactQuery) score += NAME_EXACT_BONUS;
+    else if (compactName.startsWith(compactQuery)) score += NAME_PREFIX_BONUS;
+    if (boosts.favoriteIds?.has(item.id)) score += FAVORITE_BOOST;
+    const rank = recentRank.get(item.id);
+    if (rank !== undefined) score += RECENT_BOOST * (1 - rank / recentCount);
+
+    const matches = [...rangesByText.entries()]
+      .sort(([a], [b]) => (bestByText.get(b) ?? 0) - (bestByText.get(a) ?? 0))
+      .map(([text, ranges]) => ({
+        field: text.field,
+        text: text.text,
+        ranges: [...ranges].sort((a, b) => a[0] - b[0]),
+      }));
+    results.push({ item, score, matches });
+  }
+
+  return results.sort((a, b) => b.score - a.score || a.item.name.localeCompare(b.item.name));
+};
+
+/**
+ * Boosts from the catalog's favorite flags and the latest logs (newest first)
+ */
+export const searchBoostsFrom = (items: CatalogItem[], recentLogs: PRLog[]): SearchBoosts => ({
+  favoriteIds: new Set(items.filter((item) => item.isFavorite).map((item) => item.id)),
+  recentItemIds: [...new Set(recentLogs.map((log) => log.catalogItemId))],
+});
+
+/**
+ * One-off search without keeping an index
+ */
+export const searchCatalog = (items: readonly CatalogItem[], query: string, boosts?: SearchBoosts): SearchResult[] =>
+  searchIndex(createSearchIndex(items), query, boosts);
+
+/**
+ * Split text into plain and highlighted parts from match ranges
+ */
+export const splitHighlights = (text: string, ranges: [number, number][]): { text: string; highlighted: boolean }[] => {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (start < cursor) continue;
+    if (start > cursor) parts.push({ text: text.slice(cursor, start), highlighted: false });
+    parts.push({ text: text.slice(start, end), highlighted: true });
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), highlighted: false });
+  return parts;
+};
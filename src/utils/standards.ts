@@ -0,0 +1,169 @@
+/**
+ * Division Standards
+ *
+ * The athlete's own Rx and Scaled loads for a benchmark. A load listed in a
+ * movement's `standards` for the athlete's age group wins; otherwise it is
+ * derived from the open Rx by the division guide and rounded to what a gym
+ * actually has (plates, bells, balls). Derived loads are flagged so the UI
+ * can mark them as approximate.
+ */
+
+import { getDivisionGuide, getMovementById } from '../catalog/catalogService';
+import type { CatalogItem, UnitPreferences, UserSettings, Variant, WeightUnit } from '../types/catalog';
+import type {
+  AgeGroup,
+  AgeGroupGuide,
+  AthleteDivision,
+  Division,
+  StandardLevel,
+  WorkoutDefinition,
+  WorkoutLoad,
+  WorkoutMovement,
+} from '../types/workout';
+import { toDisplayUnit } from './units';
+import { formatWorkoutLoad } from './workout';
+
+export const DIVISION_LABELS: Record<Division, string> = {
+  men: 'Men',
+  women: 'Women',
+};
+
+/**
+ * One movement's load for an athlete at one level
+ */
+export interface AthleteLoad {
+  /** Load in `unit`, or a multiple of bodyweight */
+  load: { value: number; unit: WeightUnit } | { bodyweight: number };
+  /** Estimated from the open Rx by the division guide, not a listed standard */
+  derived: boolean;
+}
+
+/**
+ * A loaded movement's Rx and Scaled loads for an athlete
+ */
+export interface AthleteStandard {
+  movement: WorkoutMovement;
+  rx: AthleteLoad;
+  scaled: AthleteLoad;
+}
+
+/** Age groups in display order */
+export const getAgeGroups = (): AgeGroupGuide[] => getDivisionGuide().ageGroups;
+
+/**
+ * The athlete's division from settings, or null when none is set
+ */
+export const getAthleteDivision = (settings: Pick<UserSettings, 'division' | 'ageGroup'>): AthleteDivision | null =>
+  settings.division ? { division: settings.division, ageGroup: settings.ageGroup ?? 'open' } : null;
+
+/** "Women", "Men · Masters 40–44" */
+export const formatDivision = ({ division, ageGroup }: AthleteDivision): string => {
+  const guide = getAgeGroups().find((group) => group.id === ageGroup);
+  return ageGroup === 'open' || !guide ? DIVISION_LABELS[division] : `${DIVISION_LABELS[division]} · ${guide.label}`;
+};
+
+/** One division's side of a men/women load (the men's weight when only one is prescribed) */
+const divisionLoad = (load: WorkoutLoad, division: Division): AthleteLoad['load'] => {
+  if ('bodyweight' in load) return { bodyweight: load.bodyweight };
+  return { value: division === 'women' ? load.women ?? load.men : load.men, unit: load.unit };
+};
+
+/** Increment a derived load rounds to, from the movement's equipment */
+const roundingIncrement = (movementId: string, unit: WeightUnit): number => {
+  const { rounding } = getDivisionGuide();
+  const equipment = getMovementById(movementId)?.equipment ?? [];
+  return rounding[equipment.find((entry) => entry in rounding) ?? 'default'][unit];
+};
+
+const guideFactor = (ageGroup: AgeGroup, level: StandardLevel): number => {
+  const guide = getAgeGroups().find((group) => group.id === ageGroup);
+  if (!guide) return 1;
+  return level === 'Rx' ? guide.rx : guide.scaled;
+};
+
+/**
+ * A movement's load for the athlete at a level, or null for unloaded movements
+ */
+export const resolveMovementLoad = (
+  movement: WorkoutMovement,
+  athlete: AthleteDivision,
+  level: StandardLevel
+): AthleteLoad | null => {
+  if (!movement.load) return null;
+
+  const listed = movement.standards?.find(
+    (standard) => standard.level === level && standard.ageGroups.includes(athlete.ageGroup)
+  );
+  if (listed) return { load: divisionLoad(listed.load, athlete.division), derived: false };
+
+  const open = divisionLoad(movement.load, athlete.division);
+  const factor = guideFactor(athlete.ageGroup, level);
+  if (factor === 1) return { load: open, derived: false };
+  if ('bodyweight' in open) {
+    // Quarter-bodyweight steps
+    return { load: { bodyweight: Math.round(open.bodyweight * factor * 4) / 4 }, derived: true };
+  }
+  const increment = roundingIncrement(movement.movementId, open.unit);
+  const value = Math.max(increment, Math.round((open.value * factor) / increment) * increment);
+  return { load: { value, unit: open.unit }, derived: true };
+};
+
+/**
+ * Rx and Scaled loads for every loaded movement of a workout
+ */
+export const getAthleteStandards = (workout: WorkoutDefinition, athlete: AthleteDivision): AthleteStandard[] =>
+  workout.movements.flatMap((movement) => {
+    const rx = resolveMovementLoad(movement, athlete, 'Rx');
+    const scaled = resolveMovementLoad(movement, athlete, 'Scaled');
+    return rx && scaled ? [{ movement, rx, scaled }] : [];
+  });
+
+/**
+ * A load in the athlete's weight unit: "43 kg", "≈ 29.5 kg", "1.5× BW"
+ */
+export const formatAthleteLoad = ({ load, derived }: AthleteLoad, units: UnitPreferences): string => {
+  const text = 'bodyweight' in load
+    ? load.bodyweight === 1 ? 'BW' : `${load.bodyweight}× BW`
+    : `${toDisplayUnit(load.value, load.unit, units.weightUnit)} ${units.weightUnit}`;
+  return derived ? `≈ ${text}` : text;
+};
+
+const GENERIC_VARIANT_DESCRIPTIONS: Record<Exclude<Variant, null>, string> = {
+  Rx: 'As prescribed: every load and movement standard as written.',
+  Scaled: 'Lighter loads, fewer reps or modified movements.',
+  'Rx+': 'Heavier than prescribed or a harder movement standard.',
+};
+
+/**
+ * What logging a result at a variant means for this athlete on this item:
+ * their own loads when the item has a workout and a division is set
+ */
+export const describeVariant = (
+  variant: Variant,
+  item: CatalogItem,
+  athlete: AthleteDivision | null,
+  units: UnitPreferences
+): string | null => {
+  if (!variant) return null;
+  const workout = item.workout;
+  const prescribed = workout?.movements.flatMap((movement) =>
+    movement.load ? [`${movement.name} ${formatWorkoutLoad(movement.load, units)}`] : []
+  ) ?? [];
+  if (!workout || prescribed.length === 0) return GENERIC_VARIANT_DESCRIPTIONS[variant];
+
+  if (!athlete) {
+    return variant === 'Rx'
+      ? `As prescribed: ${prescribed.join(', ')}.`
+      : `${GENERIC_VARIANT_DESCRIPTIONS[variant]} Set your division in Settings to see your own loads.`;
+  }
+
+  const standards = getAthleteStandards(workout, athlete);
+  const summary = (level: 'rx' | 'scaled') =>
+    standards.map((standard) => `${standard.movement.name} ${formatAthleteLoad(standard[level], units)}`).join(', ');
+  const division = formatDivision(athlete);
+  switch (variant) {
+    case 'Rx':     return `Your Rx (${division}): ${summary('rx')}.`;
+    case 'Scaled': return `Your scaled loads (${division}): ${summary('scaled')}, or modified movements.`;
+    case 'Rx+':    return `Heavier than your Rx (${summary('rx')}) or a harder movement standard.`;
+  }
+};
@@ -0,0 +1,151 @@
+/**
+ * Units
+ *
+ * Load and distance results carry the unit they were entered in. These
+ * helpers convert them to the athlete's current units: exactly for
+ * comparisons (bests, goals), rounded to plate increments for display.
+ */
+
+import type { MeasureUnit, PRLog, ScoreType, UnitPreferences } from '../types/catalog';
+import type { Goal } from '../types/goal';
+import { SCORE_TYPES } from '../config/scoreTypes';
+import { extractRawResult, formatLogResult } from './resultParser';
+
+export const KG_PER_LB = 0.45359237;
+export const M_PER_FT = 0.3048;
+
+export const DEFAULT_UNITS: UnitPreferences = { weightUnit: 'kg', distanceUnit: 'm' };
+
+/** Size of one unit in its base unit (kg for weights, m for distances) */
+const BASE_FACTORS: Record<MeasureUnit, number> = { kg: 1, lb: KG_PER_LB, m: 1, ft: M_PER_FT };
+
+/**
+ * Smallest step a converted value is rounded to: the lightest pair of change
+ * plates for weights (2 × 0.25kg, 2 × 1.25lb), whole units for distances.
+ */
+export const UNIT_INCREMENTS: Record<MeasureUnit, number> = { kg: 0.5, lb: 2.5, m: 1, ft: 1 };
+
+const isWeightUnit = (unit: MeasureUnit): boolean => unit === 'kg' || unit === 'lb';
+
+/**
+ * The unit a score type is recorded in under the given preferences, or
+ * undefined for unitless scores (time, reps, …)
+ */
+export const preferredUnit = (scoreType: ScoreType, units: UnitPreferences): MeasureUnit | undefined => {
+  switch (SCORE_TYPES[scoreType].unit) {
+    case 'weight':   return units.weightUnit;
+    case 'distance': return units.distanceUnit;
+    default:         return undefined;
+  }
+};
+
+/**
+ * Exact conversion between two units of the same kind
+ */
+export const convertUnit = (value: number, from: MeasureUnit, to: MeasureUnit): number => {
+  if (from === to) return value;
+  if (isWeightUnit(from) !== isWeightUnit(to)) {
+    throw new Error(`Cannot convert ${from} to ${to}`);
+  }
+  return (value * BASE_FACTORS[from]) / BASE_FACTORS[to];
+};
+
+/**
+ * Round to the nearest increment of a unit (see `UNIT_INCREMENTS`)
+ */
+export const roundToIncrement = (value: number, unit: MeasureUnit): number => {
+  const increment = UNIT_INCREMENTS[unit];
+  // toFixed drops float noise such as 102.50000000000001
+  return Number((Math.round(value / increment) * increment).toFixed(2));
+};
+
+/**
+ * A value in `from` for display in `to`. Values already in `to` are shown as
+ * entered; converted ones are rounded to plate increments.
+ */
+export const toDisplayUnit = (value: number, from: MeasureUnit, to: MeasureUnit): number =>
+  from === to ? value : roundToIncrement(convertUnit(value, from, to), to);
+
+/**
+ * The unit a record's value is in. Records saved before units were stored
+ * fall back to the current preference (the old label-only behavior).
+ */
+const recordUnit = (
+  record: { unit?: MeasureUnit },
+  scoreType: ScoreType,
+  units: UnitPreferences
+): { from: MeasureUnit; to: MeasureUnit } | undefined => {
+  const to = preferredUnit(scoreType, units);
+  if (!to) return undefined;
+  const from = record.unit ?? to;
+  // A unit of the wrong kind can't be read under this score type; leave the value alone.
+  return isWeightUnit(from) === isWeightUnit(to) ? { from, to } : undefined;
+};
+
+/**
+ * A log's `resultValue` in the current units, unrounded. Use it wherever logs
+ * are compared, so mixed-unit histories rank correctly.
+ */
+export const comparableLogValue = (
+  log: Pick<PRLog, 'resultValue' | 'unit'>,
+  scoreType: ScoreType,
+  units: UnitPreferences
+): number => {
+  const conversion = recordUnit(log, scoreType, units);
+  return conversion ? convertUnit(log.resultValue, conversion.from, conversion.to) : log.resultValue;
+};
+
+/**
+ * A goal's `targetValue` in the current units, unrounded
+ */
+export const comparableGoalTarget = (
+  goal: Pick<Goal, 'targetValue' | 'unit'>,
+  scoreType: ScoreType,
+  units: UnitPreferences
+): number => {
+  const conversion = recordUnit(goal, scoreType, units);
+  return conversion ? convertUnit(goal.targetValue, conversion.from, conversion.to) : goal.targetValue;
+};
+
+/**
+ * A goal's `targetValue` for display in the current units
+ */
+export const displayGoalTarget = (
+  goal: Pick<Goal, 'targetValue' | 'unit'>,
+  scoreType: ScoreType,
+  units: UnitPreferences
+): number => {
+  const conversion = recordUnit(goal, scoreType, units);
+  return conversion ? toDisplayUnit(goal.targetValue, conversion.from, conversion.to) : goal.targetValue;
+};
+
+/**
+ * A log as seen in the current units: `resultValue` converted exactly,
+ * `result` rebuilt with the value rounded to plate increments. Logs already
+ * in the current units (and unitless ones) come back unchanged.
+ */
+export const localizeLog = (log: PRLog, scoreType: ScoreType, units: UnitPreferences): PRLog => {
+  const conversion = recordUnit(log, scoreType, units);
+  if (!conversion || conversion.from === conversion.to) return log;
+
+  const raw = parseFloat(extractRawResult(log.result, scoreType));
+  const displayValue = Number.isNaN(raw) ? log.resultValue : raw;
+  const result = formatLogResult(String(toDisplayUnit(displayValue, conversion.from, conversion.to)), scoreType, {
+    reps: log.reps,
+    weightUnit: units.weightUnit,
+    distanceUnit: units.distanceUnit,
+  });
+
+  return {
+    ...log,
+    result,
+    resultValue: convertUnit(log.resultValue, conversion.from, conversion.to),
+    unit: conversion.to,
+  };
+};
+
+/**
+ * A log's result string in the current units
+ */
+export const displayLogResult = (log: PRLog, scoreType: ScoreType, units: UnitPreferences): string =>
+  localizeLog(log, scoreType, units).result;
@@ -0,0 +1,157 @@
+/**
+ * Workout Definitions
+ *
+ * Formatting of a benchmark's structured `workout` for display — loads and
+ * box heights in the athlete's units, course distances as prescribed — and
+ * the rep volume it implies.
+ */
+
+import type { UnitPreferences } from '../types/catalog';
+import type {
+  WorkoutDefinition,
+  WorkoutDistance,
+  WorkoutHeight,
+  WorkoutLoad,
+  WorkoutMovement,
+} from '../types/workout';
+import { formatSecondsToTime } from './resultParser';
+import { formatDuration } from './i18n';
+import { toDisplayUnit } from './units';
+
+const CM_PER_IN = 2.54;
+const IN_PER_FT = 12;
+
+/** "20 min" for whole minutes, "1:30" otherwise (see `formatDuration`) */
+export const formatWorkoutDuration = (seconds: number): string => formatDuration(seconds);
+
+/**
+ * Rx load in the athlete's weight unit: "43/29.5 kg", "1.5× BW"
+ */
+export const formatWorkoutLoad = (load: WorkoutLoad, units: UnitPreferences): string => {
+  if ('bodyweight' in load) {
+    return load.bodyweight === 1 ? 'BW' : `${load.bodyweight}× BW`;
+  }
+  const men = toDisplayUnit(load.men, load.unit, units.weightUnit);
+  if (load.women === undefined) return `${men} ${units.weightUnit}`;
+  const women = toDisplayUnit(load.women, load.unit, units.weightUnit);
+  return `${men}/${women} ${units.weightUnit}`;
+};
+
+/**
+ * Box or target height: inches for imperial preferences, centimeters for metric
+ */
+export const formatWorkoutHeight = (height: WorkoutHeight, units: UnitPreferences): string => {
+  const toInches = (value: number): number =>
+    height.unit === 'in' ? value : height.unit === 'ft' ? value * IN_PER_FT : value / CM_PER_IN;
+  const convert = (value: number): number =>
+    units.distanceUnit === 'ft' ? Math.round(toInches(value)) : Math.round(toInches(value) * CM_PER_IN);
+  const unit = units.distanceUnit === 'ft' ? '"' : ' cm';
+  const men = convert(height.men);
+  return height.women === undefined || height.women === height.men
+    ? `${men}${unit}`
+    : `${men}/${convert(height.women)}${unit}`;
+};
+
+/** Course distance as prescribed: "400m", "50 ft" */
+export const formatWorkoutDistance = (distance: WorkoutDistance): string =>
+  distance.unit === 'm' || distance.unit === 'km'
+    ? `${distance.value}${distance.unit}`
+    : `${distance.value} ${distance.unit}`;
+
+/**
+ * Amount of work for a movement: "21", "Max", "400m", "50 cal"
+ */
+const movementQuantity = (movement: WorkoutMovement): string | undefined => {
+  if (movement.max) return 'Max';
+  if (movement.distance) return formatWorkoutDistance(movement.distance);
+  if (movement.calories !== undefined) return `${movement.calories} cal`;
+  if (movement.reps !== undefined) return String(movement.reps);
+  return undefined;
+};
+
+/**
+ * One movement line: "21 Thrusters" plus its details ("43/29.5 kg", "each arm")
+ */
+export const formatWorkoutMovement = (
+  movement: WorkoutMovement,
+  units: UnitPreferences
+): { label: string; details: string[] } => {
+  const quantity = movementQuantity(movement);
+  const details = [
+    movement.load && formatWorkoutLoad(movement.load, units),
+    movement.height && formatWorkoutHeight(movement.height, units),
+    movement.notes,
+  ].filter((detail): detail is string => Boolean(detail));
+  return { label: quantity ? `${quantity} ${movement.name}` : movement.name, details };
+};
+
+/**
+ * Short description of how the workout is run, one entry per fact:
+ * ["5 rounds for time", "21-15-9", "Time cap 20 min"]
+ */
+export const formatWorkoutStructure = (workout: WorkoutDefinition): string[] => {
+  const parts: string[] = [];
+  const rounds = workout.rounds && workout.rounds > 1 ? workout.rounds : undefined;
+
+  switch (workout.format) {
+    case 'ForTime':
+      parts.push(rounds ? `${rounds} rounds for time` : 'For time');
+      break;
+    case 'AMRAP':
+      parts.push(workout.duration ? `AMRAP ${formatWorkoutDuration(workout.duration)}` : 'AMRAP');
+      if (rounds) parts.push(`${rounds} cycles`);
+      break;
+    case 'EMOM': {
+      const every = workout.interval && workout.interval !== 60
+        ? `Every ${formatSecondsToTime(workout.interval)}`
+        : 'EMOM';
+      parts.push(workout.duration ? `${every} for ${formatWorkoutDuration(workout.duration)}` : every);
+      break;
+    }
+    case 'Intervals':
+      parts.push(rounds ? `${rounds} rounds` : 'Intervals');
+      if (workout.interval) parts.push(`${workout.interval < 60 ? `${workout.interval} sec` : formatWorkoutDuration(workout.interval)} work`);
+      break;
+    case 'MaxReps':
+      parts.push(rounds ? `${rounds} rounds for max reps` : 'Max reps');
+      break;
+    case 'MaxLoad':
+      parts.push(rounds ? `${rounds} sets, max load` : 'Max load');
+      break;
+  }
+
+  if (workout.repScheme) parts.push(workout.repScheme.join('-'));
+  if (workout.repIncrement) parts.push(`+${workout.repIncrement} reps each round`);
+  if (workout.rest) parts.push(`Rest ${workout.rest < 60 ? `${workout.rest} sec` : formatWorkoutDuration(workout.rest)}`);
+  if (workout.timeCap) parts.push(`Time cap ${formatWorkoutDuration(workout.timeCap)}`);
+  return parts;
+};
+
+/**
+ * Reps of a movement in each round — from the rep scheme when there is one.
+ * Undefined for movements measured by distance, calories or max effort, or
+ * prescribed without a count.
+ */
+export const getMovementReps = (workout: WorkoutDefinition, movement: WorkoutMovement): number[] | undefined => {
+  if (movement.max || movement.distance || movement.calories !== undefined) return undefined;
+  if (workout.repScheme) return workout.repScheme;
+  return movement.reps !== undefined ? [movement.reps] : undefined;
+};
+
+/**
+ * Total reps of a fixed-volume workout (for time, no ladders or max sets;
+ * distance and calorie pieces don't count). Undefined when the volume
+ * depends on the athlete.
+ */
+export const getTotalReps = (workout: WorkoutDefinition): number | undefined => {
+  if (workout.format !== 'ForTime' || workout.repIncrement) return undefined;
+
+  let total = 0;
+  for (const movement of workout.movements) {
+    if (movement.distance || movement.calories !== undefined) continue;
+    const reps = getMovementReps(workout, movement);
+    if (!reps) return undefined;
+    total += reps.reduce((sum, count) => sum + count, 0);
+  }
+  return total > 0 ? total * (workout.rounds ?? 1) : undefined;
+};
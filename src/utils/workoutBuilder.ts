@@ -0,0 +1,224 @@
+/**
+ * Workout Builder
+ *
+ * Editable draft of a custom benchmark's structured workout and its
+ * conversion to and from a `WorkoutDefinition`. The draft keeps form values
+ * as text; building is lenient (blank or unparsable fields are left out) so
+ * a half-finished draft still previews, and the catalog rules
+ * (utils/catalogValidation) report what is missing.
+ */
+
+import { getMovementById } from '../catalog/catalogService';
+import { formatSecondsToTime, parseTimeToSeconds } from './resultParser';
+import type { ScoreType, WeightUnit } from '../types/catalog';
+import type { DivisionStandard, WorkoutDefinition, WorkoutFormat, WorkoutLoad, WorkoutMovement } from '../types/workout';
+
+/**
+ * How reps are laid out over the workout
+ */
+export type RepStructure =
+  | 'chipper'  // Each movement once, top to bottom
+  | 'rounds'   // The movement list repeated `rounds` times
+  | 'scheme'   // Every movement follows the rep scheme, e.g. 21-15-9
+  | 'ladder';  // Reps grow by `repIncrement` every round
+
+/** What a movement's amount counts */
+export type MovementAmount = 'reps' | 'calories' | 'max';
+
+/** Men's and women's weight as typed */
+export interface LoadDraft {
+  men: string;
+  women: string;
+}
+
+export interface WorkoutMovementDraft {
+  movementId: string;
+  name: string;
+  amount: MovementAmount;
+  /** Reps or calories; start reps for ladders, unused with a rep scheme */
+  count: string;
+  unit: WeightUnit;
+  rx: LoadDraft;
+  scaled: LoadDraft;
+  notes: string;
+  /** Movement this draft was loaded from; fields the builder doesn't edit (distance, height, other standards) carry over */
+  base?: WorkoutMovement;
+}
+
+export interface WorkoutDraft {
+  format: WorkoutFormat;
+  structure: RepStructure;
+  rounds: string;
+  repScheme: string;
+  repIncrement: string;
+  /** "MM:SS" like TimeInput */
+  duration: string;
+  interval: string;
+  timeCap: string;
+  notes: string;
+  movements: WorkoutMovementDraft[];
+  /** Workout this draft was loaded from (rest, scoring notes carry over) */
+  base?: WorkoutDefinition;
+}
+
+export const REP_STRUCTURE_LABELS: Record<RepStructure, string> = {
+  chipper: 'Chipper',
+  rounds: 'Rounds',
+  scheme: 'Rep scheme',
+  ladder: 'Ladder',
+};
+
+/** Which timing fields a format uses */
+export const usesTimeCap = (format: WorkoutFormat): boolean => format === 'ForTime' || format === 'MaxReps';
+export const usesDuration = (format: WorkoutFormat): boolean => format === 'AMRAP' || format === 'EMOM' || format === 'MaxLoad';
+export const usesInterval = (format: WorkoutFormat): boolean => format === 'EMOM' || format === 'Intervals';
+
+const EMPTY_LOAD: LoadDraft = { men: '', women: '' };
+
+export const createWorkoutDraft = (): WorkoutDraft => ({
+  format: 'ForTime',
+  structure: 'scheme',
+  rounds: '',
+  repScheme: '21-15-9',
+  repIncrement: '',
+  duration: '',
+  interval: '',
+  timeCap: '',
+  notes: '',
+  movements: [],
+});
+
+/**
+ * A new movement line for a library movement, loads in `unit`
+ */
+export const createMovementDraft = (movementId: string, unit: WeightUnit): WorkoutMovementDraft => ({
+  movementId,
+  name: getMovementById(movementId)?.name ?? movementId,
+  amount: 'reps',
+  count: '',
+  unit,
+  rx: EMPTY_LOAD,
+  scaled: EMPTY_LOAD,
+  notes: '',
+});
+
+/** "21-15-9", "21, 15, 9" → [21, 15, 9]; undefined unless every entry is a number */
+export const parseRepScheme = (text: string): number[] | undefined => {
+  const parts = text.split(/[^0-9]+/).filter(Boolean).map(Number);
+  return parts.length > 0 && parts.every((reps) => reps > 0) ? parts : undefined;
+};
+
+const parseCount = (text: string): number | undefined => {
+  const value = parseInt(text, 10);
+  return value > 0 ? value : undefined;
+};
+
+const parseWeight = (text: string): number | undefined => {
+  const value = parseFloat(text);
+  return value > 0 ? value : undefined;
+};
+
+const parseSeconds = (text: string): number | undefined => (text ? parseTimeToSeconds(text) || undefined : undefined);
+
+const formatCount = (value: number | undefined): string => (value !== undefined ? String(value) : '');
+
+const formatSeconds = (value: number | undefined): string => (value ? formatSecondsToTime(value) : '');
+
+const buildLoad = (draft: LoadDraft, unit: WeightUnit): WorkoutLoad | undefined => {
+  const men = parseWeight(draft.men);
+  const women = parseWeight(draft.women);
+  if (men === undefined) return undefined;
+  return women === undefined ? { men, unit } : { men, women, unit };
+};
+
+const loadDraft = (load: WorkoutLoad | undefined): LoadDraft =>
+  load && !('bodyweight' in load) ? { men: formatCount(load.men), women: formatCount(load.women) } : EMPTY_LOAD;
+
+/** The open Scaled standard — the builder's "Scaled" load */
+const isOpenScaled = (standard: DivisionStandard): boolean =>
+  standard.level === 'Scaled' && standard.ageGroups.length === 1 && standard.ageGroups[0] === 'open';
+
+/**
+ * A movement line as a workout movement. Fields the builder doesn't edit
+ * (distance, height, other standards) carry over from the loaded movement.
+ */
+const buildMovement = (draft: WorkoutMovementDraft, repsFromScheme: boolean): WorkoutMovement => {
+  const count = parseCount(draft.count);
+  const base = draft.base;
+  // A bodyweight load from the loaded workout stays unless Rx weights replace it
+  const load = buildLoad(draft.rx, draft.unit) ?? (base?.load && 'bodyweight' in base.load ? base.load : undefined);
+  const scaled = buildLoad(draft.scaled, draft.unit);
+  const standards: DivisionStandard[] = [
+    ...(base?.standards ?? []).filter((standard) => !isOpenScaled(standard)),
+    ...(scaled ? [{ ageGroups: ['open'], level: 'Scaled', load: scaled } satisfies DivisionStandard] : []),
+  ];
+
+  return {
+    ...base,
+    movementId: draft.movementId,
+    name: draft.name.trim() || draft.movementId,
+    reps: draft.amount === 'reps' && !repsFromScheme && !base?.distance ? count : undefined,
+    calories: draft.amount === 'calories' ? count : undefined,
+    max: draft.amount === 'max' || undefined,
+    load,
+    standards: standards.length > 0 ? standards : undefined,
+    notes: draft.notes.trim() || undefined,
+  };
+};
+
+/**
+ * The workout a draft describes, scored by `scoreType`. Fields the builder
+ * doesn't edit (rest, scoring notes) carry over from the loaded workout.
+ */
+export const buildWorkout = (draft: WorkoutDraft, scoreType: ScoreType): WorkoutDefinition => {
+  const repScheme = draft.structure === 'scheme' ? parseRepScheme(draft.repScheme) : undefined;
+  return {
+    ...draft.base,
+    format: draft.format,
+    rounds: draft.structure !== 'chipper' ? parseCount(draft.rounds) : undefined,
+    repScheme,
+    repIncrement: draft.structure === 'ladder' ? parseCount(draft.repIncrement) : undefined,
+    duration: usesDuration(draft.format) ? parseSeconds(draft.duration) : undefined,
+    interval: usesInterval(draft.format) ? parseSeconds(draft.interval) : undefined,
+    timeCap: usesTimeCap(draft.format) ? parseSeconds(draft.timeCap) : undefined,
+    notes: draft.notes.trim() || undefined,
+    movements: draft.movements.map((movement) => buildMovement(movement, repScheme !== undefined)),
+    scoring: { ...draft.base?.scoring, scoreType },
+  };
+};
+
+const structureOf = (workout: WorkoutDefinition): RepStructure => {
+  if (workout.repScheme) return 'scheme';
+  if (workout.repIncrement) return 'ladder';
+  return workout.rounds && workout.rounds > 1 ? 'rounds' : 'chipper';
+};
+
+/**
+ * Draft of an existing workout, for editing
+ */
+export const draftFromWorkout = (workout: WorkoutDefinition, unit: WeightUnit): WorkoutDraft => ({
+  format: workout.format,
+  structure: structureOf(workout),
+  rounds: formatCount(workout.rounds),
+  repScheme: workout.repScheme?.join('-') ?? '',
+  repIncrement: formatCount(workout.repIncrement),
+  duration: formatSeconds(workout.duration),
+  interval: formatSeconds(workout.interval),
+  timeCap: formatSeconds(workout.timeCap),
+  notes: workout.notes ?? '',
+  movements: workout.movements.map((movement) => {
+    const scaled = movement.standards?.find(isOpenScaled)?.load;
+    return {
+      movementId: movement.movementId,
+      name: movement.name,
+      amount: movement.max ? 'max' : movement.calories !== undefined ? 'calories' : 'reps',
+      count: formatCount(movement.calories ?? movement.reps),
+      unit: movement.load && !('bodyweight' in movement.load) ? movement.load.unit : unit,
+      rx: loadDraft(movement.load),
+      scaled: loadDraft(scaled),
+      notes: movement.notes ?? '',
+      base: movement,
+    };
+  }),
+  base: workout,
+});